@@ -1,5 +1,6 @@
-import { Address, encodeAbiParameters, Hex } from "viem";
+import { Address, decodeAbiParameters, encodeAbiParameters, Hex } from "viem";
 import { PermitSingle } from "./Permit2";
+import { DecodedV4Action, decodeV4Actions } from "./V4ActionBuilder";
 
 export enum CommandType {
   V3_SWAP_EXACT_IN = 0x00,
@@ -36,54 +37,141 @@ const PERMIT_STRUCT = {
 
 const ABI_DEFINITION: { [key in CommandType]: any[] } = {
   [CommandType.V3_SWAP_EXACT_IN]: [
-    { type: "address" },
-    { type: "uint256" },
-    { type: "uint256" },
-    { type: "bytes" },
-    { type: "bool" },
+    { name: "recipient", type: "address" },
+    { name: "amountIn", type: "uint256" },
+    { name: "amountOutMin", type: "uint256" },
+    { name: "path", type: "bytes" },
+    { name: "payerIsUser", type: "bool" },
   ],
   [CommandType.V3_SWAP_EXACT_OUT]: [
-    { type: "address" },
-    { type: "uint256" },
-    { type: "uint256" },
-    { type: "bytes" },
-    { type: "bool" },
+    { name: "recipient", type: "address" },
+    { name: "amountOut", type: "uint256" },
+    { name: "amountInMax", type: "uint256" },
+    { name: "path", type: "bytes" },
+    { name: "payerIsUser", type: "bool" },
+  ],
+  [CommandType.PERMIT2_PERMIT]: [
+    PERMIT_STRUCT,
+    { name: "signature", type: "bytes" },
   ],
-  [CommandType.PERMIT2_PERMIT]: [PERMIT_STRUCT, { type: "bytes" }],
   [CommandType.PERMIT2_TRANSFER_FROM]: [
-    { type: "address" },
-    { type: "address" },
-    { type: "uint256" },
+    { name: "token", type: "address" },
+    { name: "recipient", type: "address" },
+    { name: "amount", type: "uint256" },
+  ],
+  [CommandType.V4_SWAP]: [
+    { name: "actions", type: "bytes" },
+    { name: "params", type: "bytes[]" },
+  ],
+  [CommandType.WRAP_ETH]: [
+    { name: "recipient", type: "address" },
+    { name: "amount", type: "uint256" },
+  ],
+  [CommandType.UNWRAP_WETH]: [
+    { name: "recipient", type: "address" },
+    { name: "amountMin", type: "uint256" },
   ],
-  [CommandType.V4_SWAP]: [{ type: "bytes" }, { type: "bytes[]" }],
-  [CommandType.WRAP_ETH]: [{ type: "address" }, { type: "uint256" }],
-  [CommandType.UNWRAP_WETH]: [{ type: "address" }, { type: "uint256" }],
   [CommandType.V2_SWAP_EXACT_IN]: [
-    { type: "address" },
-    { type: "uint256" },
-    { type: "uint256" },
-    { type: "address[]" },
-    { type: "bool" },
+    { name: "recipient", type: "address" },
+    { name: "amountIn", type: "uint256" },
+    { name: "amountOutMin", type: "uint256" },
+    { name: "path", type: "address[]" },
+    { name: "payerIsUser", type: "bool" },
   ],
   [CommandType.V2_SWAP_EXACT_OUT]: [
-    { type: "address" },
-    { type: "uint256" },
-    { type: "uint256" },
-    { type: "address[]" },
-    { type: "bool" },
+    { name: "recipient", type: "address" },
+    { name: "amountOut", type: "uint256" },
+    { name: "amountInMax", type: "uint256" },
+    { name: "path", type: "address[]" },
+    { name: "payerIsUser", type: "bool" },
   ],
   [CommandType.SWEEP]: [
-    { type: "address" },
-    { type: "address" },
-    { type: "uint256" },
+    { name: "token", type: "address" },
+    { name: "recipient", type: "address" },
+    { name: "amountMin", type: "uint256" },
   ],
   [CommandType.PAY_PORTION]: [
-    { type: "address" },
-    { type: "address" },
-    { type: "uint256" },
+    { name: "token", type: "address" },
+    { name: "recipient", type: "address" },
+    { name: "bips", type: "uint256" },
   ],
 };
 
+// The high bit of a command byte lets it revert without reverting the batch
+const FLAG_ALLOW_REVERT = 0x80;
+const COMMAND_TYPE_MASK = 0x3f;
+
+/**
+ * A Universal Router command decoded from its command byte and input
+ */
+export type DecodedCommand = {
+  type: CommandType;
+  /** Command name, e.g. `V3_SWAP_EXACT_IN`, or `UNKNOWN_0x05` */
+  name: string;
+  /** Whether the command may fail without reverting the whole batch */
+  allowRevert: boolean;
+  /** Decoded parameters keyed by name, or the raw `input` for unknown commands */
+  params: Record<string, unknown>;
+  /** Nested actions of a V4_SWAP command */
+  actions?: DecodedV4Action[];
+};
+
+/**
+ * Decodes Universal Router `commands` and `inputs` into named commands.
+ * Commands this package cannot build are returned as `UNKNOWN_0x..` with their
+ * raw input, so a whole transaction can always be inspected.
+ *
+ * @param commands - One byte per command
+ * @param inputs - ABI-encoded parameters, one per command
+ * @returns The decoded commands in execution order
+ *
+ * @example
+ * ```typescript
+ * const [commands, inputs] = new CommandBuilder()
+ *   .addWrapEth(ADDRESS_THIS, amount)
+ *   .build();
+ * decodeCommands(commands, inputs);
+ * // [{ name: "WRAP_ETH", params: { recipient: ADDRESS_THIS, amount }, ... }]
+ * ```
+ */
+export function decodeCommands(
+  commands: Hex,
+  inputs: readonly Hex[]
+): DecodedCommand[] {
+  const bytes = (commands.slice(2).match(/../g) ?? []).map((byte) =>
+    parseInt(byte, 16)
+  );
+  if (bytes.length !== inputs.length) {
+    throw new Error(
+      `Expected one input per command, got ${bytes.length} commands and ${inputs.length} inputs`
+    );
+  }
+
+  return bytes.map((byte, i) => {
+    const type = byte & COMMAND_TYPE_MASK;
+    const allowRevert = (byte & FLAG_ALLOW_REVERT) !== 0;
+    const definition = ABI_DEFINITION[type as CommandType];
+    if (!definition) {
+      const name = `UNKNOWN_0x${type.toString(16).padStart(2, "0")}`;
+      return { type, name, allowRevert, params: { input: inputs[i] } };
+    }
+
+    const values = decodeAbiParameters(definition, inputs[i]);
+    const params = Object.fromEntries(
+      definition.map((param, j) => [param.name, values[j]])
+    );
+    return {
+      type,
+      name: CommandType[type],
+      allowRevert,
+      params,
+      ...(type === CommandType.V4_SWAP && {
+        actions: decodeV4Actions(params.actions as Hex, params.params as Hex[]),
+      }),
+    };
+  });
+}
+
 export class CommandBuilder {
   commands: Hex = "0x";
   inputs: Hex[] = [];
@@ -0,0 +1,178 @@
+import {
+  Address,
+  decodeFunctionData,
+  Hash,
+  Hex,
+  hexToNumber,
+  PublicClient,
+  sliceHex,
+} from "viem";
+import { DecodedCommand, decodeCommands } from "./CommandBuilder";
+import { universalRouterAbi } from "./UniversalRouterABI";
+
+/**
+ * A decoded `execute` call
+ */
+export type DecodedExecute = {
+  commands: DecodedCommand[];
+  /** Only set for the `execute` overload that takes a deadline */
+  deadline?: bigint;
+};
+
+/**
+ * A decoded `execute` transaction, with its sender and ETH value
+ */
+export type DecodedExecuteTransaction = DecodedExecute & {
+  hash: Hash;
+  from: Address;
+  to: Address | null;
+  value: bigint;
+};
+
+const RECIPIENT_LABELS: Record<string, string> = {
+  "0x0000000000000000000000000000000000000001": "MSG_SENDER",
+  "0x0000000000000000000000000000000000000002": "ADDRESS_THIS",
+};
+
+/**
+ * Splits a packed V3 path into its tokens and fee tiers
+ * @param path - `token (20 bytes) | fee (3 bytes) | token | ...`
+ */
+export function decodeV3Path(path: Hex): {
+  tokens: Address[];
+  fees: number[];
+} {
+  const tokens: Address[] = [];
+  const fees: number[] = [];
+  let offset = 0;
+  const size = (path.length - 2) / 2;
+  while (offset + 20 <= size) {
+    tokens.push(sliceHex(path, offset, offset + 20));
+    offset += 20;
+    if (offset + 3 > size) break;
+    fees.push(hexToNumber(sliceHex(path, offset, offset + 3)));
+    offset += 3;
+  }
+  return { tokens, fees };
+}
+
+/**
+ * Decodes the calldata of a Universal Router `execute` call
+ * @param data - Transaction input, with or without the deadline argument
+ * @returns The decoded commands, including nested V4 actions
+ */
+export function decodeExecuteCalldata(data: Hex): DecodedExecute {
+  const { functionName, args } = decodeFunctionData({
+    abi: universalRouterAbi,
+    data,
+  });
+  if (functionName !== "execute") {
+    throw new Error(`Expected an execute call, got ${functionName}`);
+  }
+
+  const [commands, inputs, deadline] = args as readonly [
+    Hex,
+    readonly Hex[],
+    bigint?
+  ];
+  return {
+    commands: decodeCommands(commands, inputs),
+    ...(deadline !== undefined && { deadline }),
+  };
+}
+
+/**
+ * Fetches a transaction and decodes it as a Universal Router `execute` call
+ * @param hash - Transaction hash
+ * @param publicClient - Client for the chain the transaction was sent on
+ */
+export async function decodeExecuteTransaction(
+  hash: Hash,
+  publicClient: PublicClient
+): Promise<DecodedExecuteTransaction> {
+  const transaction = await publicClient.getTransaction({ hash });
+  return {
+    ...decodeExecuteCalldata(transaction.input),
+    hash,
+    from: transaction.from,
+    to: transaction.to,
+    value: transaction.value,
+  };
+}
+
+function formatValue(name: string, value: unknown): string {
+  if (typeof value === "bigint" || typeof value === "number") {
+    return value.toString();
+  }
+  if (typeof value === "string") {
+    const label = RECIPIENT_LABELS[value.toLowerCase()];
+    if (label) return label;
+    if (name === "path" && value.startsWith("0x")) {
+      const { tokens, fees } = decodeV3Path(value as Hex);
+      return tokens
+        .map((token, i) =>
+          i < fees.length ? `${token} -[${fees[i]}]->` : token
+        )
+        .join(" ");
+    }
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return name === "path"
+      ? value.map((item) => formatValue("", item)).join(" -> ")
+      : `[${value.map((item) => formatValue("", item)).join(", ")}]`;
+  }
+  if (value && typeof value === "object") {
+    const fields = Object.entries(value).map(
+      ([key, field]) => `${key}: ${formatValue(key, field)}`
+    );
+    return `{ ${fields.join(", ")} }`;
+  }
+  return String(value);
+}
+
+function formatParams(params: Record<string, unknown>): string {
+  return Object.entries(params)
+    .map(([name, value]) => `${name}=${formatValue(name, value)}`)
+    .join(" ");
+}
+
+/**
+ * Renders decoded commands as one line per command, with V4 actions indented
+ * under their V4_SWAP command. Router placeholders are shown as `MSG_SENDER`
+ * and `ADDRESS_THIS`, and V3 paths as `tokenA -[fee]-> tokenB`.
+ *
+ * @example
+ * ```typescript
+ * console.log(formatExecute(await decodeExecuteTransaction(hash, publicClient)));
+ * // value: 100000000000000000
+ * // deadline: 1735689600
+ * // 1. WRAP_ETH recipient=ADDRESS_THIS amount=100000000000000000
+ * // 2. V3_SWAP_EXACT_IN recipient=0x... amountIn=... path=0x4200... -[3000]-> 0x...
+ * ```
+ */
+export function formatExecute(
+  decoded: DecodedExecute & { value?: bigint }
+): string {
+  const lines: string[] = [];
+  if (decoded.value !== undefined) lines.push(`value: ${decoded.value}`);
+  if (decoded.deadline !== undefined) {
+    lines.push(`deadline: ${decoded.deadline}`);
+  }
+
+  decoded.commands.forEach((command, i) => {
+    const flag = command.allowRevert ? " (allow revert)" : "";
+    if (command.actions) {
+      lines.push(`${i + 1}. ${command.name}${flag}`);
+      command.actions.forEach((action, j) => {
+        const params = formatParams(action.params);
+        lines.push(`   ${i + 1}.${j + 1}. ${action.name} ${params}`);
+      });
+    } else {
+      const params = formatParams(command.params);
+      lines.push(`${i + 1}. ${command.name}${flag} ${params}`);
+    }
+  });
+
+  return lines.join("\n");
+}
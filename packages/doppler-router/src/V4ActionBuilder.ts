@@ -1,4 +1,4 @@
-import { Address, encodeAbiParameters, Hex } from "viem";
+import { Address, decodeAbiParameters, encodeAbiParameters, Hex } from "viem";
 
 export enum V4ActionType {
   INCREASE_LIQUIDITY = 0x00,
@@ -13,10 +13,13 @@ export enum V4ActionType {
   SWAP_EXACT_OUT = 0x09,
   SETTLE = 0x0b,
   SETTLE_ALL = 0x0c,
+  SETTLE_PAIR = 0x0d,
   TAKE = 0x0e,
   TAKE_ALL = 0x0f,
   TAKE_PORTION = 0x10,
+  TAKE_PAIR = 0x11,
   CLOSE_CURRENCY = 0x12,
+  CLEAR_OR_TAKE = 0x13,
   SWEEP = 0x14,
   WRAP = 0x15,
   UNWRAP = 0x16,
@@ -34,12 +37,32 @@ const POOL_KEY_STRUCT = {
   ],
 } as const;
 
+export type PoolKey = {
+  currency0: Address;
+  currency1: Address;
+  fee: number;
+  tickSpacing: number;
+  hooks: Address;
+};
+
+/**
+ * One hop of a multi-hop V4 swap. The first hop starts from the input
+ * currency of the swap (or ends at the output currency for exact output).
+ */
+export type PathKey = {
+  intermediateCurrency: Address;
+  fee: number;
+  tickSpacing: number;
+  hooks: Address;
+  hookData: Hex;
+};
+
 const PATH_KEY_STRUCT = {
   name: "pathKey",
   type: "tuple",
   components: [
     { name: "intermediateCurrency", type: "address" },
-    { name: "fee", type: "uint256" },
+    { name: "fee", type: "uint24" },
     { name: "tickSpacing", type: "int24" },
     { name: "hooks", type: "address" },
     { name: "hookData", type: "bytes" },
@@ -48,49 +71,49 @@ const PATH_KEY_STRUCT = {
 
 const ABI_DEFINITION: { [key in V4ActionType]: any[] } = {
   [V4ActionType.INCREASE_LIQUIDITY]: [
-    { type: "uint256" },
-    { type: "uint256" },
-    { type: "uint128" },
-    { type: "uint128" },
-    { type: "bytes" },
+    { name: "tokenId", type: "uint256" },
+    { name: "liquidity", type: "uint256" },
+    { name: "amount0Max", type: "uint128" },
+    { name: "amount1Max", type: "uint128" },
+    { name: "hookData", type: "bytes" },
   ],
   [V4ActionType.DECREASE_LIQUIDITY]: [
-    { type: "uint256" },
-    { type: "uint256" },
-    { type: "uint128" },
-    { type: "uint128" },
-    { type: "bytes" },
+    { name: "tokenId", type: "uint256" },
+    { name: "liquidity", type: "uint256" },
+    { name: "amount0Min", type: "uint128" },
+    { name: "amount1Min", type: "uint128" },
+    { name: "hookData", type: "bytes" },
   ],
   [V4ActionType.MINT_POSITION]: [
     POOL_KEY_STRUCT,
-    { type: "int24" },
-    { type: "int24" },
-    { type: "uint256" },
-    { type: "uint128" },
-    { type: "uint128" },
-    { type: "address" },
-    { type: "bytes" },
+    { name: "tickLower", type: "int24" },
+    { name: "tickUpper", type: "int24" },
+    { name: "liquidity", type: "uint256" },
+    { name: "amount0Max", type: "uint128" },
+    { name: "amount1Max", type: "uint128" },
+    { name: "owner", type: "address" },
+    { name: "hookData", type: "bytes" },
   ],
   [V4ActionType.BURN_POSITION]: [
-    { type: "uint256" },
-    { type: "uint128" },
-    { type: "uint128" },
-    { type: "bytes" },
+    { name: "tokenId", type: "uint256" },
+    { name: "amount0Min", type: "uint128" },
+    { name: "amount1Min", type: "uint128" },
+    { name: "hookData", type: "bytes" },
   ],
   [V4ActionType.INCREASE_LIQUIDITY_FROM_DELTAS]: [
-    { type: "uint256" },
-    { type: "uint128" },
-    { type: "uint128" },
-    { type: "bytes" },
+    { name: "tokenId", type: "uint256" },
+    { name: "amount0Max", type: "uint128" },
+    { name: "amount1Max", type: "uint128" },
+    { name: "hookData", type: "bytes" },
   ],
   [V4ActionType.MINT_POSITION_FROM_DELTAS]: [
     POOL_KEY_STRUCT,
-    { type: "int24" },
-    { type: "int24" },
-    { type: "uint128" },
-    { type: "uint128" },
-    { type: "address" },
-    { type: "bytes" },
+    { name: "tickLower", type: "int24" },
+    { name: "tickUpper", type: "int24" },
+    { name: "amount0Max", type: "uint128" },
+    { name: "amount1Max", type: "uint128" },
+    { name: "owner", type: "address" },
+    { name: "hookData", type: "bytes" },
   ],
   [V4ActionType.SWAP_EXACT_IN_SINGLE]: [
     {
@@ -151,28 +174,108 @@ const ABI_DEFINITION: { [key in V4ActionType]: any[] } = {
     },
   ],
   [V4ActionType.SETTLE]: [
-    { type: "address" },
-    { type: "uint256" },
-    { type: "bool" },
+    { name: "currency", type: "address" },
+    { name: "amount", type: "uint256" },
+    { name: "payerIsUser", type: "bool" },
+  ],
+  [V4ActionType.SETTLE_ALL]: [
+    { name: "currency", type: "address" },
+    { name: "maxAmount", type: "uint256" },
+  ],
+  [V4ActionType.SETTLE_PAIR]: [
+    { name: "currency0", type: "address" },
+    { name: "currency1", type: "address" },
   ],
-  [V4ActionType.SETTLE_ALL]: [{ type: "address" }, { type: "uint256" }],
   [V4ActionType.TAKE]: [
-    { type: "address" },
-    { type: "address" },
-    { type: "uint256" },
+    { name: "currency", type: "address" },
+    { name: "recipient", type: "address" },
+    { name: "amount", type: "uint256" },
+  ],
+  [V4ActionType.TAKE_ALL]: [
+    { name: "currency", type: "address" },
+    { name: "minAmount", type: "uint256" },
   ],
-  [V4ActionType.TAKE_ALL]: [{ type: "address" }, { type: "uint256" }],
   [V4ActionType.TAKE_PORTION]: [
-    { type: "address" },
-    { type: "address" },
-    { type: "uint256" },
-  ],
-  [V4ActionType.CLOSE_CURRENCY]: [{ type: "address" }],
-  [V4ActionType.SWEEP]: [{ type: "address" }, { type: "address" }],
-  [V4ActionType.WRAP]: [{ type: "uint256" }],
-  [V4ActionType.UNWRAP]: [{ type: "uint256" }],
+    { name: "currency", type: "address" },
+    { name: "recipient", type: "address" },
+    { name: "bips", type: "uint256" },
+  ],
+  [V4ActionType.TAKE_PAIR]: [
+    { name: "currency0", type: "address" },
+    { name: "currency1", type: "address" },
+    { name: "recipient", type: "address" },
+  ],
+  [V4ActionType.CLOSE_CURRENCY]: [{ name: "currency", type: "address" }],
+  [V4ActionType.CLEAR_OR_TAKE]: [
+    { name: "currency", type: "address" },
+    { name: "amountMax", type: "uint256" },
+  ],
+  [V4ActionType.SWEEP]: [
+    { name: "currency", type: "address" },
+    { name: "to", type: "address" },
+  ],
+  [V4ActionType.WRAP]: [{ name: "amount", type: "uint256" }],
+  [V4ActionType.UNWRAP]: [{ name: "amount", type: "uint256" }],
+};
+
+/**
+ * A V4 action decoded from its action byte and ABI-encoded input
+ */
+export type DecodedV4Action = {
+  type: V4ActionType;
+  /** Action name, e.g. `SWAP_EXACT_IN_SINGLE` */
+  name: string;
+  /** Decoded parameters, keyed by parameter name */
+  params: Record<string, unknown>;
 };
 
+/**
+ * Decodes the `actions` and `inputs` of a V4 router or PositionManager call
+ * back into a readable list of actions
+ *
+ * @param actions - One byte per action
+ * @param inputs - ABI-encoded parameters, one per action
+ * @returns The decoded actions in execution order
+ *
+ * @example
+ * ```typescript
+ * const [actions, inputs] = new V4ActionBuilder()
+ *   .addSettlePair(currency0, currency1)
+ *   .build();
+ * decodeV4Actions(actions, inputs);
+ * // [{ type: 13, name: "SETTLE_PAIR", params: { currency0, currency1 } }]
+ * ```
+ */
+export function decodeV4Actions(
+  actions: Hex,
+  inputs: readonly Hex[]
+): DecodedV4Action[] {
+  const types = (actions.slice(2).match(/../g) ?? []).map((byte) =>
+    parseInt(byte, 16)
+  );
+  if (types.length !== inputs.length) {
+    throw new Error(
+      `Expected one input per action, got ${types.length} actions and ${inputs.length} inputs`
+    );
+  }
+
+  return types.map((type, i) => {
+    const definition = ABI_DEFINITION[type as V4ActionType];
+    if (!definition) {
+      const byte = type.toString(16).padStart(2, "0");
+      throw new Error(`Unknown V4 action 0x${byte}`);
+    }
+    const values = decodeAbiParameters(definition, inputs[i]);
+    return {
+      type,
+      name: V4ActionType[type],
+      params: Object.fromEntries(
+        definition.map((param, j) => [param.name, values[j]])
+      ),
+    };
+  });
+}
+
 export class V4ActionBuilder {
   actions: Hex = "0x";
   inputs: Hex[] = [];
@@ -184,8 +287,110 @@ export class V4ActionBuilder {
     return this;
   }
 
+  addIncreaseLiquidity(
+    tokenId: bigint,
+    liquidity: bigint,
+    amount0Max: bigint,
+    amount1Max: bigint,
+    hookData: Hex
+  ): this {
+    return this.addAction(V4ActionType.INCREASE_LIQUIDITY, [
+      tokenId,
+      liquidity,
+      amount0Max,
+      amount1Max,
+      hookData,
+    ]);
+  }
+
+  addDecreaseLiquidity(
+    tokenId: bigint,
+    liquidity: bigint,
+    amount0Min: bigint,
+    amount1Min: bigint,
+    hookData: Hex
+  ): this {
+    return this.addAction(V4ActionType.DECREASE_LIQUIDITY, [
+      tokenId,
+      liquidity,
+      amount0Min,
+      amount1Min,
+      hookData,
+    ]);
+  }
+
+  addMintPosition(
+    poolKey: PoolKey,
+    tickLower: number,
+    tickUpper: number,
+    liquidity: bigint,
+    amount0Max: bigint,
+    amount1Max: bigint,
+    owner: Address,
+    hookData: Hex
+  ): this {
+    return this.addAction(V4ActionType.MINT_POSITION, [
+      poolKey,
+      tickLower,
+      tickUpper,
+      liquidity,
+      amount0Max,
+      amount1Max,
+      owner,
+      hookData,
+    ]);
+  }
+
+  addBurnPosition(
+    tokenId: bigint,
+    amount0Min: bigint,
+    amount1Min: bigint,
+    hookData: Hex
+  ): this {
+    return this.addAction(V4ActionType.BURN_POSITION, [
+      tokenId,
+      amount0Min,
+      amount1Min,
+      hookData,
+    ]);
+  }
+
+  addIncreaseLiquidityFromDeltas(
+    tokenId: bigint,
+    amount0Max: bigint,
+    amount1Max: bigint,
+    hookData: Hex
+  ): this {
+    return this.addAction(V4ActionType.INCREASE_LIQUIDITY_FROM_DELTAS, [
+      tokenId,
+      amount0Max,
+      amount1Max,
+      hookData,
+    ]);
+  }
+
+  addMintPositionFromDeltas(
+    poolKey: PoolKey,
+    tickLower: number,
+    tickUpper: number,
+    amount0Max: bigint,
+    amount1Max: bigint,
+    owner: Address,
+    hookData: Hex
+  ): this {
+    return this.addAction(V4ActionType.MINT_POSITION_FROM_DELTAS, [
+      poolKey,
+      tickLower,
+      tickUpper,
+      amount0Max,
+      amount1Max,
+      owner,
+      hookData,
+    ]);
+  }
+
   addSwapExactInSingle(
-    poolKey: any,
+    poolKey: PoolKey,
     zeroForOne: boolean,
     amountIn: bigint,
     amountOutMinimum: bigint,
@@ -202,8 +407,19 @@ export class V4ActionBuilder {
     ]);
   }
 
+  addSwapExactIn(
+    currencyIn: Address,
+    path: PathKey[],
+    amountIn: bigint,
+    amountOutMinimum: bigint
+  ): this {
+    return this.addAction(V4ActionType.SWAP_EXACT_IN, [
+      { currencyIn, path, amountIn, amountOutMinimum },
+    ]);
+  }
+
   addSwapExactOutSingle(
-    poolKey: any,
+    poolKey: PoolKey,
     zeroForOne: boolean,
     amountOut: bigint,
     amountInMaximum: bigint,
@@ -220,6 +436,74 @@ export class V4ActionBuilder {
     ]);
   }
 
+  /**
+   * Adds a multi-hop exact output swap. The path runs backwards from the
+   * output currency: the first hop's `intermediateCurrency` is the currency
+   * paid into the last pool.
+   */
+  addSwapExactOut(
+    currencyOut: Address,
+    path: PathKey[],
+    amountOut: bigint,
+    amountInMaximum: bigint
+  ): this {
+    return this.addAction(V4ActionType.SWAP_EXACT_OUT, [
+      { currencyOut, path, amountOut, amountInMaximum },
+    ]);
+  }
+
+  addSettle(currency: Address, amount: bigint, payerIsUser: boolean): this {
+    return this.addAction(V4ActionType.SETTLE, [currency, amount, payerIsUser]);
+  }
+
+  addSettleAll(currency: Address, maxAmount: bigint): this {
+    return this.addAction(V4ActionType.SETTLE_ALL, [currency, maxAmount]);
+  }
+
+  addSettlePair(currency0: Address, currency1: Address): this {
+    return this.addAction(V4ActionType.SETTLE_PAIR, [currency0, currency1]);
+  }
+
+  addTake(currency: Address, recipient: Address, amount: bigint): this {
+    return this.addAction(V4ActionType.TAKE, [currency, recipient, amount]);
+  }
+
+  addTakeAll(currency: Address, minAmount: bigint): this {
+    return this.addAction(V4ActionType.TAKE_ALL, [currency, minAmount]);
+  }
+
+  addTakePortion(currency: Address, recipient: Address, bips: bigint): this {
+    return this.addAction(V4ActionType.TAKE_PORTION, [
+      currency,
+      recipient,
+      bips,
+    ]);
+  }
+
+  addTakePair(
+    currency0: Address,
+    currency1: Address,
+    recipient: Address
+  ): this {
+    return this.addAction(V4ActionType.TAKE_PAIR, [
+      currency0,
+      currency1,
+      recipient,
+    ]);
+  }
+
+  addCloseCurrency(currency: Address): this {
+    return this.addAction(V4ActionType.CLOSE_CURRENCY, [currency]);
+  }
+
+  addClearOrTake(currency: Address, amountMax: bigint): this {
+    return this.addAction(V4ActionType.CLEAR_OR_TAKE, [currency, amountMax]);
+  }
+
+  addSweep(currency: Address, to: Address): this {
+    return this.addAction(V4ActionType.SWEEP, [currency, to]);
+  }
+
   addWrap(amount: bigint): this {
     return this.addAction(V4ActionType.WRAP, [amount]);
   }
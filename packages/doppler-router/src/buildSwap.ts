@@ -0,0 +1,539 @@
+import {
+  Address,
+  encodePacked,
+  Hex,
+  isAddressEqual,
+  parseAbi,
+  PublicClient,
+  zeroAddress,
+} from "viem";
+import { CommandBuilder } from "./CommandBuilder";
+import { PermitSingle } from "./Permit2";
+import { PoolKey, V4ActionBuilder } from "./V4ActionBuilder";
+
+/** Universal Router placeholder for the router itself as recipient */
+export const ADDRESS_THIS =
+  "0x0000000000000000000000000000000000000002" as Address;
+/** Universal Router placeholder for the caller of `execute` as recipient */
+export const MSG_SENDER =
+  "0x0000000000000000000000000000000000000001" as Address;
+
+export const DEFAULT_V3_FEE_TIERS = [500, 3000, 10000];
+export const DEFAULT_DEADLINE_SECONDS = 20 * 60;
+
+const BPS = BigInt(10_000);
+// V4 TAKE with amount 0 takes the full amount owed
+const OPEN_DELTA = BigInt(0);
+
+export type SwapProtocol = "v2" | "v3" | "v4" | "doppler";
+
+export type SwapRoute =
+  | { protocol: "v2"; tokenIn: Address; tokenOut: Address }
+  | { protocol: "v3"; tokenIn: Address; tokenOut: Address; fee: number }
+  | {
+      protocol: "v4" | "doppler";
+      poolKey: PoolKey;
+      zeroForOne: boolean;
+      hookData: Hex;
+    };
+
+export type SwapQuote = {
+  route: SwapRoute;
+  amountIn: bigint;
+  amountOut: bigint;
+};
+
+/**
+ * Contracts used to quote and route swaps. Routes are only considered for
+ * protocols whose quoter or router is provided.
+ */
+export type SwapAddresses = {
+  universalRouter: Address;
+  weth: Address;
+  /** Enables V2 routes */
+  univ2Router02?: Address;
+  /** Enables V3 routes */
+  quoterV2?: Address;
+  /** Enables V4 and Doppler hook routes */
+  v4Quoter?: Address;
+  /** Finds the launch pool of Doppler assets */
+  airlock?: Address;
+};
+
+export type BuildSwapParams = {
+  /** Token to sell, or the zero address for native ETH */
+  tokenIn: Address;
+  /** Token to buy, or the zero address for native ETH */
+  tokenOut: Address;
+  /** Amount of `tokenIn` when `exactIn`, otherwise amount of `tokenOut` */
+  amount: bigint;
+  exactIn: boolean;
+  /** Maximum slippage from the quote, in basis points */
+  slippageBps: number;
+  recipient: Address;
+  /** Unix timestamp in seconds, defaults to 20 minutes from now */
+  deadline?: bigint;
+  /** Signed Permit2 permit for `tokenIn`, added as a PERMIT2_PERMIT command */
+  permit?: { permit: PermitSingle; signature: Hex };
+};
+
+export type BuildSwapOptions = {
+  publicClient: PublicClient;
+  addresses: SwapAddresses;
+  /** V3 fee tiers to quote, defaults to 0.05%, 0.3% and 1% */
+  v3FeeTiers?: number[];
+  /** V4 pools to quote in addition to discovered Doppler pools */
+  v4Pools?: { poolKey: PoolKey; hookData?: Hex }[];
+  /** Doppler hooks whose pools should be quoted */
+  dopplerHooks?: Address[];
+  /** Only consider these protocols */
+  protocols?: SwapProtocol[];
+};
+
+export type BuildSwapResult = {
+  commands: Hex;
+  inputs: Hex[];
+  /** Native ETH to send with `execute` */
+  value: bigint;
+  deadline: bigint;
+  /** The best quote, which the slippage limit is applied to */
+  quote: SwapQuote;
+  /** Minimum amount out for exact input swaps, maximum amount in otherwise */
+  amountLimit: bigint;
+};
+
+const quoterV2Abi = parseAbi([
+  "function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)",
+  "function quoteExactOutputSingle((address tokenIn, address tokenOut, uint256 amount, uint24 fee, uint160 sqrtPriceLimitX96) params) returns (uint256 amountIn, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)",
+]);
+
+const v4QuoterAbi = parseAbi([
+  "struct PoolKey { address currency0; address currency1; uint24 fee; int24 tickSpacing; address hooks; }",
+  "struct QuoteExactSingleParams { PoolKey poolKey; bool zeroForOne; uint128 exactAmount; bytes hookData; }",
+  "function quoteExactInputSingle(QuoteExactSingleParams params) returns (uint256 amountOut, uint256 gasEstimate)",
+  "function quoteExactOutputSingle(QuoteExactSingleParams params) returns (uint256 amountIn, uint256 gasEstimate)",
+]);
+
+const v2RouterAbi = parseAbi([
+  "function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)",
+  "function getAmountsIn(uint256 amountOut, address[] path) view returns (uint256[] amounts)",
+]);
+
+const launchPoolAbi = parseAbi([
+  "function getAssetData(address asset) view returns (address numeraire, address timelock, address governance, address liquidityMigrator, address poolInitializer, address pool, address migrationPool, uint256 numTokensToSell, uint256 totalSupply, address integrator)",
+  "function poolKey() view returns (address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks)",
+  "function fee() view returns (uint24)",
+]);
+
+const isEth = (token: Address) => isAddressEqual(token, zeroAddress);
+
+/**
+ * Finds the launch pool of any Doppler asset among the swap tokens: the
+ * Doppler hook for V4 launches, or the fee tier of the V3 pool otherwise
+ */
+async function discoverLaunchPools(
+  params: BuildSwapParams,
+  { publicClient, addresses }: BuildSwapOptions
+): Promise<{ hooks: Address[]; feeTiers: number[] }> {
+  const hooks: Address[] = [];
+  const feeTiers: number[] = [];
+  if (!addresses.airlock) return { hooks, feeTiers };
+
+  const assets = [params.tokenIn, params.tokenOut].filter((t) => !isEth(t));
+  await Promise.all(
+    assets.map(async (asset) => {
+      const [, , , , , pool] = await publicClient.readContract({
+        address: addresses.airlock!,
+        abi: launchPoolAbi,
+        functionName: "getAssetData",
+        args: [asset],
+      });
+      if (isAddressEqual(pool, zeroAddress)) return;
+
+      try {
+        await publicClient.readContract({
+          address: pool,
+          abi: launchPoolAbi,
+          functionName: "poolKey",
+        });
+        hooks.push(pool);
+      } catch {
+        const fee = await publicClient
+          .readContract({
+            address: pool,
+            abi: launchPoolAbi,
+            functionName: "fee",
+          })
+          .catch(() => undefined);
+        if (fee !== undefined) feeTiers.push(fee);
+      }
+    })
+  );
+
+  return { hooks, feeTiers };
+}
+
+/**
+ * Lists every single-hop route between the two tokens on the enabled
+ * protocols. V2 and V3 routes trade WETH in place of native ETH, V4 routes
+ * must match the pool's currencies exactly.
+ */
+async function findRoutes(
+  params: BuildSwapParams,
+  options: BuildSwapOptions
+): Promise<SwapRoute[]> {
+  const { addresses, publicClient } = options;
+  const enabled = (protocol: SwapProtocol) =>
+    !options.protocols || options.protocols.includes(protocol);
+  const discovered = await discoverLaunchPools(params, options);
+
+  const routes: SwapRoute[] = [];
+  const tokenIn = isEth(params.tokenIn) ? addresses.weth : params.tokenIn;
+  const tokenOut = isEth(params.tokenOut) ? addresses.weth : params.tokenOut;
+
+  // Wrapping ETH into WETH is not a swap
+  const sameToken = isAddressEqual(tokenIn, tokenOut);
+
+  if (addresses.univ2Router02 && enabled("v2") && !sameToken) {
+    routes.push({ protocol: "v2", tokenIn, tokenOut });
+  }
+  if (addresses.quoterV2 && enabled("v3") && !sameToken) {
+    const fees = new Set([
+      ...(options.v3FeeTiers ?? DEFAULT_V3_FEE_TIERS),
+      ...discovered.feeTiers,
+    ]);
+    fees.forEach((fee) =>
+      routes.push({ protocol: "v3", tokenIn, tokenOut, fee })
+    );
+  }
+
+  if (addresses.v4Quoter) {
+    const v4Pools: {
+      protocol: "v4" | "doppler";
+      poolKey: PoolKey;
+      hookData?: Hex;
+    }[] = enabled("v4")
+      ? (options.v4Pools ?? []).map((pool) => ({ protocol: "v4", ...pool }))
+      : [];
+
+    if (enabled("doppler")) {
+      const hooks = [...(options.dopplerHooks ?? []), ...discovered.hooks];
+      // A hook that cannot be read is skipped rather than failing the search
+      const keys = await Promise.allSettled(
+        hooks.map((hook) =>
+          publicClient.readContract({
+            address: hook,
+            abi: launchPoolAbi,
+            functionName: "poolKey",
+          })
+        )
+      );
+      keys.forEach((key) => {
+        if (key.status !== "fulfilled") return;
+        const [currency0, currency1, fee, tickSpacing, hooks] = key.value;
+        v4Pools.push({
+          protocol: "doppler",
+          poolKey: { currency0, currency1, fee, tickSpacing, hooks },
+        });
+      });
+    }
+
+    for (const { protocol, poolKey, hookData } of v4Pools) {
+      const { currency0, currency1 } = poolKey;
+      const zeroForOne =
+        isAddressEqual(currency0, params.tokenIn) &&
+        isAddressEqual(currency1, params.tokenOut);
+      const oneForZero =
+        isAddressEqual(currency1, params.tokenIn) &&
+        isAddressEqual(currency0, params.tokenOut);
+      if (zeroForOne || oneForZero) {
+        routes.push({
+          protocol,
+          poolKey,
+          zeroForOne,
+          hookData: hookData ?? "0x",
+        });
+      }
+    }
+  }
+
+  return routes;
+}
+
+/**
+ * Quotes a route, resolving to undefined when the pool does not exist or
+ * cannot fill the amount
+ */
+async function quoteRoute(
+  route: SwapRoute,
+  params: BuildSwapParams,
+  { publicClient, addresses }: BuildSwapOptions
+): Promise<SwapQuote | undefined> {
+  const { amount, exactIn } = params;
+
+  try {
+    if (route.protocol === "v2") {
+      const path = [route.tokenIn, route.tokenOut];
+      const amounts = await publicClient.readContract({
+        address: addresses.univ2Router02!,
+        abi: v2RouterAbi,
+        functionName: exactIn ? "getAmountsOut" : "getAmountsIn",
+        args: [amount, path],
+      });
+      return exactIn
+        ? { route, amountIn: amount, amountOut: amounts[1] }
+        : { route, amountIn: amounts[0], amountOut: amount };
+    }
+
+    if (route.protocol === "v3") {
+      const base = {
+        tokenIn: route.tokenIn,
+        tokenOut: route.tokenOut,
+        fee: route.fee,
+        sqrtPriceLimitX96: BigInt(0),
+      };
+      if (exactIn) {
+        const { result } = await publicClient.simulateContract({
+          address: addresses.quoterV2!,
+          abi: quoterV2Abi,
+          functionName: "quoteExactInputSingle",
+          args: [{ ...base, amountIn: amount }],
+        });
+        return { route, amountIn: amount, amountOut: result[0] };
+      }
+      const { result } = await publicClient.simulateContract({
+        address: addresses.quoterV2!,
+        abi: quoterV2Abi,
+        functionName: "quoteExactOutputSingle",
+        args: [{ ...base, amount }],
+      });
+      return { route, amountIn: result[0], amountOut: amount };
+    }
+
+    const { result } = await publicClient.simulateContract({
+      address: addresses.v4Quoter!,
+      abi: v4QuoterAbi,
+      functionName: exactIn
+        ? "quoteExactInputSingle"
+        : "quoteExactOutputSingle",
+      args: [
+        {
+          poolKey: route.poolKey,
+          zeroForOne: route.zeroForOne,
+          exactAmount: amount,
+          hookData: route.hookData,
+        },
+      ],
+    });
+    return exactIn
+      ? { route, amountIn: amount, amountOut: result[0] }
+      : { route, amountIn: result[0], amountOut: amount };
+  } catch {
+    return undefined;
+  }
+}
+
+function addV2OrV3Swap(
+  builder: CommandBuilder,
+  route: Extract<SwapRoute, { protocol: "v2" | "v3" }>,
+  recipient: Address,
+  quote: SwapQuote,
+  amountLimit: bigint,
+  exactIn: boolean,
+  payerIsUser: boolean
+) {
+  const path: [Address, Address] = [route.tokenIn, route.tokenOut];
+  if (route.protocol === "v2") {
+    return exactIn
+      ? builder.addV2SwapExactIn(
+          recipient,
+          quote.amountIn,
+          amountLimit,
+          path,
+          payerIsUser
+        )
+      : builder.addV2SwapExactOut(
+          recipient,
+          quote.amountOut,
+          amountLimit,
+          path,
+          payerIsUser
+        );
+  }
+  // V3 exact output paths are encoded from the output token back
+  const [first, last] = exactIn ? path : [route.tokenOut, route.tokenIn];
+  const encodedPath = encodePacked(
+    ["address", "uint24", "address"],
+    [first, route.fee, last]
+  );
+  return exactIn
+    ? builder.addV3SwapExactIn(
+        recipient,
+        quote.amountIn,
+        amountLimit,
+        encodedPath,
+        payerIsUser
+      )
+    : builder.addV3SwapExactOut(
+        recipient,
+        quote.amountOut,
+        amountLimit,
+        encodedPath,
+        payerIsUser
+      );
+}
+
+/**
+ * Builds Universal Router calldata for a single-hop swap along the best
+ * route. Every enabled protocol is quoted: V2 through the router, V3 fee tiers
+ * through QuoterV2, and V4 pools, including Doppler hook pools found through
+ * the Airlock, through the V4 quoter.
+ *
+ * The quote is turned into a minimum output (exact input) or maximum input
+ * (exact output) using `slippageBps`. Native ETH is wrapped or unwrapped for
+ * V2 and V3 routes, and any unspent ETH of an exact output swap is refunded to
+ * the sender. A permit for `tokenIn`, when given, is added as a PERMIT2_PERMIT
+ * command; otherwise the sender must already have approved the router through
+ * Permit2.
+ *
+ * @example
+ * ```typescript
+ * const { commands, inputs, value, deadline } = await buildSwap(
+ *   {
+ *     tokenIn: zeroAddress,
+ *     tokenOut: asset,
+ *     amount: parseEther("0.1"),
+ *     exactIn: true,
+ *     slippageBps: 100,
+ *     recipient: account,
+ *   },
+ *   { publicClient, addresses }
+ * );
+ *
+ * await walletClient.writeContract({
+ *   address: addresses.universalRouter,
+ *   abi: universalRouterAbi,
+ *   functionName: "execute",
+ *   args: [commands, inputs, deadline],
+ *   value,
+ * });
+ * ```
+ */
+export async function buildSwap(
+  params: BuildSwapParams,
+  options: BuildSwapOptions
+): Promise<BuildSwapResult> {
+  const { tokenIn, tokenOut, amount, exactIn, slippageBps, recipient } = params;
+  const { addresses } = options;
+
+  if (amount <= BigInt(0)) {
+    throw new Error("Swap amount must be positive");
+  }
+  if (
+    !Number.isInteger(slippageBps) ||
+    slippageBps < 0 ||
+    slippageBps > 10_000
+  ) {
+    throw new Error("slippageBps must be an integer between 0 and 10000");
+  }
+  if (isAddressEqual(tokenIn, tokenOut)) {
+    throw new Error("tokenIn and tokenOut must differ");
+  }
+
+  const routes = await findRoutes(params, options);
+  const quotes = (
+    await Promise.all(routes.map((route) => quoteRoute(route, params, options)))
+  ).filter((quote): quote is SwapQuote => quote !== undefined);
+  if (quotes.length === 0) {
+    throw new Error(`No route found from ${tokenIn} to ${tokenOut}`);
+  }
+
+  const quote = quotes.reduce((best, next) => {
+    if (exactIn) return next.amountOut > best.amountOut ? next : best;
+    return next.amountIn < best.amountIn ? next : best;
+  });
+  const slippage = BigInt(slippageBps);
+  const amountLimit = exactIn
+    ? (quote.amountOut * (BPS - slippage)) / BPS
+    : (quote.amountIn * (BPS + slippage) + BPS - BigInt(1)) / BPS;
+  const maxIn = exactIn ? quote.amountIn : amountLimit;
+
+  const builder = new CommandBuilder();
+
+  if (params.permit && !isEth(tokenIn)) {
+    const { permit, signature } = params.permit;
+    if (!isAddressEqual(permit.details.token, tokenIn)) {
+      throw new Error("Permit token does not match tokenIn");
+    }
+    if (!isAddressEqual(permit.spender, addresses.universalRouter)) {
+      throw new Error("Permit spender must be the Universal Router");
+    }
+    if (permit.details.amount < maxIn) {
+      throw new Error(
+        `Permit amount is below the ${maxIn} needed for the swap`
+      );
+    }
+    builder.addPermit2Permit(permit, signature);
+  }
+
+  const { route } = quote;
+  if (route.protocol === "v2" || route.protocol === "v3") {
+    const wrap = isEth(tokenIn);
+    const unwrap = isEth(tokenOut);
+    if (wrap) builder.addWrapEth(ADDRESS_THIS, maxIn);
+    addV2OrV3Swap(
+      builder,
+      route,
+      unwrap ? ADDRESS_THIS : recipient,
+      quote,
+      amountLimit,
+      exactIn,
+      !wrap
+    );
+    if (unwrap) {
+      builder.addUnwrapWeth(recipient, exactIn ? amountLimit : quote.amountOut);
+    } else if (wrap && !exactIn) {
+      builder.addUnwrapWeth(MSG_SENDER, BigInt(0));
+    }
+  } else {
+    const { poolKey, zeroForOne, hookData } = route;
+    const currencyIn = zeroForOne ? poolKey.currency0 : poolKey.currency1;
+    const currencyOut = zeroForOne ? poolKey.currency1 : poolKey.currency0;
+    const actions = new V4ActionBuilder();
+    if (exactIn) {
+      actions.addSwapExactInSingle(
+        poolKey,
+        zeroForOne,
+        quote.amountIn,
+        amountLimit,
+        hookData
+      );
+    } else {
+      actions.addSwapExactOutSingle(
+        poolKey,
+        zeroForOne,
+        quote.amountOut,
+        amountLimit,
+        hookData
+      );
+    }
+    actions.addSettleAll(currencyIn, maxIn);
+    actions.addTake(currencyOut, recipient, OPEN_DELTA);
+    builder.addV4Swap(...actions.build());
+    if (isEth(tokenIn) && !exactIn) {
+      builder.addSweep(zeroAddress, MSG_SENDER, BigInt(0));
+    }
+  }
+
+  const [commands, inputs] = builder.build();
+  return {
+    commands,
+    inputs,
+    value: isEth(tokenIn) ? maxIn : BigInt(0),
+    deadline:
+      params.deadline ??
+      BigInt(Math.floor(Date.now() / 1000) + DEFAULT_DEADLINE_SECONDS),
+    quote,
+    amountLimit,
+  };
+}
@@ -1,4 +1,9 @@
-export { CommandBuilder, CommandType } from "./CommandBuilder";
+export {
+  CommandBuilder,
+  CommandType,
+  DecodedCommand,
+  decodeCommands,
+} from "./CommandBuilder";
 export {
   PermitSingle,
   PermitBatch,
@@ -7,4 +12,33 @@ export {
   PermitDetails,
 } from "./Permit2";
 export { SwapRouter02Encoder } from "./SwapRouter02Encoder";
-export { V4ActionBuilder, V4ActionType } from "./V4ActionBuilder";
+export {
+  V4ActionBuilder,
+  V4ActionType,
+  PoolKey,
+  PathKey,
+  DecodedV4Action,
+  decodeV4Actions,
+} from "./V4ActionBuilder";
+export {
+  buildSwap,
+  BuildSwapParams,
+  BuildSwapOptions,
+  BuildSwapResult,
+  SwapAddresses,
+  SwapProtocol,
+  SwapRoute,
+  SwapQuote,
+  ADDRESS_THIS,
+  MSG_SENDER,
+  DEFAULT_V3_FEE_TIERS,
+  DEFAULT_DEADLINE_SECONDS,
+} from "./buildSwap";
+export {
+  DecodedExecute,
+  DecodedExecuteTransaction,
+  decodeExecuteCalldata,
+  decodeExecuteTransaction,
+  decodeV3Path,
+  formatExecute,
+} from "./UniversalRouterDecoder";
@@ -8,6 +8,7 @@ import {
   DERC20ABI,
   DopplerABI,
   PoolManagerABI,
+  StreamableFeesLockerABI,
   UniswapV2PairABI,
   ZoraFactoryABI,
   ZoraCoinABI,
@@ -394,6 +395,11 @@ export default createConfig({
         },
       },
     },
+    // Only chains with a V4 migrator hook. This syncs the Initialize, Swap,
+    // ModifyLiquidity and Donate logs of every V4 pool on the chain, as none
+    // can be filtered at the source: `hooks` is not indexed on Initialize and
+    // the other events only carry the pool id. The handlers store the pools
+    // initialized with the hook and drop the rest after the logs are fetched.
     PoolManager: {
       abi: PoolManagerABI,
       chain: {
@@ -405,13 +411,18 @@ export default createConfig({
           startBlock: V4_START_BLOCKS.base,
           address: base.addresses.v4.poolManager,
         },
-        unichain: {
-          startBlock: V4_START_BLOCKS.unichain,
-          address: unichain.addresses.v4.poolManager,
+      },
+    },
+    StreamableFeesLocker: {
+      abi: StreamableFeesLockerABI,
+      chain: {
+        baseSepolia: {
+          startBlock: V4_START_BLOCKS.baseSepolia,
+          address: baseSepolia.addresses.v4.streamableFeesLocker,
         },
-        ink: {
-          startBlock: V4_START_BLOCKS.ink,
-          address: ink.addresses.v4.poolManager,
+        base: {
+          startBlock: V4_START_BLOCKS.base,
+          address: base.addresses.v4.streamableFeesLocker,
         },
       },
     },
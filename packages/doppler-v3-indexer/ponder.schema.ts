@@ -16,7 +16,7 @@ export const user = onchainTable(
 export const token = onchainTable(
   "token",
   (t) => ({
-    address: t.hex().primaryKey(),
+    address: t.hex().notNull(),
     chainId: t.bigint().notNull(),
     name: t.text().notNull(),
     symbol: t.text().notNull(),
@@ -39,6 +39,9 @@ export const token = onchainTable(
     triedMetadata: t.boolean().notNull().default(false),
   }),
   (table) => ({
+    pk: primaryKey({
+      columns: [table.address, table.chainId],
+    }),
     addressIdx: index().on(table.address),
     chainIdIdx: index().on(table.chainId),
     poolIdx: index().on(table.pool),
@@ -58,7 +61,7 @@ export const zoraUsdcPrice = onchainTable("zora_usdc_price", (t) => ({
 export const asset = onchainTable(
   "asset",
   (t) => ({
-    address: t.hex().primaryKey(),
+    address: t.hex().notNull(),
     isToken0: t.boolean().notNull(),
     poolAddress: t.hex().notNull(),
     chainId: t.bigint().notNull(),
@@ -82,6 +85,9 @@ export const asset = onchainTable(
     liquidityUsd: t.bigint().notNull().default(0n),
   }),
   (table) => ({
+    pk: primaryKey({
+      columns: [table.address, table.chainId],
+    }),
     addressIdx: index().on(table.address),
     chainIdIdx: index().on(table.chainId),
   })
@@ -155,20 +161,45 @@ export const position = onchainTable(
   })
 );
 
+// Airlock whitelist, state is the ModuleState enum (0 = not whitelisted)
 export const module = onchainTable(
   "module",
   (t) => ({
-    address: t.text().primaryKey(),
+    address: t.hex().notNull(),
     chainId: t.bigint().notNull(),
     state: t.integer().notNull(),
     lastUpdated: t.bigint().notNull(),
   }),
   (table) => ({
+    pk: primaryKey({
+      columns: [table.address, table.chainId],
+    }),
     addressIdx: index().on(table.address),
     chainIdIdx: index().on(table.chainId),
   })
 );
 
+export const moduleStateChange = onchainTable(
+  "module_state_change",
+  (t) => ({
+    txHash: t.hex().notNull(),
+    logIndex: t.integer().notNull(),
+    chainId: t.bigint().notNull(),
+    module: t.hex().notNull(),
+    previousState: t.integer().notNull(),
+    state: t.integer().notNull(),
+    blockNumber: t.bigint().notNull(),
+    timestamp: t.bigint().notNull(),
+  }),
+  (table) => ({
+    pk: primaryKey({
+      columns: [table.txHash, table.logIndex, table.chainId],
+    }),
+    moduleIdx: index().on(table.module),
+    chainIdIdx: index().on(table.chainId),
+  })
+);
+
 export const v4PoolConfig = onchainTable("v4_pool_config", (t) => ({
   hookAddress: t.hex().notNull().primaryKey(),
   numTokensToSell: t.bigint().notNull(),
@@ -341,6 +372,87 @@ export const v4pools = onchainTable(
   })
 );
 
+// StreamableFeesLocker positions holding liquidity migrated through the V4 migrator
+export const lockerPosition = onchainTable(
+  "locker_position",
+  (t) => ({
+    tokenId: t.bigint().notNull(),
+    chainId: t.bigint().notNull(),
+    locker: t.hex().notNull(),
+    poolId: t.hex(),
+    asset: t.hex(),
+    recipient: t.hex().notNull(),
+    startDate: t.bigint().notNull(),
+    unlockDate: t.bigint().notNull(),
+    isUnlocked: t.boolean().notNull().default(false),
+    fees0: t.bigint().notNull().default(0n),
+    fees1: t.bigint().notNull().default(0n),
+    feesUsd: t.bigint().notNull().default(0n),
+    createdAt: t.bigint().notNull(),
+  }),
+  (table) => ({
+    pk: primaryKey({
+      columns: [table.tokenId, table.chainId],
+    }),
+    assetIdx: index().on(table.asset),
+    poolIdIdx: index().on(table.poolId),
+  })
+);
+
+// Share of a locker position's fees owed to each beneficiary. shares is WAD
+// scaled and earned amounts accrue on every distribution
+export const lockerBeneficiary = onchainTable(
+  "locker_beneficiary",
+  (t) => ({
+    tokenId: t.bigint().notNull(),
+    chainId: t.bigint().notNull(),
+    beneficiary: t.hex().notNull(),
+    asset: t.hex(),
+    shares: t.bigint().notNull(),
+    earned0: t.bigint().notNull().default(0n),
+    earned1: t.bigint().notNull().default(0n),
+    earnedUsd: t.bigint().notNull().default(0n),
+    released0: t.bigint().notNull().default(0n),
+    released1: t.bigint().notNull().default(0n),
+    releasedUsd: t.bigint().notNull().default(0n),
+  }),
+  (table) => ({
+    pk: primaryKey({
+      columns: [table.tokenId, table.beneficiary, table.chainId],
+    }),
+    beneficiaryIdx: index().on(table.beneficiary),
+    assetIdx: index().on(table.asset),
+  })
+);
+
+// Fee collections (distribute) and beneficiary claims (release) with their
+// USD value at the time
+export const lockerFeeEvent = onchainTable(
+  "locker_fee_event",
+  (t) => ({
+    txHash: t.hex().notNull(),
+    logIndex: t.integer().notNull(),
+    chainId: t.bigint().notNull(),
+    tokenId: t.bigint().notNull(),
+    type: t.text().notNull(),
+    asset: t.hex(),
+    beneficiary: t.hex(),
+    amount0: t.bigint().notNull(),
+    amount1: t.bigint().notNull(),
+    amountUsd: t.bigint().notNull(),
+    blockNumber: t.bigint().notNull(),
+    timestamp: t.bigint().notNull(),
+  }),
+  (table) => ({
+    pk: primaryKey({
+      columns: [table.txHash, table.logIndex, table.chainId],
+    }),
+    tokenIdIdx: index().on(table.tokenId),
+    assetIdx: index().on(table.asset),
+    beneficiaryIdx: index().on(table.beneficiary),
+  })
+);
+
 export const userAsset = onchainTable(
   "user_asset",
   (t) => ({
@@ -425,6 +537,55 @@ export const volumeBucket24h = onchainTable(
   })
 );
 
+// OHLCV candles at every charting resolution (1m, 5m, 15m, 1h, 4h, 1d)
+export const candle = onchainTable(
+  "candle",
+  (t) => ({
+    poolAddress: t.hex().notNull(),
+    assetAddress: t.hex().notNull(),
+    chainId: t.bigint().notNull(),
+    resolution: t.text().notNull(),
+    timestamp: t.bigint().notNull(), // Start of the candle interval
+
+    // Price in the quote token (OHLC)
+    open: t.bigint().notNull(),
+    high: t.bigint().notNull(),
+    low: t.bigint().notNull(),
+    close: t.bigint().notNull(),
+
+    // Price in USD (OHLC)
+    openUsd: t.bigint().notNull(),
+    highUsd: t.bigint().notNull(),
+    lowUsd: t.bigint().notNull(),
+    closeUsd: t.bigint().notNull(),
+
+    // Volume metrics
+    volumeQuote: t.bigint().notNull().default(0n),
+    volumeUsd: t.bigint().notNull().default(0n),
+    txCount: t.integer().notNull().default(0),
+    buyCount: t.integer().notNull().default(0),
+    sellCount: t.integer().notNull().default(0),
+
+    updatedAt: t.bigint().notNull(),
+  }),
+  (table) => ({
+    pk: primaryKey({
+      columns: [
+        table.poolAddress,
+        table.resolution,
+        table.timestamp,
+        table.chainId,
+      ],
+    }),
+    poolResolutionIdx: index().on(
+      table.poolAddress,
+      table.chainId,
+      table.resolution,
+      table.timestamp
+    ),
+  })
+);
+
 export const v4PoolPriceHistory = onchainTable(
   "v4_pool_price_history",
   (t) => ({
@@ -434,18 +595,30 @@ export const v4PoolPriceHistory = onchainTable(
   })
 );
 
-export const swap = onchainTable("swap", (t) => ({
-  txHash: t.hex().notNull().primaryKey(),
-  pool: t.hex().notNull(),
-  asset: t.hex().notNull(),
-  chainId: t.bigint().notNull(),
-  amountIn: t.bigint().notNull(),
-  amountOut: t.bigint().notNull(),
-  type: t.text().notNull(), // buy or sell
-  user: t.hex().notNull(),
-  timestamp: t.bigint().notNull(),
-  usdPrice: t.bigint().notNull(),
-}));
+export const swap = onchainTable(
+  "swap",
+  (t) => ({
+    txHash: t.hex().notNull(),
+    logIndex: t.integer().notNull(),
+    pool: t.hex().notNull(),
+    asset: t.hex().notNull(),
+    chainId: t.bigint().notNull(),
+    amountIn: t.bigint().notNull(),
+    amountOut: t.bigint().notNull(),
+    type: t.text().notNull(), // buy or sell
+    user: t.hex().notNull(),
+    timestamp: t.bigint().notNull(),
+    usdPrice: t.bigint().notNull(),
+  }),
+  (table) => ({
+    // A transaction can contain several swaps, and hashes are only unique per chain
+    pk: primaryKey({
+      columns: [table.txHash, table.logIndex, table.chainId],
+    }),
+    txHashIdx: index().on(table.txHash),
+    assetIdx: index().on(table.asset),
+  })
+);
 
 /* RELATIONS */
 
@@ -455,27 +628,31 @@ export const assetRelations = relations(asset, ({ one, many }) => ({
   userAssets: many(userAsset),
   swaps: many(swap),
   volumeBuckets24h: many(volumeBucket24h),
+  candles: many(candle),
 }));
 
 export const swapRelations = relations(swap, ({ one }) => ({
   pool: one(pool, { fields: [swap.pool], references: [pool.address] }),
-  asset: one(asset, { fields: [swap.asset], references: [asset.address] }),
+  asset: one(asset, {
+    fields: [swap.asset, swap.chainId],
+    references: [asset.address, asset.chainId],
+  }),
 }));
 
 // pools have many positions
 export const poolRelations = relations(pool, ({ one, many }) => ({
   positions: many(position),
   baseToken: one(token, {
-    fields: [pool.baseToken],
-    references: [token.address],
+    fields: [pool.baseToken, pool.chainId],
+    references: [token.address, token.chainId],
   }),
   quoteToken: one(token, {
-    fields: [pool.quoteToken],
-    references: [token.address],
+    fields: [pool.quoteToken, pool.chainId],
+    references: [token.address, token.chainId],
   }),
   asset: one(asset, {
-    fields: [pool.asset],
-    references: [asset.address],
+    fields: [pool.asset, pool.chainId],
+    references: [asset.address, asset.chainId],
   }),
   dailyVolume: one(dailyVolume, {
     fields: [pool.address],
@@ -485,6 +662,7 @@ export const poolRelations = relations(pool, ({ one, many }) => ({
   hourBucketUsds: many(hourBucketUsd),
   swaps: many(swap),
   volumeBuckets24h: many(volumeBucket24h),
+  candles: many(candle),
 }));
 
 export const v2PoolRelations = relations(v2Pool, ({ one }) => ({
@@ -510,8 +688,8 @@ export const positionRelations = relations(position, ({ one }) => ({
 export const tokenRelations = relations(token, ({ one }) => ({
   pool: one(pool, { fields: [token.pool], references: [pool.address] }),
   derc20Data: one(asset, {
-    fields: [token.derc20Data],
-    references: [asset.address],
+    fields: [token.derc20Data, token.chainId],
+    references: [asset.address, asset.chainId],
   }),
 }));
 
@@ -524,8 +702,8 @@ export const userRelations = relations(user, ({ many }) => ({
 export const userAssetRelations = relations(userAsset, ({ one }) => ({
   user: one(user, { fields: [userAsset.userId], references: [user.address] }),
   asset: one(asset, {
-    fields: [userAsset.assetId],
-    references: [asset.address],
+    fields: [userAsset.assetId, userAsset.chainId],
+    references: [asset.address, asset.chainId],
   }),
 }));
 
@@ -546,16 +724,16 @@ export const hourBucketUsdRelations = relations(hourBucketUsd, ({ one }) => ({
 // v4pools relations
 export const v4poolsRelations = relations(v4pools, ({ one, many }) => ({
   baseToken: one(token, {
-    fields: [v4pools.baseToken],
-    references: [token.address],
+    fields: [v4pools.baseToken, v4pools.chainId],
+    references: [token.address, token.chainId],
   }),
   quoteToken: one(token, {
-    fields: [v4pools.quoteToken],
-    references: [token.address],
+    fields: [v4pools.quoteToken, v4pools.chainId],
+    references: [token.address, token.chainId],
   }),
   asset: one(asset, {
-    fields: [v4pools.asset],
-    references: [asset.address],
+    fields: [v4pools.asset, v4pools.chainId],
+    references: [asset.address, asset.chainId],
   }),
   migratedFromPool: one(pool, {
     fields: [v4pools.migratedFromPool],
@@ -575,7 +753,18 @@ export const volumeBucket24hRelations = relations(volumeBucket24h, ({ one }) =>
     references: [pool.address],
   }),
   asset: one(asset, {
-    fields: [volumeBucket24h.assetAddress],
-    references: [asset.address],
+    fields: [volumeBucket24h.assetAddress, volumeBucket24h.chainId],
+    references: [asset.address, asset.chainId],
+  }),
+}));
+
+export const candleRelations = relations(candle, ({ one }) => ({
+  pool: one(pool, {
+    fields: [candle.poolAddress],
+    references: [pool.address],
+  }),
+  asset: one(asset, {
+    fields: [candle.assetAddress, candle.chainId],
+    references: [asset.address, asset.chainId],
   }),
 }));
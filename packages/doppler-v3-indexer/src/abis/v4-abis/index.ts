@@ -4,3 +4,4 @@ export { StateViewABI } from "./StateViewABI";
 export { PoolManagerABI } from "./PoolManagerABI";
 export { DopplerLensQuoterABI } from "./DopplerLensQuoterABI";
 export { V4MigratorABI } from "./V4MigratorABI";
+export { StreamableFeesLockerABI } from "./StreamableFeesLockerABI";
@@ -12,12 +12,33 @@ import {
   replaceBigInts,
   gte,
   lt,
+  lte,
   sum,
   count,
+  asc,
+  ne,
 } from "ponder";
 import { db } from "ponder:api";
-import schema, { asset, token, volumeBucket24h, pool } from "ponder:schema";
+import schema, {
+  asset,
+  token,
+  volumeBucket24h,
+  pool,
+  module,
+  moduleStateChange,
+  lockerPosition,
+  lockerBeneficiary,
+  lockerFeeEvent,
+  candle,
+} from "ponder:schema";
+import { formatEther, formatUnits } from "viem";
 import { getDayBucketTimestamp, DAY_IN_SECONDS } from "@app/utils/time-buckets";
+import {
+  CANDLE_RESOLUTIONS,
+  CandleResolution,
+  fillCandleGaps,
+  getCandleTimestamp,
+} from "@app/utils/candles";
 
 const app = new Hono();
 
@@ -95,7 +116,12 @@ app.get("/search/:query", async (c) => {
         // Combine and deduplicate results
         const combinedResults = [...tokenResults];
         for (const govToken of governanceTokens) {
-          if (!combinedResults.find(t => t.address === govToken.address)) {
+          if (
+            !combinedResults.find(
+              (t) =>
+                t.address === govToken.address && t.chainId === govToken.chainId
+            )
+          ) {
             combinedResults.push(govToken);
           }
         }
@@ -149,7 +175,12 @@ app.get("/analytics/top-volume/:chainId", async (c) => {
         const tokenData = await db
           .select()
           .from(token)
-          .where(eq(token.address, bucket.assetAddress))
+          .where(
+            and(
+              eq(token.address, bucket.assetAddress),
+              eq(token.chainId, chainId)
+            )
+          )
           .limit(1);
 
         return {
@@ -326,7 +357,12 @@ app.get("/analytics/top-movers/:chainId", async (c) => {
         const tokenData = await db
           .select()
           .from(token)
-          .where(eq(token.address, mover!.assetAddress))
+          .where(
+            and(
+              eq(token.address, mover!.assetAddress),
+              eq(token.chainId, chainId)
+            )
+          )
           .limit(1);
 
         return {
@@ -343,4 +379,476 @@ app.get("/analytics/top-movers/:chainId", async (c) => {
   }
 });
 
+// Names of the Airlock ModuleState enum values
+const MODULE_STATES = [
+  "NotWhitelisted",
+  "TokenFactory",
+  "GovernanceFactory",
+  "PoolInitializer",
+  "LiquidityMigrator",
+];
+
+const withStateName = <T extends { state: number }>(row: T) => ({
+  ...row,
+  stateName: MODULE_STATES[row.state] ?? "Unknown",
+});
+
+/**
+ * Get the modules currently whitelisted on the Airlock of a chain
+ */
+app.get("/modules/:chainId", async (c) => {
+  try {
+    const chainId = BigInt(c.req.param("chainId"));
+    const includeRemoved = c.req.query("includeRemoved") === "true";
+
+    const modules = await db
+      .select()
+      .from(module)
+      .where(
+        includeRemoved
+          ? eq(module.chainId, chainId)
+          : and(eq(module.chainId, chainId), ne(module.state, 0))
+      )
+      .orderBy(asc(module.state), desc(module.lastUpdated));
+
+    return c.json(
+      replaceBigInts(modules.map(withStateName), (v) => String(v))
+    );
+  } catch (error) {
+    console.error("Error in /modules/:chainId", error);
+    return c.json({ error: "Internal Server Error" }, 500);
+  }
+});
+
+/**
+ * Get the current state of a module and every state change it went through
+ */
+app.get("/modules/:chainId/:address", async (c) => {
+  try {
+    const chainId = BigInt(c.req.param("chainId"));
+    const address = c.req.param("address").toLowerCase() as `0x${string}`;
+
+    const [current, history] = await Promise.all([
+      db
+        .select()
+        .from(module)
+        .where(and(eq(module.address, address), eq(module.chainId, chainId)))
+        .limit(1),
+      db
+        .select()
+        .from(moduleStateChange)
+        .where(
+          and(
+            eq(moduleStateChange.module, address),
+            eq(moduleStateChange.chainId, chainId)
+          )
+        )
+        .orderBy(
+          desc(moduleStateChange.blockNumber),
+          desc(moduleStateChange.logIndex)
+        ),
+    ]);
+
+    // Modules the Airlock never saw are reported as not whitelisted
+    const state = current[0]?.state ?? 0;
+
+    return c.json(
+      replaceBigInts(
+        {
+          address,
+          chainId,
+          state,
+          stateName: MODULE_STATES[state] ?? "Unknown",
+          whitelisted: state !== 0,
+          lastUpdated: current[0]?.lastUpdated ?? null,
+          history: history.map(withStateName),
+        },
+        (v) => String(v)
+      )
+    );
+  } catch (error) {
+    console.error("Error in /modules/:chainId/:address", error);
+    return c.json({ error: "Internal Server Error" }, 500);
+  }
+});
+
+/**
+ * Get the locker fees earned by a beneficiary across every locked position
+ */
+app.get("/fees/beneficiary/:chainId/:address", async (c) => {
+  try {
+    const chainId = BigInt(c.req.param("chainId"));
+    const address = c.req.param("address").toLowerCase() as `0x${string}`;
+    const limit = Math.min(parseInt(c.req.query("limit") || "50"), 200);
+
+    const [positions, releases] = await Promise.all([
+      db
+        .select()
+        .from(lockerBeneficiary)
+        .where(
+          and(
+            eq(lockerBeneficiary.beneficiary, address),
+            eq(lockerBeneficiary.chainId, chainId)
+          )
+        )
+        .orderBy(desc(lockerBeneficiary.earnedUsd)),
+      db
+        .select()
+        .from(lockerFeeEvent)
+        .where(
+          and(
+            eq(lockerFeeEvent.beneficiary, address),
+            eq(lockerFeeEvent.chainId, chainId),
+            eq(lockerFeeEvent.type, "release")
+          )
+        )
+        .orderBy(desc(lockerFeeEvent.timestamp))
+        .limit(limit),
+    ]);
+
+    const totals = positions.reduce(
+      (acc, row) => ({
+        earnedUsd: acc.earnedUsd + row.earnedUsd,
+        releasedUsd: acc.releasedUsd + row.releasedUsd,
+      }),
+      { earnedUsd: 0n, releasedUsd: 0n }
+    );
+
+    return c.json(
+      replaceBigInts(
+        {
+          beneficiary: address,
+          chainId,
+          ...totals,
+          positions,
+          releases,
+        },
+        (v) => String(v)
+      )
+    );
+  } catch (error) {
+    console.error("Error in /fees/beneficiary/:chainId/:address", error);
+    return c.json({ error: "Internal Server Error" }, 500);
+  }
+});
+
+/**
+ * Get the locker fees generated by an asset's migrated liquidity
+ */
+app.get("/fees/asset/:chainId/:address", async (c) => {
+  try {
+    const chainId = BigInt(c.req.param("chainId"));
+    const address = c.req.param("address").toLowerCase() as `0x${string}`;
+    const limit = Math.min(parseInt(c.req.query("limit") || "50"), 200);
+
+    const [positions, beneficiaries, events] = await Promise.all([
+      db
+        .select()
+        .from(lockerPosition)
+        .where(
+          and(
+            eq(lockerPosition.asset, address),
+            eq(lockerPosition.chainId, chainId)
+          )
+        ),
+      db
+        .select()
+        .from(lockerBeneficiary)
+        .where(
+          and(
+            eq(lockerBeneficiary.asset, address),
+            eq(lockerBeneficiary.chainId, chainId)
+          )
+        )
+        .orderBy(desc(lockerBeneficiary.shares)),
+      db
+        .select()
+        .from(lockerFeeEvent)
+        .where(
+          and(
+            eq(lockerFeeEvent.asset, address),
+            eq(lockerFeeEvent.chainId, chainId)
+          )
+        )
+        .orderBy(desc(lockerFeeEvent.timestamp))
+        .limit(limit),
+    ]);
+
+    const feesUsd = positions.reduce((acc, row) => acc + row.feesUsd, 0n);
+
+    return c.json(
+      replaceBigInts(
+        {
+          asset: address,
+          chainId,
+          feesUsd,
+          positions,
+          beneficiaries,
+          events,
+        },
+        (v) => String(v)
+      )
+    );
+  } catch (error) {
+    console.error("Error in /fees/asset/:chainId/:address", error);
+    return c.json({ error: "Internal Server Error" }, 500);
+  }
+});
+
+/* TRADINGVIEW UDF */
+
+// TradingView resolutions mapped to the indexed candle resolutions
+const UDF_RESOLUTIONS: Record<string, CandleResolution> = {
+  "1": "1m",
+  "5": "5m",
+  "15": "15m",
+  "60": "1h",
+  "240": "4h",
+  "1D": "1d",
+  D: "1d",
+};
+
+// Most bars a single history request returns after gap filling
+const MAX_UDF_BARS = 5000n;
+
+/**
+ * Parses a UDF symbol of the form `<chainId>:<poolAddress>`, priced in USD,
+ * or `<chainId>:<poolAddress>:native`, priced in the quote token
+ */
+const parseUdfSymbol = (symbol: string) => {
+  const [chainId, address, currency] = symbol.split(":");
+  if (
+    !chainId ||
+    !/^\d+$/.test(chainId) ||
+    !address ||
+    !/^0x[0-9a-fA-F]+$/.test(address) ||
+    (currency !== undefined && currency !== "native")
+  ) {
+    return null;
+  }
+
+  return {
+    chainId: BigInt(chainId),
+    poolAddress: address.toLowerCase() as `0x${string}`,
+    isNative: currency === "native",
+  };
+};
+
+/**
+ * Shows enough decimals for four significant digits of the price
+ */
+const getPriceScale = (price: number) => {
+  if (!(price > 0)) {
+    return 10 ** 8;
+  }
+  const decimals = Math.ceil(-Math.log10(price)) + 4;
+  return 10 ** Math.min(Math.max(decimals, 2), 18);
+};
+
+/**
+ * UDF datafeed configuration
+ */
+app.get("/udf/config", (c) => {
+  return c.json({
+    supported_resolutions: ["1", "5", "15", "60", "240", "1D"],
+    supports_search: false,
+    supports_group_request: false,
+    supports_marks: false,
+    supports_timescale_marks: false,
+    supports_time: false,
+  });
+});
+
+/**
+ * UDF symbol info for a pool
+ */
+app.get("/udf/symbols", async (c) => {
+  try {
+    const symbol = c.req.query("symbol") ?? "";
+    const parsed = parseUdfSymbol(symbol);
+    if (!parsed) {
+      return c.json({ s: "error", errmsg: "unknown_symbol" }, 404);
+    }
+    const { chainId, poolAddress, isNative } = parsed;
+
+    const [poolEntity] = await db
+      .select()
+      .from(pool)
+      .where(and(eq(pool.address, poolAddress), eq(pool.chainId, chainId)))
+      .limit(1);
+    if (!poolEntity) {
+      return c.json({ s: "error", errmsg: "unknown_symbol" }, 404);
+    }
+
+    const [tokens, latest] = await Promise.all([
+      db
+        .select()
+        .from(token)
+        .where(
+          and(
+            inArray(token.address, [
+              poolEntity.baseToken,
+              poolEntity.quoteToken,
+            ]),
+            eq(token.chainId, chainId)
+          )
+        ),
+      db
+        .select()
+        .from(candle)
+        .where(
+          and(
+            eq(candle.poolAddress, poolAddress),
+            eq(candle.chainId, chainId),
+            eq(candle.resolution, "1d")
+          )
+        )
+        .orderBy(desc(candle.timestamp))
+        .limit(1),
+    ]);
+
+    const baseToken = tokens.find((t) => t.address === poolEntity.baseToken);
+    const quoteToken = tokens.find((t) => t.address === poolEntity.quoteToken);
+    const currency = isNative ? quoteToken?.symbol ?? "???" : "USD";
+    const lastPrice = latest[0]
+      ? Number(formatEther(isNative ? latest[0].close : latest[0].closeUsd))
+      : 0;
+
+    return c.json({
+      name: `${baseToken?.symbol ?? "???"}/${currency}`,
+      ticker: symbol,
+      description: baseToken?.name ?? poolAddress,
+      type: "crypto",
+      session: "24x7",
+      timezone: "Etc/UTC",
+      exchange: "Doppler",
+      listed_exchange: "Doppler",
+      minmov: 1,
+      pricescale: getPriceScale(lastPrice),
+      has_intraday: true,
+      has_daily: true,
+      has_weekly_and_monthly: false,
+      supported_resolutions: ["1", "5", "15", "60", "240", "1D"],
+      intraday_multipliers: ["1", "5", "15", "60", "240"],
+      volume_precision: 2,
+      data_status: "streaming",
+      currency_code: currency,
+    });
+  } catch (error) {
+    console.error("Error in /udf/symbols", error);
+    return c.json({ s: "error", errmsg: "Internal Server Error" }, 500);
+  }
+});
+
+/**
+ * UDF bars for a pool, with intervals without trades filled at the previous
+ * close
+ */
+app.get("/udf/history", async (c) => {
+  try {
+    const parsed = parseUdfSymbol(c.req.query("symbol") ?? "");
+    if (!parsed) {
+      return c.json({ s: "error", errmsg: "unknown_symbol" }, 404);
+    }
+    const { chainId, poolAddress, isNative } = parsed;
+
+    const resolution = UDF_RESOLUTIONS[c.req.query("resolution") ?? ""];
+    if (!resolution) {
+      return c.json({ s: "error", errmsg: "unsupported_resolution" }, 400);
+    }
+    const interval = CANDLE_RESOLUTIONS[resolution];
+
+    const to = BigInt(c.req.query("to") || Math.floor(Date.now() / 1000));
+    const countback = c.req.query("countback");
+    let from = countback
+      ? getCandleTimestamp(to, resolution) -
+        (BigInt(countback) - 1n) * interval
+      : BigInt(c.req.query("from") || 0);
+
+    // Clamp oversized ranges to the most recent bars
+    if ((to - from) / interval >= MAX_UDF_BARS) {
+      from =
+        getCandleTimestamp(to, resolution) - (MAX_UDF_BARS - 1n) * interval;
+    }
+    from = getCandleTimestamp(from, resolution);
+
+    const candleFilter = and(
+      eq(candle.poolAddress, poolAddress),
+      eq(candle.chainId, chainId),
+      eq(candle.resolution, resolution)
+    );
+
+    const [candles, previous] = await Promise.all([
+      db
+        .select()
+        .from(candle)
+        .where(
+          and(
+            candleFilter,
+            gte(candle.timestamp, from),
+            lte(candle.timestamp, to)
+          )
+        )
+        .orderBy(asc(candle.timestamp)),
+      db
+        .select()
+        .from(candle)
+        .where(and(candleFilter, lt(candle.timestamp, from)))
+        .orderBy(desc(candle.timestamp))
+        .limit(1),
+    ]);
+
+    const bars = fillCandleGaps(candles, {
+      resolution,
+      from,
+      to,
+      previous: previous[0],
+    });
+
+    if (bars.length === 0) {
+      return c.json({ s: "no_data" });
+    }
+
+    // Native volume is reported in whole quote tokens
+    let quoteDecimals = 18;
+    if (isNative) {
+      const [quote] = await db
+        .select({ decimals: token.decimals })
+        .from(pool)
+        .innerJoin(
+          token,
+          and(
+            eq(token.address, pool.quoteToken),
+            eq(token.chainId, pool.chainId)
+          )
+        )
+        .where(and(eq(pool.address, poolAddress), eq(pool.chainId, chainId)))
+        .limit(1);
+      quoteDecimals = quote?.decimals ?? 18;
+    }
+
+    const toPrice = (native: bigint, usd: bigint) =>
+      Number(formatEther(isNative ? native : usd));
+
+    return c.json({
+      s: "ok",
+      t: bars.map((bar) => Number(bar.timestamp)),
+      o: bars.map((bar) => toPrice(bar.open, bar.openUsd)),
+      h: bars.map((bar) => toPrice(bar.high, bar.highUsd)),
+      l: bars.map((bar) => toPrice(bar.low, bar.lowUsd)),
+      c: bars.map((bar) => toPrice(bar.close, bar.closeUsd)),
+      v: bars.map((bar) =>
+        Number(
+          isNative
+            ? formatUnits(bar.volumeQuote, quoteDecimals)
+            : formatEther(bar.volumeUsd)
+        )
+      ),
+    });
+  } catch (error) {
+    console.error("Error in /udf/history", error);
+    return c.json({ s: "error", errmsg: "Internal Server Error" }, 500);
+  }
+});
+
 export default app;
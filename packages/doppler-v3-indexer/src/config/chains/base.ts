@@ -43,6 +43,7 @@ export const baseSepoliaConfig: ChainConfig = {
       v4Initializer: "0xca2079706a4c2a4a1aa637dfb47d7f27fe58653f" as Address,
       v4Migrator: "0xe713efce3c639432fc3ca902f34edaf15ebcf3ac" as Address,
       v4MigratorHook: "0x508812fcdd4972a59b66eb2cad3772279c052000" as Address,
+      streamableFeesLocker: "0x4da7d7a8034510c0ffd38a9252237ae8dba3cb61" as Address,
       v4InitializerSelfCorrecting:
         "0x8e891d249f1ecbffa6143c03eb1b12843aef09d3" as Address,
     },
@@ -86,6 +87,7 @@ export const baseConfig: ChainConfig = {
       dopplerLens: "0x094d926a969b3024ca46d2186bf13fd5cdba9ce2" as Address,
       v4Migrator: "0xa24e35a5d71d02a59b41e7c93567626302da1958" as Address,
       v4MigratorHook: "0x1370ad7fda3b054eca3532a066b968433e736000" as Address,
+      streamableFeesLocker: "0x0a00775d71a42cd33d62780003035e7f5b47bd3a" as Address,
       v4InitializerSelfCorrecting:
         "0x82Ac010C67f70BACf7655cd8948a4AD92A173CAC" as Address,
     },
@@ -109,4 +111,17 @@ export const baseConfig: ChainConfig = {
     },
     oracle: ORACLE_ADDRESSES,
   },
+  numeraires: [
+    {
+      address: "0x1111111111166b7FE7bd91427724B487980aFc69" as Address,
+      symbol: "ZORA",
+      decimals: 18,
+      source: {
+        type: "twap",
+        pool: "0xedc625b74537ee3a10874f53d170e9c17a906b9c" as Address,
+        quoteToken: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" as Address,
+        secondsAgo: 1800,
+      },
+    },
+  ],
 };
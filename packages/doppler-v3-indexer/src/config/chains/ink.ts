@@ -35,6 +35,7 @@ export const inkConfig: ChainConfig = {
       dopplerLens: "0xCe3099B2F07029b086E5e92a1573C5f5A3071783" as Address,
       v4Migrator: COMMON_ADDRESSES.ZERO_ADDRESS,
       v4MigratorHook: COMMON_ADDRESSES.ZERO_ADDRESS,
+      streamableFeesLocker: COMMON_ADDRESSES.ZERO_ADDRESS,
       v4InitializerSelfCorrecting: COMMON_ADDRESSES.ZERO_ADDRESS as Address,
     },
     shared: {
@@ -27,6 +27,7 @@ export const mainnetConfig: ChainConfig = {
       v4Initializer2: COMMON_ADDRESSES.ZERO_ADDRESS,
       v4Migrator: COMMON_ADDRESSES.ZERO_ADDRESS,
       v4MigratorHook: COMMON_ADDRESSES.ZERO_ADDRESS,
+      streamableFeesLocker: COMMON_ADDRESSES.ZERO_ADDRESS,
       v4InitializerSelfCorrecting: COMMON_ADDRESSES.ZERO_ADDRESS,
     },
     shared: {
@@ -14,6 +14,9 @@ export interface MarketMetrics {
 
 /**
  * Liquidity calculation parameters
+ * ethPriceUSD is the USD price of one whole quote token, which is the ETH
+ * price when the pool is quoted in ETH, and quoteDecimals the decimals of
+ * quoteBalance
  */
 export interface LiquidityParams {
   assetBalance: bigint;
@@ -22,6 +25,7 @@ export interface LiquidityParams {
   ethPriceUSD: bigint;
   isQuoteETH?: boolean;
   decimals?: number;
+  quoteDecimals?: number;
 }
 
 /**
@@ -90,20 +94,22 @@ export class MarketDataService {
       ethPriceUSD,
       isQuoteETH = true,
       decimals = 8,
+      quoteDecimals = 18,
     } = params;
 
     // Calculate asset value in quote currency
     const assetValueInQuote = (assetBalance * price) / WAD;
+    const quoteValue = PriceService.toWad(quoteBalance, quoteDecimals);
 
     if (isQuoteETH) {
       // Convert both to USD
       const assetValueUsd = (assetValueInQuote * ethPriceUSD) / BigInt(10 ** decimals);
-      const quoteValueUsd = (quoteBalance * ethPriceUSD) / BigInt(10 ** decimals);
+      const quoteValueUsd = (quoteValue * ethPriceUSD) / BigInt(10 ** decimals);
       return assetValueUsd + quoteValueUsd;
     }
 
     // If quote is already USD, just add them
-    return assetValueInQuote + quoteBalance;
+    return assetValueInQuote + quoteValue;
   }
 
   /**
@@ -141,6 +147,7 @@ export class MarketDataService {
     swapAmountIn?: bigint;
     swapAmountOut?: bigint;
     assetDecimals?: number;
+    quoteDecimals?: number;
     isQuoteETH?: boolean;
   }): MarketMetrics {
     const {
@@ -152,6 +159,7 @@ export class MarketDataService {
       swapAmountIn = 0n,
       swapAmountOut = 0n,
       assetDecimals = 18,
+      quoteDecimals = 18,
       isQuoteETH = true,
     } = params;
 
@@ -171,6 +179,7 @@ export class MarketDataService {
       price,
       ethPriceUSD,
       isQuoteETH,
+      quoteDecimals,
     });
 
     // Calculate volume if swap amounts provided
@@ -181,6 +190,7 @@ export class MarketDataService {
         amountOut: swapAmountOut,
         ethPriceUSD,
         isQuoteETH,
+        quoteDecimals,
       });
     }
 
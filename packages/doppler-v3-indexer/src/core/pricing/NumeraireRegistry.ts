@@ -0,0 +1,127 @@
+import { Address, zeroAddress } from "viem";
+import { Context } from "ponder:registry";
+import { DERC20ABI } from "@app/abis";
+import { chainConfigs } from "@app/config";
+import { Network, NumeraireConfig } from "@app/types/config";
+
+/**
+ * Numeraire with its decimals resolved. Numeraires missing from the registry
+ * have no price source and are valued at zero, with a warning.
+ */
+export type ResolvedNumeraire = Omit<NumeraireConfig, "source"> & {
+  source?: NumeraireConfig["source"];
+};
+
+// Decimals of unregistered numeraires, keyed by chain id and address
+const decimalsCache = new Map<string, number>();
+
+// Decimals assumed for unregistered numeraires whose `decimals()` reverts, so
+// their pools still get a quote price. They have no price source, so their
+// USD values stay at zero.
+const ASSUMED_DECIMALS = 18;
+
+/**
+ * Registry of the quote tokens the indexer can price in USD
+ */
+export class NumeraireRegistry {
+  /**
+   * Lists the numeraires of a chain: native ETH and WETH priced through
+   * Chainlink, the configured stablecoins at one dollar, then any numeraires
+   * from the chain config
+   */
+  static list(network: Network): NumeraireConfig[] {
+    const { addresses, numeraires = [] } = chainConfigs[network];
+
+    const defaults: NumeraireConfig[] = [
+      {
+        address: zeroAddress,
+        symbol: "ETH",
+        decimals: 18,
+        source: { type: "chainlinkEth" },
+      },
+      {
+        address: addresses.shared.weth,
+        symbol: "WETH",
+        decimals: 18,
+        source: { type: "chainlinkEth" },
+      },
+    ];
+
+    if (addresses.stables?.usdc) {
+      defaults.push({
+        address: addresses.stables.usdc,
+        symbol: "USDC",
+        decimals: 6,
+        source: { type: "stable" },
+      });
+    }
+
+    return [...defaults, ...numeraires];
+  }
+
+  /**
+   * Finds a registered numeraire by address
+   */
+  static find(
+    network: Network,
+    address: Address
+  ): NumeraireConfig | undefined {
+    const target = address.toLowerCase();
+    return NumeraireRegistry.list(network).find(
+      (numeraire) => numeraire.address.toLowerCase() === target
+    );
+  }
+
+  /**
+   * Resolves a numeraire, reading the decimals of unregistered tokens from
+   * the chain. Tokens without readable decimals are warned about once and
+   * resolved with `ASSUMED_DECIMALS`.
+   */
+  static async resolve({
+    address,
+    context,
+  }: {
+    address: Address;
+    context: Context;
+  }): Promise<ResolvedNumeraire> {
+    const { chain, client } = context;
+    const registered = NumeraireRegistry.find(chain.name, address);
+    if (registered) {
+      return registered;
+    }
+
+    const cacheKey = `${chain.id}:${address.toLowerCase()}`;
+    let decimals = decimalsCache.get(cacheKey);
+    if (decimals === undefined) {
+      decimals = await client
+        .readContract({
+          abi: DERC20ABI,
+          address,
+          functionName: "decimals",
+        })
+        .catch((error) => {
+          console.warn(
+            `Cannot read the decimals of numeraire ${address} on ${chain.name}, its prices assume ${ASSUMED_DECIMALS} decimals until it is registered in the chain config`,
+            error
+          );
+          return ASSUMED_DECIMALS;
+        });
+      decimalsCache.set(cacheKey, decimals);
+    }
+
+    return {
+      address,
+      symbol: "???",
+      decimals,
+    };
+  }
+
+  /**
+   * Whether a numeraire is native ETH or WETH
+   */
+  static isEth(network: Network, address: Address): boolean {
+    return (
+      NumeraireRegistry.find(network, address)?.source.type === "chainlinkEth"
+    );
+  }
+}
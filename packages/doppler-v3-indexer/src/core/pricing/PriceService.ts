@@ -7,6 +7,8 @@ export class PriceService {
   /**
    * Computes price from sqrt price (used by V3 and V4 protocols)
    * This is the core calculation that was duplicated across V3 and V4
+   * Returns the quote price of one whole asset token, scaled to 18 decimals
+   * whatever the decimals of either token
    */
   static computePriceFromSqrtPriceX96({
     sqrtPriceX96,
@@ -21,13 +23,16 @@ export class PriceService {
   }): bigint {
     const ratioX192 = sqrtPriceX96 * sqrtPriceX96;
 
-    const price = isToken0
-      ? (ratioX192 * BigInt(10 ** decimals)) / Q192
-      : (Q192 * BigInt(10 ** decimals)) / ratioX192;
+    // ratioX192 / Q192 is raw quote per raw asset when the asset is token0
+    const [numerator, denominator] = isToken0
+      ? [ratioX192, Q192]
+      : [Q192, ratioX192];
 
-    const scaledPrice = price * 10n ** (BigInt(decimals) - BigInt(quoteDecimals));
-
-    return scaledPrice;
+    return PriceService.scaleRatio({
+      numerator,
+      denominator,
+      exponent: 18 + decimals - quoteDecimals,
+    });
   }
 
   /**
@@ -37,20 +42,58 @@ export class PriceService {
   static computePriceFromReserves({
     assetBalance,
     quoteBalance,
+    assetDecimals = 18,
+    quoteDecimals = 18,
   }: {
     assetBalance: bigint;
     quoteBalance: bigint;
+    assetDecimals?: number;
+    quoteDecimals?: number;
   }): bigint {
     if (assetBalance === 0n) {
       throw new Error("Asset balance cannot be zero");
     }
-    
-    const quote = (WAD * quoteBalance) / assetBalance;
-    return quote;
+
+    return PriceService.scaleRatio({
+      numerator: quoteBalance,
+      denominator: assetBalance,
+      exponent: 18 + assetDecimals - quoteDecimals,
+    });
+  }
+
+  /**
+   * Scales a token amount to 18 decimals
+   */
+  static toWad(amount: bigint, decimals: number): bigint {
+    return PriceService.scaleRatio({
+      numerator: amount,
+      denominator: 1n,
+      exponent: 18 - decimals,
+    });
+  }
+
+  /**
+   * Computes numerator / denominator * 10^exponent, dividing last so that
+   * no precision is lost for positive exponents
+   */
+  private static scaleRatio({
+    numerator,
+    denominator,
+    exponent,
+  }: {
+    numerator: bigint;
+    denominator: bigint;
+    exponent: number;
+  }): bigint {
+    const scale = 10n ** BigInt(Math.abs(exponent));
+    return exponent >= 0
+      ? (numerator * scale) / denominator
+      : numerator / (denominator * scale);
   }
 
   /**
-   * Converts a price to USD using ETH price
+   * Converts a price to USD using ETH price, or the USD price of whichever
+   * numeraire the pool is quoted in
    * Common calculation used across all protocols
    */
   static computePriceUSD({
@@ -1 +1,3 @@
-export { PriceService } from "./PriceService";
\ No newline at end of file
+export { PriceService } from "./PriceService";
+export { NumeraireRegistry } from "./NumeraireRegistry";
+export type { ResolvedNumeraire } from "./NumeraireRegistry";
@@ -3,6 +3,7 @@ import { Context } from "ponder:registry";
 import { SwapService, SwapData, SwapMarketMetrics } from "./SwapService";
 import { SwapType } from "@app/types/shared";
 import { updateDayBucket, BucketUpdateParams, get24HourVolumeAndPercentChange } from "@app/utils/time-buckets";
+import { updateCandles } from "@app/utils/candles";
 
 /**
  * Orchestrates all entity updates required after a swap
@@ -64,8 +65,28 @@ export class SwapOrchestrator {
       userAddress: swapData.sender,
     };
 
-    // Update the bucket first to get the new volume
-    await updateDayBucket(context, bucketParams);
+    // Quote side of the swap: paid in on buys, received on sells
+    const volumeQuote =
+      swapType === "buy" ? swapData.amountIn : swapData.amountOut;
+    const priceUsd =
+      (poolData.price * swapData.ethPriceUSD) /
+      10n ** BigInt(swapData.usdPriceDecimals ?? 8);
+
+    // Update the bucket and candles first to get the new volume
+    await Promise.all([
+      updateDayBucket(context, bucketParams),
+      updateCandles(context, {
+        poolAddress: poolData.parentPoolAddress,
+        assetAddress: swapData.assetAddress,
+        chainId,
+        timestamp: swapData.timestamp,
+        price: poolData.price,
+        priceUsd,
+        volumeQuote: volumeQuote < 0n ? -volumeQuote : volumeQuote,
+        volumeUsd: metrics.swapValueUsd,
+        isBuy: swapType === "buy",
+      }),
+    ]);
 
     // Get the updated 24-hour volume from bucket
     const { volumeUsd, percentChange } = await get24HourVolumeAndPercentChange(
@@ -127,6 +148,7 @@ export class SwapOrchestrator {
     amountOut: bigint;
     price: bigint;
     ethPriceUSD: bigint;
+    usdPriceDecimals?: number;
   }): SwapData {
     return params;
   }
@@ -19,6 +19,7 @@ export interface SwapData {
   amountOut: bigint;
   price: bigint;
   ethPriceUSD: bigint;
+  usdPriceDecimals?: number; // Decimals of ethPriceUSD, 8 unless set
 }
 
 /**
@@ -85,6 +86,7 @@ export class SwapService {
     assetDecimals: number;
     assetBalance: bigint;
     quoteBalance: bigint;
+    quoteDecimals?: number;
     isQuoteETH?: boolean;
   }): SwapMarketMetrics {
     const {
@@ -96,6 +98,7 @@ export class SwapService {
       assetDecimals,
       assetBalance,
       quoteBalance,
+      quoteDecimals,
       isQuoteETH = true,
     } = params;
 
@@ -108,6 +111,7 @@ export class SwapService {
       swapAmountIn,
       swapAmountOut,
       assetDecimals,
+      quoteDecimals,
       isQuoteETH,
     });
 
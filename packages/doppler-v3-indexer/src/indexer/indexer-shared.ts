@@ -9,6 +9,8 @@ import { insertUserIfNotExists, updateUser } from "./shared/entities/user";
 import { updatePool } from "./shared/entities/pool";
 import { chainConfigs } from "../config/chains";
 import { insertV3MigrationPoolIfNotExists } from "./shared/entities/migrationPool";
+import { updateModuleState } from "./shared/entities/module";
+import { getV4MigrationPoolId } from "@app/utils/v4-utils";
 import { zeroAddress } from "viem";
 
 ponder.on("Airlock:Migrate", async ({ event, context }) => {
@@ -24,6 +26,7 @@ ponder.on("Airlock:Migrate", async ({ event, context }) => {
   });
 
   const v2Migrator = chainConfigs[chain.name].addresses.v2.v2Migrator;
+  const v4Migrator = chainConfigs[chain.name].addresses.v4.v4Migrator;
 
   if (
     assetEntity.liquidityMigrator.toLowerCase() == v2Migrator.toLowerCase()
@@ -55,9 +58,57 @@ ponder.on("Airlock:Migrate", async ({ event, context }) => {
         },
       }),
     ]);
+  } else if (
+    v4Migrator != zeroAddress &&
+    assetEntity.liquidityMigrator.toLowerCase() == v4Migrator.toLowerCase()
+  ) {
+    // V4 pools have no address, the migrator stores the key of the pool it
+    // initialized earlier in this transaction, which PoolManager:Initialize
+    // already added to v4pools
+    const poolId = await getV4MigrationPoolId({
+      assetAddress: assetId,
+      numeraireAddress: assetEntity.numeraire,
+      context,
+    });
+
+    await Promise.all([
+      updateAsset({
+        assetAddress: assetId,
+        context,
+        update: {
+          migratedAt: timestamp,
+          migrated: true,
+          migrationType: "v4",
+        },
+      }),
+      updatePool({
+        poolAddress: assetEntity.poolAddress,
+        context,
+        update: {
+          migratedAt: timestamp,
+          migrated: true,
+          migratedToV4PoolId: poolId,
+          migrationType: "v4",
+        },
+      }),
+    ]);
   }
 });
 
+ponder.on("Airlock:SetModuleState", async ({ event, context }) => {
+  const { module, state } = event.args;
+
+  await updateModuleState({
+    moduleAddress: module,
+    state,
+    txHash: event.transaction.hash,
+    logIndex: event.log.logIndex,
+    blockNumber: event.block.number,
+    timestamp: event.block.timestamp,
+    context,
+  });
+});
+
 ponder.on("UniswapV3Migrator:Migrate", async ({ event, context }) => {
   const { chain } = context;
   const { timestamp } = event.block;
@@ -78,6 +129,7 @@ ponder.on("UniswapV3Migrator:Migrate", async ({ event, context }) => {
   } else {
     const assetEntityCheck = await context.db.find(asset, {
       address: token0Address,
+      chainId: BigInt(chain.id),
     });
     if (assetEntityCheck) {
       isToken0 = true;
@@ -88,6 +140,7 @@ ponder.on("UniswapV3Migrator:Migrate", async ({ event, context }) => {
 
   const assetEntity = await context.db.find(asset, {
     address: isToken0 ? token0Address : token1Address,
+    chainId: BigInt(chain.id),
   });
 
   await insertV3MigrationPoolIfNotExists({
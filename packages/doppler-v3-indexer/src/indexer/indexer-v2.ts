@@ -1,7 +1,7 @@
 import { ponder } from "ponder:registry";
 import { v2Pool } from "ponder.schema";
 import { getPairData } from "@app/utils/v2-utils/getPairData";
-import { computeMarketCap, fetchEthPrice } from "./shared/oracle";
+import { computeMarketCap, fetchNumerairePrice } from "./shared/oracle";
 import {
   insertPoolIfNotExists,
   insertTokenIfNotExists,
@@ -32,18 +32,21 @@ ponder.on("UniswapV2Pair:Swap", async ({ event, context }) => {
     return;
   }
 
-  const [reserves, ethPrice] = await Promise.all([
+  const [reserves, { isToken0, baseToken, quoteToken }] = await Promise.all([
     getPairData({ address, context }),
-    fetchEthPrice(timestamp, context),
+    insertPoolIfNotExists({
+      poolAddress: parentPool,
+      timestamp,
+      context,
+    }),
   ]);
 
   const { reserve0, reserve1 } = reserves;
 
-  const { isToken0, baseToken, quoteToken } = await insertPoolIfNotExists({
-    poolAddress: parentPool,
+  const numerairePrice = await fetchNumerairePrice({
+    numeraire: quoteToken,
     timestamp,
     context,
-    ethPrice,
   });
 
   let v2isToken0 = isToken0;
@@ -67,6 +70,7 @@ ponder.on("UniswapV2Pair:Swap", async ({ event, context }) => {
   const price = PriceService.computePriceFromReserves({
     assetBalance,
     quoteBalance,
+    quoteDecimals: numerairePrice.decimals,
   });
 
   const { totalSupply } = await insertTokenIfNotExists({
@@ -82,10 +86,11 @@ ponder.on("UniswapV2Pair:Swap", async ({ event, context }) => {
     price,
     swapAmountIn: amount0In > 0 ? amount0In : amount1In,
     swapAmountOut: amount0Out > 0 ? amount0Out : amount1Out,
-    ethPriceUSD: ethPrice,
+    ethPriceUSD: numerairePrice.usdPrice,
     assetDecimals: 18,
     assetBalance,
     quoteBalance,
+    quoteDecimals: numerairePrice.decimals,
     isQuoteETH: true,
   });
 
@@ -103,7 +108,10 @@ ponder.on("UniswapV2Pair:Swap", async ({ event, context }) => {
       quoteDelta = amount0Out;
     }
   }
-  const swapValueUsd = (quoteDelta * ethPrice) / CHAINLINK_ETH_DECIMALS;
+  const swapValueUsd =
+    (PriceService.toWad(quoteDelta, numerairePrice.decimals) *
+      numerairePrice.usdPrice) /
+    CHAINLINK_ETH_DECIMALS;
 
   // Create swap data
   const swapData = SwapOrchestrator.createSwapData({
@@ -119,7 +127,7 @@ ponder.on("UniswapV2Pair:Swap", async ({ event, context }) => {
     amountIn: amount0In > 0 ? amount0In : amount1In,
     amountOut: amount0Out > 0 ? amount0Out : amount1Out,
     price,
-    ethPriceUSD: ethPrice,
+    ethPriceUSD: numerairePrice.usdPrice,
   });
 
   // Create market metrics
@@ -156,7 +164,7 @@ ponder.on("UniswapV2Pair:Swap", async ({ event, context }) => {
     await updateV2Pool({
       poolAddress: address,
       context,
-      update: { price: (price * ethPrice) / CHAINLINK_ETH_DECIMALS },
+      update: { price: (price * numerairePrice.usdPrice) / CHAINLINK_ETH_DECIMALS },
     }),
   ]);
 
@@ -180,13 +188,16 @@ ponder.on("UniswapV2PairUnichain:Swap", async ({ event, context }) => {
 
   const { reserve0, reserve1 } = await getPairData({ address, context });
 
-  const ethPrice = await fetchEthPrice(timestamp, context);
-
   const { isToken0, baseToken, quoteToken } = await insertPoolIfNotExists({
     poolAddress: parentPool,
     timestamp,
     context,
-    ethPrice,
+  });
+
+  const numerairePrice = await fetchNumerairePrice({
+    numeraire: quoteToken,
+    timestamp,
+    context,
   });
 
   const amountIn = amount0In > 0 ? amount0In : amount1In;
@@ -207,6 +218,7 @@ ponder.on("UniswapV2PairUnichain:Swap", async ({ event, context }) => {
   const price = PriceService.computePriceFromReserves({
     assetBalance,
     quoteBalance,
+    quoteDecimals: numerairePrice.decimals,
   });
 
   const { totalSupply } = await insertTokenIfNotExists({
@@ -219,7 +231,7 @@ ponder.on("UniswapV2PairUnichain:Swap", async ({ event, context }) => {
 
   const marketCapUsd = computeMarketCap({
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
     totalSupply,
   });
 
@@ -230,7 +242,8 @@ ponder.on("UniswapV2PairUnichain:Swap", async ({ event, context }) => {
     assetBalance,
     quoteBalance,
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
+    quoteDecimals: numerairePrice.decimals,
   });
 
   let quoteDelta = 0n;
@@ -247,7 +260,10 @@ ponder.on("UniswapV2PairUnichain:Swap", async ({ event, context }) => {
       quoteDelta = amount0Out;
     }
   }
-  const swapValueUsd = (quoteDelta * ethPrice) / CHAINLINK_ETH_DECIMALS;
+  const swapValueUsd =
+    (PriceService.toWad(quoteDelta, numerairePrice.decimals) *
+      numerairePrice.usdPrice) /
+    CHAINLINK_ETH_DECIMALS;
 
   // Create swap data
   const swapData = SwapOrchestrator.createSwapData({
@@ -263,7 +279,7 @@ ponder.on("UniswapV2PairUnichain:Swap", async ({ event, context }) => {
     amountIn,
     amountOut,
     price,
-    ethPriceUSD: ethPrice,
+    ethPriceUSD: numerairePrice.usdPrice,
   });
 
   // Create market metrics
@@ -301,6 +317,6 @@ ponder.on("UniswapV2PairUnichain:Swap", async ({ event, context }) => {
   await updateV2Pool({
     poolAddress: address,
     context,
-    update: { price: (price * ethPrice) / CHAINLINK_ETH_DECIMALS },
+    update: { price: (price * numerairePrice.usdPrice) / CHAINLINK_ETH_DECIMALS },
   });
 });
@@ -18,7 +18,7 @@ import {
   updatePosition,
 } from "./shared/entities/position";
 import { insertTokenIfNotExists } from "./shared/entities/token";
-import { computeMarketCap, fetchEthPrice } from "./shared/oracle";
+import { computeMarketCap, fetchNumerairePrice } from "./shared/oracle";
 import { tryAddActivePool } from "./shared/scheduledJobs";
 
 ponder.on("UniswapV3Initializer:Create", async ({ event, context }) => {
@@ -30,13 +30,10 @@ ponder.on("UniswapV3Initializer:Create", async ({ event, context }) => {
   const assetId = asset.toLowerCase() as `0x${string}`;
   const poolOrHookId = poolOrHook.toLowerCase() as `0x${string}`;
 
-  const ethPrice = await fetchEthPrice(timestamp, context);
-
   const poolEntity = await insertPoolIfNotExists({
     poolAddress: poolOrHookId,
     context,
     timestamp,
-    ethPrice,
   });
 
   const [assetTokenEntity] = await Promise.all([
@@ -75,13 +72,10 @@ ponder.on("LockableUniswapV3Initializer:Create", async ({ event, context }) => {
   const assetId = asset.toLowerCase() as `0x${string}`;
   const poolOrHookId = poolOrHook.toLowerCase() as `0x${string}`;
 
-  const ethPrice = await fetchEthPrice(timestamp, context);
-
   const poolEntity = await insertLockableV3PoolIfNotExists({
     poolAddress: poolOrHookId,
     context,
     timestamp,
-    ethPrice,
   });
 
   const [assetTokenEntity] = await Promise.all([
@@ -125,15 +119,25 @@ ponder.on("LockableUniswapV3Pool:Mint", async ({ event, context }) => {
   const { tickLower, tickUpper, amount, owner, amount0, amount1 } = event.args;
   const timestamp = event.block.timestamp;
 
-  const ethPrice = await fetchEthPrice(timestamp, context);
+  const {
+    baseToken,
+    quoteToken,
+    isToken0,
+    price,
+    liquidity,
+    reserves0,
+    reserves1,
+  } = await insertLockableV3PoolIfNotExists({
+    poolAddress: address,
+    timestamp,
+    context,
+  });
 
-  const { baseToken, isToken0, price, liquidity, reserves0, reserves1 } =
-    await insertLockableV3PoolIfNotExists({
-      poolAddress: address,
-      timestamp,
-      context,
-      ethPrice,
-    });
+  const numerairePrice = await fetchNumerairePrice({
+    numeraire: quoteToken,
+    timestamp,
+    context,
+  });
 
   const reserveAssetBefore = isToken0 ? reserves0 : reserves1;
   const reserveQuoteBefore = isToken0 ? reserves1 : reserves0;
@@ -148,7 +152,8 @@ ponder.on("LockableUniswapV3Pool:Mint", async ({ event, context }) => {
     assetBalance: nextReservesAsset,
     quoteBalance: nextReservesQuote,
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
+    quoteDecimals: numerairePrice.decimals,
   });
 
   const [positionEntity] = await Promise.all([
@@ -206,15 +211,25 @@ ponder.on("LockableUniswapV3Pool:Burn", async ({ event, context }) => {
   const timestamp = event.block.timestamp;
   const { tickLower, tickUpper, owner, amount, amount0, amount1 } = event.args;
 
-  const ethPrice = await fetchEthPrice(timestamp, context);
+  const {
+    baseToken,
+    quoteToken,
+    isToken0,
+    price,
+    liquidity,
+    reserves0,
+    reserves1,
+  } = await insertLockableV3PoolIfNotExists({
+    poolAddress: address,
+    timestamp,
+    context,
+  });
 
-  const { baseToken, isToken0, price, liquidity, reserves0, reserves1 } =
-    await insertLockableV3PoolIfNotExists({
-      poolAddress: address,
-      timestamp,
-      context,
-      ethPrice,
-    });
+  const numerairePrice = await fetchNumerairePrice({
+    numeraire: quoteToken,
+    timestamp,
+    context,
+  });
 
   const reserveAssetBefore = isToken0 ? reserves0 : reserves1;
   const reserveQuoteBefore = isToken0 ? reserves1 : reserves0;
@@ -229,7 +244,8 @@ ponder.on("LockableUniswapV3Pool:Burn", async ({ event, context }) => {
     assetBalance: nextReservesAsset,
     quoteBalance: nextReservesQuote,
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
+    quoteDecimals: numerairePrice.decimals,
   });
 
   const positionEntity = await insertPositionIfNotExists({
@@ -278,8 +294,6 @@ ponder.on("LockableUniswapV3Pool:Swap", async ({ event, context }) => {
   const timestamp = event.block.timestamp;
   const { amount0, amount1, sqrtPriceX96 } = event.args;
 
-  const ethPrice = await fetchEthPrice(event.block.timestamp, context);
-
   const {
     isToken0,
     baseToken,
@@ -294,13 +308,19 @@ ponder.on("LockableUniswapV3Pool:Swap", async ({ event, context }) => {
     poolAddress: address,
     timestamp,
     context,
-    ethPrice,
+  });
+
+  const numerairePrice = await fetchNumerairePrice({
+    numeraire: quoteToken,
+    timestamp,
+    context,
   });
 
   const price = PriceService.computePriceFromSqrtPriceX96({
     sqrtPriceX96,
     isToken0,
     decimals: 18,
+    quoteDecimals: numerairePrice.decimals,
   });
 
   const reserveAssetBefore = isToken0 ? reserves0 : reserves1;
@@ -341,7 +361,8 @@ ponder.on("LockableUniswapV3Pool:Swap", async ({ event, context }) => {
     assetBalance: nextReservesAsset,
     quoteBalance: nextReservesQuote,
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
+    quoteDecimals: numerairePrice.decimals,
   });
 
   const { totalSupply } = await insertTokenIfNotExists({
@@ -355,13 +376,16 @@ ponder.on("LockableUniswapV3Pool:Swap", async ({ event, context }) => {
 
   const marketCapUsd = computeMarketCap({
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
     totalSupply,
   });
 
   const swapValueUsd =
-    ((reserveQuoteDelta < 0n ? -reserveQuoteDelta : reserveQuoteDelta) *
-      ethPrice) /
+    (PriceService.toWad(
+      reserveQuoteDelta < 0n ? -reserveQuoteDelta : reserveQuoteDelta,
+      numerairePrice.decimals
+    ) *
+      numerairePrice.usdPrice) /
     CHAINLINK_ETH_DECIMALS;
 
   // Create swap data
@@ -378,7 +402,7 @@ ponder.on("LockableUniswapV3Pool:Swap", async ({ event, context }) => {
     amountIn,
     amountOut,
     price,
-    ethPriceUSD: ethPrice,
+    ethPriceUSD: numerairePrice.usdPrice,
   });
 
   // Create market metrics
@@ -434,10 +458,9 @@ ponder.on("UniswapV3Pool:Mint", async ({ event, context }) => {
   const { tickLower, tickUpper, amount, owner, amount0, amount1 } = event.args;
   const timestamp = event.block.timestamp;
 
-  const ethPrice = await fetchEthPrice(timestamp, context);
-
   const {
     baseToken,
+    quoteToken,
     isToken0,
     price,
     liquidity,
@@ -448,7 +471,12 @@ ponder.on("UniswapV3Pool:Mint", async ({ event, context }) => {
     poolAddress: address,
     timestamp,
     context,
-    ethPrice,
+  });
+
+  const numerairePrice = await fetchNumerairePrice({
+    numeraire: quoteToken,
+    timestamp,
+    context,
   });
 
   const reserveAssetBefore = isToken0 ? reserves0 : reserves1;
@@ -464,7 +492,8 @@ ponder.on("UniswapV3Pool:Mint", async ({ event, context }) => {
     assetBalance: nextReservesAsset,
     quoteBalance: nextReservesQuote,
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
+    quoteDecimals: numerairePrice.decimals,
   });
 
   const graduationThresholdDelta = computeGraduationThresholdDelta({
@@ -530,10 +559,9 @@ ponder.on("UniswapV3Pool:Burn", async ({ event, context }) => {
   const timestamp = event.block.timestamp;
   const { tickLower, tickUpper, owner, amount, amount0, amount1 } = event.args;
 
-  const ethPrice = await fetchEthPrice(timestamp, context);
-
   const {
     baseToken,
+    quoteToken,
     isToken0,
     price,
     liquidity,
@@ -544,7 +572,12 @@ ponder.on("UniswapV3Pool:Burn", async ({ event, context }) => {
     poolAddress: address,
     timestamp,
     context,
-    ethPrice,
+  });
+
+  const numerairePrice = await fetchNumerairePrice({
+    numeraire: quoteToken,
+    timestamp,
+    context,
   });
 
   const reserveAssetBefore = isToken0 ? reserves0 : reserves1;
@@ -560,7 +593,8 @@ ponder.on("UniswapV3Pool:Burn", async ({ event, context }) => {
     assetBalance: nextReservesAsset,
     quoteBalance: nextReservesQuote,
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
+    quoteDecimals: numerairePrice.decimals,
   });
 
   const graduationThresholdDelta = computeGraduationThresholdDelta({
@@ -617,8 +651,6 @@ ponder.on("UniswapV3Pool:Swap", async ({ event, context }) => {
   const timestamp = event.block.timestamp;
   const { amount0, amount1, sqrtPriceX96 } = event.args;
 
-  const ethPrice = await fetchEthPrice(event.block.timestamp, context);
-
   const {
     isToken0,
     baseToken,
@@ -634,17 +666,23 @@ ponder.on("UniswapV3Pool:Swap", async ({ event, context }) => {
     poolAddress: address,
     timestamp,
     context,
-    ethPrice,
   });
 
   if (migrated) {
     return;
   }
 
+  const numerairePrice = await fetchNumerairePrice({
+    numeraire: quoteToken,
+    timestamp,
+    context,
+  });
+
   const price = PriceService.computePriceFromSqrtPriceX96({
     sqrtPriceX96,
     isToken0,
     decimals: 18,
+    quoteDecimals: numerairePrice.decimals,
   });
 
   const reserveAssetBefore = isToken0 ? reserves0 : reserves1;
@@ -685,7 +723,8 @@ ponder.on("UniswapV3Pool:Swap", async ({ event, context }) => {
     assetBalance: nextReservesAsset,
     quoteBalance: nextReservesQuote,
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
+    quoteDecimals: numerairePrice.decimals,
   });
 
   const { totalSupply } = await insertTokenIfNotExists({
@@ -699,13 +738,16 @@ ponder.on("UniswapV3Pool:Swap", async ({ event, context }) => {
 
   const marketCapUsd = computeMarketCap({
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
     totalSupply,
   });
 
   const swapValueUsd =
-    ((reserveQuoteDelta < 0n ? -reserveQuoteDelta : reserveQuoteDelta) *
-      ethPrice) /
+    (PriceService.toWad(
+      reserveQuoteDelta < 0n ? -reserveQuoteDelta : reserveQuoteDelta,
+      numerairePrice.decimals
+    ) *
+      numerairePrice.usdPrice) /
     CHAINLINK_ETH_DECIMALS;
 
   // Create swap data
@@ -722,7 +764,7 @@ ponder.on("UniswapV3Pool:Swap", async ({ event, context }) => {
     amountIn,
     amountOut,
     price,
-    ethPriceUSD: ethPrice,
+    ethPriceUSD: numerairePrice.usdPrice,
   });
 
   // Create market metrics
@@ -779,13 +821,10 @@ ponder.on("UniswapV3MigrationPool:Swap", async ({ event, context }) => {
 
   const address = event.log.address.toLowerCase() as `0x${string}`;
 
-  const [ethPrice, v3MigrationPool] = await Promise.all([
-    fetchEthPrice(timestamp, context),
-    fetchV3MigrationPool({
-      poolAddress: address,
-      context,
-    }),
-  ]);
+  const v3MigrationPool = await fetchV3MigrationPool({
+    poolAddress: address,
+    context,
+  });
 
   if (!v3MigrationPool) {
     return;
@@ -794,19 +833,25 @@ ponder.on("UniswapV3MigrationPool:Swap", async ({ event, context }) => {
   const { isToken0, reserveBaseToken, reserveQuoteToken, fee } =
     v3MigrationPool!;
 
-  const price = PriceService.computePriceFromSqrtPriceX96({
-    sqrtPriceX96,
-    isToken0,
-    decimals: 18,
-  });
-
   const parentPool = v3MigrationPool!.parentPool.toLowerCase() as `0x${string}`;
 
   const { baseToken, quoteToken } = await insertPoolIfNotExists({
     poolAddress: parentPool,
     timestamp,
     context,
-    ethPrice,
+  });
+
+  const numerairePrice = await fetchNumerairePrice({
+    numeraire: quoteToken,
+    timestamp,
+    context,
+  });
+
+  const price = PriceService.computePriceFromSqrtPriceX96({
+    sqrtPriceX96,
+    isToken0,
+    decimals: 18,
+    quoteDecimals: numerairePrice.decimals,
   });
 
   const baseTokenReserveBefore = reserveBaseToken;
@@ -845,7 +890,8 @@ ponder.on("UniswapV3MigrationPool:Swap", async ({ event, context }) => {
     assetBalance: baseTokenReserveAfter,
     quoteBalance: quoteTokenReserveAfter,
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
+    quoteDecimals: numerairePrice.decimals,
   });
 
   const { totalSupply } = await insertTokenIfNotExists({
@@ -859,15 +905,16 @@ ponder.on("UniswapV3MigrationPool:Swap", async ({ event, context }) => {
 
   const marketCapUsd = computeMarketCap({
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
     totalSupply,
   });
 
   const swapValueUsd =
-    ((quoteTokenReserveDelta < 0n
-      ? -quoteTokenReserveDelta
-      : quoteTokenReserveDelta) *
-      ethPrice) /
+    (PriceService.toWad(
+      quoteTokenReserveDelta < 0n ? -quoteTokenReserveDelta : quoteTokenReserveDelta,
+      numerairePrice.decimals
+    ) *
+      numerairePrice.usdPrice) /
     CHAINLINK_ETH_DECIMALS;
 
   // Create swap data
@@ -884,7 +931,7 @@ ponder.on("UniswapV3MigrationPool:Swap", async ({ event, context }) => {
     amountIn,
     amountOut,
     price,
-    ethPriceUSD: ethPrice,
+    ethPriceUSD: numerairePrice.usdPrice,
   });
 
   // Create market metrics
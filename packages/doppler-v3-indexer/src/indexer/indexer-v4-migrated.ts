@@ -1,357 +1,391 @@
 import { ponder } from "ponder:registry";
 import { chainConfigs } from "@app/config/chains";
-import { insertSwapIfNotExists } from "./shared/entities/swap";
 import { updatePool } from "./shared/entities/pool";
 import { updateAsset } from "./shared/entities/asset";
-import { fetchEthPrice } from "./shared/oracle";
-import { computeV4Price } from "@app/utils/v4-utils/computeV4Price";
-import { Address } from "viem";
-import { SwapService, SwapOrchestrator } from "@app/core";
+import { computeMarketCap, fetchNumerairePrice } from "./shared/oracle";
+import { Address, zeroAddress } from "viem";
+import { SwapService, SwapOrchestrator, PriceService } from "@app/core";
 import { computeDollarLiquidity } from "@app/utils/computeDollarLiquidity";
 import { tryAddActivePool } from "./shared/scheduledJobs";
 import { insertTokenIfNotExists } from "./shared/entities/token";
 import { CHAINLINK_ETH_DECIMALS } from "@app/utils/constants";
-import { position } from "ponder:schema";
-import { fetchExistingV4Pool, updateV4Pool } from "./shared/entities/v4pools";
-import { insertPositionIfNotExists, updatePosition } from "./shared/entities/position";
+import {
+  fetchMigratedV4Pool,
+  insertV4PoolIfNotExists,
+  updateV4Pool,
+} from "./shared/entities/v4pools";
+import {
+  insertPositionIfNotExists,
+  updatePosition,
+} from "./shared/entities/position";
+import {
+  insertLockerFeeDistribution,
+  insertLockerFeeRelease,
+  insertLockerPositionIfNotExists,
+  updateLockerPosition,
+} from "./shared/entities/lockerPosition";
+import { getAmountsForLiquidity } from "@app/utils/v4-utils";
 
 // Helper to get V4MigratorHook address for a chain
 const getV4MigratorHook = (chainName: string): Address | null => {
   const config = chainConfigs[chainName as keyof typeof chainConfigs];
-  if (!config || config.addresses.v4.v4MigratorHook === "0x0000000000000000000000000000000000000000") {
+  if (!config || config.addresses.v4.v4MigratorHook === zeroAddress) {
     return null;
   }
   return config.addresses.v4.v4MigratorHook;
 };
 
+// The PoolManager logs of every V4 pool on the chain reach these handlers,
+// see the PoolManager contract in ponder.config.ts. Initialize only stores
+// pools using the migrator hook, and the Swap, ModifyLiquidity and Donate
+// handlers return early for pools missing from v4pools.
+
 // Track PoolManager Initialize events for pools created via V4Migrator
-// ponder.on("PoolManager:Initialize", async ({ event, context }) => {
-//   const { id: poolId, hooks, sqrtPriceX96, tick } = event.args;
-//   const { timestamp } = event.block;
-//   const { chain } = context;
-
-//   // Get the V4MigratorHook address for this chain
-//   const v4MigratorHook = getV4MigratorHook(chain.name);
-//   if (!v4MigratorHook) {
-//     return; // V4 migrator not configured for this chain
-//   }
-
-//   // Only process if this pool uses our migrator hook
-//   if (hooks.toLowerCase() !== v4MigratorHook.toLowerCase()) {
-//     return; // Not a migrated pool
-//   }
-
-//   // Get the existing v4pool entity (should have been created by Airlock:Migrate)
-//   let existingV4Pool;
-//   try {
-//     existingV4Pool = await fetchExistingV4Pool({
-//       poolId: poolId,
-//       context,
-//     });
-//   } catch (error) {
-//     console.warn(`V4 pool ${poolId} initialized via V4Migrator but not found in database`);
-//     return;
-//   }
-
-//   // Get ETH price for initial calculations
-//   const ethPrice = await fetchEthPrice(timestamp, context);
-
-//   // Calculate the initial price from tick
-//   const price = computeV4Price({
-//     currentTick: Number(tick),
-//     isToken0: existingV4Pool.isToken0,
-//     baseTokenDecimals: 18,
-//   });
-
-//   // Calculate initial dollar price
-//   const dollarPrice = (price * ethPrice) / CHAINLINK_ETH_DECIMALS;
-
-//   // Update the v4pool with initialization data
-//   await updateV4Pool({
-//     poolId: poolId,
-//     context,
-//     update: {
-//       price: dollarPrice,
-//       tick: Number(tick),
-//       sqrtPriceX96: sqrtPriceX96,
-//       lastRefreshed: timestamp,
-//     },
-//   });
-// });
+ponder.on("PoolManager:Initialize", async ({ event, context }) => {
+  const { id: poolId, currency0, currency1, fee, tickSpacing, hooks, sqrtPriceX96, tick } =
+    event.args;
+  const { timestamp } = event.block;
+  const { chain } = context;
+
+  const v4MigratorHook = getV4MigratorHook(chain.name);
+  if (!v4MigratorHook) {
+    return; // V4 migrator not configured for this chain
+  }
+
+  if (hooks.toLowerCase() !== v4MigratorHook.toLowerCase()) {
+    return; // Not a migrated pool
+  }
+
+  // The migrator initializes the pool before the airlock emits Migrate, which
+  // then links it to the asset's Doppler pool
+  await insertV4PoolIfNotExists({
+    poolId,
+    poolKey: { currency0, currency1, fee, tickSpacing, hooks },
+    sqrtPriceX96,
+    tick,
+    timestamp,
+    context,
+  });
+});
 
 // Track PoolManager Swap events for migrated pools
-// ponder.on("PoolManager:Swap", async ({ event, context }) => {
-//   const { id: poolId, sender, amount0, amount1, sqrtPriceX96, liquidity, tick, fee } = event.args;
-//   const { timestamp } = event.block;
-//   const { hash: txHash, from: txFrom } = event.transaction;
-//   const { chain } = context;
-
-//   // Check if this pool was created via migration
-//   let v4pool;
-//   try {
-//     v4pool = await fetchExistingV4Pool({
-//       poolId: poolId,
-//       context,
-//     });
-//   } catch (error) {
-//     return; // V4 pool not found, skip
-//   }
-
-//   if (!v4pool.migratedFromPool) {
-//     return; // Not a migrated pool, skip
-//   }
-
-//   // Get ETH price for USD calculations
-//   const ethPrice = await fetchEthPrice(timestamp, context);
-
-//   // Calculate the new price after the swap
-//   const newTick = Number(tick);
-//   const price = computeV4Price({
-//     currentTick: newTick,
-//     isToken0: v4pool.isToken0, // Use the stored token order
-//     baseTokenDecimals: 18,
-//   });
-
-//   // Determine swap amounts (V4 uses negative values for amounts out)
-//   const amountIn = amount0 > 0n ? amount0 : amount1;
-//   const amountOut = amount0 < 0n ? -amount0 : -amount1;
-//   const isZeroForOne = amount0 > 0n;
-
-//   // Determine the swap type
-//   const type = SwapService.determineSwapType({
-//     isToken0: v4pool.isToken0,
-//     amount0: amount0 > 0n ? amount0 : -amount0,
-//     amount1: amount1 > 0n ? amount1 : -amount1,
-//   });
-
-//   // Get token total supply for market cap calculation
-//   const { totalSupply } = await insertTokenIfNotExists({
-//     tokenAddress: v4pool.asset!,
-//     creatorAddress: v4pool.poolId,
-//     timestamp,
-//     context,
-//     isDerc20: true,
-//   });
-
-//   // Calculate market metrics
-//   const metrics = SwapService.calculateMarketMetrics({
-//     totalSupply,
-//     price,
-//     swapAmountIn: amountIn,
-//     swapAmountOut: amountOut,
-//     ethPriceUSD: ethPrice,
-//     assetDecimals: 18,
-//     assetBalance: v4pool.reserves0, // Use stored reserves
-//     quoteBalance: v4pool.reserves1,
-//     isQuoteETH: v4pool.isQuoteEth,
-//   });
-
-//   // Calculate swap value in USD
-//   let quoteDelta = 0n;
-//   if (v4pool.isToken0) {
-//     if (amount1 > 0n) {
-//       quoteDelta = amount1;
-//     } else {
-//       quoteDelta = -amount1;
-//     }
-//   } else {
-//     if (amount0 > 0n) {
-//       quoteDelta = amount0;
-//     } else {
-//       quoteDelta = -amount0;
-//     }
-//   }
-//   const swapValueUsd = quoteDelta * ethPrice / CHAINLINK_ETH_DECIMALS;
-
-//   // Calculate 24-hour price change
-//   const priceChange = await compute24HourPriceChange({
-//     poolAddress: poolId,
-//     marketCapUsd: metrics.marketCapUsd,
-//     context,
-//   });
-
-//   // Create swap data
-//   const swapData = SwapOrchestrator.createSwapData({
-//     poolAddress: poolId,
-//     sender: sender.toLowerCase() as Address,
-//     transactionHash: txHash,
-//     transactionFrom: txFrom,
-//     blockNumber: event.block.number,
-//     timestamp,
-//     assetAddress: v4pool.asset!,
-//     quoteAddress: v4pool.quoteToken,
-//     isToken0: v4pool.isToken0,
-//     amountIn,
-//     amountOut,
-//     price,
-//     ethPriceUSD: ethPrice,
-//   });
-
-//   // Create market metrics
-//   const marketMetrics = {
-//     liquidityUsd: metrics.liquidityUsd,
-//     marketCapUsd: metrics.marketCapUsd,
-//     swapValueUsd: swapValueUsd,
-//     percentDayChange: priceChange,
-//   };
-
-//   // Calculate fee amounts
-//   // V4 fees are taken from the amount in
-//   const feeAmount = (amountIn * BigInt(fee)) / 1000000n; // fee is in hundredths of a bip
-
-//   // Define entity updaters
-//   const entityUpdaters = {
-//     updatePool,
-//     updateAsset,
-//     insertSwap: insertSwapIfNotExists,
-//     insertOrUpdateBuckets,
-//     insertOrUpdateDailyVolume,
-//     tryAddActivePool,
-//   };
-
-//   // Perform common updates via orchestrator
-//   await Promise.all([
-//     SwapOrchestrator.performSwapUpdates(
-//       {
-//         swapData,
-//         swapType: type,
-//         metrics: marketMetrics,
-//         poolData: {
-//           parentPoolAddress: poolId,
-//           price,
-//         },
-//         chainId: BigInt(chain.id),
-//         context,
-//       },
-//       entityUpdaters
-//     ),
-//     updateV4Pool({
-//       poolId: poolId,
-//       context,
-//       update: {
-//         price,
-//         tick: newTick,
-//         sqrtPriceX96: sqrtPriceX96,
-//         liquidity,
-//         volumeUsd: v4pool.volumeUsd + swapValueUsd,
-//         lastSwapTimestamp: timestamp,
-//         totalFee0: isZeroForOne ? v4pool.totalFee0 + feeAmount : v4pool.totalFee0,
-//         totalFee1: !isZeroForOne ? v4pool.totalFee1 + feeAmount : v4pool.totalFee1,
-//         reserves0: v4pool.isToken0 ? v4pool.reserves0 - (isZeroForOne ? amountOut : amountIn) : v4pool.reserves0 + (isZeroForOne ? amountIn : amountOut),
-//         reserves1: v4pool.isToken0 ? v4pool.reserves1 + (!isZeroForOne ? amountIn : amountOut) : v4pool.reserves1 - (!isZeroForOne ? amountOut : amountIn),
-//       },
-//     }),
-//   ]);
-// });
-
-// // Track PoolManager ModifyLiquidity events for migrated pools
-// ponder.on("PoolManager:ModifyLiquidity", async ({ event, context }) => {
-//   const { id: poolId, sender, tickLower, tickUpper, liquidityDelta } = event.args;
-//   const { timestamp } = event.block;
-//   const { db, chain } = context;
-
-//   // Check if this pool was created via migration
-//   let v4pool;
-//   try {
-//     v4pool = await fetchExistingV4Pool({
-//       poolId: poolId,
-//       context,
-//     });
-//   } catch (error) {
-//     return; // V4 pool not found, skip
-//   }
-
-//   if (!v4pool.migratedFromPool) {
-//     return; // Not a migrated pool, skip
-//   }
-
-//   // Get ETH price for liquidity calculations
-//   const ethPrice = await fetchEthPrice(timestamp, context);
-
-//   // Update pool liquidity
-//   const newLiquidity = liquidityDelta > 0n
-//     ? v4pool.liquidity + BigInt(liquidityDelta)
-//     : v4pool.liquidity - BigInt(-liquidityDelta);
-
-//   // Calculate dollar liquidity
-//   const dollarLiquidity = computeDollarLiquidity({
-//     assetBalance: v4pool.reserves0,
-//     quoteBalance: v4pool.reserves1,
-//     price: v4pool.price,
-//     ethPrice,
-//   });
-
-//   await updateV4Pool({
-//     poolId: poolId,
-//     context,
-//     update: {
-//       liquidity: newLiquidity,
-//       dollarLiquidity,
-//       lastRefreshed: timestamp,
-//     },
-//   });
-
-//   // Update position tracking if this is a new position
-//   if (liquidityDelta > 0n) {
-//     const existingPosition = await db.find(position, {
-//       pool: poolId,
-//       tickLower: Number(tickLower),
-//       tickUpper: Number(tickUpper),
-//       chainId: BigInt(chain.id),
-//     });
-
-//     if (existingPosition) {
-//       await updatePosition({
-//         poolAddress: poolId,
-//         tickLower: Number(tickLower),
-//         tickUpper: Number(tickUpper),
-//         context,
-//         update: {
-//           liquidity: newLiquidity,
-//         },
-//       });
-//     } else {
-//       await insertPositionIfNotExists({
-//         poolAddress: poolId,
-//         tickLower: Number(tickLower),
-//         tickUpper: Number(tickUpper),
-//         liquidity: BigInt(liquidityDelta),
-//         owner: sender,
-//         timestamp,
-//         context,
-//       });
-//     }
-//   }
-// });
-
-// // Track PoolManager Donate events for migrated pools
-// ponder.on("PoolManager:Donate", async ({ event, context }) => {
-//   const { id: poolId, amount0, amount1 } = event.args;
-//   const { timestamp } = event.block;
-
-//   // Check if this pool was created via migration
-//   let v4pool;
-//   try {
-//     v4pool = await fetchExistingV4Pool({
-//       poolId: poolId,
-//       context,
-//     });
-//   } catch (error) {
-//     return; // V4 pool not found, skip
-//   }
-
-//   if (!v4pool.migratedFromPool) {
-//     return; // Not a migrated pool, skip
-//   }
-
-//   // Update pool reserves with donated amounts
-//   await updateV4Pool({
-//     poolId: poolId,
-//     context,
-//     update: {
-//       reserves0: v4pool.reserves0 + amount0,
-//       reserves1: v4pool.reserves1 + amount1,
-//       lastRefreshed: timestamp,
-//     },
-//   });
-// });
\ No newline at end of file
+ponder.on("PoolManager:Swap", async ({ event, context }) => {
+  const { id: poolId, sender, amount0, amount1, sqrtPriceX96, liquidity, tick, fee } =
+    event.args;
+  const { timestamp } = event.block;
+  const { chain } = context;
+
+  const v4pool = await fetchMigratedV4Pool({ poolId, context });
+  if (!v4pool) {
+    return;
+  }
+
+  const { isToken0, baseToken, quoteToken, reserves0, reserves1 } = v4pool;
+  const parentPool = v4pool.migratedFromPool!;
+
+  const numerairePrice = await fetchNumerairePrice({
+    numeraire: quoteToken,
+    timestamp,
+    context,
+  });
+
+  const price = PriceService.computePriceFromSqrtPriceX96({
+    sqrtPriceX96,
+    isToken0,
+    decimals: 18,
+    quoteDecimals: numerairePrice.decimals,
+  });
+
+  // V4 amounts are the swapper's deltas, negative for what it pays the pool
+  const poolAmount0 = -amount0;
+  const poolAmount1 = -amount1;
+
+  const zeroForOne = poolAmount0 > 0n;
+  const amountIn = zeroForOne ? poolAmount0 : poolAmount1;
+  const amountOut = zeroForOne ? -poolAmount1 : -poolAmount0;
+
+  // fee is in hundredths of a bip and taken from the amount in
+  const feeAmount = (amountIn * BigInt(fee)) / 1_000_000n;
+
+  const type = SwapService.determineSwapType({
+    isToken0,
+    amount0: poolAmount0,
+    amount1: poolAmount1,
+  });
+
+  const nextReserves0 = reserves0 + poolAmount0;
+  const nextReserves1 = reserves1 + poolAmount1;
+
+  const { totalSupply } = await insertTokenIfNotExists({
+    tokenAddress: baseToken,
+    creatorAddress: event.transaction.from,
+    timestamp,
+    context,
+    isDerc20: true,
+  });
+
+  const liquidityUsd = computeDollarLiquidity({
+    assetBalance: isToken0 ? nextReserves0 : nextReserves1,
+    quoteBalance: isToken0 ? nextReserves1 : nextReserves0,
+    price,
+    ethPrice: numerairePrice.usdPrice,
+    quoteDecimals: numerairePrice.decimals,
+  });
+
+  const marketCapUsd = computeMarketCap({
+    price,
+    ethPrice: numerairePrice.usdPrice,
+    totalSupply,
+  });
+
+  const quoteDelta = isToken0 ? poolAmount1 : poolAmount0;
+  const swapValueUsd =
+    (PriceService.toWad(
+      quoteDelta < 0n ? -quoteDelta : quoteDelta,
+      numerairePrice.decimals
+    ) *
+      numerairePrice.usdPrice) /
+    CHAINLINK_ETH_DECIMALS;
+
+  // Create swap data
+  const swapData = SwapOrchestrator.createSwapData({
+    poolAddress: parentPool,
+    sender: sender.toLowerCase() as Address,
+    transactionHash: event.transaction.hash,
+    transactionFrom: event.transaction.from,
+    blockNumber: event.block.number,
+    timestamp,
+    assetAddress: baseToken,
+    quoteAddress: quoteToken,
+    isToken0,
+    amountIn,
+    amountOut,
+    price,
+    ethPriceUSD: numerairePrice.usdPrice,
+  });
+
+  // Create market metrics
+  const metrics = {
+    liquidityUsd,
+    marketCapUsd,
+    swapValueUsd,
+    percentDayChange: 0,
+  };
+
+  // Define entity updaters
+  const entityUpdaters = {
+    updatePool,
+    updateAsset,
+    tryAddActivePool,
+  };
+
+  // The asset keeps trading through its Doppler pool record after migrating
+  await Promise.all([
+    SwapOrchestrator.performSwapUpdates(
+      {
+        swapData,
+        swapType: type,
+        metrics,
+        poolData: {
+          parentPoolAddress: parentPool,
+          price,
+        },
+        chainId: BigInt(chain.id),
+        context,
+      },
+      entityUpdaters
+    ),
+    updateV4Pool({
+      poolId,
+      context,
+      update: {
+        price,
+        tick,
+        sqrtPriceX96,
+        liquidity,
+        dollarLiquidity: liquidityUsd,
+        volumeUsd: v4pool.volumeUsd + swapValueUsd,
+        lastSwapTimestamp: timestamp,
+        lastRefreshed: timestamp,
+        totalFee0: zeroForOne ? v4pool.totalFee0 + feeAmount : v4pool.totalFee0,
+        totalFee1: zeroForOne ? v4pool.totalFee1 : v4pool.totalFee1 + feeAmount,
+        reserves0: nextReserves0,
+        reserves1: nextReserves1,
+      },
+    }),
+  ]);
+});
+
+// Track PoolManager ModifyLiquidity events for migrated pools
+ponder.on("PoolManager:ModifyLiquidity", async ({ event, context }) => {
+  const { id: poolId, sender, tickLower, tickUpper, liquidityDelta } = event.args;
+  const { timestamp } = event.block;
+
+  const v4pool = await fetchMigratedV4Pool({ poolId, context });
+  if (!v4pool) {
+    return;
+  }
+
+  const { isToken0, baseToken, quoteToken, tick, price } = v4pool;
+  const parentPool = v4pool.migratedFromPool!;
+
+  const { amount0, amount1 } = getAmountsForLiquidity({
+    tick,
+    tickLower,
+    tickUpper,
+    liquidity: liquidityDelta < 0n ? -liquidityDelta : liquidityDelta,
+  });
+
+  const isAdd = liquidityDelta > 0n;
+  const reserves0 = isAdd ? v4pool.reserves0 + amount0 : v4pool.reserves0 - amount0;
+  const reserves1 = isAdd ? v4pool.reserves1 + amount1 : v4pool.reserves1 - amount1;
+
+  // Only positions around the current tick count towards active liquidity
+  const inRange = tickLower <= tick && tick < tickUpper;
+  const liquidity = inRange ? v4pool.liquidity + liquidityDelta : v4pool.liquidity;
+
+  const numerairePrice = await fetchNumerairePrice({
+    numeraire: quoteToken,
+    timestamp,
+    context,
+  });
+
+  const liquidityUsd = computeDollarLiquidity({
+    assetBalance: isToken0 ? reserves0 : reserves1,
+    quoteBalance: isToken0 ? reserves1 : reserves0,
+    price,
+    ethPrice: numerairePrice.usdPrice,
+    quoteDecimals: numerairePrice.decimals,
+  });
+
+  const positionEntity = await insertPositionIfNotExists({
+    poolAddress: poolId,
+    tickLower,
+    tickUpper,
+    liquidity: 0n,
+    owner: sender,
+    timestamp,
+    context,
+  });
+
+  await Promise.all([
+    updateV4Pool({
+      poolId,
+      context,
+      update: {
+        liquidity,
+        dollarLiquidity: liquidityUsd,
+        reserves0,
+        reserves1,
+        lastRefreshed: timestamp,
+      },
+    }),
+    updatePool({
+      poolAddress: parentPool,
+      context,
+      update: {
+        dollarLiquidity: liquidityUsd,
+      },
+    }),
+    updateAsset({
+      assetAddress: baseToken,
+      context,
+      update: {
+        liquidityUsd,
+      },
+    }),
+    updatePosition({
+      poolAddress: poolId,
+      tickLower,
+      tickUpper,
+      context,
+      update: {
+        liquidity: positionEntity.liquidity + liquidityDelta,
+      },
+    }),
+  ]);
+});
+
+// Track PoolManager Donate events for migrated pools
+ponder.on("PoolManager:Donate", async ({ event, context }) => {
+  const { id: poolId, amount0, amount1 } = event.args;
+  const { timestamp } = event.block;
+
+  const v4pool = await fetchMigratedV4Pool({ poolId, context });
+  if (!v4pool) {
+    return;
+  }
+
+  // Donations are paid to in-range liquidity providers like swap fees
+  await updateV4Pool({
+    poolId,
+    context,
+    update: {
+      reserves0: v4pool.reserves0 + amount0,
+      reserves1: v4pool.reserves1 + amount1,
+      totalFee0: v4pool.totalFee0 + amount0,
+      totalFee1: v4pool.totalFee1 + amount1,
+      lastRefreshed: timestamp,
+    },
+  });
+});
+
+// Track StreamableFeesLocker positions created when the V4 migrator locks
+// the migrated liquidity
+ponder.on("StreamableFeesLocker:Lock", async ({ event, context }) => {
+  const { tokenId, beneficiaries, unlockDate } = event.args;
+
+  await insertLockerPositionIfNotExists({
+    tokenId,
+    locker: event.log.address,
+    beneficiaries,
+    unlockDate,
+    txHash: event.transaction.hash,
+    timestamp: event.block.timestamp,
+    context,
+  });
+});
+
+ponder.on("StreamableFeesLocker:Unlock", async ({ event, context }) => {
+  const { tokenId, recipient } = event.args;
+
+  await updateLockerPosition({
+    tokenId,
+    context,
+    update: {
+      isUnlocked: true,
+      recipient: recipient.toLowerCase() as `0x${string}`,
+    },
+  });
+});
+
+ponder.on("StreamableFeesLocker:DistributeFees", async ({ event, context }) => {
+  const { tokenId, amount0, amount1 } = event.args;
+
+  await insertLockerFeeDistribution({
+    tokenId,
+    amount0,
+    amount1,
+    txHash: event.transaction.hash,
+    logIndex: event.log.logIndex,
+    blockNumber: event.block.number,
+    timestamp: event.block.timestamp,
+    context,
+  });
+});
+
+ponder.on("StreamableFeesLocker:Release", async ({ event, context }) => {
+  const { tokenId, beneficiary, amount0, amount1 } = event.args;
+
+  await insertLockerFeeRelease({
+    tokenId,
+    beneficiary,
+    amount0,
+    amount1,
+    txHash: event.transaction.hash,
+    logIndex: event.log.logIndex,
+    blockNumber: event.block.number,
+    timestamp: event.block.timestamp,
+    context,
+  });
+});
@@ -1,7 +1,7 @@
 import { ponder } from "ponder:registry";
 import { getV4PoolData } from "@app/utils/v4-utils";
 import { insertTokenIfNotExists } from "./shared/entities/token";
-import { computeMarketCap, fetchEthPrice } from "./shared/oracle";
+import { computeMarketCap, fetchNumerairePrice } from "./shared/oracle";
 import { insertPoolIfNotExistsV4, updatePool } from "./shared/entities/pool";
 import { insertAssetIfNotExists, updateAsset } from "./shared/entities/asset";
 import { computeDollarLiquidity } from "@app/utils/computeDollarLiquidity";
@@ -32,7 +32,7 @@ ponder.on("UniswapV4Initializer:Create", async ({ event, context }) => {
 
   const creatorAddress = event.transaction.from.toLowerCase() as `0x${string}`;
 
-  const [baseToken, ethPrice, poolData] = await Promise.all([
+  const [baseToken, numerairePrice, poolData] = await Promise.all([
     insertTokenIfNotExists({
       tokenAddress: assetAddress,
       creatorAddress,
@@ -41,7 +41,11 @@ ponder.on("UniswapV4Initializer:Create", async ({ event, context }) => {
       isDerc20: true,
       poolAddress: poolAddress,
     }),
-    fetchEthPrice(timestamp, context),
+    fetchNumerairePrice({
+      numeraire: numeraireAddress,
+      timestamp,
+      context,
+    }),
     getV4PoolData({
       hook: poolAddress,
       context,
@@ -68,7 +72,6 @@ ponder.on("UniswapV4Initializer:Create", async ({ event, context }) => {
     insertPoolIfNotExistsV4({
       poolAddress,
       timestamp,
-      ethPrice,
       poolData,
       context,
     }),
@@ -81,7 +84,7 @@ ponder.on("UniswapV4Initializer:Create", async ({ event, context }) => {
   const price = poolEntity.price;
   const marketCapUsd = computeMarketCap({
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
     totalSupply,
   });
 
@@ -121,13 +124,10 @@ ponder.on("UniswapV4Pool:Swap", async ({ event, context }) => {
   const timestamp = event.block.timestamp;
 
 
-  const [ethPrice, v4PoolData] = await Promise.all([
-    fetchEthPrice(event.block.timestamp, context),
-    getV4PoolData({
-      hook: address,
-      context,
-    }),
-  ]);
+  const v4PoolData = await getV4PoolData({
+    hook: address,
+    context,
+  });
 
   const [reserves, poolEntity] = await Promise.all([
     getReservesV4({
@@ -137,7 +137,6 @@ ponder.on("UniswapV4Pool:Swap", async ({ event, context }) => {
     insertPoolIfNotExistsV4({
       poolAddress: address,
       timestamp,
-      ethPrice,
       poolData: v4PoolData,
       context,
     }),
@@ -152,6 +151,12 @@ ponder.on("UniswapV4Pool:Swap", async ({ event, context }) => {
     marketCapUsd: marketCapUsdPrev,
   } = poolEntity;
 
+  const numerairePrice = await fetchNumerairePrice({
+    numeraire: quoteToken,
+    timestamp,
+    context,
+  });
+
   const quoteIn = totalProceeds > totalProceedsPrev;
   const amountIn = quoteIn ? totalProceeds - totalProceedsPrev : totalTokensSoldPrev - totalTokensSold;
   const amountOut = quoteIn ? totalTokensSoldPrev - totalTokensSold : totalProceedsPrev - totalProceeds;
@@ -173,6 +178,7 @@ ponder.on("UniswapV4Pool:Swap", async ({ event, context }) => {
     sqrtPriceX96,
     isToken0,
     decimals: 18,
+    quoteDecimals: numerairePrice.decimals,
   });
 
 
@@ -182,7 +188,8 @@ ponder.on("UniswapV4Pool:Swap", async ({ event, context }) => {
     assetBalance: isToken0 ? token0Reserve : token1Reserve,
     quoteBalance: isToken0 ? token1Reserve : token0Reserve,
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
+    quoteDecimals: numerairePrice.decimals,
   });
 
   let marketCapUsd;
@@ -191,12 +198,15 @@ ponder.on("UniswapV4Pool:Swap", async ({ event, context }) => {
   } else {
     marketCapUsd = computeMarketCap({
       price,
-      ethPrice,
+      ethPrice: numerairePrice.usdPrice,
       totalSupply,
     });
   }
 
-  const swapValueUsd = amountIn * ethPrice / CHAINLINK_ETH_DECIMALS;
+  const swapValueUsd =
+    (PriceService.toWad(amountIn, numerairePrice.decimals) *
+      numerairePrice.usdPrice) /
+    CHAINLINK_ETH_DECIMALS;
 
   // Create swap data
   const swapData = SwapOrchestrator.createSwapData({
@@ -212,7 +222,7 @@ ponder.on("UniswapV4Pool:Swap", async ({ event, context }) => {
     amountIn,
     amountOut,
     price,
-    ethPriceUSD: ethPrice,
+    ethPriceUSD: numerairePrice.usdPrice,
   });
 
   // Price change is now calculated in scheduled jobs using buckets
@@ -288,7 +298,7 @@ ponder.on("UniswapV4Initializer2:Create", async ({ event, context }) => {
 
   const creatorAddress = event.transaction.from.toLowerCase() as `0x${string}`;
 
-  const [baseToken, ethPrice, poolData] = await Promise.all([
+  const [baseToken, numerairePrice, poolData] = await Promise.all([
     insertTokenIfNotExists({
       tokenAddress: assetAddress,
       creatorAddress,
@@ -297,7 +307,11 @@ ponder.on("UniswapV4Initializer2:Create", async ({ event, context }) => {
       isDerc20: true,
       poolAddress: poolAddress,
     }),
-    fetchEthPrice(timestamp, context),
+    fetchNumerairePrice({
+      numeraire: numeraireAddress,
+      timestamp,
+      context,
+    }),
     getV4PoolData({
       hook: poolAddress,
       context,
@@ -324,7 +338,6 @@ ponder.on("UniswapV4Initializer2:Create", async ({ event, context }) => {
     insertPoolIfNotExistsV4({
       poolAddress,
       timestamp,
-      ethPrice,
       context,
       poolData,
     }),
@@ -337,7 +350,7 @@ ponder.on("UniswapV4Initializer2:Create", async ({ event, context }) => {
   const price = poolEntity.price;
   const marketCapUsd = computeMarketCap({
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
     totalSupply,
   });
 
@@ -378,7 +391,7 @@ ponder.on("UniswapV4InitializerSelfCorrecting:Create", async ({ event, context }
   const numeraireAddress = numeraire.toLowerCase() as `0x${string}`;
   const creatorAddress = event.transaction.from.toLowerCase() as `0x${string}`;
 
-  const [baseToken, ethPrice, poolData] = await Promise.all([
+  const [baseToken, numerairePrice, poolData] = await Promise.all([
     insertTokenIfNotExists({
       tokenAddress: assetAddress,
       creatorAddress,
@@ -387,7 +400,11 @@ ponder.on("UniswapV4InitializerSelfCorrecting:Create", async ({ event, context }
       isDerc20: true,
       poolAddress: poolAddress,
     }),
-    fetchEthPrice(timestamp, context),
+    fetchNumerairePrice({
+      numeraire: numeraireAddress,
+      timestamp,
+      context,
+    }),
     getV4PoolData({
       hook: poolAddress,
       context,
@@ -414,7 +431,6 @@ ponder.on("UniswapV4InitializerSelfCorrecting:Create", async ({ event, context }
     insertPoolIfNotExistsV4({
       poolAddress,
       timestamp,
-      ethPrice,
       context,
       poolData,
     }),
@@ -427,7 +443,7 @@ ponder.on("UniswapV4InitializerSelfCorrecting:Create", async ({ event, context }
   const price = poolEntity.price;
   const marketCapUsd = computeMarketCap({
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
     totalSupply,
   });
 
@@ -463,13 +479,10 @@ ponder.on("UniswapV4PoolSelfCorrecting:Swap", async ({ event, context }) => {
   const timestamp = event.block.timestamp;
 
 
-  const [ethPrice, v4PoolData] = await Promise.all([
-    fetchEthPrice(event.block.timestamp, context),
-    getV4PoolData({
-      hook: address,
-      context,
-    }),
-  ]);
+  const v4PoolData = await getV4PoolData({
+    hook: address,
+    context,
+  });
 
   const [reserves, poolEntity] = await Promise.all([
     getReservesV4({
@@ -479,7 +492,6 @@ ponder.on("UniswapV4PoolSelfCorrecting:Swap", async ({ event, context }) => {
     insertPoolIfNotExistsV4({
       poolAddress: address,
       timestamp,
-      ethPrice,
       poolData: v4PoolData,
       context,
     }),
@@ -494,6 +506,12 @@ ponder.on("UniswapV4PoolSelfCorrecting:Swap", async ({ event, context }) => {
     marketCapUsd: marketCapUsdPrev,
   } = poolEntity;
 
+  const numerairePrice = await fetchNumerairePrice({
+    numeraire: quoteToken,
+    timestamp,
+    context,
+  });
+
   const quoteIn = totalProceeds > totalProceedsPrev;
   const amountIn = quoteIn ? totalProceeds - totalProceedsPrev : totalTokensSoldPrev - totalTokensSold;
   const amountOut = quoteIn ? totalTokensSoldPrev - totalTokensSold : totalProceedsPrev - totalProceeds;
@@ -515,6 +533,7 @@ ponder.on("UniswapV4PoolSelfCorrecting:Swap", async ({ event, context }) => {
     sqrtPriceX96,
     isToken0,
     decimals: 18,
+    quoteDecimals: numerairePrice.decimals,
   });
 
 
@@ -524,7 +543,8 @@ ponder.on("UniswapV4PoolSelfCorrecting:Swap", async ({ event, context }) => {
     assetBalance: isToken0 ? token0Reserve : token1Reserve,
     quoteBalance: isToken0 ? token1Reserve : token0Reserve,
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
+    quoteDecimals: numerairePrice.decimals,
   });
 
   let marketCapUsd;
@@ -533,12 +553,15 @@ ponder.on("UniswapV4PoolSelfCorrecting:Swap", async ({ event, context }) => {
   } else {
     marketCapUsd = computeMarketCap({
       price,
-      ethPrice,
+      ethPrice: numerairePrice.usdPrice,
       totalSupply,
     });
   }
 
-  const swapValueUsd = amountIn * ethPrice / CHAINLINK_ETH_DECIMALS;
+  const swapValueUsd =
+    (PriceService.toWad(amountIn, numerairePrice.decimals) *
+      numerairePrice.usdPrice) /
+    CHAINLINK_ETH_DECIMALS;
 
   // Create swap data
   const swapData = SwapOrchestrator.createSwapData({
@@ -554,7 +577,7 @@ ponder.on("UniswapV4PoolSelfCorrecting:Swap", async ({ event, context }) => {
     amountIn,
     amountOut,
     price,
-    ethPriceUSD: ethPrice,
+    ethPriceUSD: numerairePrice.usdPrice,
   });
 
   // Create market metrics
@@ -623,13 +646,10 @@ ponder.on("UniswapV4Pool2:Swap", async ({ event, context }) => {
   const timestamp = event.block.timestamp;
 
 
-  const [ethPrice, v4PoolData] = await Promise.all([
-    fetchEthPrice(event.block.timestamp, context),
-    getV4PoolData({
-      hook: address,
-      context,
-    }),
-  ]);
+  const v4PoolData = await getV4PoolData({
+    hook: address,
+    context,
+  });
 
   const [reserves, poolEntity] = await Promise.all([
     getReservesV4({
@@ -639,7 +659,6 @@ ponder.on("UniswapV4Pool2:Swap", async ({ event, context }) => {
     insertPoolIfNotExistsV4({
       poolAddress: address,
       timestamp,
-      ethPrice,
       poolData: v4PoolData,
       context,
     }),
@@ -654,6 +673,12 @@ ponder.on("UniswapV4Pool2:Swap", async ({ event, context }) => {
     marketCapUsd: marketCapUsdPrev,
   } = poolEntity;
 
+  const numerairePrice = await fetchNumerairePrice({
+    numeraire: quoteToken,
+    timestamp,
+    context,
+  });
+
   const quoteIn = totalProceeds > totalProceedsPrev;
   const amountIn = quoteIn ? totalProceeds - totalProceedsPrev : totalTokensSoldPrev - totalTokensSold;
   const amountOut = quoteIn ? totalTokensSoldPrev - totalTokensSold : totalProceedsPrev - totalProceeds;
@@ -675,6 +700,7 @@ ponder.on("UniswapV4Pool2:Swap", async ({ event, context }) => {
     sqrtPriceX96,
     isToken0,
     decimals: 18,
+    quoteDecimals: numerairePrice.decimals,
   });
 
 
@@ -684,7 +710,8 @@ ponder.on("UniswapV4Pool2:Swap", async ({ event, context }) => {
     assetBalance: isToken0 ? token0Reserve : token1Reserve,
     quoteBalance: isToken0 ? token1Reserve : token0Reserve,
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
+    quoteDecimals: numerairePrice.decimals,
   });
 
   let marketCapUsd;
@@ -693,12 +720,15 @@ ponder.on("UniswapV4Pool2:Swap", async ({ event, context }) => {
   } else {
     marketCapUsd = computeMarketCap({
       price,
-      ethPrice,
+      ethPrice: numerairePrice.usdPrice,
       totalSupply,
     });
   }
 
-  const swapValueUsd = amountIn * ethPrice / CHAINLINK_ETH_DECIMALS;
+  const swapValueUsd =
+    (PriceService.toWad(amountIn, numerairePrice.decimals) *
+      numerairePrice.usdPrice) /
+    CHAINLINK_ETH_DECIMALS;
 
   // Create swap data
   const swapData = SwapOrchestrator.createSwapData({
@@ -714,7 +744,7 @@ ponder.on("UniswapV4Pool2:Swap", async ({ event, context }) => {
     amountIn,
     amountOut,
     price,
-    ethPriceUSD: ethPrice,
+    ethPriceUSD: numerairePrice.usdPrice,
   });
 
   // Create market metrics
@@ -55,6 +55,7 @@ ponder.on("ZoraFactory:CoinCreatedV4", async ({ event, context }) => {
       // Cache miss - query database
       const creatorCoinEntity = await db.find(token, {
         address: currencyAddress,
+        chainId: BigInt(context.chain.id),
       });
 
       isQuoteCreatorCoin = creatorCoinEntity?.isCreatorCoin ?? false;
@@ -429,8 +430,8 @@ ponder.on("ZoraCreatorCoinV4:CoinTransfer", async ({ event, context }) => {
 
   // Batch fetch token and asset data
   const [tokenData, assetData] = await Promise.all([
-    db.find(token, { address: tokenAddress }),
-    db.find(asset, { address: tokenAddress }),
+    db.find(token, { address: tokenAddress, chainId: BigInt(context.chain.id) }),
+    db.find(asset, { address: tokenAddress, chainId: BigInt(context.chain.id) }),
   ]);
 
   // Ensure token exists (upsert if needed)
@@ -484,8 +485,8 @@ ponder.on("ZoraCoinV4:CoinTransfer", async ({ event, context }) => {
 
   // Batch fetch token and asset data
   const [tokenData, assetData] = await Promise.all([
-    db.find(token, { address: tokenAddress }),
-    db.find(asset, { address: tokenAddress }),
+    db.find(token, { address: tokenAddress, chainId: BigInt(context.chain.id) }),
+    db.find(asset, { address: tokenAddress, chainId: BigInt(context.chain.id) }),
   ]);
 
   // Ensure token exists (upsert if needed)
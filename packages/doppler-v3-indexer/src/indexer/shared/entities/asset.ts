@@ -16,16 +16,16 @@ export const insertAssetIfNotExists = async ({
 }) => {
   const { db, chain } = context;
   const address = assetAddress.toLowerCase() as `0x${string}`;
+  const chainId = BigInt(chain.id);
 
   const existingAsset = await db.find(asset, {
     address,
+    chainId,
   });
 
   if (existingAsset) {
     return existingAsset;
   }
-
-  const chainId = BigInt(chain.id);
   const assetData = await getAssetData(assetAddress, context);
 
   const poolAddress = assetData.pool.toLowerCase() as `0x${string}`;
@@ -65,6 +65,7 @@ export const updateAsset = async ({
   await db
     .update(asset, {
       address,
+      chainId: BigInt(context.chain.id),
     })
     .set({
       ...update,
@@ -3,3 +3,6 @@ export * from "./pool";
 export * from "./position";
 export * from "./token";
 export * from "./v2Pool";
+export * from "./v4pools";
+export * from "./module";
+export * from "./lockerPosition";
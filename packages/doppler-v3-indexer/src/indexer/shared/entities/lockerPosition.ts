@@ -0,0 +1,339 @@
+import {
+  lockerBeneficiary,
+  lockerFeeEvent,
+  lockerPosition,
+  v4pools,
+} from "ponder:schema";
+import { Address, decodeEventLog, Hex, numberToHex } from "viem";
+import { Context } from "ponder:registry";
+import { and, eq } from "ponder";
+import { PoolManagerABI, StreamableFeesLockerABI } from "@app/abis";
+import { chainConfigs } from "@app/config";
+import { PriceService } from "@app/core";
+import { CHAINLINK_ETH_DECIMALS, WAD } from "@app/utils/constants";
+import { fetchNumerairePrice } from "../oracle";
+
+export const insertLockerPositionIfNotExists = async ({
+  tokenId,
+  locker,
+  beneficiaries,
+  unlockDate,
+  txHash,
+  timestamp,
+  context,
+}: {
+  tokenId: bigint;
+  locker: Address;
+  beneficiaries: readonly { beneficiary: Address; shares: bigint }[];
+  unlockDate: bigint;
+  txHash: Hex;
+  timestamp: bigint;
+  context: Context;
+}): Promise<typeof lockerPosition.$inferSelect> => {
+  const { db, chain, client } = context;
+  const chainId = BigInt(chain.id);
+
+  const existingPosition = await db.find(lockerPosition, { tokenId, chainId });
+  if (existingPosition) {
+    return existingPosition;
+  }
+
+  const poolId = await findLockedPoolId({ txHash, tokenId, context });
+  const [v4pool, [recipient, startDate]] = await Promise.all([
+    poolId ? db.find(v4pools, { poolId, chainId }) : null,
+    client.readContract({
+      abi: StreamableFeesLockerABI,
+      address: locker,
+      functionName: "positions",
+      args: [tokenId],
+    }),
+  ]);
+  const asset = v4pool?.asset ?? null;
+
+  await db
+    .insert(lockerBeneficiary)
+    .values(
+      beneficiaries.map(({ beneficiary, shares }) => ({
+        tokenId,
+        chainId,
+        beneficiary: beneficiary.toLowerCase() as `0x${string}`,
+        asset,
+        shares,
+      }))
+    )
+    .onConflictDoNothing();
+
+  return await db.insert(lockerPosition).values({
+    tokenId,
+    chainId,
+    locker: locker.toLowerCase() as `0x${string}`,
+    poolId,
+    asset,
+    recipient: recipient.toLowerCase() as `0x${string}`,
+    startDate: BigInt(startDate),
+    unlockDate,
+    createdAt: timestamp,
+  });
+};
+
+export const updateLockerPosition = async ({
+  tokenId,
+  context,
+  update,
+}: {
+  tokenId: bigint;
+  context: Context;
+  update: Partial<typeof lockerPosition.$inferInsert>;
+}) => {
+  const { db, chain } = context;
+
+  await db
+    .update(lockerPosition, { tokenId, chainId: BigInt(chain.id) })
+    .set(update);
+};
+
+/**
+ * Records fees the locker collected from its position and credits each
+ * beneficiary with its share
+ */
+export const insertLockerFeeDistribution = async ({
+  tokenId,
+  amount0,
+  amount1,
+  txHash,
+  logIndex,
+  blockNumber,
+  timestamp,
+  context,
+}: {
+  tokenId: bigint;
+  amount0: bigint;
+  amount1: bigint;
+  txHash: Hex;
+  logIndex: number;
+  blockNumber: bigint;
+  timestamp: bigint;
+  context: Context;
+}) => {
+  const { db, chain } = context;
+  const chainId = BigInt(chain.id);
+
+  const position = await db.find(lockerPosition, { tokenId, chainId });
+  if (!position) {
+    return;
+  }
+
+  const [amountUsd, beneficiaries] = await Promise.all([
+    computeFeesUsd({
+      poolId: position.poolId,
+      amount0,
+      amount1,
+      timestamp,
+      context,
+    }),
+    db.sql
+      .select()
+      .from(lockerBeneficiary)
+      .where(
+        and(
+          eq(lockerBeneficiary.tokenId, tokenId),
+          eq(lockerBeneficiary.chainId, chainId)
+        )
+      ),
+  ]);
+
+  await Promise.all([
+    db.insert(lockerFeeEvent).values({
+      txHash,
+      logIndex,
+      chainId,
+      tokenId,
+      type: "distribute",
+      asset: position.asset,
+      beneficiary: null,
+      amount0,
+      amount1,
+      amountUsd,
+      blockNumber,
+      timestamp,
+    }),
+    db.update(lockerPosition, { tokenId, chainId }).set({
+      fees0: position.fees0 + amount0,
+      fees1: position.fees1 + amount1,
+      feesUsd: position.feesUsd + amountUsd,
+    }),
+    ...beneficiaries.map((row) =>
+      db
+        .update(lockerBeneficiary, {
+          tokenId,
+          beneficiary: row.beneficiary,
+          chainId,
+        })
+        .set({
+          earned0: row.earned0 + (amount0 * row.shares) / WAD,
+          earned1: row.earned1 + (amount1 * row.shares) / WAD,
+          earnedUsd: row.earnedUsd + (amountUsd * row.shares) / WAD,
+        })
+    ),
+  ]);
+};
+
+/**
+ * Records fees a beneficiary claimed from the locker
+ */
+export const insertLockerFeeRelease = async ({
+  tokenId,
+  beneficiary,
+  amount0,
+  amount1,
+  txHash,
+  logIndex,
+  blockNumber,
+  timestamp,
+  context,
+}: {
+  tokenId: bigint;
+  beneficiary: Address;
+  amount0: bigint;
+  amount1: bigint;
+  txHash: Hex;
+  logIndex: number;
+  blockNumber: bigint;
+  timestamp: bigint;
+  context: Context;
+}) => {
+  const { db, chain } = context;
+  const chainId = BigInt(chain.id);
+  const beneficiaryAddress = beneficiary.toLowerCase() as `0x${string}`;
+
+  const position = await db.find(lockerPosition, { tokenId, chainId });
+  if (!position) {
+    return;
+  }
+
+  const amountUsd = await computeFeesUsd({
+    poolId: position.poolId,
+    amount0,
+    amount1,
+    timestamp,
+    context,
+  });
+
+  await Promise.all([
+    db.insert(lockerFeeEvent).values({
+      txHash,
+      logIndex,
+      chainId,
+      tokenId,
+      type: "release",
+      asset: position.asset,
+      beneficiary: beneficiaryAddress,
+      amount0,
+      amount1,
+      amountUsd,
+      blockNumber,
+      timestamp,
+    }),
+    db
+      .insert(lockerBeneficiary)
+      .values({
+        tokenId,
+        chainId,
+        beneficiary: beneficiaryAddress,
+        asset: position.asset,
+        shares: 0n,
+        released0: amount0,
+        released1: amount1,
+        releasedUsd: amountUsd,
+      })
+      .onConflictDoUpdate((row) => ({
+        released0: row.released0 + amount0,
+        released1: row.released1 + amount1,
+        releasedUsd: row.releasedUsd + amountUsd,
+      })),
+  ]);
+};
+
+/**
+ * Finds the pool of a locked position in the lock transaction. The position
+ * manager mints with the token id as salt, so the matching ModifyLiquidity
+ * event carries the pool id.
+ */
+const findLockedPoolId = async ({
+  txHash,
+  tokenId,
+  context,
+}: {
+  txHash: Hex;
+  tokenId: bigint;
+  context: Context;
+}): Promise<Hex | null> => {
+  const { client, chain } = context;
+  const poolManager =
+    chainConfigs[chain.name].addresses.v4.poolManager.toLowerCase();
+  const salt = numberToHex(tokenId, { size: 32 });
+
+  const { logs } = await client.getTransactionReceipt({ hash: txHash });
+
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== poolManager) {
+      continue;
+    }
+    try {
+      const { eventName, args } = decodeEventLog({
+        abi: PoolManagerABI,
+        data: log.data,
+        topics: log.topics,
+      });
+      if (eventName === "ModifyLiquidity" && args.salt === salt) {
+        return args.id.toLowerCase() as Hex;
+      }
+    } catch {
+      continue;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Values fees in USD at the migrated pool's current price
+ */
+const computeFeesUsd = async ({
+  poolId,
+  amount0,
+  amount1,
+  timestamp,
+  context,
+}: {
+  poolId: Hex | null;
+  amount0: bigint;
+  amount1: bigint;
+  timestamp: bigint;
+  context: Context;
+}): Promise<bigint> => {
+  const { db, chain } = context;
+  if (!poolId) {
+    return 0n;
+  }
+
+  const v4pool = await db.find(v4pools, { poolId, chainId: BigInt(chain.id) });
+  if (!v4pool) {
+    return 0n;
+  }
+
+  const numerairePrice = await fetchNumerairePrice({
+    numeraire: v4pool.quoteToken,
+    timestamp,
+    context,
+  });
+
+  const [assetAmount, quoteAmount] = v4pool.isToken0
+    ? [amount0, amount1]
+    : [amount1, amount0];
+  const quoteValue =
+    PriceService.toWad(quoteAmount, numerairePrice.decimals) +
+    (assetAmount * v4pool.price) / WAD;
+
+  return (quoteValue * numerairePrice.usdPrice) / CHAINLINK_ETH_DECIMALS;
+};
@@ -0,0 +1,58 @@
+import { module, moduleStateChange } from "ponder:schema";
+import { Address, Hex } from "viem";
+import { Context } from "ponder:registry";
+
+export const updateModuleState = async ({
+  moduleAddress,
+  state,
+  txHash,
+  logIndex,
+  blockNumber,
+  timestamp,
+  context,
+}: {
+  moduleAddress: Address;
+  state: number;
+  txHash: Hex;
+  logIndex: number;
+  blockNumber: bigint;
+  timestamp: bigint;
+  context: Context;
+}): Promise<typeof module.$inferSelect> => {
+  const { db, chain } = context;
+  const address = moduleAddress.toLowerCase() as `0x${string}`;
+  const chainId = BigInt(chain.id);
+
+  const existingModule = await db.find(module, {
+    address,
+    chainId,
+  });
+
+  await db
+    .insert(moduleStateChange)
+    .values({
+      txHash,
+      logIndex,
+      chainId,
+      module: address,
+      previousState: existingModule?.state ?? 0,
+      state,
+      blockNumber,
+      timestamp,
+    })
+    .onConflictDoNothing();
+
+  if (existingModule) {
+    return await db.update(module, { address, chainId }).set({
+      state,
+      lastUpdated: timestamp,
+    });
+  }
+
+  return await db.insert(module).values({
+    address,
+    chainId,
+    state,
+    lastUpdated: timestamp,
+  });
+};
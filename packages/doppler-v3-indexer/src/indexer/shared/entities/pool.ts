@@ -8,7 +8,7 @@ import { getReservesV4 } from "@app/utils/v4-utils/getV4PoolData";
 import { Context } from "ponder:registry";
 import { pool } from "ponder:schema";
 import { Address } from "viem";
-import { computeMarketCap } from "../oracle";
+import { computeMarketCap, fetchNumerairePrice } from "../oracle";
 import { getLockableV3PoolData } from "@app/utils/v3-utils/getV3PoolData";
 
 export const fetchExistingPool = async ({
@@ -35,12 +35,10 @@ export const insertPoolIfNotExists = async ({
   poolAddress,
   timestamp,
   context,
-  ethPrice,
 }: {
   poolAddress: Address;
   timestamp: bigint;
   context: Context;
-  ethPrice: bigint;
 }): Promise<typeof pool.$inferSelect> => {
   const { db, chain, client } = context;
   const address = poolAddress.toLowerCase() as `0x${string}`;
@@ -71,18 +69,19 @@ export const insertPoolIfNotExists = async ({
     "0x0000000000000000000000000000000000000000" ||
     poolState.numeraire.toLowerCase() === configs[chain.name].shared.weth;
 
-  const [assetTotalSupply, assetData] = await Promise.all([
+  const [assetTotalSupply, assetData, numerairePrice] = await Promise.all([
     client.readContract({
       address: assetAddr,
       abi: DERC20ABI,
       functionName: "totalSupply",
     }),
     getAssetData(assetAddr, context),
+    fetchNumerairePrice({ numeraire: numeraireAddr, timestamp, context }),
   ]);
 
   const marketCapUsd = computeMarketCap({
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
     totalSupply: assetTotalSupply,
   });
 
@@ -142,12 +141,10 @@ export const insertPoolIfNotExistsV4 = async ({
   poolAddress,
   timestamp,
   poolData,
-  ethPrice,
   context,
 }: {
   poolAddress: Address;
   timestamp: bigint;
-  ethPrice: bigint;
   context: Context;
   poolData: V4PoolData;
 }): Promise<typeof pool.$inferSelect> => {
@@ -175,7 +172,7 @@ export const insertPoolIfNotExistsV4 = async ({
     "0x0000000000000000000000000000000000000000" ||
     numeraireAddr.toLowerCase() === configs[chain.name].shared.weth;
 
-  const [reserves, totalSupply, assetData] = await Promise.all([
+  const [reserves, totalSupply, assetData, numerairePrice] = await Promise.all([
     getReservesV4({
       hook: address,
       context,
@@ -186,6 +183,7 @@ export const insertPoolIfNotExistsV4 = async ({
       functionName: "totalSupply",
     }),
     getAssetData(assetAddr, context),
+    fetchNumerairePrice({ numeraire: numeraireAddr, timestamp, context }),
   ]);
 
   const { token0Reserve, token1Reserve } = reserves;
@@ -197,12 +195,13 @@ export const insertPoolIfNotExistsV4 = async ({
     assetBalance,
     quoteBalance,
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
+    quoteDecimals: numerairePrice.decimals,
   });
 
   const marketCapUsd = computeMarketCap({
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
     totalSupply,
   });
 
@@ -248,12 +247,10 @@ export const insertLockableV3PoolIfNotExists = async ({
   poolAddress,
   timestamp,
   context,
-  ethPrice,
 }: {
   poolAddress: Address;
   timestamp: bigint;
   context: Context;
-  ethPrice: bigint;
 }): Promise<typeof pool.$inferSelect> => {
   const { db, chain, client } = context;
   const address = poolAddress.toLowerCase() as `0x${string}`;
@@ -284,18 +281,19 @@ export const insertLockableV3PoolIfNotExists = async ({
     "0x0000000000000000000000000000000000000000" ||
     poolState.numeraire.toLowerCase() === configs[chain.name].shared.weth;
 
-  const [assetTotalSupply, assetData] = await Promise.all([
+  const [assetTotalSupply, assetData, numerairePrice] = await Promise.all([
     client.readContract({
       address: assetAddr,
       abi: DERC20ABI,
       functionName: "totalSupply",
     }),
     getAssetData(assetAddr, context),
+    fetchNumerairePrice({ numeraire: numeraireAddr, timestamp, context }),
   ]);
 
   const marketCapUsd = computeMarketCap({
     price,
-    ethPrice,
+    ethPrice: numerairePrice.usdPrice,
     totalSupply: assetTotalSupply,
   });
 
@@ -4,6 +4,7 @@ import { Address } from "viem";
 
 export const insertSwapIfNotExists = async ({
     txHash,
+    logIndex,
     timestamp,
     context,
     pool,
@@ -16,6 +17,7 @@ export const insertSwapIfNotExists = async ({
     usdPrice,
 }: {
     txHash: Address;
+    logIndex: number;
     timestamp: bigint;
     context: Context;
     pool: Address;
@@ -31,6 +33,8 @@ export const insertSwapIfNotExists = async ({
 
     const existingSwap = await db.find(swap, {
         txHash,
+        logIndex,
+        chainId,
     });
 
     if (existingSwap) {
@@ -40,6 +44,7 @@ export const insertSwapIfNotExists = async ({
 
     return await db.insert(swap).values({
         txHash,
+        logIndex,
         timestamp,
         pool,
         asset,
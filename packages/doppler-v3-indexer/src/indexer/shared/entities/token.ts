@@ -28,6 +28,7 @@ export const appendTokenPool = async ({
 
   const existingToken = await db.find(token, {
     address: tokenAddress,
+    chainId: BigInt(context.chain.id),
   });
 
   if (!existingToken) {
@@ -43,6 +44,7 @@ export const appendTokenPool = async ({
   return await db
     .update(token, {
       address: tokenAddress,
+      chainId: BigInt(context.chain.id),
     })
     .set({
       isDerc20,
@@ -74,21 +76,21 @@ export const insertTokenIfNotExists = async ({
 
   const multicallOptions = getMulticallOptions(chain);
   const address = tokenAddress.toLowerCase() as `0x${string}`;
+  const chainId = BigInt(chain.id);
 
   const existingToken = await db.find(token, {
     address,
+    chainId,
   });
 
   if (existingToken?.isDerc20 && !existingToken?.pool && poolAddress) {
-    await db.update(token, { address }).set({
+    await db.update(token, { address, chainId }).set({
       pool: poolAddress,
     });
   } else if (existingToken) {
     return existingToken;
   }
 
-  const chainId = BigInt(chain.id);
-
   const zoraAddress = chainConfigs[chain.name].addresses.zora.zoraToken;
 
   // ignore pool field for native tokens
@@ -208,6 +210,7 @@ export const updateToken = async ({
   return await db
     .update(token, {
       address,
+      chainId: BigInt(context.chain.id),
     })
     .set(update);
 };
@@ -215,6 +215,7 @@ export const batchUpdateHolderCounts = async ({
   updates.push(
     db.update(token, {
       address: tokenAddress.toLowerCase() as `0x${string}`,
+      chainId: BigInt(context.chain.id),
     }).set({
       holderCount: currentTokenHolderCount + holderCountDelta,
     })
@@ -234,6 +235,7 @@ export const batchUpdateHolderCounts = async ({
     updates.push(
       db.update(asset, {
         address: tokenAddress.toLowerCase() as `0x${string}`,
+        chainId: BigInt(context.chain.id),
       }).set({
         holderCount: currentAssetHolderCount + holderCountDelta,
       })
@@ -4,7 +4,7 @@ import { Context } from "ponder:registry";
 import { getPairData } from "@app/utils/v2-utils/getPairData";
 import { insertAssetIfNotExists } from "./asset";
 import { PriceService } from "@app/core";
-import { fetchEthPrice } from "../oracle";
+import { fetchNumerairePrice } from "../oracle";
 import { CHAINLINK_ETH_DECIMALS } from "@app/utils/constants";
 import { insertPoolIfNotExists } from "./pool";
 
@@ -19,8 +19,6 @@ export const insertV2PoolIfNotExists = async ({
 }): Promise<typeof v2Pool.$inferSelect> => {
   const { db, chain } = context;
 
-  const ethPrice = await fetchEthPrice(timestamp, context);
-
   const { poolAddress, migrationPool, numeraire } =
     await insertAssetIfNotExists({
       assetAddress,
@@ -38,12 +36,14 @@ export const insertV2PoolIfNotExists = async ({
     return existingV2Pool;
   }
 
-  const { baseToken } = await insertPoolIfNotExists({
-    poolAddress,
-    timestamp,
-    context,
-    ethPrice,
-  });
+  const [{ baseToken }, numerairePrice] = await Promise.all([
+    insertPoolIfNotExists({
+      poolAddress,
+      timestamp,
+      context,
+    }),
+    fetchNumerairePrice({ numeraire, timestamp, context }),
+  ]);
 
   const isToken0 = baseToken === assetAddress;
 
@@ -61,9 +61,10 @@ export const insertV2PoolIfNotExists = async ({
   const price = PriceService.computePriceFromReserves({
     assetBalance: reserve0,
     quoteBalance: reserve1,
+    quoteDecimals: numerairePrice.decimals,
   });
 
-  const dollarPrice = (price * ethPrice) / CHAINLINK_ETH_DECIMALS;
+  const dollarPrice = (price * numerairePrice.usdPrice) / CHAINLINK_ETH_DECIMALS;
 
   return await db.insert(v2Pool).values({
     address: migrationPoolAddr,
@@ -114,8 +115,6 @@ export const insertV2MigrationPoolIfNotExists = async ({
 }): Promise<typeof v2Pool.$inferSelect> => {
   const { db, chain } = context;
 
-  const ethPrice = await fetchEthPrice(timestamp, context);
-
   const { poolAddress, migrationPool, numeraire } =
     await insertAssetIfNotExists({
       assetAddress,
@@ -133,12 +132,14 @@ export const insertV2MigrationPoolIfNotExists = async ({
     return existingV2Pool;
   }
 
-  const { baseToken } = await insertPoolIfNotExists({
-    poolAddress,
-    timestamp,
-    context,
-    ethPrice,
-  });
+  const [{ baseToken }, numerairePrice] = await Promise.all([
+    insertPoolIfNotExists({
+      poolAddress,
+      timestamp,
+      context,
+    }),
+    fetchNumerairePrice({ numeraire, timestamp, context }),
+  ]);
 
   const isToken0 = baseToken === assetAddress;
 
@@ -155,9 +156,10 @@ export const insertV2MigrationPoolIfNotExists = async ({
   const price = PriceService.computePriceFromReserves({
     assetBalance: reserve0,
     quoteBalance: reserve1,
+    quoteDecimals: numerairePrice.decimals,
   });
 
-  const dollarPrice = (price * ethPrice) / CHAINLINK_ETH_DECIMALS;
+  const dollarPrice = (price * numerairePrice.usdPrice) / CHAINLINK_ETH_DECIMALS;
 
   return await db.insert(v2Pool).values({
     address: migrationPoolAddr,
@@ -4,7 +4,7 @@ import { Address, parseEther } from "viem";
 import { getLatestSqrtPrice } from "@app/utils/v4-utils/getV4PoolData";
 import { PoolKey } from "@app/types/v4-types";
 import { PriceService } from "@app/core";
-import { computeMarketCap, fetchEthPrice } from "../../oracle";
+import { computeMarketCap, fetchNumerairePrice } from "../../oracle";
 import { insertAssetIfNotExists, updateAsset, updatePool } from "..";
 import { pool } from "ponder:schema";
 import { computeDollarLiquidity } from "@app/utils/computeDollarLiquidity";
@@ -199,8 +199,6 @@ export const refreshCheckpointBlob = async ({
     updatedCheckpoints[poolAddress as Address] = checkpoint;
   }
 
-  const ethPrice = await fetchEthPrice(BigInt(timestamp), context);
-
   const updates = await Promise.all(
     poolsToRefresh.map(async (poolAddress) => {
       const checkpoint = checkpoints[poolAddress as Address];
@@ -272,15 +270,22 @@ export const refreshCheckpointBlob = async ({
       continue;
     }
 
+    const numerairePrice = await fetchNumerairePrice({
+      numeraire: poolEntity.quoteToken,
+      timestamp: BigInt(timestamp),
+      context,
+    });
+
     const price = PriceService.computePriceFromSqrtPriceX96({
       sqrtPriceX96,
       isToken0,
       decimals: 18,
+      quoteDecimals: numerairePrice.decimals,
     });
 
     const marketCapUsd = computeMarketCap({
       price,
-      ethPrice,
+      ethPrice: numerairePrice.usdPrice,
       totalSupply: BigInt(totalSupply),
     });
 
@@ -288,7 +293,8 @@ export const refreshCheckpointBlob = async ({
       assetBalance: isToken0 ? amount0 : amount1,
       quoteBalance: isToken0 ? amount1 : amount0,
       price,
-      ethPrice,
+      ethPrice: numerairePrice.usdPrice,
+      quoteDecimals: numerairePrice.decimals,
     });
 
     await Promise.all([
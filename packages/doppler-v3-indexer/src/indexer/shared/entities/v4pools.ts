@@ -1,5 +1,7 @@
 import { Context } from "ponder:registry";
-import { v4pools } from "ponder:schema";
+import { asset, v4pools } from "ponder:schema";
+import { PriceService, NumeraireRegistry } from "@app/core";
+import { PoolKey } from "@app/types/v4-types";
 
 export const fetchExistingV4Pool = async ({
   poolId,
@@ -43,4 +45,109 @@ export const updateV4Pool = async ({
     poolId: poolId.toLowerCase() as `0x${string}`,
     chainId: BigInt(chain.id),
   }).set(update);
-};
\ No newline at end of file
+};
+
+/**
+ * Returns a V4 pool created by the V4 migrator, or null for any other pool on
+ * the PoolManager
+ */
+export const fetchMigratedV4Pool = async ({
+  poolId,
+  context,
+}: {
+  poolId: `0x${string}`;
+  context: Context;
+}): Promise<typeof v4pools.$inferSelect | null> => {
+  const { db, chain } = context;
+
+  const existingPool = await db.find(v4pools, {
+    poolId: poolId.toLowerCase() as `0x${string}`,
+    chainId: BigInt(chain.id),
+  });
+
+  if (!existingPool?.migratedFromPool) {
+    return null;
+  }
+
+  return existingPool;
+};
+
+/**
+ * Inserts the pool an asset migrates into when the PoolManager initializes
+ * it, linked to the asset's Doppler pool. Returns null when neither currency
+ * is an indexed asset.
+ */
+export const insertV4PoolIfNotExists = async ({
+  poolId,
+  poolKey,
+  sqrtPriceX96,
+  tick,
+  timestamp,
+  context,
+}: {
+  poolId: `0x${string}`;
+  poolKey: PoolKey;
+  sqrtPriceX96: bigint;
+  tick: number;
+  timestamp: bigint;
+  context: Context;
+}): Promise<typeof v4pools.$inferSelect | null> => {
+  const { db, chain } = context;
+  const chainId = BigInt(chain.id);
+  const id = poolId.toLowerCase() as `0x${string}`;
+
+  const existingPool = await db.find(v4pools, { poolId: id, chainId });
+  if (existingPool) {
+    return existingPool;
+  }
+
+  const currency0 = poolKey.currency0.toLowerCase() as `0x${string}`;
+  const currency1 = poolKey.currency1.toLowerCase() as `0x${string}`;
+
+  const [asset0, asset1] = await Promise.all([
+    db.find(asset, { address: currency0, chainId }),
+    db.find(asset, { address: currency1, chainId }),
+  ]);
+  const assetEntity = asset0 ?? asset1;
+  if (!assetEntity) {
+    return null;
+  }
+
+  const isToken0 = !!asset0;
+  const baseToken = isToken0 ? currency0 : currency1;
+  const quoteToken = isToken0 ? currency1 : currency0;
+
+  const numeraire = await NumeraireRegistry.resolve({
+    address: quoteToken,
+    context,
+  });
+
+  const price = PriceService.computePriceFromSqrtPriceX96({
+    sqrtPriceX96,
+    isToken0,
+    decimals: 18,
+    quoteDecimals: numeraire.decimals,
+  });
+
+  return await db.insert(v4pools).values({
+    poolId: id,
+    chainId,
+    currency0,
+    currency1,
+    fee: poolKey.fee,
+    tickSpacing: poolKey.tickSpacing,
+    hooks: poolKey.hooks.toLowerCase() as `0x${string}`,
+    sqrtPriceX96,
+    liquidity: 0n,
+    tick,
+    baseToken,
+    quoteToken,
+    asset: baseToken,
+    migratedFromPool: assetEntity.poolAddress,
+    migratedAt: timestamp,
+    price,
+    createdAt: timestamp,
+    isToken0,
+    isQuoteEth: NumeraireRegistry.isEth(chain.name, quoteToken),
+  });
+};
@@ -19,17 +19,17 @@ export const insertZoraAssetIfNotExists = async ({
 }) => {
   const { db, chain } = context;
   const address = assetAddress.toLowerCase() as `0x${string}`;
+  const chainId = BigInt(chain.id);
 
   const existingAsset = await db.find(asset, {
     address,
+    chainId,
   });
 
   if (existingAsset) {
     return existingAsset;
   }
 
-  const chainId = BigInt(chain.id);
-
   const isToken0 = assetAddress.toLowerCase() < numeraireAddress.toLowerCase();
 
   return await db.insert(asset).values({
@@ -71,6 +71,7 @@ export const updateZoraAsset = async ({
   await db
     .update(asset, {
       address,
+      chainId: BigInt(context.chain.id),
     })
     .set({
       ...update,
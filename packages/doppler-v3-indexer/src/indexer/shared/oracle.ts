@@ -2,11 +2,12 @@ import { ethPrice, zoraUsdcPrice } from "ponder.schema";
 import { Context } from "ponder:registry";
 import { and, gte, lte } from "ponder";
 import { Address } from "viem";
-import { CHAINLINK_ETH_DECIMALS } from "@app/utils/constants";
+import { TickMath } from "@uniswap/v3-sdk";
+import { CHAINLINK_ETH_DECIMALS, WAD } from "@app/utils/constants";
 import { updateAsset } from "./entities/asset";
-import { DERC20ABI } from "@app/abis";
+import { DERC20ABI, UniswapV3PoolABI } from "@app/abis";
 import { updatePool } from "./entities/pool";
-import { MarketDataService } from "@app/core";
+import { MarketDataService, NumeraireRegistry, PriceService } from "@app/core";
 
 export const fetchEthPrice = async (
   timestamp: bigint,
@@ -52,6 +53,136 @@ export const fetchZoraPrice = async (
   return zoraPriceData.price;
 };
 
+/**
+ * USD price of one whole numeraire, with the Chainlink feed's 8 decimals so
+ * it can stand in for the ETH price in the market data math
+ */
+export interface NumerairePrice {
+  address: Address;
+  decimals: number;
+  usdPrice: bigint;
+}
+
+// Reference pools may be quoted in another TWAP-priced numeraire, up to this depth
+const MAX_NUMERAIRE_ROUTE_DEPTH = 3;
+
+// Unpriced numeraires already warned about, keyed by chain id and address
+const unpricedNumeraires = new Set<string>();
+
+export const fetchNumerairePrice = async ({
+  numeraire,
+  timestamp,
+  context,
+  depth = 0,
+}: {
+  numeraire: Address;
+  timestamp: bigint;
+  context: Context;
+  depth?: number;
+}): Promise<NumerairePrice> => {
+  const { address, decimals, source } = await NumeraireRegistry.resolve({
+    address: numeraire,
+    context,
+  });
+
+  if (!source) {
+    const key = `${context.chain.id}:${address.toLowerCase()}`;
+    if (!unpricedNumeraires.has(key)) {
+      unpricedNumeraires.add(key);
+      console.warn(
+        `Numeraire ${address} on ${context.chain.name} has no price source, its pools are valued at $0 until it is registered in the chain config`
+      );
+    }
+    return { address, decimals, usdPrice: 0n };
+  }
+
+  switch (source.type) {
+    case "stable":
+      return { address, decimals, usdPrice: CHAINLINK_ETH_DECIMALS };
+    case "chainlinkEth":
+      return {
+        address,
+        decimals,
+        usdPrice: await fetchEthPrice(timestamp, context),
+      };
+    case "twap": {
+      if (depth >= MAX_NUMERAIRE_ROUTE_DEPTH) {
+        throw new Error(
+          `Numeraire ${address} is priced through more than ${MAX_NUMERAIRE_ROUTE_DEPTH} reference pools`
+        );
+      }
+
+      const [sqrtPriceX96, quotePrice] = await Promise.all([
+        fetchTwapSqrtPriceX96({
+          pool: source.pool,
+          secondsAgo: source.secondsAgo,
+          context,
+        }),
+        fetchNumerairePrice({
+          numeraire: source.quoteToken,
+          timestamp,
+          context,
+          depth: depth + 1,
+        }),
+      ]);
+
+      const price = PriceService.computePriceFromSqrtPriceX96({
+        sqrtPriceX96,
+        isToken0: address.toLowerCase() < source.quoteToken.toLowerCase(),
+        decimals,
+        quoteDecimals: quotePrice.decimals,
+      });
+
+      return {
+        address,
+        decimals,
+        usdPrice: (price * quotePrice.usdPrice) / WAD,
+      };
+    }
+  }
+};
+
+/**
+ * Reads the time-weighted average price of a Uniswap V3 pool, or its spot
+ * price when the pool does not hold observations that far back
+ */
+const fetchTwapSqrtPriceX96 = async ({
+  pool,
+  secondsAgo,
+  context,
+}: {
+  pool: Address;
+  secondsAgo: number;
+  context: Context;
+}): Promise<bigint> => {
+  const { client } = context;
+
+  try {
+    const [tickCumulatives] = await client.readContract({
+      abi: UniswapV3PoolABI,
+      address: pool,
+      functionName: "observe",
+      args: [[secondsAgo, 0]],
+    });
+
+    const delta = tickCumulatives[1]! - tickCumulatives[0]!;
+    let averageTick = delta / BigInt(secondsAgo);
+    // Round towards negative infinity like the Uniswap OracleLibrary
+    if (delta < 0n && delta % BigInt(secondsAgo) !== 0n) {
+      averageTick -= 1n;
+    }
+
+    return BigInt(TickMath.getSqrtRatioAtTick(Number(averageTick)).toString());
+  } catch {
+    const slot0 = await client.readContract({
+      abi: UniswapV3PoolABI,
+      address: pool,
+      functionName: "slot0",
+    });
+    return slot0[0];
+  }
+};
+
 export const computeMarketCap = ({
   price,
   ethPrice,
@@ -76,6 +76,7 @@ export async function getPoolUsdPrice(
   // } else {
     const creatorCoinEntity = await db.find(token, {
       address: poolEntity.quoteToken,
+      chainId: poolEntity.chainId,
     });
     isQuoteCreatorCoin = creatorCoinEntity?.isCreatorCoin ?? false;
     creatorCoinPid = isQuoteCreatorCoin ? creatorCoinEntity?.pool : null;
@@ -222,6 +223,7 @@ export async function handleOptimizedSwap(
 
   const tokenEntity = await db.find(token, {
     address: poolEntity.baseToken,
+    chainId: poolEntity.chainId,
   });
 
   if (!tokenEntity) {
@@ -251,6 +253,7 @@ export async function handleOptimizedSwap(
     amountOut: swapData.amountOut,
     price: swapData.price,
     ethPriceUSD: usdPrice,
+    usdPriceDecimals: isQuoteEth ? 8 : 18,
   });
   
   // Create metrics
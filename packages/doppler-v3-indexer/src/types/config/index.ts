@@ -26,6 +26,30 @@ export interface ChainConfig {
   oracleStartBlock: number;
   rpcEnvVar: string;
   addresses: ChainAddresses;
+  numeraires?: NumeraireConfig[];
+}
+
+/**
+ * How a numeraire is priced in USD
+ * - stable: pegged at one dollar
+ * - chainlinkEth: the Chainlink ETH/USD feed
+ * - twap: time-weighted average tick of a Uniswap V3 reference pool against
+ *   another registered numeraire, falling back to the spot price when the
+ *   pool has too few observations
+ */
+export type NumerairePriceSource =
+  | { type: "stable" }
+  | { type: "chainlinkEth" }
+  | { type: "twap"; pool: Address; quoteToken: Address; secondsAgo: number };
+
+/**
+ * Quote token that launches can be priced against
+ */
+export interface NumeraireConfig {
+  address: Address;
+  symbol: string;
+  decimals: number;
+  source: NumerairePriceSource;
 }
 
 /**
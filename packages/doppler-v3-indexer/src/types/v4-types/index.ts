@@ -13,6 +13,7 @@ export interface V4Addresses {
   dopplerLens: Address;
   v4Migrator: Address;
   v4MigratorHook: Address;
+  streamableFeesLocker: Address;
 }
 
 /**
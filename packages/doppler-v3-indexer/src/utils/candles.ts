@@ -0,0 +1,156 @@
+import { Context } from "ponder:registry";
+import { candle } from "ponder:schema";
+
+/**
+ * Candle resolutions and their interval in seconds
+ */
+export const CANDLE_RESOLUTIONS = {
+  "1m": 60n,
+  "5m": 300n,
+  "15m": 900n,
+  "1h": 3600n,
+  "4h": 14400n,
+  "1d": 86400n,
+} as const;
+
+export type CandleResolution = keyof typeof CANDLE_RESOLUTIONS;
+
+/**
+ * Rounds a timestamp down to the start of its candle interval
+ */
+export function getCandleTimestamp(
+  timestamp: bigint,
+  resolution: CandleResolution
+): bigint {
+  const interval = CANDLE_RESOLUTIONS[resolution];
+  return (BigInt(timestamp) / interval) * interval;
+}
+
+/**
+ * Candle update parameters
+ */
+export interface CandleUpdateParams {
+  poolAddress: string;
+  assetAddress: string;
+  chainId: bigint;
+  timestamp: bigint;
+  price: bigint;
+  priceUsd: bigint;
+  volumeQuote: bigint;
+  volumeUsd: bigint;
+  isBuy: boolean;
+}
+
+/**
+ * Updates or creates the candle of every resolution containing a swap
+ */
+export async function updateCandles(
+  context: Context,
+  params: CandleUpdateParams
+): Promise<void> {
+  const { db } = context;
+
+  await Promise.all(
+    (Object.keys(CANDLE_RESOLUTIONS) as CandleResolution[]).map((resolution) =>
+      db
+        .insert(candle)
+        .values({
+          poolAddress: params.poolAddress as `0x${string}`,
+          assetAddress: params.assetAddress as `0x${string}`,
+          chainId: params.chainId,
+          resolution,
+          timestamp: getCandleTimestamp(params.timestamp, resolution),
+          open: params.price,
+          high: params.price,
+          low: params.price,
+          close: params.price,
+          openUsd: params.priceUsd,
+          highUsd: params.priceUsd,
+          lowUsd: params.priceUsd,
+          closeUsd: params.priceUsd,
+          volumeQuote: params.volumeQuote,
+          volumeUsd: params.volumeUsd,
+          txCount: 1,
+          buyCount: params.isBuy ? 1 : 0,
+          sellCount: params.isBuy ? 0 : 1,
+          updatedAt: params.timestamp,
+        })
+        .onConflictDoUpdate((row) => ({
+          high: params.price > row.high ? params.price : row.high,
+          low: params.price < row.low ? params.price : row.low,
+          close: params.price,
+          highUsd:
+            params.priceUsd > row.highUsd ? params.priceUsd : row.highUsd,
+          lowUsd: params.priceUsd < row.lowUsd ? params.priceUsd : row.lowUsd,
+          closeUsd: params.priceUsd,
+          volumeQuote: row.volumeQuote + params.volumeQuote,
+          volumeUsd: row.volumeUsd + params.volumeUsd,
+          txCount: row.txCount + 1,
+          buyCount: row.buyCount + (params.isBuy ? 1 : 0),
+          sellCount: row.sellCount + (params.isBuy ? 0 : 1),
+          updatedAt: params.timestamp,
+        }))
+    )
+  );
+}
+
+/**
+ * Fills the intervals without trades between `from` and `to` with flat
+ * candles at the previous close. `previous` is the last candle before `from`,
+ * and intervals before the first known candle are left out.
+ */
+export function fillCandleGaps(
+  candles: Array<typeof candle.$inferSelect>,
+  {
+    resolution,
+    from,
+    to,
+    previous,
+  }: {
+    resolution: CandleResolution;
+    from: bigint;
+    to: bigint;
+    previous?: typeof candle.$inferSelect;
+  }
+): Array<typeof candle.$inferSelect> {
+  const interval = CANDLE_RESOLUTIONS[resolution];
+  const filled: Array<typeof candle.$inferSelect> = [];
+
+  let last = previous;
+  let index = 0;
+  for (
+    let timestamp = getCandleTimestamp(from, resolution);
+    timestamp <= to;
+    timestamp += interval
+  ) {
+    const current = candles[index];
+    if (current && current.timestamp === timestamp) {
+      filled.push(current);
+      last = current;
+      index++;
+      continue;
+    }
+
+    if (!last) {
+      continue;
+    }
+
+    filled.push({
+      ...last,
+      timestamp,
+      open: last.close,
+      high: last.close,
+      low: last.close,
+      openUsd: last.closeUsd,
+      highUsd: last.closeUsd,
+      lowUsd: last.closeUsd,
+      volumeQuote: 0n,
+      volumeUsd: 0n,
+      txCount: 0,
+      buyCount: 0,
+      sellCount: 0,
+    });
+  }
+
+  return filled;
+}
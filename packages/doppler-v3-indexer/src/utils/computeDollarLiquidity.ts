@@ -6,12 +6,14 @@ export const computeDollarLiquidity = ({
   price,
   ethPrice,
   decimals,
+  quoteDecimals,
 }: {
   assetBalance: bigint;
   quoteBalance: bigint;
   price: bigint;
   ethPrice: bigint;
   decimals?: number;
+  quoteDecimals?: number;
 }) => {
   return MarketDataService.calculateLiquidity({
     assetBalance,
@@ -20,5 +22,6 @@ export const computeDollarLiquidity = ({
     ethPriceUSD: ethPrice,
     isQuoteETH: true,
     decimals,
+    quoteDecimals,
   });
 };
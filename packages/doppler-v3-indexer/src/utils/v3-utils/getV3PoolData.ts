@@ -7,6 +7,7 @@ import {
 } from "@app/abis";
 import { computeV3Price } from "./computeV3Price";
 import { getMulticallOptions } from "@app/core/utils";
+import { NumeraireRegistry } from "@app/core/pricing";
 import { LockablePoolState, LockableV3PoolData, PoolState, V3PoolData } from "@app/types/v3-types";
 import { LockableUniswapV3InitializerABI } from "@app/abis";
 import { chainConfigs } from "@app/config";
@@ -96,10 +97,16 @@ export const getV3MigrationPoolData = async ({
 
   const isToken0 = baseToken.toLowerCase() === token0.toLowerCase();
 
+  const numeraire = await NumeraireRegistry.resolve({
+    address: isToken0 ? token1 : token0,
+    context,
+  });
+
   const price = computeV3Price({
     sqrtPriceX96: slot0Data.sqrtPrice,
     isToken0,
     decimals: 18,
+    quoteDecimals: numeraire.decimals,
   });
 
   return {
@@ -140,10 +147,15 @@ export const getV3PoolData = async ({
   });
 
   const isToken0 = token0.toLowerCase() === poolState.asset.toLowerCase();
+  const numeraire = await NumeraireRegistry.resolve({
+    address: poolState.numeraire,
+    context,
+  });
   const price = computeV3Price({
     sqrtPriceX96: slot0Data.sqrtPrice,
     isToken0,
     decimals: 18,
+    quoteDecimals: numeraire.decimals,
   });
 
   return {
@@ -184,10 +196,15 @@ export const getLockableV3PoolData = async ({
   });
 
   const isToken0 = token0.toLowerCase() === poolState.asset.toLowerCase();
+  const numeraire = await NumeraireRegistry.resolve({
+    address: poolState.numeraire,
+    context,
+  });
   const price = computeV3Price({
     sqrtPriceX96: slot0Data.sqrtPrice,
     isToken0,
     decimals: 18,
+    quoteDecimals: numeraire.decimals,
   });
 
   return {
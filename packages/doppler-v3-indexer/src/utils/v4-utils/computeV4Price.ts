@@ -5,10 +5,12 @@ export const computeV4Price = ({
   isToken0,
   currentTick,
   baseTokenDecimals,
+  quoteDecimals = 18,
 }: {
   isToken0: boolean;
   currentTick: number;
   baseTokenDecimals: number;
+  quoteDecimals?: number;
 }) => {
   const sqrtPriceX96 = BigInt(
     TickMath.getSqrtRatioAtTick(currentTick).toString()
@@ -18,6 +20,7 @@ export const computeV4Price = ({
     sqrtPriceX96,
     isToken0,
     decimals: baseTokenDecimals,
+    quoteDecimals,
   });
 };
 
@@ -25,14 +28,17 @@ export const computeV4PriceFromSqrtPriceX96 = ({
   isToken0,
   sqrtPriceX96,
   baseTokenDecimals,
+  quoteDecimals = 18,
 }: {
   isToken0: boolean;
   sqrtPriceX96: bigint;
   baseTokenDecimals: number;
+  quoteDecimals?: number;
 }) => {
   return PriceService.computePriceFromSqrtPriceX96({
     sqrtPriceX96,
     isToken0,
     decimals: baseTokenDecimals,
+    quoteDecimals,
   });
 };
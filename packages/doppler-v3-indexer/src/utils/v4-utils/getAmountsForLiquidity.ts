@@ -0,0 +1,58 @@
+import {
+  getAmount0Delta,
+  getAmount1Delta,
+} from "../v3-utils/computeGraduationThreshold";
+
+/**
+ * Token amounts held by a position at the current tick
+ */
+export const getAmountsForLiquidity = ({
+  tick,
+  tickLower,
+  tickUpper,
+  liquidity,
+}: {
+  tick: number;
+  tickLower: number;
+  tickUpper: number;
+  liquidity: bigint;
+}): { amount0: bigint; amount1: bigint } => {
+  if (tick < tickLower) {
+    return {
+      amount0: getAmount0Delta({
+        tickLower,
+        tickUpper,
+        liquidity,
+        roundUp: false,
+      }),
+      amount1: 0n,
+    };
+  }
+
+  if (tick < tickUpper) {
+    return {
+      amount0: getAmount0Delta({
+        tickLower: tick,
+        tickUpper,
+        liquidity,
+        roundUp: false,
+      }),
+      amount1: getAmount1Delta({
+        tickLower,
+        tickUpper: tick,
+        liquidity,
+        roundUp: false,
+      }),
+    };
+  }
+
+  return {
+    amount0: 0n,
+    amount1: getAmount1Delta({
+      tickLower,
+      tickUpper,
+      liquidity,
+      roundUp: false,
+    }),
+  };
+};
@@ -5,6 +5,7 @@ import {
   DopplerABI,
   DopplerLensQuoterABI,
   StateViewABI,
+  V4MigratorABI,
   ZoraV4HookABI,
 } from "@app/abis";
 import {
@@ -24,6 +25,7 @@ import {
 } from "../v3-utils/computeGraduationThreshold";
 import { configs } from "addresses";
 import { getMulticallOptions } from "@app/core/utils";
+import { NumeraireRegistry } from "@app/core/pricing";
 import { chainConfigs } from "@app/config";
 
 export const getV4PoolData = async ({
@@ -92,16 +94,23 @@ export const getV4PoolData = async ({
   const baseToken =
     assetData0.poolInitializer != zeroAddress ? key.currency0 : key.currency1;
   const isToken0 = baseToken === key.currency0;
-  const baseTokenDecimals = await context.client.readContract({
-    abi: DERC20ABI,
-    address: baseToken,
-    functionName: "decimals",
-  });
+  const [baseTokenDecimals, numeraire] = await Promise.all([
+    context.client.readContract({
+      abi: DERC20ABI,
+      address: baseToken,
+      functionName: "decimals",
+    }),
+    NumeraireRegistry.resolve({
+      address: isToken0 ? key.currency1 : key.currency0,
+      context,
+    }),
+  ]);
 
   const price = computeV4Price({
     isToken0,
     currentTick: slot0Data.tick,
     baseTokenDecimals,
+    quoteDecimals: numeraire.decimals,
   });
 
   return {
@@ -363,6 +372,37 @@ export const getReservesV4 = async ({
   return reserves;
 };
 
+/**
+ * Id of the pool the V4 migrator migrates an asset into, read from the
+ * migrator's stored pool key
+ */
+export const getV4MigrationPoolId = async ({
+  assetAddress,
+  numeraireAddress,
+  context,
+}: {
+  assetAddress: Address;
+  numeraireAddress: Address;
+  context: Context;
+}): Promise<Hex> => {
+  const { client, chain } = context;
+  const v4Migrator = chainConfigs[chain.name].addresses.v4.v4Migrator;
+
+  const [token0, token1] =
+    assetAddress.toLowerCase() < numeraireAddress.toLowerCase()
+      ? [assetAddress, numeraireAddress]
+      : [numeraireAddress, assetAddress];
+
+  const { poolKey } = await client.readContract({
+    abi: V4MigratorABI,
+    address: v4Migrator,
+    functionName: "getAssetData",
+    args: [token0, token1],
+  });
+
+  return getPoolId(poolKey);
+};
+
 export const getLatestSqrtPrice = async ({
   isToken0,
   poolKey,
@@ -1,4 +1,5 @@
 export { getPoolId } from "./getPoolId";
-export { getV4PoolData } from "./getV4PoolData";
+export { getV4PoolData, getV4MigrationPoolId } from "./getV4PoolData";
+export { getAmountsForLiquidity } from "./getAmountsForLiquidity";
 export { computeGraduationPercentage } from "./computeGraduationPercentage";
 export type { V4PoolData, Slot0Data } from "@app/types/v4-types";
@@ -1,2 +1,3 @@
 export * from './abis';
 export { v4MigratorAbi } from './abis';
+export * from './bytecodes';
@@ -0,0 +1,240 @@
+import { ReadWriteAdapter, Drift, createDrift } from "@delvtech/drift";
+import {
+  Address,
+  Client,
+  WalletClient,
+  walletActions,
+  zeroAddress,
+} from "viem";
+import { DOPPLER_V3_ADDRESSES } from "../../addresses";
+import { DopplerV3Addresses } from "../../types";
+import { DefaultConfigs, ReadWriteFactory } from "../factory";
+import { ReadWriteGovernance } from "../governance";
+import { ReadUniswapV3Initializer } from "../initializer";
+import { ReadMigrator } from "../migrator";
+import { ReadUniswapV3Pool } from "../pool";
+import { ReadQuoter } from "../quoter";
+import { ReadWriteDerc20 } from "../token/derc20";
+import { ReadEth } from "../token/eth";
+
+export type DopplerModule = keyof DopplerV3Addresses;
+
+// Modules every deployment has, checked when the client is built
+const REQUIRED_ADDRESSES: DopplerModule[] = [
+  "airlock",
+  "tokenFactory",
+  "governanceFactory",
+  "liquidityMigrator",
+  "v3Initializer",
+  "universalRouter",
+  "permit2",
+  "quoterV2",
+  "univ2Router02",
+  "bundler",
+];
+
+/**
+ * Options for building a DopplerClient
+ * @property chainId Chain to resolve addresses for, detected from the client
+ * when omitted
+ * @property addresses Overrides merged over the chain's deployment, e.g. for
+ * local forks or modules not yet in DOPPLER_V3_ADDRESSES
+ * @property defaultConfigs Defaults passed to the factory
+ * @property walletClient Wallet signing writes when the viem client passed to
+ * `create` is a public client
+ */
+export interface DopplerClientOptions {
+  chainId?: number;
+  addresses?: Partial<DopplerV3Addresses>;
+  defaultConfigs?: DefaultConfigs;
+  walletClient?: WalletClient;
+}
+
+/**
+ * Single entry point to the Doppler V3 contracts of one chain. Addresses are
+ * resolved from the chain id and entities are created on first use, so only
+ * the modules a caller touches need to be deployed.
+ *
+ * @example
+ * ```typescript
+ * const client = await DopplerClient.create(drift);
+ * const { createParams } = await client.factory.encodeCreateData(params);
+ * const quote = await client.quoter.quoteExactInputV3({ ... });
+ * const migrator = client.migrator; // throws if the V4 migrator is missing
+ * ```
+ */
+export class DopplerClient {
+  readonly drift: Drift<ReadWriteAdapter>;
+  readonly chainId: number;
+  readonly addresses: DopplerV3Addresses;
+
+  private defaultConfigs?: DefaultConfigs;
+  private _factory?: ReadWriteFactory;
+  private _quoter?: ReadQuoter;
+  private _initializer?: ReadUniswapV3Initializer;
+  private _migrator?: ReadMigrator;
+  private _eth?: ReadEth;
+
+  /**
+   * @param drift Drift instance used by every entity
+   * @param chainId Chain the addresses are resolved for
+   * @param options Address overrides and factory defaults
+   * @throws Error if the chain has no deployment and no addresses are given,
+   * or a required address is missing
+   */
+  constructor(
+    drift: Drift<ReadWriteAdapter>,
+    chainId: number,
+    options: Omit<DopplerClientOptions, "chainId" | "walletClient"> = {}
+  ) {
+    const deployment = DOPPLER_V3_ADDRESSES[chainId];
+    if (!deployment && !options.addresses) {
+      throw new Error(
+        `Doppler V3 is not deployed on chain ${chainId}, pass its addresses to use a custom deployment`
+      );
+    }
+
+    const addresses = { ...deployment, ...options.addresses };
+    if (!hasRequiredAddresses(addresses)) {
+      const missing = REQUIRED_ADDRESSES.filter((module) => !addresses[module]);
+      throw new Error(
+        `Missing Doppler V3 addresses on chain ${chainId}: ${missing.join(", ")}`
+      );
+    }
+
+    this.drift = drift;
+    this.chainId = chainId;
+    this.addresses = addresses;
+    this.defaultConfigs = options.defaultConfigs;
+  }
+
+  /**
+   * Builds a client from a Drift instance or a viem client, detecting the
+   * chain id when it is not given. Writes through a viem client are signed by
+   * `options.walletClient`, or by the client itself and its account. viem
+   * clients need the optional `@delvtech/drift-viem` peer dependency, which is
+   * only loaded here.
+   * @param source Drift instance or viem client
+   * @param options Chain id, address overrides, factory defaults and wallet
+   * @throws Error if the chain has no deployment or a required address is
+   * missing
+   */
+  static async create(
+    source: Drift<ReadWriteAdapter> | Client,
+    options: DopplerClientOptions = {}
+  ): Promise<DopplerClient> {
+    const { chainId: givenChainId, walletClient, ...rest } = options;
+    let drift: Drift<ReadWriteAdapter>;
+    let chainId = givenChainId;
+
+    if (isViemClient(source)) {
+      chainId ??= source.chain?.id;
+      const { viemAdapter } = await import("@delvtech/drift-viem");
+      drift = createDrift({
+        adapter: viemAdapter({
+          publicClient: source,
+          walletClient: walletClient ?? source.extend(walletActions),
+        }),
+      });
+    } else {
+      drift = source;
+    }
+
+    chainId ??= await drift.getChainId();
+    return new DopplerClient(drift, chainId, rest);
+  }
+
+  /**
+   * Returns a module's address on this chain
+   * @param module Key in DopplerV3Addresses
+   * @throws Error if the module is not deployed on this chain
+   */
+  public getAddress(module: DopplerModule): Address {
+    const address = this.addresses[module];
+    if (!address || address === zeroAddress) {
+      throw new Error(
+        `${module} is not deployed on chain ${this.chainId}, pass its address in the client options to use a custom deployment`
+      );
+    }
+    return address;
+  }
+
+  /** Airlock factory, creating tokens through the bundler */
+  get factory(): ReadWriteFactory {
+    return (this._factory ??= new ReadWriteFactory(
+      this.getAddress("airlock"),
+      this.getAddress("bundler"),
+      this.drift,
+      this.defaultConfigs
+    ));
+  }
+
+  /** Uniswap V3 and V2 quoter */
+  get quoter(): ReadQuoter {
+    return (this._quoter ??= new ReadQuoter(
+      this.getAddress("quoterV2"),
+      this.getAddress("univ2Router02"),
+      this.drift
+    ));
+  }
+
+  /** Uniswap V3 initializer holding the bonding curve positions */
+  get initializer(): ReadUniswapV3Initializer {
+    return (this._initializer ??= new ReadUniswapV3Initializer(
+      this.getAddress("v3Initializer"),
+      this.drift
+    ));
+  }
+
+  /** Migrator moving graduated pools to Uniswap V4 */
+  get migrator(): ReadMigrator {
+    return (this._migrator ??= new ReadMigrator(
+      this.getAddress("v4Migrator"),
+      this.drift
+    ));
+  }
+
+  /** Native ether, read through the same interface as tokens */
+  get eth(): ReadEth {
+    return (this._eth ??= new ReadEth(this.drift));
+  }
+
+  /**
+   * Returns a DERC20 token
+   * @param address Token address
+   */
+  public token(address: Address): ReadWriteDerc20 {
+    return new ReadWriteDerc20(address, this.drift);
+  }
+
+  /**
+   * Returns a Uniswap V3 pool
+   * @param address Pool address
+   */
+  public pool(address: Address): ReadUniswapV3Pool {
+    return new ReadUniswapV3Pool(address, this.drift);
+  }
+
+  /**
+   * Returns a token's governor
+   * @param address Governor address, as returned by the airlock's asset data
+   */
+  public governance(address: Address): ReadWriteGovernance {
+    return new ReadWriteGovernance(address, this.drift);
+  }
+}
+
+/**
+ * Tells viem clients apart from Drift instances, which have no transport
+ */
+function isViemClient(
+  source: Drift<ReadWriteAdapter> | Client
+): source is Client {
+  return "transport" in source && "request" in source;
+}
+
+function hasRequiredAddresses(
+  addresses: Partial<DopplerV3Addresses>
+): addresses is DopplerV3Addresses {
+  return REQUIRED_ADDRESSES.every((module) => addresses[module]);
+}
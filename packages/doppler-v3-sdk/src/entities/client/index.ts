@@ -0,0 +1,5 @@
+export {
+  DopplerClient,
+  DopplerClientOptions,
+  DopplerModule,
+} from "./DopplerClient";
@@ -8,7 +8,7 @@ import {
   ContractOptions,
   createDrift,
 } from "@delvtech/drift";
-import { Address } from "viem";
+import { Address, Hex } from "viem";
 import { airlockAbi } from "../../abis";
 
 export type AirlockABI = typeof airlockAbi;
@@ -21,14 +21,55 @@ export enum ModuleState {
   Migrator = 4,
 }
 
+/**
+ * Addresses deployed by a create transaction
+ * @property pool Uniswap V3 pool the asset is sold in
+ * @property mismatches Predicted addresses that differ from the deployed ones
+ */
+export interface CreateResult {
+  asset: Address;
+  numeraire: Address;
+  poolInitializer: Address;
+  pool: Address;
+  governance: Address;
+  timelock: Address;
+  liquidityMigrator: Address;
+  migrationPool: Address;
+  blockNumber: bigint;
+  transactionHash: Hex;
+  mismatches: CreateAddressMismatch[];
+}
+
+/**
+ * Addresses a create transaction was expected to deploy, e.g. those returned
+ * by `encodeCreateData`
+ */
+export type ExpectedCreateAddresses = Partial<
+  Pick<
+    CreateResult,
+    "asset" | "pool" | "governance" | "timelock" | "migrationPool"
+  >
+>;
+
+/**
+ * A deployed address that differs from the prediction
+ */
+export interface CreateAddressMismatch {
+  field: keyof ExpectedCreateAddresses;
+  expected: Address;
+  actual: Address;
+}
+
 export class ReadFactory {
   airlock: ReadContract<AirlockABI>;
+  drift: Drift<ReadAdapter>;
 
   constructor(address: Address, drift: Drift<ReadAdapter> = createDrift()) {
     this.airlock = drift.contract({
       abi: airlockAbi,
       address,
     });
+    this.drift = drift;
   }
 
   async getModuleState(
@@ -79,4 +120,79 @@ export class ReadFactory {
       ...options,
     });
   }
+
+  /**
+   * Wait for a create or bundle transaction and return every address it
+   * deployed, read from the Airlock Create event and the asset data
+   * @param hash Transaction hash returned by create or bundle
+   * @param options.expected Predicted addresses to compare with the deployed
+   * ones
+   * @param options.timeout Milliseconds to wait for the transaction
+   * @returns Deployed addresses and any mismatches with the prediction
+   * @throws Error if the transaction is not mined in time, reverted, or did
+   * not create an asset
+   */
+  async waitForCreate(
+    hash: Hex,
+    options?: { expected?: ExpectedCreateAddresses; timeout?: number }
+  ): Promise<CreateResult> {
+    const receipt = await this.drift.waitForTransaction({
+      hash,
+      timeout: options?.timeout,
+    });
+    if (!receipt) {
+      throw new Error(`Transaction ${hash} was not mined in time`);
+    }
+    if (receipt.status === "reverted") {
+      throw new Error(`Transaction ${hash} reverted`);
+    }
+
+    // Drift receipts omit logs, so the event is read from the block
+    const { blockNumber } = receipt;
+    const createEvents = await this.airlock.getEvents("Create", {
+      fromBlock: blockNumber,
+      toBlock: blockNumber,
+    });
+    const createEvent = createEvents.find(
+      (event) => event.transactionHash === hash
+    );
+    if (!createEvent) {
+      throw new Error(`Transaction ${hash} did not create an asset`);
+    }
+
+    const { asset, numeraire, initializer, poolOrHook } = createEvent.args;
+    const assetData = await this.getAssetData(asset);
+    const result: CreateResult = {
+      asset,
+      numeraire,
+      poolInitializer: initializer,
+      pool: poolOrHook,
+      governance: assetData.governance,
+      timelock: assetData.timelock,
+      liquidityMigrator: assetData.liquidityMigrator,
+      migrationPool: assetData.migrationPool,
+      blockNumber,
+      transactionHash: hash,
+      mismatches: [],
+    };
+
+    const expected = options?.expected ?? {};
+    for (const field of Object.keys(
+      expected
+    ) as (keyof ExpectedCreateAddresses)[]) {
+      const value = expected[field];
+      if (
+        value !== undefined &&
+        value.toLowerCase() !== result[field].toLowerCase()
+      ) {
+        result.mismatches.push({
+          field,
+          expected: value,
+          actual: result[field],
+        });
+      }
+    }
+
+    return result;
+  }
 }
@@ -8,10 +8,30 @@ import {
   FunctionArgs,
 } from "@delvtech/drift";
 import { ReadFactory, AirlockABI } from "./ReadFactory";
-import { BundlerAbi } from "../../abis";
-import { Address, encodeAbiParameters, Hex, parseEther, toHex } from "viem";
+import {
+  BundlerAbi,
+  DERC20Bytecode,
+  uniswapV3InitializerAbi,
+} from "../../abis";
+import {
+  Address,
+  concat,
+  decodeAbiParameters,
+  encodeAbiParameters,
+  getContractAddress,
+  Hex,
+  keccak256,
+  parseEther,
+  toHex,
+} from "viem";
 import { BeneficiaryData, V4MigratorData } from "../../types";
 import { DOPPLER_V3_ADDRESSES } from "../../addresses";
+import { throwDopplerError } from "../../errors";
+import {
+  marketCapToPrice,
+  PriceInput,
+  priceRangeToTicks,
+} from "../../math";
 
 // Constants for default configuration values
 export const ONE_YEAR_IN_SECONDS = 365 * 24 * 60 * 60;
@@ -31,8 +51,22 @@ export const DEFAULT_INITIAL_VOTING_PERIOD = 1209600;
 export const DEFAULT_INITIAL_PROPOSAL_THRESHOLD = BigInt(0);
 
 export const WAD = BigInt(10 ** 18);
+export const DERC20_DECIMALS = 18;
 export const DEAD_ADDRESS = "0x000000000000000000000000000000000000dEaD" as Address;
 
+// Init code hash of Uniswap V3 pools on chains using the canonical deployment
+export const UNISWAP_V3_POOL_INIT_CODE_HASH =
+  "0xe34f199b19b2b4f47f68442619d555527d244f78a3297ea89325f843f87b8b54" as Hex;
+export const MAX_SALT_ATTEMPTS = 1_000;
+
+// Tick spacing of each Uniswap V3 fee tier
+export const V3_FEE_TICK_SPACING: Record<number, number> = {
+  100: 1,
+  500: 10,
+  3000: 60,
+  10_000: 200,
+};
+
 /**
  * Parameters required for creating a new Doppler V3 pool
  * @property initialSupply Initial token supply
@@ -65,6 +99,41 @@ export interface CreateParams {
   salt: Hex;
 }
 
+/**
+ * Options for encoding creation data
+ * @property salt Salt to use as is instead of searching for one. Rejected if
+ * the asset would not sort above the numeraire
+ * @property uniswapV3Factory Uniswap V3 factory the initializer creates pools
+ * with. Read from the initializer when omitted
+ * @property poolInitCodeHash Uniswap V3 pool init code hash, for chains whose
+ * deployment differs from the canonical one
+ * @property simulate Simulate the final parameters on the Airlock to confirm
+ * the predicted addresses and read the governance and timelock addresses
+ */
+export interface EncodeCreateDataOptions {
+  salt?: Hex;
+  uniswapV3Factory?: Address;
+  poolInitCodeHash?: Hex;
+  simulate?: boolean;
+}
+
+/**
+ * Create parameters along with the addresses they deploy to
+ * @property createParams Parameters to pass to create
+ * @property asset Predicted asset address
+ * @property pool Predicted Uniswap V3 pool address
+ * @property governance Governance address, only set when simulated since the
+ * governance factory deploys with CREATE and depends on its nonce
+ * @property timelock Timelock address, only set when simulated
+ */
+export interface EncodedCreateData {
+  createParams: CreateParams;
+  asset: Address;
+  pool: Address;
+  governance?: Address;
+  timelock?: Address;
+}
+
 /**
  * Configuration for a Doppler V3 liquidity pool
  * @property startTick Initial tick position
@@ -94,6 +163,20 @@ export interface SaleConfig {
   numTokensToSell: bigint;
 }
 
+/**
+ * Fully diluted market caps the bonding curve spans
+ * @property startMarketCap Market cap at launch, in whole numeraire units, or
+ * in USD when numerairePrice is set
+ * @property endMarketCap Market cap once the curve is sold out, above the
+ * start
+ * @property numerairePrice USD price of one whole numeraire
+ */
+export interface MarketCapRange {
+  startMarketCap: PriceInput;
+  endMarketCap: PriceInput;
+  numerairePrice?: PriceInput;
+}
+
 /**
  * Vesting schedule configuration
  * @property yearlyMintCap Annual minting cap
@@ -157,6 +240,10 @@ export interface InitializerContractDependencies {
  * @property v3PoolConfig Optional pool configuration overrides
  * @property vestingConfig Vesting configuration or "default" preset
  * @property liquidityMigratorData Optional encoded V4 migrator data for future migration
+ * @property marketCapRange Optional market caps to derive the pool ticks from,
+ * replacing the v3PoolConfig ticks
+ * @property numeraireDecimals Numeraire decimals used with marketCapRange,
+ * 18 by default
  */
 export interface CreateV3PoolParams {
   integrator: Address;
@@ -169,6 +256,8 @@ export interface CreateV3PoolParams {
   vestingConfig: VestingConfig | "default";
   governanceConfig?: Partial<GovernanceConfig>;
   liquidityMigratorData?: Hex;
+  marketCapRange?: MarketCapRange;
+  numeraireDecimals?: number;
 }
 
 /**
@@ -197,7 +286,7 @@ export class ReadWriteFactory extends ReadFactory {
   declare defaultVestingConfig: VestingConfig;
   declare defaultSaleConfig: SaleConfig;
   declare defaultGovernanceConfig: GovernanceConfig;
-  private drift: Drift<ReadWriteAdapter>;
+  declare drift: Drift<ReadWriteAdapter>;
   /**
    * Create a new ReadWriteFactory instance
    * @param address Contract address
@@ -211,7 +300,6 @@ export class ReadWriteFactory extends ReadFactory {
     defaultConfigs?: DefaultConfigs
   ) {
     super(address, drift);
-    this.drift = drift;
     this.bundler = drift.contract({
       abi: BundlerAbi,
       address: bundlerAddress,
@@ -340,6 +428,56 @@ export class ReadWriteFactory extends ReadFactory {
       .join("")}`;
   };
 
+  /**
+   * Compute the pool ticks from a market cap range. The asset is token1, as
+   * encodeCreateData sorts it above the numeraire, so the higher market cap
+   * gives the start tick. The range is rounded outwards to the tick spacing.
+   * @param marketCapRange Market caps at launch and once sold out
+   * @param initialSupply Asset total supply
+   * @param fee Pool fee tier, which sets the tick spacing
+   * @param numeraireDecimals Numeraire decimals
+   * @returns Start and end ticks
+   * @throws Error if the fee tier is unknown or the end market cap is not
+   * above the start
+   */
+  private computeTicks(
+    marketCapRange: MarketCapRange,
+    initialSupply: bigint,
+    fee: number,
+    numeraireDecimals: number
+  ): { startTick: number; endTick: number } {
+    const tickSpacing = V3_FEE_TICK_SPACING[fee];
+    if (!tickSpacing) {
+      throw new Error(`Unknown fee tier ${fee}`);
+    }
+
+    const { startMarketCap, endMarketCap, numerairePrice } = marketCapRange;
+    const [launchPrice, soldOutPrice] = [startMarketCap, endMarketCap].map(
+      (marketCap) =>
+        marketCapToPrice(
+          marketCap,
+          initialSupply,
+          DERC20_DECIMALS,
+          numerairePrice
+        )
+    );
+    if (
+      soldOutPrice.numerator * launchPrice.denominator <=
+      launchPrice.numerator * soldOutPrice.denominator
+    ) {
+      throw new Error("End market cap must be above the start market cap");
+    }
+
+    // Asset prices rise as ticks fall when the asset is token1
+    const { startTick: launchTick, endTick: soldOutTick } = priceRangeToTicks(
+      launchPrice,
+      soldOutPrice,
+      { assetDecimals: DERC20_DECIMALS, numeraireDecimals, isToken0: false },
+      tickSpacing
+    );
+    return { startTick: soldOutTick, endTick: launchTick };
+  }
+
   /**
    * Encode lockable pool initializer data
    * @param v3PoolConfig Complete pool configuration
@@ -494,8 +632,19 @@ export class ReadWriteFactory extends ReadFactory {
       params.vestingConfig,
       userAddress
     );
-    const v3PoolConfig = this.getMergedV3PoolConfig(params.v3PoolConfig);
     const saleConfig = this.getMergedSaleConfig(params.saleConfig);
+    const mergedV3PoolConfig = this.getMergedV3PoolConfig(params.v3PoolConfig);
+    const v3PoolConfig: V3PoolConfig = params.marketCapRange
+      ? {
+          ...mergedV3PoolConfig,
+          ...this.computeTicks(
+            params.marketCapRange,
+            saleConfig.initialSupply,
+            mergedV3PoolConfig.fee,
+            params.numeraireDecimals ?? 18
+          ),
+        }
+      : mergedV3PoolConfig;
     const governanceConfig = this.getMergedGovernanceConfig(
       params.governanceConfig
     );
@@ -554,13 +703,19 @@ export class ReadWriteFactory extends ReadFactory {
   }
 
   /**
-   * Encode creation data with token order validation
+   * Encode creation data with token order validation. Salts are searched
+   * offline by predicting the asset address with CREATE2 until the asset
+   * sorts above the numeraire, so the same inputs always give the same salt.
    * @param params CreateV3PoolParams input parameters
-   * @returns Finalized create parameters with adjusted ticks if needed
+   * @param options Pinned salt, pool prediction inputs and simulation toggle
+   * @returns Finalized create parameters and the predicted addresses
+   * @throws Error if the pinned salt sorts the asset below the numeraire,
+   * or the simulated asset or pool differs from the prediction
    */
   public async encodeCreateData(
-    params: CreateV3PoolParams
-  ): Promise<CreateParams> {
+    params: CreateV3PoolParams,
+    options?: EncodeCreateDataOptions
+  ): Promise<EncodedCreateData> {
     // First, perform validation before any encoding
     const saleConfig = this.getMergedSaleConfig(params.saleConfig);
     const vestingConfig = this.getMergedVestingConfig(
@@ -615,25 +770,188 @@ export class ReadWriteFactory extends ReadFactory {
     //   }
     // }
 
-    // If validation passes, proceed with the original logic
-    let isToken0 = true;
-    let createParams!: CreateParams;
-    let asset!: Address;
-
-    let i = 0n;
-    while (isToken0) {
-      const encoded = this.encode(params);
-      createParams = encoded.createParams;
-      createParams.salt = this.generateRandomSalt(
-        toHex(BigInt(params.userAddress) + BigInt(i))
-      ) as Hex;
-      const simulateResult = await this.simulateCreate(createParams);
-      asset = simulateResult.asset;
-      isToken0 = Number(asset) < Number(params.numeraire);
-      i++;
+    const { createParams, v3PoolConfig } = this.encode(params);
+    const tokenInitCodeHash = this.getTokenInitCodeHash(createParams);
+    const sortsAboveNumeraire = (asset: Address) =>
+      BigInt(asset) > BigInt(params.numeraire);
+
+    let asset: Address;
+    if (options?.salt) {
+      createParams.salt = options.salt;
+      asset = this.computeAssetAddress(createParams, tokenInitCodeHash);
+      if (!sortsAboveNumeraire(asset)) {
+        throw new Error(
+          `Salt ${options.salt} deploys the asset to ${asset}, which sorts below the numeraire`
+        );
+      }
+    } else {
+      let i = 0;
+      do {
+        if (i === MAX_SALT_ATTEMPTS) {
+          throw new Error(
+            `No salt sorting the asset above the numeraire in ${MAX_SALT_ATTEMPTS} attempts`
+          );
+        }
+        createParams.salt = this.generateRandomSalt(
+          toHex(BigInt(params.userAddress) + BigInt(i))
+        ) as Hex;
+        asset = this.computeAssetAddress(createParams, tokenInitCodeHash);
+        i++;
+      } while (!sortsAboveNumeraire(asset));
     }
 
-    return createParams;
+    const pool = await this.predictPoolAddress(
+      asset,
+      params.numeraire,
+      v3PoolConfig.fee,
+      params.contracts.v3Initializer,
+      options
+    );
+
+    if (!options?.simulate) {
+      return { createParams, asset, pool };
+    }
+
+    const simulated = await this.simulateCreate(createParams);
+    if (simulated.asset.toLowerCase() !== asset.toLowerCase()) {
+      throw new Error(
+        `Predicted asset ${asset} but simulation deployed ${simulated.asset}. Does the token factory deploy the bundled DERC20?`
+      );
+    }
+    if (simulated.pool.toLowerCase() !== pool.toLowerCase()) {
+      throw new Error(
+        `Predicted pool ${pool} but simulation deployed ${simulated.pool}`
+      );
+    }
+
+    return {
+      createParams,
+      asset,
+      pool,
+      governance: simulated.governance,
+      timelock: simulated.timelock,
+    };
+  }
+
+  /**
+   * Predict the asset address create deploys, without an RPC call
+   * @param params Create parameters, including the salt
+   * @returns The CREATE2 address of the asset
+   */
+  public predictAssetAddress(params: CreateParams): Address {
+    return this.computeAssetAddress(params, this.getTokenInitCodeHash(params));
+  }
+
+  /**
+   * Predict the Uniswap V3 pool the initializer creates for an asset
+   * @param asset Asset address
+   * @param numeraire Numeraire address
+   * @param fee Pool fee tier
+   * @param v3Initializer Initializer, read for its factory when the factory
+   * is not given
+   * @param options Uniswap V3 factory and pool init code hash overrides
+   * @returns The CREATE2 address of the pool
+   */
+  public async predictPoolAddress(
+    asset: Address,
+    numeraire: Address,
+    fee: number,
+    v3Initializer: Address,
+    options?: Pick<
+      EncodeCreateDataOptions,
+      "uniswapV3Factory" | "poolInitCodeHash"
+    >
+  ): Promise<Address> {
+    const factory =
+      options?.uniswapV3Factory ??
+      (await this.drift
+        .contract({ abi: uniswapV3InitializerAbi, address: v3Initializer })
+        .read("factory"));
+    const [token0, token1] =
+      BigInt(asset) < BigInt(numeraire) ? [asset, numeraire] : [numeraire, asset];
+
+    return getContractAddress({
+      opcode: "CREATE2",
+      from: factory,
+      salt: keccak256(
+        encodeAbiParameters(
+          [{ type: "address" }, { type: "address" }, { type: "uint24" }],
+          [token0, token1, fee]
+        )
+      ),
+      bytecodeHash: options?.poolInitCodeHash ?? UNISWAP_V3_POOL_INIT_CODE_HASH,
+    });
+  }
+
+  /**
+   * Hash the DERC20 creation code with the constructor arguments the token
+   * factory passes, which do not depend on the salt
+   * @param params Create parameters
+   * @returns Init code hash of the asset
+   */
+  private getTokenInitCodeHash(params: CreateParams): Hex {
+    const [
+      name,
+      symbol,
+      yearlyMintRate,
+      vestingDuration,
+      recipients,
+      amounts,
+      tokenURI,
+    ] = decodeAbiParameters(
+      [
+        { type: "string" },
+        { type: "string" },
+        { type: "uint256" },
+        { type: "uint256" },
+        { type: "address[]" },
+        { type: "uint256[]" },
+        { type: "string" },
+      ],
+      params.tokenFactoryData
+    );
+
+    // The Airlock both receives the supply and owns the token until migration
+    const constructorArgs = encodeAbiParameters(
+      [
+        { type: "string" },
+        { type: "string" },
+        { type: "uint256" },
+        { type: "address" },
+        { type: "address" },
+        { type: "uint256" },
+        { type: "uint256" },
+        { type: "address[]" },
+        { type: "uint256[]" },
+        { type: "string" },
+      ],
+      [
+        name,
+        symbol,
+        params.initialSupply,
+        this.airlock.address,
+        this.airlock.address,
+        yearlyMintRate,
+        vestingDuration,
+        recipients,
+        amounts,
+        tokenURI,
+      ]
+    );
+
+    return keccak256(concat([DERC20Bytecode as Hex, constructorArgs]));
+  }
+
+  private computeAssetAddress(
+    params: CreateParams,
+    tokenInitCodeHash: Hex
+  ): Address {
+    return getContractAddress({
+      opcode: "CREATE2",
+      from: params.tokenFactory,
+      salt: params.salt,
+      bytecodeHash: tokenInitCodeHash,
+    });
   }
 
   /**
@@ -646,38 +964,48 @@ export class ReadWriteFactory extends ReadFactory {
     params: CreateParams,
     options?: TransactionOptions
   ): Promise<Hex> {
-    return this.airlock.write("create", { createData: params }, options);
+    return this.airlock
+      .write("create", { createData: params }, options)
+      .catch(throwDopplerError);
   }
 
   /**
    * Simulate pool creation transaction
    * @param params Create parameters
    * @returns Simulation results
+   * @throws {DopplerContractError} If the creation reverts with a known custom
+   * error, e.g. {@link WrongModuleStateError} for an unwhitelisted module
    */
   public async simulateCreate(
     params: CreateParams
   ): Promise<FunctionReturn<AirlockABI, "create">> {
-    return this.airlock.simulateWrite("create", { createData: params });
+    return this.airlock
+      .simulateWrite("create", { createData: params })
+      .catch(throwDopplerError);
   }
 
   public async simulateBundleExactOutput(
     createData: CreateParams,
     params: FunctionArgs<BundlerABI, "simulateBundleExactOut">["params"]
   ): Promise<FunctionReturn<BundlerABI, "simulateBundleExactOut">> {
-    return this.bundler.simulateWrite("simulateBundleExactOut", {
-      createData,
-      params: { ...params },
-    });
+    return this.bundler
+      .simulateWrite("simulateBundleExactOut", {
+        createData,
+        params: { ...params },
+      })
+      .catch(throwDopplerError);
   }
 
   public async simulateBundleExactInput(
     createData: CreateParams,
     params: FunctionArgs<BundlerABI, "simulateBundleExactIn">["params"]
   ): Promise<FunctionReturn<BundlerABI, "simulateBundleExactIn">> {
-    return this.bundler.simulateWrite("simulateBundleExactIn", {
-      createData,
-      params: { ...params },
-    });
+    return this.bundler
+      .simulateWrite("simulateBundleExactIn", {
+        createData,
+        params: { ...params },
+      })
+      .catch(throwDopplerError);
   }
 
   public async bundle(
@@ -686,11 +1014,9 @@ export class ReadWriteFactory extends ReadFactory {
     inputs: FunctionArgs<BundlerABI, "bundle">["inputs"],
     options?: TransactionOptions
   ): Promise<Hex> {
-    return this.bundler.write(
-      "bundle",
-      { createData, commands, inputs },
-      options
-    );
+    return this.bundler
+      .write("bundle", { createData, commands, inputs }, options)
+      .catch(throwDopplerError);
   }
 
   /**
@@ -1,7 +1,17 @@
-export { ReadFactory } from "./ReadFactory";
+export {
+  ReadFactory,
+  ModuleState,
+  CreateResult,
+  ExpectedCreateAddresses,
+  CreateAddressMismatch,
+} from "./ReadFactory";
 export {
   ReadWriteFactory,
   CreateV3PoolParams,
+  MarketCapRange,
+  CreateParams,
+  EncodeCreateDataOptions,
+  EncodedCreateData,
   TokenConfig,
   VestingConfig,
   SaleConfig,
@@ -23,4 +33,17 @@ export {
   DEFAULT_INITIAL_PROPOSAL_THRESHOLD,
   WAD,
   DEAD_ADDRESS,
+  UNISWAP_V3_POOL_INIT_CODE_HASH,
+  MAX_SALT_ATTEMPTS,
+  DERC20_DECIMALS,
+  V3_FEE_TICK_SPACING,
 } from "./ReadWriteFactory";
+export {
+  buildLaunchPreset,
+  LAUNCH_PRESETS,
+  LaunchCurve,
+  LaunchPreset,
+  LaunchPresetName,
+  LaunchPresetParams,
+  LaunchPresetResult,
+} from "./presets";
@@ -0,0 +1,284 @@
+import { parseEther } from "viem";
+import {
+  CreateV3PoolParams,
+  DEFAULT_INITIAL_SUPPLY_WAD,
+  DERC20_DECIMALS,
+  V3_FEE_TICK_SPACING,
+  WAD,
+} from "./ReadWriteFactory";
+import { previewV3Curve } from "../initializer/curve";
+import {
+  formatFraction,
+  Fraction,
+  marketCapToPrice,
+  PriceInput,
+  PricePair,
+  priceRangeToTicks,
+  tickToMarketCap,
+  tickToPrice,
+} from "../../math";
+
+export type LaunchPresetName = "lowFloat" | "fairLaunch" | "creatorCoin";
+
+/**
+ * Curve shape shared by launches of the same kind. Market caps are given per
+ * launch, everything else comes from the preset.
+ * @property label Display name
+ * @property description What the preset is for and how its curve behaves
+ * @property salePercent Percentage of the total supply sold on the curve
+ * @property fee Uniswap V3 fee tier, which sets the tick spacing
+ * @property numPositions Number of positions the curve is split into
+ * @property maxShareToBeSold WAD-scaled share of the sold tokens placed on
+ * the curve
+ */
+export interface LaunchPreset {
+  label: string;
+  description: string;
+  salePercent: number;
+  fee: number;
+  numPositions: number;
+  maxShareToBeSold: bigint;
+}
+
+export const LAUNCH_PRESETS: Record<LaunchPresetName, LaunchPreset> = {
+  lowFloat: {
+    label: "Low float",
+    description:
+      "Sells a tenth of the supply, most of it on the curve, so a thin float trades over a wide price range while the rest of the supply stays with vesting recipients.",
+    salePercent: 10,
+    fee: 10_000,
+    numPositions: 10,
+    maxShareToBeSold: parseEther("0.8"),
+  },
+  fairLaunch: {
+    label: "Fair launch",
+    description:
+      "Sells almost the whole supply with a third of it on the curve, so the market sets the price and no team allocation is assumed.",
+    salePercent: 90,
+    fee: 3000,
+    numPositions: 15,
+    maxShareToBeSold: parseEther("0.35"),
+  },
+  creatorCoin: {
+    label: "Creator coin",
+    description:
+      "Sells half the supply to a creator's audience on a short curve with few positions, so small communities can move the price and reach migration.",
+    salePercent: 50,
+    fee: 10_000,
+    numPositions: 8,
+    maxShareToBeSold: parseEther("0.5"),
+  },
+};
+
+/**
+ * Create parameters and target market caps of a launch built from a preset
+ * @property numerairePrice USD price of one whole numeraire, 1 for a USD
+ * stablecoin
+ * @property startMarketCap USD market cap at launch
+ * @property endMarketCap USD market cap once the curve is sold out, above the
+ * start
+ * @property totalSupply Asset total supply, the factory default when omitted
+ * @property salePercent Overrides the preset's sale percentage
+ * @property numeraireSymbol Numeraire name used in the explanation
+ */
+export interface LaunchPresetParams
+  extends Omit<
+    CreateV3PoolParams,
+    "saleConfig" | "v3PoolConfig" | "marketCapRange"
+  > {
+  numerairePrice: PriceInput;
+  startMarketCap: PriceInput;
+  endMarketCap: PriceInput;
+  totalSupply?: bigint;
+  salePercent?: number;
+  numeraireSymbol?: string;
+}
+
+/**
+ * The bonding curve a preset produces, after the ticks are rounded outwards
+ * to the tick spacing
+ * @property startTick Lower tick of the curve, at the end market cap
+ * @property endTick Upper tick of the curve, at the launch market cap
+ * @property launchPrice Asset price at launch, in whole numeraire units
+ * @property soldOutPrice Asset price once the curve is sold out
+ * @property launchMarketCap USD market cap at launch
+ * @property soldOutMarketCap USD market cap once the curve is sold out
+ * @property curveTokens Tokens placed on the curve
+ * @property graduationProceeds Numeraire raised once the curve is sold out,
+ * before fees
+ */
+export interface LaunchCurve {
+  startTick: number;
+  endTick: number;
+  launchPrice: Fraction;
+  soldOutPrice: Fraction;
+  launchMarketCap: Fraction;
+  soldOutMarketCap: Fraction;
+  curveTokens: bigint;
+  graduationProceeds: bigint;
+}
+
+/**
+ * Result of building a launch from a preset
+ * @property params Parameters to pass to encodeCreateData
+ * @property curve The resulting bonding curve
+ * @property explanation Plain English description of the sale and its curve
+ */
+export interface LaunchPresetResult {
+  params: CreateV3PoolParams;
+  curve: LaunchCurve;
+  explanation: string;
+}
+
+/**
+ * Build validated create parameters from a preset and target USD market caps.
+ * Ticks, positions, share sold and fee all come from the preset, and the
+ * explanation describes the resulting curve. V3 curves are static, so there
+ * is no duration: the price rises as buyers work through the positions.
+ * @param preset Preset name or a custom preset
+ * @param params Token, vesting and contract parameters plus the market caps
+ * @returns Parameters for encodeCreateData, the curve and its explanation
+ * @throws Error if the preset or the market caps cannot form a valid curve
+ * @example
+ * ```typescript
+ * const { params, explanation } = buildLaunchPreset("creatorCoin", {
+ *   ...createParams,
+ *   numerairePrice: 2500, // ETH/USD
+ *   startMarketCap: 20_000,
+ *   endMarketCap: 2_000_000,
+ * });
+ * console.log(explanation);
+ * const { createParams } = await factory.encodeCreateData(params);
+ * ```
+ */
+export function buildLaunchPreset(
+  preset: LaunchPresetName | LaunchPreset,
+  params: LaunchPresetParams
+): LaunchPresetResult {
+  const resolved = typeof preset === "string" ? LAUNCH_PRESETS[preset] : preset;
+  if (!resolved) {
+    throw new Error(`Unknown launch preset ${preset}`);
+  }
+  const {
+    numerairePrice,
+    startMarketCap,
+    endMarketCap,
+    totalSupply = DEFAULT_INITIAL_SUPPLY_WAD,
+    salePercent = resolved.salePercent,
+    numeraireSymbol = "ETH",
+    ...createParams
+  } = params;
+
+  if (!(salePercent > 0 && salePercent <= 100)) {
+    throw new Error("Sale percentage must be above 0 and at most 100");
+  }
+  if (resolved.maxShareToBeSold <= 0n || resolved.maxShareToBeSold > WAD) {
+    throw new Error("maxShareToBeSold must be above 0 and at most 100%");
+  }
+  if (!Number.isInteger(resolved.numPositions) || resolved.numPositions < 1) {
+    throw new Error("Number of positions must be a positive whole number");
+  }
+  const tickSpacing = V3_FEE_TICK_SPACING[resolved.fee];
+  if (!tickSpacing) {
+    throw new Error(`Unknown fee tier ${resolved.fee}`);
+  }
+
+  const [targetLaunchPrice, targetSoldOutPrice] = [
+    startMarketCap,
+    endMarketCap,
+  ].map((marketCap) =>
+    marketCapToPrice(marketCap, totalSupply, DERC20_DECIMALS, numerairePrice)
+  );
+  if (
+    targetSoldOutPrice.numerator * targetLaunchPrice.denominator <=
+    targetLaunchPrice.numerator * targetSoldOutPrice.denominator
+  ) {
+    throw new Error("End market cap must be above the start market cap");
+  }
+
+  // encodeCreateData sorts the asset above the numeraire, so it is token1
+  const pair: PricePair = {
+    assetDecimals: DERC20_DECIMALS,
+    numeraireDecimals: params.numeraireDecimals ?? 18,
+    isToken0: false,
+  };
+  const { startTick: launchTick, endTick: soldOutTick } = priceRangeToTicks(
+    targetLaunchPrice,
+    targetSoldOutPrice,
+    pair,
+    tickSpacing
+  );
+
+  const numTokensToSell =
+    (totalSupply * BigInt(Math.round(salePercent * 100))) / 10_000n;
+  const saleConfig = { initialSupply: totalSupply, numTokensToSell };
+  const v3PoolConfig = {
+    startTick: soldOutTick,
+    endTick: launchTick,
+    numPositions: resolved.numPositions,
+    maxShareToBeSold: resolved.maxShareToBeSold,
+    fee: resolved.fee,
+  };
+  const { curveTokens, graduationProceeds } = previewV3Curve(
+    v3PoolConfig,
+    saleConfig,
+    { numeraireDecimals: pair.numeraireDecimals }
+  );
+  const curve: LaunchCurve = {
+    startTick: soldOutTick,
+    endTick: launchTick,
+    launchPrice: tickToPrice(launchTick, pair),
+    soldOutPrice: tickToPrice(soldOutTick, pair),
+    launchMarketCap: tickToMarketCap(
+      launchTick,
+      pair,
+      totalSupply,
+      numerairePrice
+    ),
+    soldOutMarketCap: tickToMarketCap(
+      soldOutTick,
+      pair,
+      totalSupply,
+      numerairePrice
+    ),
+    curveTokens,
+    graduationProceeds,
+  };
+
+  const tokenUnit = 10n ** BigInt(DERC20_DECIMALS);
+  const explanation = [
+    `${resolved.label}: ${resolved.description}`,
+    `Sells ${salePercent}% of the supply (${formatAmount(
+      { numerator: numTokensToSell, denominator: tokenUnit },
+      0
+    )} tokens), with ${formatAmount(
+      { numerator: curveTokens, denominator: tokenUnit },
+      0
+    )} of them spread over ${resolved.numPositions} positions on the curve.`,
+    `The price starts at a $${formatAmount(curve.launchMarketCap, 0)} market cap (${formatAmount(curve.launchPrice, 12)} ${numeraireSymbol} per token) and rises as buyers work through the positions, reaching $${formatAmount(curve.soldOutMarketCap, 0)} (${formatAmount(curve.soldOutPrice, 12)} ${numeraireSymbol}) once the curve is sold out.`,
+    `Selling out the curve raises ${formatAmount(
+      {
+        numerator: graduationProceeds,
+        denominator: 10n ** BigInt(pair.numeraireDecimals),
+      },
+      4
+    )} ${numeraireSymbol} before fees, and the pool can then migrate. Swaps pay a ${resolved.fee / 10_000}% fee.`,
+  ].join("\n");
+
+  return {
+    params: { ...createParams, saleConfig, v3PoolConfig },
+    curve,
+    explanation,
+  };
+}
+
+/**
+ * Format a fraction with thousands separators
+ * @param value Value to format
+ * @param decimals Digits after the decimal point
+ */
+function formatAmount(value: Fraction, decimals: number): string {
+  const [whole, fraction] = formatFraction(value, decimals).split(".");
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  return fraction ? `${grouped}.${fraction}` : grouped;
+}
@@ -0,0 +1,19 @@
+export {
+  ReadGovernance,
+  GovernanceABI,
+  TimelockABI,
+  ProposalState,
+  VoteType,
+  ProposalVotes,
+  Proposal,
+} from "./ReadGovernance";
+export { ReadWriteGovernance } from "./ReadWriteGovernance";
+export {
+  ProposalAction,
+  encodeProposalActions,
+  hashDescription,
+  hashProposal,
+  buildUnlockPoolAction,
+  buildMintInflationAction,
+  buildTransferAction,
+} from "./proposals";
@@ -0,0 +1,167 @@
+import {
+  Address,
+  encodeAbiParameters,
+  encodeFunctionData,
+  erc20Abi,
+  Hex,
+  hexToBigInt,
+  isHex,
+  keccak256,
+  toBytes,
+  zeroAddress,
+} from "viem";
+import { derc20Abi } from "../../abis";
+
+/**
+ * A call the timelock makes when a proposal is executed
+ */
+export interface ProposalAction {
+  /** Contract or account to call */
+  target: Address;
+  /** ETH sent from the timelock with the call */
+  value: bigint;
+  /** Encoded function call, `0x` for a plain ETH transfer */
+  calldata: Hex;
+}
+
+/**
+ * Splits proposal actions into the parallel arrays the Governor expects
+ *
+ * @param actions - Calls to make when the proposal executes
+ * @returns The targets, values and calldatas arrays
+ */
+export function encodeProposalActions(actions: ProposalAction[]): {
+  targets: Address[];
+  values: bigint[];
+  calldatas: Hex[];
+} {
+  if (actions.length === 0) {
+    throw new Error("A proposal needs at least one action");
+  }
+  return {
+    targets: actions.map(({ target }) => target),
+    values: actions.map(({ value }) => value),
+    calldatas: actions.map(({ calldata }) => calldata),
+  };
+}
+
+/**
+ * Hashes a proposal description the way the Governor does
+ *
+ * @param description - Proposal description
+ * @returns keccak256 of the UTF-8 encoded description
+ */
+export function hashDescription(description: string): Hex {
+  return keccak256(toBytes(description));
+}
+
+/**
+ * Computes a proposal ID offline, matching the Governor's `hashProposal`
+ *
+ * @param actions - Calls the proposal makes
+ * @param description - Proposal description, or its hash
+ * @returns The proposal ID
+ *
+ * @example
+ * ```typescript
+ * const proposalId = hashProposal(actions, "# Unlock the pool");
+ * const state = await governance.getProposalState(proposalId);
+ * ```
+ */
+export function hashProposal(
+  actions: ProposalAction[],
+  description: string | Hex
+): bigint {
+  const { targets, values, calldatas } = encodeProposalActions(actions);
+  const descriptionHash =
+    isHex(description) && description.length === 66
+      ? description
+      : hashDescription(description);
+
+  return hexToBigInt(
+    keccak256(
+      encodeAbiParameters(
+        [
+          { type: "address[]" },
+          { type: "uint256[]" },
+          { type: "bytes[]" },
+          { type: "bytes32" },
+        ],
+        [targets, values, calldatas, descriptionHash]
+      )
+    )
+  );
+}
+
+/**
+ * Builds an action that unlocks the asset's pool, allowing transfers to it
+ * again after migration. The timelock must own the token.
+ *
+ * @param asset - DERC20 asset address
+ */
+export function buildUnlockPoolAction(asset: Address): ProposalAction {
+  return {
+    target: asset,
+    value: BigInt(0),
+    calldata: encodeFunctionData({
+      abi: derc20Abi,
+      functionName: "unlockPool",
+    }),
+  };
+}
+
+/**
+ * Builds an action that mints the inflation accrued since the last mint to
+ * the token owner, which is the timelock once governance controls the token
+ *
+ * @param asset - DERC20 asset address
+ */
+export function buildMintInflationAction(asset: Address): ProposalAction {
+  return {
+    target: asset,
+    value: BigInt(0),
+    calldata: encodeFunctionData({
+      abi: derc20Abi,
+      functionName: "mintInflation",
+    }),
+  };
+}
+
+/**
+ * Builds an action that sends treasury funds held by the timelock
+ *
+ * @param params.token - ERC20 to send, or the zero address for ETH
+ * @param params.to - Recipient
+ * @param params.amount - Amount in the token's smallest unit
+ *
+ * @example
+ * ```typescript
+ * const action = buildTransferAction({
+ *   token: assetAddress,
+ *   to: grantee,
+ *   amount: parseEther("100000"),
+ * });
+ * ```
+ */
+export function buildTransferAction({
+  token,
+  to,
+  amount,
+}: {
+  token: Address;
+  to: Address;
+  amount: bigint;
+}): ProposalAction {
+  if (token === zeroAddress) {
+    return { target: to, value: amount, calldata: "0x" };
+  }
+  return {
+    target: token,
+    value: BigInt(0),
+    calldata: encodeFunctionData({
+      abi: erc20Abi,
+      functionName: "transfer",
+      args: [to, amount],
+    }),
+  };
+}
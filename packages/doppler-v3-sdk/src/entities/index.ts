@@ -1,7 +1,15 @@
 export {
   ReadFactory,
+  ModuleState,
+  CreateResult,
+  ExpectedCreateAddresses,
+  CreateAddressMismatch,
   ReadWriteFactory,
   CreateV3PoolParams,
+  MarketCapRange,
+  CreateParams,
+  EncodeCreateDataOptions,
+  EncodedCreateData,
   TokenConfig,
   VestingConfig,
   SaleConfig,
@@ -23,10 +31,70 @@ export {
   DEFAULT_INITIAL_PROPOSAL_THRESHOLD,
   WAD,
   DEAD_ADDRESS,
+  UNISWAP_V3_POOL_INIT_CODE_HASH,
+  MAX_SALT_ATTEMPTS,
+  DERC20_DECIMALS,
+  V3_FEE_TICK_SPACING,
+  buildLaunchPreset,
+  LAUNCH_PRESETS,
+  LaunchCurve,
+  LaunchPreset,
+  LaunchPresetName,
+  LaunchPresetParams,
+  LaunchPresetResult,
 } from "./factory";
-export { ReadDerc20, ReadWriteDerc20 } from "./token/derc20";
+export {
+  ReadDerc20,
+  ReadWriteDerc20,
+  computeMintableInflation,
+  InflationState,
+  INFLATION_YEAR_SECONDS,
+  buildVestingTimeline,
+  computeVestedAmount,
+  computeVestingPoint,
+  getVestingScheduleFromConfig,
+  planVestingClaims,
+  RecipientVestingTimeline,
+  VestingAllocation,
+  VestingClaim,
+  VestingInterval,
+  VestingPoint,
+  VestingSchedule,
+  VestingTimelineOptions,
+} from "./token/derc20";
 export { ReadEth } from "./token/eth";
 export { ReadUniswapV3Pool } from "./pool";
-export { ReadUniswapV3Initializer } from "./initializer";
+export {
+  ReadUniswapV3Initializer,
+  previewV3Curve,
+  quoteV3CurveBuy,
+  V3CurveBuyQuote,
+  V3CurvePoint,
+  V3CurvePosition,
+  V3CurvePreview,
+  V3CurvePreviewOptions,
+} from "./initializer";
 export { ReadQuoter } from "./quoter";
 export { ReadMigrator } from "./migrator";
+export {
+  ReadGovernance,
+  ReadWriteGovernance,
+  GovernanceABI,
+  TimelockABI,
+  ProposalState,
+  VoteType,
+  ProposalVotes,
+  Proposal,
+  ProposalAction,
+  encodeProposalActions,
+  hashDescription,
+  hashProposal,
+  buildUnlockPoolAction,
+  buildMintInflationAction,
+  buildTransferAction,
+} from "./governance";
+export {
+  DopplerClient,
+  DopplerClientOptions,
+  DopplerModule,
+} from "./client";
@@ -0,0 +1,416 @@
+import {
+  DERC20_DECIMALS,
+  SaleConfig,
+  V3_FEE_TICK_SPACING,
+  V3PoolConfig,
+  WAD,
+} from "../factory/ReadWriteFactory";
+import {
+  computeSwapStep,
+  Fraction,
+  getAmount0Delta,
+  getAmount1Delta,
+  getLiquidityForAmount0,
+  getLiquidityForAmount1,
+  getSqrtPriceAtTick,
+  getTickAtSqrtPrice,
+  MAX_TICK,
+  MIN_TICK,
+  mulDiv,
+  PriceInput,
+  PricePair,
+  priceToMarketCap,
+  sqrtPriceX96ToPrice,
+  tickToMarketCap,
+  tickToPrice,
+} from "../../math";
+
+/**
+ * Options for previewing a curve
+ * @property isToken0 Whether the asset is token0. encodeCreateData sorts the
+ * asset above the numeraire, so false by default
+ * @property numeraireDecimals Numeraire decimals, 18 by default
+ * @property numerairePrice USD price of one whole numeraire, to get market
+ * caps in USD rather than numeraire
+ */
+export interface V3CurvePreviewOptions {
+  isToken0?: boolean;
+  numeraireDecimals?: number;
+  numerairePrice?: PriceInput;
+}
+
+/**
+ * A position the initializer mints
+ * @property tickLower Lower tick of the position
+ * @property tickUpper Upper tick of the position
+ * @property liquidity Liquidity of the position
+ * @property amount Asset tokens deposited in the position
+ * @property proceeds Numeraire needed to buy the whole position, before fees
+ * @property price Asset price where the position starts selling, in whole
+ * numeraire units
+ * @property marketCap Market cap where the position starts selling
+ */
+export interface V3CurvePosition {
+  tickLower: number;
+  tickUpper: number;
+  liquidity: bigint;
+  amount: bigint;
+  proceeds: bigint;
+  price: Fraction;
+  marketCap: Fraction;
+}
+
+/**
+ * State of the curve once the price reaches a tick
+ * @property tick Pool tick
+ * @property price Asset price in whole numeraire units
+ * @property marketCap Asset market cap
+ * @property tokensSold Asset tokens bought from the launch price to here
+ * @property proceeds Numeraire paid from the launch price to here, before fees
+ */
+export interface V3CurvePoint {
+  tick: number;
+  price: Fraction;
+  marketCap: Fraction;
+  tokensSold: bigint;
+  proceeds: bigint;
+}
+
+/**
+ * Position layout of a V3 launch, as the initializer mints it
+ * @property isToken0 Whether the asset is token0
+ * @property fee Pool fee tier
+ * @property tickSpacing Pool tick spacing
+ * @property pair Token decimals and order
+ * @property totalSupply Asset total supply
+ * @property numerairePrice USD price of the numeraire, if market caps are in
+ * USD
+ * @property curveTokens Asset tokens on the curve positions
+ * @property tailTokens Asset tokens in the tail position past the curve
+ * @property positions Curve positions, from the launch price outwards. All
+ * of them end at the graduation tick
+ * @property tail Position holding the tail tokens past the graduation tick
+ * @property points Curve at the launch tick, each position's start tick and
+ * the graduation tick, for charting
+ * @property graduationProceeds Numeraire needed to buy out the curve and
+ * reach the graduation tick, before fees
+ */
+export interface V3CurvePreview {
+  isToken0: boolean;
+  fee: number;
+  tickSpacing: number;
+  pair: PricePair;
+  totalSupply: bigint;
+  numerairePrice?: PriceInput;
+  curveTokens: bigint;
+  tailTokens: bigint;
+  positions: V3CurvePosition[];
+  tail: V3CurvePosition;
+  points: V3CurvePoint[];
+  graduationProceeds: bigint;
+}
+
+/**
+ * Result of buying asset tokens on a previewed curve
+ * @property amountIn Numeraire paid, fees included
+ * @property feeAmount Part of amountIn paid as fees
+ * @property sqrtPriceX96 Pool sqrt price after the buy
+ * @property tick Pool tick after the buy
+ * @property price Asset price after the buy, in whole numeraire units
+ * @property marketCap Asset market cap after the buy
+ * @property graduated Whether the buy reaches the graduation tick
+ */
+export interface V3CurveBuyQuote {
+  amountIn: bigint;
+  feeAmount: bigint;
+  sqrtPriceX96: bigint;
+  tick: number;
+  price: Fraction;
+  marketCap: Fraction;
+  graduated: boolean;
+}
+
+/**
+ * Round a tick to the tick spacing the way the initializer does: down when
+ * the asset is token0, up when it is token1
+ */
+function alignTickToTickSpacing(
+  isToken0: boolean,
+  tick: number,
+  tickSpacing: number
+): number {
+  const aligned = isToken0
+    ? Math.floor(tick / tickSpacing) * tickSpacing
+    : Math.ceil(tick / tickSpacing) * tickSpacing;
+  return aligned === 0 ? 0 : aligned;
+}
+
+/**
+ * Reproduce the positions the Uniswap V3 initializer mints for a launch,
+ * without touching the chain. The curve tokens (numTokensToSell capped by
+ * maxShareToBeSold) are split evenly over numPositions positions that start
+ * at evenly spaced ticks from the launch tick and all end at the graduation
+ * tick, so liquidity deepens as the price rises. Tokens left over go to a
+ * tail position past the graduation tick.
+ * @param v3PoolConfig Pool configuration, as passed to encode
+ * @param saleConfig Sale configuration, as passed to encode
+ * @param options Token order, numeraire decimals and USD price
+ * @returns Positions, chart points and the proceeds needed to graduate
+ * @throws Error if the fee tier is unknown or the configuration is invalid
+ * @example
+ * ```typescript
+ * const { v3PoolConfig, createParams } = factory.encode(params);
+ * const preview = previewV3Curve(v3PoolConfig, createParams, {
+ *   numerairePrice: 2500,
+ * });
+ * chart(preview.points.map((p) => [p.tokensSold, p.marketCap]));
+ * ```
+ */
+export function previewV3Curve(
+  v3PoolConfig: V3PoolConfig,
+  saleConfig: SaleConfig,
+  options?: V3CurvePreviewOptions
+): V3CurvePreview {
+  const { startTick: tickLower, endTick: tickUpper, fee } = v3PoolConfig;
+  const { numPositions, maxShareToBeSold } = v3PoolConfig;
+  const { initialSupply, numTokensToSell } = saleConfig;
+  const isToken0 = options?.isToken0 ?? false;
+  const numerairePrice = options?.numerairePrice;
+  const pair: PricePair = {
+    assetDecimals: DERC20_DECIMALS,
+    numeraireDecimals: options?.numeraireDecimals ?? 18,
+    isToken0,
+  };
+
+  const tickSpacing = V3_FEE_TICK_SPACING[fee];
+  if (!tickSpacing) {
+    throw new Error(`Unknown fee tier ${fee}`);
+  }
+  if (tickLower >= tickUpper) {
+    throw new Error("Start tick must be below the end tick");
+  }
+  if (tickLower % tickSpacing !== 0 || tickUpper % tickSpacing !== 0) {
+    throw new Error(`Ticks must be multiples of the ${tickSpacing} spacing`);
+  }
+  if (maxShareToBeSold > WAD) {
+    throw new Error("maxShareToBeSold must be at most 100%");
+  }
+  if (!Number.isInteger(numPositions) || numPositions < 1) {
+    throw new Error("Number of positions must be a positive whole number");
+  }
+
+  const curveTokens = mulDiv(numTokensToSell, maxShareToBeSold, WAD);
+  const tailTokens = numTokensToSell - curveTokens;
+  const closeTick = isToken0 ? tickLower : tickUpper;
+  const farTick = isToken0 ? tickUpper : tickLower;
+  const spread = tickUpper - tickLower;
+  const farSqrtPriceX96 = getSqrtPriceAtTick(farTick);
+  const amountPerPosition = curveTokens / BigInt(numPositions);
+
+  const getAssetDelta = isToken0 ? getAmount0Delta : getAmount1Delta;
+  const getNumeraireDelta = isToken0 ? getAmount1Delta : getAmount0Delta;
+  const getLiquidityForAsset = isToken0
+    ? getLiquidityForAmount0
+    : getLiquidityForAmount1;
+  const marketCapAt = (tick: number) =>
+    tickToMarketCap(tick, pair, initialSupply, numerairePrice);
+
+  const positions: V3CurvePosition[] = [];
+  for (let i = 0; i < numPositions; i++) {
+    const offset = Math.floor((i * spread) / numPositions);
+    const startingTick = alignTickToTickSpacing(
+      isToken0,
+      isToken0 ? closeTick + offset : closeTick - offset,
+      tickSpacing
+    );
+    if (startingTick === farTick || curveTokens === 0n) continue;
+
+    const startingSqrtPriceX96 = getSqrtPriceAtTick(startingTick);
+    const liquidity = getLiquidityForAsset(
+      startingSqrtPriceX96,
+      farSqrtPriceX96,
+      amountPerPosition
+    );
+    positions.push({
+      tickLower: isToken0 ? startingTick : farTick,
+      tickUpper: isToken0 ? farTick : startingTick,
+      liquidity,
+      amount: getAssetDelta(
+        startingSqrtPriceX96,
+        farSqrtPriceX96,
+        liquidity,
+        true
+      ),
+      proceeds: getNumeraireDelta(
+        startingSqrtPriceX96,
+        farSqrtPriceX96,
+        liquidity,
+        true
+      ),
+      price: tickToPrice(startingTick, pair),
+      marketCap: marketCapAt(startingTick),
+    });
+  }
+
+  const tailTickLower = isToken0
+    ? tickUpper
+    : alignTickToTickSpacing(isToken0, MIN_TICK, tickSpacing);
+  const tailTickUpper = isToken0
+    ? alignTickToTickSpacing(isToken0, MAX_TICK, tickSpacing)
+    : tickLower;
+  const tailFarTick = isToken0 ? tailTickUpper : tailTickLower;
+  const tailLiquidity = getLiquidityForAsset(
+    getSqrtPriceAtTick(tailTickLower),
+    getSqrtPriceAtTick(tailTickUpper),
+    tailTokens
+  );
+  const tail: V3CurvePosition = {
+    tickLower: tailTickLower,
+    tickUpper: tailTickUpper,
+    liquidity: tailLiquidity,
+    amount: tailTokens,
+    proceeds: getNumeraireDelta(
+      farSqrtPriceX96,
+      getSqrtPriceAtTick(tailFarTick),
+      tailLiquidity,
+      true
+    ),
+    price: tickToPrice(farTick, pair),
+    marketCap: marketCapAt(farTick),
+  };
+
+  // Walk from the launch tick to the graduation tick, adding each position's
+  // liquidity once the price reaches its start
+  const points: V3CurvePoint[] = [];
+  let tokensSold = 0n;
+  let proceeds = 0n;
+  let liquidity = 0n;
+  const boundaries = [
+    ...new Set([...positions.map((p) => startOf(p, isToken0)), farTick]),
+  ];
+  if (boundaries[0] !== closeTick) boundaries.unshift(closeTick);
+  boundaries.forEach((tick, i) => {
+    points.push({
+      tick,
+      price: tickToPrice(tick, pair),
+      marketCap: marketCapAt(tick),
+      tokensSold,
+      proceeds,
+    });
+    const next = boundaries[i + 1];
+    if (next === undefined) return;
+    for (const position of positions) {
+      if (startOf(position, isToken0) === tick) {
+        liquidity += position.liquidity;
+      }
+    }
+    const sqrtPriceX96 = getSqrtPriceAtTick(tick);
+    const nextSqrtPriceX96 = getSqrtPriceAtTick(next);
+    tokensSold += getAssetDelta(
+      sqrtPriceX96,
+      nextSqrtPriceX96,
+      liquidity,
+      false
+    );
+    proceeds += getNumeraireDelta(
+      sqrtPriceX96,
+      nextSqrtPriceX96,
+      liquidity,
+      true
+    );
+  });
+
+  return {
+    isToken0,
+    fee,
+    tickSpacing,
+    pair,
+    totalSupply: initialSupply,
+    numerairePrice,
+    curveTokens,
+    tailTokens,
+    positions,
+    tail,
+    points,
+    graduationProceeds: proceeds,
+  };
+}
+
+/**
+ * Quote buying asset tokens from the launch price on a previewed curve, as
+ * the pool would swap it with the curve and tail positions
+ * @param preview Curve from previewV3Curve
+ * @param amount Asset tokens to buy
+ * @returns Numeraire paid and the price reached
+ * @throws Error if the curve and tail hold fewer tokens than requested
+ */
+export function quoteV3CurveBuy(
+  preview: V3CurvePreview,
+  amount: bigint
+): V3CurveBuyQuote {
+  const { isToken0, positions, tail, pair } = preview;
+  const farTick = isToken0 ? tail.tickLower : tail.tickUpper;
+  const farSqrtPriceX96 = getSqrtPriceAtTick(farTick);
+
+  // Ticks at which liquidity changes, ordered in the buying direction, ending
+  // with the far end of the tail
+  const boundaries = [
+    ...preview.points.map((point) => point.tick),
+    isToken0 ? tail.tickUpper : tail.tickLower,
+  ];
+
+  let sqrtPriceX96 = getSqrtPriceAtTick(boundaries[0]);
+  let remaining = amount;
+  let amountIn = 0n;
+  let feeAmount = 0n;
+  for (let i = 0; i < boundaries.length - 1 && remaining > 0n; i++) {
+    const tick = boundaries[i];
+    const liquidity =
+      tick === farTick
+        ? tail.liquidity
+        : positions
+            .filter((p) =>
+              isToken0 ? p.tickLower <= tick : p.tickUpper >= tick
+            )
+            .reduce((sum, p) => sum + p.liquidity, 0n);
+    const step = computeSwapStep(
+      sqrtPriceX96,
+      getSqrtPriceAtTick(boundaries[i + 1]),
+      liquidity,
+      -remaining,
+      preview.fee
+    );
+    sqrtPriceX96 = step.sqrtPriceNextX96;
+    remaining -= step.amountOut;
+    amountIn += step.amountIn + step.feeAmount;
+    feeAmount += step.feeAmount;
+  }
+  if (remaining > 0n) {
+    throw new Error("The curve holds fewer tokens than requested");
+  }
+
+  const price = sqrtPriceX96ToPrice(sqrtPriceX96, pair);
+  return {
+    amountIn,
+    feeAmount,
+    sqrtPriceX96,
+    tick: getTickAtSqrtPrice(sqrtPriceX96),
+    price,
+    marketCap: priceToMarketCap(
+      price,
+      preview.totalSupply,
+      pair.assetDecimals,
+      preview.numerairePrice
+    ),
+    graduated: isToken0
+      ? sqrtPriceX96 >= farSqrtPriceX96
+      : sqrtPriceX96 <= farSqrtPriceX96,
+  };
+}
+
+/**
+ * Tick at which a curve position starts selling
+ */
+function startOf(position: V3CurvePosition, isToken0: boolean): number {
+  return isToken0 ? position.tickLower : position.tickUpper;
+}
@@ -1 +1,10 @@
 export { ReadUniswapV3Initializer } from './ReadInitializer';
+export {
+  previewV3Curve,
+  quoteV3CurveBuy,
+  V3CurveBuyQuote,
+  V3CurvePoint,
+  V3CurvePosition,
+  V3CurvePreview,
+  V3CurvePreviewOptions,
+} from './curve';
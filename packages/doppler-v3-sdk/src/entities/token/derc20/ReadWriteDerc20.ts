@@ -3,10 +3,25 @@ import {
   ReadWriteAdapter,
   Drift,
   createDrift,
+  TransactionOptions,
 } from "@delvtech/drift";
-import { Address, Hex } from "viem";
+import { Address, Hex, parseSignature } from "viem";
 import { Derc20ABI, ReadDerc20 } from "./ReadDerc20";
+import { throwDopplerError } from "../../../errors";
 
+/**
+ * Splits a 65-byte signature into the v, r and s arguments DERC20 expects
+ */
+function splitSignature(signature: Hex): { v: number; r: Hex; s: Hex } {
+  const { r, s, v, yParity } = parseSignature(signature);
+  return { v: v !== undefined ? Number(v) : yParity + 27, r, s };
+}
+
+/**
+ * A class providing read-write access to a DERC20 token contract, including
+ * delegation, signature-based approvals, inflation minting and the
+ * owner-only pool lock.
+ */
 export class ReadWriteDerc20 extends ReadDerc20 {
   declare contract: ReadWriteContract<Derc20ABI>;
 
@@ -17,7 +32,160 @@ export class ReadWriteDerc20 extends ReadDerc20 {
     super(address, drift);
   }
 
-  async approve(spender: Address, value: bigint): Promise<Hex> {
-    return this.contract.write("approve", { spender, value });
+  async approve(
+    spender: Address,
+    value: bigint,
+    options?: TransactionOptions
+  ): Promise<Hex> {
+    return this.contract.write("approve", { spender, value }, options);
+  }
+
+  /**
+   * Transfer tokens from the sender. Transfers to the pool revert while it
+   * is locked.
+   * @param to - Recipient
+   * @param value - Amount to send
+   */
+  async transfer(
+    to: Address,
+    value: bigint,
+    options?: TransactionOptions
+  ): Promise<Hex> {
+    return this.contract
+      .write("transfer", { to, value }, options)
+      .catch(throwDopplerError);
+  }
+
+  /**
+   * Transfer tokens on behalf of an owner that approved the sender
+   * @param from - Owner of the tokens
+   * @param to - Recipient
+   * @param value - Amount to send
+   */
+  async transferFrom(
+    from: Address,
+    to: Address,
+    value: bigint,
+    options?: TransactionOptions
+  ): Promise<Hex> {
+    return this.contract
+      .write("transferFrom", { from, to, value }, options)
+      .catch(throwDopplerError);
+  }
+
+  /**
+   * Approve a spender with an owner's EIP-2612 signature. The permit to sign
+   * is built with `getPermitTypedData`.
+   * @param params.signature - Owner's signature of the permit
+   */
+  async permit(
+    {
+      owner,
+      spender,
+      value,
+      deadline,
+      signature,
+    }: {
+      owner: Address;
+      spender: Address;
+      value: bigint;
+      deadline: bigint;
+      signature: Hex;
+    },
+    options?: TransactionOptions
+  ): Promise<Hex> {
+    return this.contract
+      .write(
+        "permit",
+        { owner, spender, value, deadline, ...splitSignature(signature) },
+        options
+      )
+      .catch(throwDopplerError);
+  }
+
+  /**
+   * Delegate the sender's votes. Tokens carry no voting power until
+   * delegated, so holders who vote themselves delegate to their own address.
+   * @param delegatee - Address receiving the votes
+   */
+  async delegate(
+    delegatee: Address,
+    options?: TransactionOptions
+  ): Promise<Hex> {
+    return this.contract
+      .write("delegate", { delegatee }, options)
+      .catch(throwDopplerError);
+  }
+
+  /**
+   * Delegate a holder's votes with its signature. The delegation to sign is
+   * built with `getDelegationTypedData`.
+   * @param params.nonce - Nonce the delegation was signed with
+   * @param params.signature - Holder's signature of the delegation
+   */
+  async delegateBySig(
+    {
+      delegatee,
+      nonce,
+      expiry,
+      signature,
+    }: {
+      delegatee: Address;
+      nonce: bigint;
+      expiry: bigint;
+      signature: Hex;
+    },
+    options?: TransactionOptions
+  ): Promise<Hex> {
+    return this.contract
+      .write(
+        "delegateBySig",
+        { delegatee, nonce, expiry, ...splitSignature(signature) },
+        options
+      )
+      .catch(throwDopplerError);
+  }
+
+  /**
+   * Release vested tokens to the sender
+   * @param amount - Amount to release, at most `getAvailableVestedAmount`
+   */
+  async release(amount: bigint, options?: TransactionOptions): Promise<Hex> {
+    return this.contract
+      .write("release", { amount }, options)
+      .catch(throwDopplerError);
+  }
+
+  /**
+   * Mint the inflation accrued since the last mint to the owner. Anyone can
+   * call this any time after the pool is unlocked, inflation accrues pro rata
+   * from the unlock. Preview the amount with `getMintableInflation`.
+   */
+  async mintInflation(options?: TransactionOptions): Promise<Hex> {
+    return this.contract
+      .write("mintInflation", {}, options)
+      .catch(throwDopplerError);
+  }
+
+  /**
+   * Block transfers to a pool until it is unlocked. Owner only.
+   * @param pool - Pool to lock
+   */
+  async lockPool(pool: Address, options?: TransactionOptions): Promise<Hex> {
+    return this.contract
+      .write("lockPool", { pool_: pool }, options)
+      .catch(throwDopplerError);
+  }
+
+  /**
+   * Allow transfers to the pool again and start inflation. Owner only. The
+   * Airlock calls this itself during `migrate`, before handing ownership to
+   * the timelock, so a direct call is only needed for tokens with a custom
+   * owner.
+   */
+  async unlockPool(options?: TransactionOptions): Promise<Hex> {
+    return this.contract
+      .write("unlockPool", {}, options)
+      .catch(throwDopplerError);
   }
 }
@@ -1,2 +1,21 @@
 export { ReadDerc20 } from './ReadDerc20';
 export { ReadWriteDerc20 } from './ReadWriteDerc20';
+export {
+  computeMintableInflation,
+  InflationState,
+  INFLATION_YEAR_SECONDS,
+} from './inflation';
+export {
+  buildVestingTimeline,
+  computeVestedAmount,
+  computeVestingPoint,
+  getVestingScheduleFromConfig,
+  planVestingClaims,
+  RecipientVestingTimeline,
+  VestingAllocation,
+  VestingClaim,
+  VestingInterval,
+  VestingPoint,
+  VestingSchedule,
+  VestingTimelineOptions,
+} from './vesting';
@@ -0,0 +1,120 @@
+import { Address, Hex } from "viem";
+import { ModuleState } from "../entities/factory/ReadFactory";
+
+export interface DopplerContractErrorParameters {
+  /** Name of the custom error, e.g. `WrongModuleState` */
+  errorName: string;
+  /** Decoded error arguments, keyed by parameter name */
+  args: Record<string, unknown>;
+  /** Raw revert data */
+  data: Hex;
+  /** What went wrong, in plain language */
+  explanation: string;
+  /** How to fix it, when there is a known fix */
+  suggestion?: string;
+  /** The error thrown by the transport or adapter */
+  cause?: unknown;
+}
+
+/**
+ * A revert from the Airlock, the Bundler, the V3 initializer or DERC20,
+ * decoded from its custom error.
+ *
+ * Specific errors are thrown as subclasses, so callers can branch with
+ * `instanceof` or on `errorName`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await factory.simulateCreate(createParams);
+ * } catch (error) {
+ *   if (error instanceof DopplerContractError) {
+ *     console.error(error.explanation);
+ *     if (error.suggestion) console.error(error.suggestion);
+ *   }
+ * }
+ * ```
+ */
+export class DopplerContractError extends Error {
+  name = "DopplerContractError";
+  readonly errorName: string;
+  readonly args: Record<string, unknown>;
+  readonly data: Hex;
+  readonly explanation: string;
+  readonly suggestion?: string;
+  cause?: unknown;
+
+  constructor(params: DopplerContractErrorParameters) {
+    super(
+      `${params.errorName}: ${params.explanation}` +
+        (params.suggestion ? `\nSuggestion: ${params.suggestion}` : "")
+    );
+    this.errorName = params.errorName;
+    this.args = params.args;
+    this.data = params.data;
+    this.explanation = params.explanation;
+    this.suggestion = params.suggestion;
+    this.cause = params.cause;
+  }
+}
+
+/**
+ * Thrown when a module passed to the Airlock is not whitelisted for the role it
+ * is used in
+ */
+export class WrongModuleStateError extends DopplerContractError {
+  name = "WrongModuleStateError";
+  readonly module: Address;
+  readonly expected: ModuleState;
+  readonly actual: ModuleState;
+
+  constructor(params: DopplerContractErrorParameters) {
+    super(params);
+    this.module = params.args.module as Address;
+    this.expected = Number(params.args.expected) as ModuleState;
+    this.actual = Number(params.args.actual) as ModuleState;
+  }
+}
+
+/**
+ * Thrown by the V3 initializer when the pool's ticks are not aligned to the
+ * tick spacing or are in the wrong order
+ */
+export class InvalidTickRangeError extends DopplerContractError {
+  name = "InvalidTickRangeError";
+}
+
+/**
+ * Thrown by the V3 initializer when `maxShareToBeSold` is above 100%
+ */
+export class MaxShareToBeSoldExceededError extends DopplerContractError {
+  name = "MaxShareToBeSoldExceededError";
+  /** The requested share, WAD-scaled */
+  readonly value: bigint;
+  /** The maximum share, WAD-scaled */
+  readonly limit: bigint;
+
+  constructor(params: DopplerContractErrorParameters) {
+    super(params);
+    this.value = params.args.value as bigint;
+    this.limit = params.args.limit as bigint;
+  }
+}
+
+/**
+ * Thrown by DERC20 when a vesting or pre-mint limit is exceeded, or vested
+ * tokens cannot be released
+ */
+export class VestingError extends DopplerContractError {
+  name = "VestingError";
+  /** The requested amount, for limit errors */
+  readonly amount?: bigint;
+  /** The limit that was exceeded, for limit errors */
+  readonly limit?: bigint;
+
+  constructor(params: DopplerContractErrorParameters) {
+    super(params);
+    this.amount = params.args.amount as bigint | undefined;
+    this.limit = params.args.limit as bigint | undefined;
+  }
+}
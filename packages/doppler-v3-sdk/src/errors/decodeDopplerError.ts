@@ -0,0 +1,372 @@
+import { Abi, decodeErrorResult, formatEther, Hex, isHex, parseAbi } from "viem";
+import {
+  airlockAbi,
+  BundlerAbi,
+  derc20Abi,
+  governanceAbi,
+  timelockAbi,
+  uniswapV3InitializerAbi,
+} from "../abis";
+import { ModuleState } from "../entities/factory/ReadFactory";
+import { ProposalState } from "../entities/governance/ReadGovernance";
+import {
+  DopplerContractError,
+  DopplerContractErrorParameters,
+  InvalidTickRangeError,
+  MaxShareToBeSoldExceededError,
+  VestingError,
+  WrongModuleStateError,
+} from "./DopplerContractError";
+
+type ErrorArgs = Record<string, unknown>;
+
+// Decoded token amounts are WAD-scaled bigints
+const formatAmount = (value: unknown): string =>
+  typeof value === "bigint" ? formatEther(value) : String(value);
+
+interface ErrorDescription {
+  explanation: string | ((args: ErrorArgs) => string);
+  suggestion?: string | ((args: ErrorArgs) => string);
+}
+
+// Errors raised by deployed contracts that are missing from the bundled ABIs:
+// the current V3 initializer and the Universal Router the Bundler calls into
+const extraErrorAbi = parseAbi([
+  "error MaxShareToBeSoldExceeded(uint256 value, uint256 limit)",
+  "error ExecutionFailed(uint256 commandIndex, bytes message)",
+]);
+
+const errorAbi = [
+  ...airlockAbi,
+  ...BundlerAbi,
+  ...derc20Abi,
+  ...uniswapV3InitializerAbi,
+  ...governanceAbi,
+  ...timelockAbi,
+  ...extraErrorAbi,
+].filter((item) => item.type === "error") as Abi;
+
+/**
+ * Errors that carry the revert data of an inner call, keyed by the name of the
+ * argument holding it
+ */
+const WRAPPER_ERRORS: Record<string, string> = {
+  ExecutionFailed: "message",
+};
+
+const TICK_RANGE_ERRORS = new Set([
+  "InvalidTickRange",
+  "InvalidTickRangeMisordered",
+]);
+
+const VESTING_ERRORS = new Set([
+  "VestingNotStartedYet",
+  "ReleaseAmountInvalid",
+  "MaxTotalVestedExceeded",
+  "MaxPreMintPerAddressExceeded",
+  "MaxTotalPreMintExceeded",
+]);
+
+const moduleStateName = (state: unknown) =>
+  ModuleState[Number(state)] ?? `state ${state}`;
+
+const ERROR_DESCRIPTIONS: Record<string, ErrorDescription> = {
+  // Airlock
+  WrongModuleState: {
+    explanation: ({ module, expected, actual }) =>
+      `Module ${module} is ${moduleStateName(actual)} on the Airlock, but this call needs a ${moduleStateName(expected)}.`,
+    suggestion:
+      "Check the token factory, governance factory, pool initializer and liquidity migrator addresses against DOPPLER_V3_ADDRESSES for this chain.",
+  },
+  ArrayLengthsMismatch: {
+    explanation: "Two array arguments that must be the same length are not.",
+    suggestion:
+      "Pass one entry per recipient or module in every array argument.",
+  },
+  OwnableUnauthorizedAccount: {
+    explanation: ({ account }) =>
+      `${account} is not the owner of the contract and cannot call this function.`,
+    suggestion: "Send the transaction from the owner account.",
+  },
+  // Bundler
+  InvalidAddresses: {
+    explanation:
+      "The Bundler only accepts the airlock, router and quoter it was deployed with.",
+    suggestion: "Use the bundler address from DOPPLER_V3_ADDRESSES.",
+  },
+  InvalidBundleData: {
+    explanation: "The bundle commands and inputs could not be executed.",
+    suggestion:
+      "Make sure there is one input per Universal Router command and that the swap path starts with the numeraire.",
+  },
+  InvalidOutputToken: {
+    explanation: "The bundled swap does not buy the asset being created.",
+    suggestion: "End the swap path with the predicted asset address.",
+  },
+  // UniswapV3Initializer
+  InvalidTickRange: {
+    explanation: ({ tick, tickSpacing }) =>
+      `Tick ${tick} is not a multiple of the tick spacing ${tickSpacing}.`,
+    suggestion:
+      "Round startTick and endTick to the tick spacing of the fee tier.",
+  },
+  InvalidTickRangeMisordered: {
+    explanation: ({ tickLower, tickUpper }) =>
+      `The lower tick ${tickLower} is not below the upper tick ${tickUpper}.`,
+    suggestion: "Swap startTick and endTick.",
+  },
+  MaxShareToBeSoldExceeded: {
+    explanation: ({ value, limit }) =>
+      `maxShareToBeSold is ${formatAmount(value)} but at most ${formatAmount(limit)} (100%) is allowed.`,
+    suggestion:
+      "Pass maxShareToBeSold as a WAD-scaled fraction, e.g. parseEther('0.35') for 35%.",
+  },
+  InvalidFee: {
+    explanation: ({ fee }) => `Fee tier ${fee} is not enabled on Uniswap V3.`,
+    suggestion: "Use a fee tier enabled on this chain, e.g. 3000 or 10000.",
+  },
+  PoolAlreadyInitialized: {
+    explanation: "A Uniswap V3 pool for this pair and fee is already initialized.",
+    suggestion: "Use a different salt or fee tier.",
+  },
+  PoolAlreadyExited: {
+    explanation: "The pool's liquidity has already been migrated.",
+  },
+  CannotMigrateInsufficientTick: {
+    explanation: ({ targetTick, currentTick }) =>
+      `The price has not reached the target tick ${targetTick} yet (current tick ${currentTick}).`,
+    suggestion: "Wait until the sale reaches its end price before migrating.",
+  },
+  CannotMintZeroLiquidity: {
+    explanation:
+      "The tick range is too narrow for the tokens to sell and no liquidity would be minted.",
+    suggestion: "Widen the range between startTick and endTick.",
+  },
+  SenderNotAirlock: {
+    explanation: "Only the Airlock can call this function.",
+  },
+  // DERC20
+  VestingNotStartedYet: {
+    explanation: "Vested tokens cannot be released before the pool migrates.",
+    suggestion: "Call release again once the asset has migrated.",
+  },
+  ReleaseAmountInvalid: {
+    explanation: "There are no vested tokens available to release.",
+    suggestion: "Check the vesting schedule and the amount already released.",
+  },
+  MaxTotalVestedExceeded: {
+    explanation: ({ amount, limit }) =>
+      `${formatAmount(amount)} tokens are vested in total but at most ${formatAmount(limit)} are allowed.`,
+    suggestion: "Reduce the vested amounts in the token config.",
+  },
+  MaxPreMintPerAddressExceeded: {
+    explanation: ({ amount, limit }) =>
+      `A recipient is vested ${formatAmount(amount)} tokens but at most ${formatAmount(limit)} per address are allowed.`,
+    suggestion: "Split the allocation across recipients or reduce it.",
+  },
+  MaxTotalPreMintExceeded: {
+    explanation: ({ amount, limit }) =>
+      `${formatAmount(amount)} tokens are pre-minted but at most ${formatAmount(limit)} are allowed.`,
+    suggestion: "Reduce the vested amounts in the token config.",
+  },
+  MaxYearlyMintRateExceeded: {
+    explanation: ({ amount, limit }) =>
+      `The yearly mint rate ${formatAmount(amount)} is above the maximum of ${formatAmount(limit)}.`,
+    suggestion: "Lower yearlyMintRate in the token config.",
+  },
+  MintingNotStartedYet: {
+    explanation:
+      "Inflation cannot be minted before the pool is unlocked at migration.",
+  },
+  NoMintableAmount: {
+    explanation: "No inflation has accrued since the last mint.",
+  },
+  PoolLocked: {
+    explanation: "The token cannot be transferred to the pool before migration.",
+  },
+  ERC20InsufficientBalance: {
+    explanation: ({ sender, balance, needed }) =>
+      `${sender} holds ${formatAmount(balance)} tokens but ${formatAmount(needed)} are needed.`,
+  },
+  ERC20InsufficientAllowance: {
+    explanation: ({ spender, allowance, needed }) =>
+      `${spender} is allowed to spend ${formatAmount(allowance)} tokens but ${formatAmount(needed)} are needed.`,
+    suggestion: "Approve the spender for at least the needed amount.",
+  },
+  // Governor and Timelock
+  GovernorInsufficientProposerVotes: {
+    explanation: ({ proposer, votes, threshold }) =>
+      `${proposer} has ${formatAmount(votes)} votes but ${formatAmount(threshold)} are needed to propose.`,
+    suggestion:
+      "Tokens only count once delegated. Delegate to the proposer, self-delegation included, before the proposal is made.",
+  },
+  GovernorUnexpectedProposalState: {
+    explanation: ({ proposalId, current }) =>
+      `Proposal ${proposalId} is ${ProposalState[Number(current)] ?? `in state ${current}`}, which does not allow this action.`,
+    suggestion:
+      "Vote while Active, queue once Succeeded and execute once Queued and past its eta.",
+  },
+  GovernorNonexistentProposal: {
+    explanation: ({ proposalId }) => `Proposal ${proposalId} does not exist.`,
+    suggestion:
+      "Pass the actions and description exactly as they were proposed.",
+  },
+  GovernorAlreadyCastVote: {
+    explanation: ({ voter }) => `${voter} has already voted on this proposal.`,
+  },
+  GovernorInvalidSignature: {
+    explanation: ({ voter }) => `The ballot was not signed by ${voter}.`,
+    suggestion:
+      "Sign the typed data from getBallotTypedData with the voter's account.",
+  },
+  TimelockUnexpectedOperationState: {
+    explanation: "The Timelock operation is not ready to run.",
+    suggestion: "Wait until the proposal's eta has passed before executing.",
+  },
+};
+
+const describe = (
+  text: string | ((args: ErrorArgs) => string) | undefined,
+  args: ErrorArgs
+) => (typeof text === "function" ? text(args) : text);
+
+function createError(
+  params: DopplerContractErrorParameters
+): DopplerContractError {
+  if (params.errorName === "WrongModuleState") {
+    return new WrongModuleStateError(params);
+  }
+  if (params.errorName === "MaxShareToBeSoldExceeded") {
+    return new MaxShareToBeSoldExceededError(params);
+  }
+  if (TICK_RANGE_ERRORS.has(params.errorName)) {
+    return new InvalidTickRangeError(params);
+  }
+  if (VESTING_ERRORS.has(params.errorName)) {
+    return new VestingError(params);
+  }
+  return new DopplerContractError(params);
+}
+
+function decodeRevertData(
+  data: Hex,
+  cause: unknown
+): DopplerContractError | undefined {
+  let decoded;
+  try {
+    decoded = decodeErrorResult({ abi: errorAbi, data });
+  } catch {
+    return undefined;
+  }
+  const { abiItem, errorName } = decoded;
+  if (abiItem.type !== "error") return undefined;
+
+  const args: ErrorArgs = Object.fromEntries(
+    abiItem.inputs.map((input, i) => [input.name || i, decoded.args?.[i]])
+  );
+
+  // Report the innermost Doppler error rather than its wrapper
+  const innerData = args[WRAPPER_ERRORS[errorName]];
+  if (isHex(innerData) && innerData.length >= 10) {
+    const inner = decodeRevertData(innerData, cause);
+    if (inner) return inner;
+  }
+
+  const description = ERROR_DESCRIPTIONS[errorName];
+  return createError({
+    errorName,
+    args,
+    data,
+    explanation:
+      describe(description?.explanation, args) ??
+      `The contract reverted with ${errorName}.`,
+    suggestion: describe(description?.suggestion, args),
+    cause,
+  });
+}
+
+/**
+ * Finds hex revert data on an error thrown by Drift or its adapter. Viem and
+ * JSON-RPC errors keep it on `raw` or `data` somewhere in the cause chain.
+ * Drift errors only keep the adapter's message, so messages are searched for
+ * encoded revert data as a last resort.
+ */
+function findRevertData(error: unknown): Hex[] {
+  const found: Hex[] = [];
+  const messages: string[] = [];
+  const seen = new Set<unknown>();
+
+  let current: unknown = error;
+  while (
+    typeof current === "object" &&
+    current !== null &&
+    !seen.has(current)
+  ) {
+    seen.add(current);
+    const data = "data" in current ? current.data : undefined;
+    const nested =
+      typeof data === "object" && data !== null && "data" in data
+        ? data.data
+        : undefined;
+    const raw = "raw" in current ? current.raw : undefined;
+    for (const candidate of [raw, data, nested]) {
+      if (isHex(candidate) && candidate.length >= 10) found.push(candidate);
+    }
+    if ("message" in current && typeof current.message === "string") {
+      messages.push(current.message);
+    }
+    current =
+      "cause" in current && current.cause != null
+        ? current.cause
+        : "error" in current
+          ? current.error
+          : undefined;
+  }
+
+  for (const message of messages) {
+    found.push(...((message.match(/0x[0-9a-fA-F]{8,}/g) ?? []) as Hex[]));
+  }
+  return found;
+}
+
+/**
+ * Decodes a revert from the Airlock, the Bundler, the V3 initializer, DERC20
+ * or an asset's Governor and Timelock into a typed error. Reverts wrapped by
+ * the Universal Router are unwrapped first.
+ *
+ * @param error - Error thrown by a contract call, or raw revert data
+ * @returns The decoded error, or undefined if no known custom error is found
+ *
+ * @example
+ * ```typescript
+ * const decoded = decodeDopplerError("0x7a0d5b83...");
+ * if (decoded instanceof WrongModuleStateError) {
+ *   console.log(ModuleState[decoded.actual]);
+ * }
+ * ```
+ */
+export function decodeDopplerError(
+  error: unknown
+): DopplerContractError | undefined {
+  if (error instanceof DopplerContractError) return error;
+  if (isHex(error)) return decodeRevertData(error, undefined);
+
+  for (const data of findRevertData(error)) {
+    const decoded = decodeRevertData(data, error);
+    if (decoded) return decoded;
+  }
+  return undefined;
+}
+
+/**
+ * Rethrows an error as a typed {@link DopplerContractError} when it can be
+ * decoded, or unchanged otherwise
+ *
+ * @example
+ * ```typescript
+ * await airlock.simulateWrite("create", { createData }).catch(throwDopplerError);
+ * ```
+ */
+export function throwDopplerError(error: unknown): never {
+  throw decodeDopplerError(error) ?? error;
+}
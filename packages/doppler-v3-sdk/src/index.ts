@@ -3,3 +3,5 @@ export * from './types';
 export * from './addresses';
 export * from './constants';
 export * from './abis';
+export * from './errors';
+export * from './math';
@@ -0,0 +1,31 @@
+import { mulDiv, Q96 } from "./fullMath";
+
+const sortPrices = (a: bigint, b: bigint): [bigint, bigint] =>
+  a < b ? [a, b] : [b, a];
+
+/**
+ * Liquidity provided by `amount0` of token0 between two sqrt prices, as in
+ * Uniswap's LiquidityAmounts
+ */
+export function getLiquidityForAmount0(
+  sqrtPriceAX96: bigint,
+  sqrtPriceBX96: bigint,
+  amount0: bigint
+): bigint {
+  const [lower, upper] = sortPrices(sqrtPriceAX96, sqrtPriceBX96);
+  const intermediate = mulDiv(lower, upper, Q96);
+  return mulDiv(amount0, intermediate, upper - lower);
+}
+
+/**
+ * Liquidity provided by `amount1` of token1 between two sqrt prices, as in
+ * Uniswap's LiquidityAmounts
+ */
+export function getLiquidityForAmount1(
+  sqrtPriceAX96: bigint,
+  sqrtPriceBX96: bigint,
+  amount1: bigint
+): bigint {
+  const [lower, upper] = sortPrices(sqrtPriceAX96, sqrtPriceBX96);
+  return mulDiv(amount1, Q96, upper - lower);
+}
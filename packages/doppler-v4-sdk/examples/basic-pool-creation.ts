@@ -53,7 +53,7 @@ async function createBasicPool() {
     numTokensToSell: parseEther('600000000'),
     tokenURI: 'https://example.com/token-metadata.json',
     blockTimestamp: Math.floor(Date.now() / 1000),
-    startTimeOffset: 3600, // Start in 1 hour
+    startTimeOffset: 1 / 24, // Start in 1 hour
     duration: 1 / 4, // Quarter day duration
     epochLength: 200, // 200 seconds per epoch
     gamma: 800,
@@ -3438,4 +3438,536 @@ export const dopplerLensAbi = [
     name: "UnexpectedRevertBytes",
     inputs: [{ name: "revertData", type: "bytes", internalType: "bytes" }],
   },
-] as const;
\ No newline at end of file
+] as const;
+
+export const governanceAbi = [
+  {
+    type: 'function',
+    name: 'name',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'string', internalType: 'string' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'version',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'string', internalType: 'string' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'token',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'address', internalType: 'contract IERC5805' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'timelock',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'address', internalType: 'address' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'votingDelay',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'votingPeriod',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'proposalThreshold',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'quorum',
+    inputs: [
+      { name: 'timepoint', type: 'uint256', internalType: 'uint256' },
+    ],
+    outputs: [
+      { name: '', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'clock',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint48', internalType: 'uint48' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'CLOCK_MODE',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'string', internalType: 'string' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'state',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', internalType: 'uint256' },
+    ],
+    outputs: [
+      { name: '', type: 'uint8', internalType: 'enum IGovernor.ProposalState' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'proposalSnapshot',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', internalType: 'uint256' },
+    ],
+    outputs: [
+      { name: '', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'proposalDeadline',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', internalType: 'uint256' },
+    ],
+    outputs: [
+      { name: '', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'proposalProposer',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', internalType: 'uint256' },
+    ],
+    outputs: [
+      { name: '', type: 'address', internalType: 'address' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'proposalEta',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', internalType: 'uint256' },
+    ],
+    outputs: [
+      { name: '', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'proposalNeedsQueuing',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', internalType: 'uint256' },
+    ],
+    outputs: [
+      { name: '', type: 'bool', internalType: 'bool' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'proposalVotes',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', internalType: 'uint256' },
+    ],
+    outputs: [
+      { name: 'againstVotes', type: 'uint256', internalType: 'uint256' },
+      { name: 'forVotes', type: 'uint256', internalType: 'uint256' },
+      { name: 'abstainVotes', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'hasVoted',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', internalType: 'uint256' },
+      { name: 'account', type: 'address', internalType: 'address' },
+    ],
+    outputs: [
+      { name: '', type: 'bool', internalType: 'bool' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getVotes',
+    inputs: [
+      { name: 'account', type: 'address', internalType: 'address' },
+      { name: 'timepoint', type: 'uint256', internalType: 'uint256' },
+    ],
+    outputs: [
+      { name: '', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'nonces',
+    inputs: [
+      { name: 'owner', type: 'address', internalType: 'address' },
+    ],
+    outputs: [
+      { name: '', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'hashProposal',
+    inputs: [
+      { name: 'targets', type: 'address[]', internalType: 'address[]' },
+      { name: 'values', type: 'uint256[]', internalType: 'uint256[]' },
+      { name: 'calldatas', type: 'bytes[]', internalType: 'bytes[]' },
+      { name: 'descriptionHash', type: 'bytes32', internalType: 'bytes32' },
+    ],
+    outputs: [
+      { name: '', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'pure',
+  },
+  {
+    type: 'function',
+    name: 'propose',
+    inputs: [
+      { name: 'targets', type: 'address[]', internalType: 'address[]' },
+      { name: 'values', type: 'uint256[]', internalType: 'uint256[]' },
+      { name: 'calldatas', type: 'bytes[]', internalType: 'bytes[]' },
+      { name: 'description', type: 'string', internalType: 'string' },
+    ],
+    outputs: [
+      { name: '', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'queue',
+    inputs: [
+      { name: 'targets', type: 'address[]', internalType: 'address[]' },
+      { name: 'values', type: 'uint256[]', internalType: 'uint256[]' },
+      { name: 'calldatas', type: 'bytes[]', internalType: 'bytes[]' },
+      { name: 'descriptionHash', type: 'bytes32', internalType: 'bytes32' },
+    ],
+    outputs: [
+      { name: '', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'execute',
+    inputs: [
+      { name: 'targets', type: 'address[]', internalType: 'address[]' },
+      { name: 'values', type: 'uint256[]', internalType: 'uint256[]' },
+      { name: 'calldatas', type: 'bytes[]', internalType: 'bytes[]' },
+      { name: 'descriptionHash', type: 'bytes32', internalType: 'bytes32' },
+    ],
+    outputs: [
+      { name: '', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'payable',
+  },
+  {
+    type: 'function',
+    name: 'cancel',
+    inputs: [
+      { name: 'targets', type: 'address[]', internalType: 'address[]' },
+      { name: 'values', type: 'uint256[]', internalType: 'uint256[]' },
+      { name: 'calldatas', type: 'bytes[]', internalType: 'bytes[]' },
+      { name: 'descriptionHash', type: 'bytes32', internalType: 'bytes32' },
+    ],
+    outputs: [
+      { name: '', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'castVote',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', internalType: 'uint256' },
+      { name: 'support', type: 'uint8', internalType: 'uint8' },
+    ],
+    outputs: [
+      { name: '', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'castVoteWithReason',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', internalType: 'uint256' },
+      { name: 'support', type: 'uint8', internalType: 'uint8' },
+      { name: 'reason', type: 'string', internalType: 'string' },
+    ],
+    outputs: [
+      { name: '', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'castVoteBySig',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', internalType: 'uint256' },
+      { name: 'support', type: 'uint8', internalType: 'uint8' },
+      { name: 'voter', type: 'address', internalType: 'address' },
+      { name: 'signature', type: 'bytes', internalType: 'bytes' },
+    ],
+    outputs: [
+      { name: '', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'event',
+    name: 'ProposalCreated',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', indexed: false, internalType: 'uint256' },
+      { name: 'proposer', type: 'address', indexed: false, internalType: 'address' },
+      { name: 'targets', type: 'address[]', indexed: false, internalType: 'address[]' },
+      { name: 'values', type: 'uint256[]', indexed: false, internalType: 'uint256[]' },
+      { name: 'signatures', type: 'string[]', indexed: false, internalType: 'string[]' },
+      { name: 'calldatas', type: 'bytes[]', indexed: false, internalType: 'bytes[]' },
+      { name: 'voteStart', type: 'uint256', indexed: false, internalType: 'uint256' },
+      { name: 'voteEnd', type: 'uint256', indexed: false, internalType: 'uint256' },
+      { name: 'description', type: 'string', indexed: false, internalType: 'string' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'ProposalQueued',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', indexed: false, internalType: 'uint256' },
+      { name: 'etaSeconds', type: 'uint256', indexed: false, internalType: 'uint256' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'ProposalExecuted',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', indexed: false, internalType: 'uint256' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'ProposalCanceled',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', indexed: false, internalType: 'uint256' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'VoteCast',
+    inputs: [
+      { name: 'voter', type: 'address', indexed: true, internalType: 'address' },
+      { name: 'proposalId', type: 'uint256', indexed: false, internalType: 'uint256' },
+      { name: 'support', type: 'uint8', indexed: false, internalType: 'uint8' },
+      { name: 'weight', type: 'uint256', indexed: false, internalType: 'uint256' },
+      { name: 'reason', type: 'string', indexed: false, internalType: 'string' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'error',
+    name: 'GovernorAlreadyCastVote',
+    inputs: [
+      { name: 'voter', type: 'address', internalType: 'address' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'GovernorInsufficientProposerVotes',
+    inputs: [
+      { name: 'proposer', type: 'address', internalType: 'address' },
+      { name: 'votes', type: 'uint256', internalType: 'uint256' },
+      { name: 'threshold', type: 'uint256', internalType: 'uint256' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'GovernorInvalidProposalLength',
+    inputs: [
+      { name: 'targets', type: 'uint256', internalType: 'uint256' },
+      { name: 'calldatas', type: 'uint256', internalType: 'uint256' },
+      { name: 'values', type: 'uint256', internalType: 'uint256' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'GovernorInvalidSignature',
+    inputs: [
+      { name: 'voter', type: 'address', internalType: 'address' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'GovernorInvalidVoteType',
+    inputs: [],
+  },
+  {
+    type: 'error',
+    name: 'GovernorNonexistentProposal',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', internalType: 'uint256' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'GovernorOnlyProposer',
+    inputs: [
+      { name: 'account', type: 'address', internalType: 'address' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'GovernorRestrictedProposer',
+    inputs: [
+      { name: 'proposer', type: 'address', internalType: 'address' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'GovernorUnexpectedProposalState',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', internalType: 'uint256' },
+      { name: 'current', type: 'uint8', internalType: 'enum IGovernor.ProposalState' },
+      { name: 'expectedStates', type: 'bytes32', internalType: 'bytes32' },
+    ],
+  },
+] as const;
+
+export const timelockAbi = [
+  {
+    type: 'function',
+    name: 'getMinDelay',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getTimestamp',
+    inputs: [
+      { name: 'id', type: 'bytes32', internalType: 'bytes32' },
+    ],
+    outputs: [
+      { name: '', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'isOperationPending',
+    inputs: [
+      { name: 'id', type: 'bytes32', internalType: 'bytes32' },
+    ],
+    outputs: [
+      { name: '', type: 'bool', internalType: 'bool' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'isOperationReady',
+    inputs: [
+      { name: 'id', type: 'bytes32', internalType: 'bytes32' },
+    ],
+    outputs: [
+      { name: '', type: 'bool', internalType: 'bool' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'isOperationDone',
+    inputs: [
+      { name: 'id', type: 'bytes32', internalType: 'bytes32' },
+    ],
+    outputs: [
+      { name: '', type: 'bool', internalType: 'bool' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'hashOperationBatch',
+    inputs: [
+      { name: 'targets', type: 'address[]', internalType: 'address[]' },
+      { name: 'values', type: 'uint256[]', internalType: 'uint256[]' },
+      { name: 'payloads', type: 'bytes[]', internalType: 'bytes[]' },
+      { name: 'predecessor', type: 'bytes32', internalType: 'bytes32' },
+      { name: 'salt', type: 'bytes32', internalType: 'bytes32' },
+    ],
+    outputs: [
+      { name: '', type: 'bytes32', internalType: 'bytes32' },
+    ],
+    stateMutability: 'pure',
+  },
+  {
+    type: 'error',
+    name: 'TimelockInsufficientDelay',
+    inputs: [
+      { name: 'delay', type: 'uint256', internalType: 'uint256' },
+      { name: 'minDelay', type: 'uint256', internalType: 'uint256' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'TimelockUnexpectedOperationState',
+    inputs: [
+      { name: 'operationId', type: 'bytes32', internalType: 'bytes32' },
+      { name: 'expectedStates', type: 'bytes32', internalType: 'bytes32' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'TimelockUnexecutedPredecessor',
+    inputs: [
+      { name: 'predecessorId', type: 'bytes32', internalType: 'bytes32' },
+    ],
+  },
+] as const;
@@ -0,0 +1,271 @@
+import {
+  ReadWriteContract,
+  ReadWriteAdapter,
+  Drift,
+  createDrift,
+} from '@delvtech/drift';
+import {
+  Address,
+  Client,
+  Hex,
+  WalletClient,
+  walletActions,
+  zeroAddress,
+} from 'viem';
+import { universalRouterAbi } from '@/abis';
+import { DOPPLER_V4_ADDRESSES } from '@/addresses';
+import { DopplerV4Addresses, PoolKey } from '@/types';
+import { ReadDoppler } from '../doppler';
+import { ReadDopplerLens } from '../doppler-lens';
+import { ReadWriteFactory } from '../factory';
+import { ReadWriteGovernance } from '../governance';
+import { ReadQuoter } from '../quoter';
+import { ReadWriteStreamableFeesLocker } from '../streamable-fees-locker';
+import { ReadEth, ReadWriteDerc20 } from '../token';
+import { ReadWriteV4Pool, V4PoolFactory } from '../v4pool';
+
+export type UniversalRouterABI = typeof universalRouterAbi;
+
+export type DopplerModule = keyof DopplerV4Addresses;
+
+// Modules every deployment has, checked when the client is built
+const REQUIRED_ADDRESSES: DopplerModule[] = [
+  'airlock',
+  'tokenFactory',
+  'v4Initializer',
+  'governanceFactory',
+  'noOpGovernanceFactory',
+  'migrator',
+  'streamableFeesLocker',
+  'poolManager',
+  'dopplerDeployer',
+  'universalRouter',
+  'stateView',
+  'v4Quoter',
+];
+
+/**
+ * Options for building a DopplerClient
+ * @property chainId Chain to resolve addresses for, detected from the client
+ * when omitted
+ * @property addresses Overrides merged over the chain's deployment, e.g. for
+ * local forks or modules not yet in DOPPLER_V4_ADDRESSES
+ * @property walletClient Wallet signing writes when the viem client passed to
+ * `create` is a public client
+ */
+export interface DopplerClientOptions {
+  chainId?: number;
+  addresses?: Partial<DopplerV4Addresses>;
+  walletClient?: WalletClient;
+}
+
+/**
+ * Single entry point to the Doppler V4 contracts of one chain. Addresses are
+ * resolved from the chain id and entities are created on first use, so only
+ * the modules a caller touches need to be deployed.
+ *
+ * @example
+ * ```typescript
+ * const client = await DopplerClient.create(drift);
+ * const config = client.factory.buildConfig(params, client.addresses);
+ * const quote = await client.quoter.quoteExactInputV4({ ... });
+ * const locker = client.locker; // throws if the locker is not deployed
+ * ```
+ */
+export class DopplerClient {
+  readonly drift: Drift<ReadWriteAdapter>;
+  readonly chainId: number;
+  readonly addresses: DopplerV4Addresses;
+
+  private _factory?: ReadWriteFactory;
+  private _quoter?: ReadQuoter;
+  private _router?: ReadWriteContract<UniversalRouterABI>;
+  private _lens?: ReadDopplerLens;
+  private _locker?: ReadWriteStreamableFeesLocker;
+  private _eth?: ReadEth;
+
+  /**
+   * @param drift Drift instance used by every entity
+   * @param chainId Chain the addresses are resolved for
+   * @param addresses Overrides merged over the chain's deployment
+   * @throws Error if the chain has no deployment and no addresses are given,
+   * or a required address is missing
+   */
+  constructor(
+    drift: Drift<ReadWriteAdapter>,
+    chainId: number,
+    addresses?: Partial<DopplerV4Addresses>
+  ) {
+    const deployment = DOPPLER_V4_ADDRESSES[chainId];
+    if (!deployment && !addresses) {
+      throw new Error(
+        `Doppler V4 is not deployed on chain ${chainId}, pass its addresses to use a custom deployment`
+      );
+    }
+
+    const merged = { ...deployment, ...addresses };
+    if (!hasRequiredAddresses(merged)) {
+      const missing = REQUIRED_ADDRESSES.filter((module) => !merged[module]);
+      throw new Error(
+        `Missing Doppler V4 addresses on chain ${chainId}: ${missing.join(', ')}`
+      );
+    }
+
+    this.drift = drift;
+    this.chainId = chainId;
+    this.addresses = merged;
+  }
+
+  /**
+   * Builds a client from a Drift instance or a viem client, detecting the
+   * chain id when it is not given. Writes through a viem client are signed by
+   * `options.walletClient`, or by the client itself and its account. viem
+   * clients need the optional `@delvtech/drift-viem` peer dependency, which is
+   * only loaded here.
+   * @param source Drift instance or viem client
+   * @param options Chain id, address overrides and wallet
+   * @throws Error if the chain has no deployment or a required address is
+   * missing
+   */
+  static async create(
+    source: Drift<ReadWriteAdapter> | Client,
+    options: DopplerClientOptions = {}
+  ): Promise<DopplerClient> {
+    let drift: Drift<ReadWriteAdapter>;
+    let chainId = options.chainId;
+
+    if (isViemClient(source)) {
+      chainId ??= source.chain?.id;
+      const { viemAdapter } = await import('@delvtech/drift-viem');
+      drift = createDrift({
+        adapter: viemAdapter({
+          publicClient: source,
+          walletClient: options.walletClient ?? source.extend(walletActions),
+        }),
+      });
+    } else {
+      drift = source;
+    }
+
+    chainId ??= await drift.getChainId();
+    return new DopplerClient(drift, chainId, options.addresses);
+  }
+
+  /**
+   * Returns a module's address on this chain
+   * @param module Key in DopplerV4Addresses
+   * @throws Error if the module is not deployed on this chain
+   */
+  public getAddress(module: DopplerModule): Address {
+    const address = this.addresses[module];
+    if (!address || address === zeroAddress) {
+      throw new Error(
+        `${module} is not deployed on chain ${this.chainId}, pass its address in the client options to use a custom deployment`
+      );
+    }
+    return address;
+  }
+
+  /** Airlock factory used to create and migrate tokens */
+  get factory(): ReadWriteFactory {
+    return (this._factory ??= new ReadWriteFactory(
+      this.getAddress('airlock'),
+      this.drift
+    ));
+  }
+
+  /** Uniswap V4 quoter */
+  get quoter(): ReadQuoter {
+    return (this._quoter ??= new ReadQuoter(
+      this.getAddress('v4Quoter'),
+      this.drift
+    ));
+  }
+
+  /** Uniswap universal router, used to swap against Doppler pools */
+  get router(): ReadWriteContract<UniversalRouterABI> {
+    return (this._router ??= this.drift.contract({
+      abi: universalRouterAbi,
+      address: this.getAddress('universalRouter'),
+    }));
+  }
+
+  /** Doppler lens, used to quote the hook's state after a swap */
+  get lens(): ReadDopplerLens {
+    return (this._lens ??= new ReadDopplerLens(
+      this.getAddress('dopplerLens'),
+      this.drift
+    ));
+  }
+
+  /** StreamableFeesLocker holding migrated positions */
+  get locker(): ReadWriteStreamableFeesLocker {
+    return (this._locker ??= new ReadWriteStreamableFeesLocker(
+      this.getAddress('streamableFeesLocker'),
+      this.drift
+    ));
+  }
+
+  /** Native ether, read through the same interface as tokens */
+  get eth(): ReadEth {
+    return (this._eth ??= new ReadEth(this.drift));
+  }
+
+  /**
+   * Returns a DERC20 token
+   * @param address Token address
+   */
+  public token(address: Address): ReadWriteDerc20 {
+    return new ReadWriteDerc20(address, this.drift);
+  }
+
+  /**
+   * Returns a Uniswap V4 pool on this chain's PoolManager
+   * @param poolKey Key identifying the pool
+   */
+  public pool(poolKey: PoolKey): ReadWriteV4Pool {
+    return V4PoolFactory.fromPoolKeyWrite(
+      poolKey,
+      this.getAddress('poolManager'),
+      this.getAddress('stateView'),
+      this.drift
+    );
+  }
+
+  /**
+   * Returns a Doppler hook during its auction
+   * @param hook Doppler hook address
+   * @param poolId Id of the hook's pool
+   */
+  public doppler(hook: Address, poolId: Hex): ReadDoppler {
+    return new ReadDoppler(
+      hook,
+      this.getAddress('stateView'),
+      this.drift,
+      poolId
+    );
+  }
+
+  /**
+   * Returns a token's governor
+   * @param address Governor address, as returned by the airlock's asset data
+   */
+  public governance(address: Address): ReadWriteGovernance {
+    return new ReadWriteGovernance(address, this.drift);
+  }
+}
+
+/**
+ * Tells viem clients apart from Drift instances, which have no transport
+ */
+function isViemClient(
+  source: Drift<ReadWriteAdapter> | Client
+): source is Client {
+  return 'transport' in source && 'request' in source;
+}
+
+function hasRequiredAddresses(
+  addresses: Partial<DopplerV4Addresses>
+): addresses is DopplerV4Addresses {
+  return REQUIRED_ADDRESSES.every((module) => addresses[module]);
+}
@@ -9,6 +9,7 @@ import { Address } from 'abitype';
 import { dopplerLensAbi } from '@/abis';
 import { Hex } from 'viem';
 import { PoolKey } from '@/types';
+import { throwDopplerError } from '@/utils/errors';
 
 type DopplerLensABI = typeof dopplerLensAbi;
 
@@ -44,9 +45,16 @@ export class ReadDopplerLens {
     return this.dopplerLens.read('stateView');
   }
 
+  /**
+   * Quotes a swap against a Doppler pool and returns the resulting state
+   * @throws {DopplerContractError} If the hook rejects the swap, e.g. before
+   * the auction starts
+   */
   public async quoteDopplerLensData(
     params: QuoteExactSingleParams,
   ): Promise<FunctionReturn<DopplerLensABI, 'quoteDopplerLensData'>> {
-    return this.dopplerLens.simulateWrite('quoteDopplerLensData', { params });
+    return this.dopplerLens
+      .simulateWrite('quoteDopplerLensData', { params })
+      .catch(throwDopplerError);
   }
 }
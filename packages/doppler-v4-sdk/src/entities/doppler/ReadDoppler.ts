@@ -3,19 +3,68 @@ import {
   ReadAdapter,
   Drift,
   createDrift,
+  EventLog,
   FunctionReturn,
 } from '@delvtech/drift';
 import { Address } from 'abitype';
 import { dopplerAbi, stateViewAbi } from '@/abis';
 import { encodePacked, Hex, keccak256 } from 'viem';
-import { PoolKey } from '@/types';
+import { PoolKey, ViewOverrides } from '@/types';
+import { ChunkedEventsOptions, getEventsInChunks } from '@/utils/events';
 import { ReadDerc20 } from '../token/derc20/ReadDerc20';
 import { ReadEth } from '../token/eth/ReadEth';
-import { ETH_ADDRESS } from '@/constants';
+import { ETH_ADDRESS, WAD } from '@/constants';
 
 type DopplerABI = typeof dopplerAbi;
 type StateViewABI = typeof stateViewAbi;
 
+/**
+ * Everything ReadDoppler can read, taken at a single block, plus values
+ * derived from it.
+ */
+export interface DopplerSnapshot {
+  /** Block the snapshot was read at */
+  blockNumber: bigint;
+  /** Timestamp of that block, used for the derived epoch values */
+  timestamp: bigint;
+
+  poolKey: PoolKey;
+  slot0: FunctionReturn<StateViewABI, 'getSlot0'>;
+  state: FunctionReturn<DopplerABI, 'state'>;
+  earlyExit: boolean;
+  insufficientProceeds: boolean;
+
+  numTokensToSell: bigint;
+  minimumProceeds: bigint;
+  maximumProceeds: bigint;
+  startingTime: bigint;
+  endingTime: bigint;
+  startingTick: number;
+  endingTick: number;
+  epochLength: bigint;
+  gamma: number;
+  isToken0: boolean;
+  numPDSlugs: bigint;
+
+  /** 1-indexed epoch at the block timestamp, as the hook computes it */
+  currentEpoch: number;
+  totalEpochs: number;
+  /** Epochs after the current one until endingTime */
+  epochsRemaining: number;
+  hasStarted: boolean;
+  hasEnded: boolean;
+  /** Tokens the linear schedule expects sold by the block timestamp */
+  expectedTokensSold: bigint;
+  /** state.totalTokensSold */
+  tokensSold: bigint;
+  /** tokensSold - expectedTokensSold; negative when behind schedule */
+  tokensSoldDelta: bigint;
+  /** totalProceeds / minimumProceeds, WAD-scaled (1e18 = 100%) */
+  minimumProceedsProgress: bigint;
+  /** totalProceeds / maximumProceeds, WAD-scaled (1e18 = 100%) */
+  maximumProceedsProgress: bigint;
+}
+
 /**
  * A read-only interface for interacting with Doppler protocol smart contracts.
  *
@@ -476,4 +525,203 @@ export class ReadDoppler {
   public async getNumPDSlugs(): Promise<bigint> {
     return this.doppler.read('numPDSlugs');
   }
+
+  /**
+   * Reads the hook's configuration, state and the pool's slot0 in a single
+   * multicall pinned to one block, and derives the auction's progress.
+   *
+   * @param options - Block number or tag to read at. Defaults to latest.
+   * @returns Snapshot of the auction at that block
+   * @throws {Error} If the block cannot be found
+   *
+   * @example
+   * ```typescript
+   * const snapshot = await doppler.getSnapshot({ blockNumber: 12345678n });
+   * console.log('Epoch', snapshot.currentEpoch, 'of', snapshot.totalEpochs);
+   * console.log('Behind schedule by', -snapshot.tokensSoldDelta);
+   * ```
+   */
+  public async getSnapshot(options?: ViewOverrides): Promise<DopplerSnapshot> {
+    // Resolve tags to a number first so every read sees the same block
+    const block = await this.drift.getBlock(
+      options?.blockNumber ?? options?.blockTag ?? 'latest'
+    );
+    if (block?.number == null) {
+      throw new Error(
+        `Block ${options?.blockNumber ?? options?.blockTag ?? 'latest'} not found`
+      );
+    }
+    const { number: blockNumber, timestamp } = block;
+
+    const doppler = { abi: dopplerAbi, address: this.doppler.address };
+    const [
+      poolKey,
+      state,
+      earlyExit,
+      insufficientProceeds,
+      numTokensToSell,
+      minimumProceeds,
+      maximumProceeds,
+      startingTime,
+      endingTime,
+      startingTick,
+      endingTick,
+      epochLength,
+      gamma,
+      isToken0,
+      numPDSlugs,
+      slot0,
+    ] = await this.drift.multicall({
+      allowFailure: false,
+      block: blockNumber,
+      calls: [
+        { ...doppler, fn: 'poolKey' },
+        { ...doppler, fn: 'state' },
+        { ...doppler, fn: 'earlyExit' },
+        { ...doppler, fn: 'insufficientProceeds' },
+        { ...doppler, fn: 'numTokensToSell' },
+        { ...doppler, fn: 'minimumProceeds' },
+        { ...doppler, fn: 'maximumProceeds' },
+        { ...doppler, fn: 'startingTime' },
+        { ...doppler, fn: 'endingTime' },
+        { ...doppler, fn: 'startingTick' },
+        { ...doppler, fn: 'endingTick' },
+        { ...doppler, fn: 'epochLength' },
+        { ...doppler, fn: 'gamma' },
+        { ...doppler, fn: 'isToken0' },
+        { ...doppler, fn: 'numPDSlugs' },
+        {
+          abi: stateViewAbi,
+          address: this.stateView.address,
+          fn: 'getSlot0',
+          args: { poolId: this.poolId },
+        },
+      ],
+    });
+
+    const totalEpochs = Number((endingTime - startingTime) / epochLength);
+    const currentEpoch =
+      timestamp < startingTime
+        ? 1
+        : Number((timestamp - startingTime) / epochLength) + 1;
+    const elapsed =
+      timestamp <= startingTime
+        ? BigInt(0)
+        : (timestamp < endingTime ? timestamp : endingTime) - startingTime;
+    const expectedTokensSold =
+      (numTokensToSell * elapsed) / (endingTime - startingTime);
+
+    return {
+      blockNumber,
+      timestamp,
+      poolKey,
+      slot0,
+      state,
+      earlyExit,
+      insufficientProceeds,
+      numTokensToSell,
+      minimumProceeds,
+      maximumProceeds,
+      startingTime,
+      endingTime,
+      startingTick,
+      endingTick,
+      epochLength,
+      gamma,
+      isToken0,
+      numPDSlugs,
+      currentEpoch,
+      totalEpochs,
+      epochsRemaining: Math.max(0, totalEpochs - currentEpoch),
+      hasStarted: timestamp >= startingTime,
+      hasEnded: timestamp >= endingTime,
+      expectedTokensSold,
+      tokensSold: state.totalTokensSold,
+      tokensSoldDelta: state.totalTokensSold - expectedTokensSold,
+      minimumProceedsProgress:
+        minimumProceeds > BigInt(0)
+          ? (state.totalProceeds * WAD) / minimumProceeds
+          : WAD,
+      maximumProceedsProgress:
+        maximumProceeds > BigInt(0)
+          ? (state.totalProceeds * WAD) / maximumProceeds
+          : WAD,
+    };
+  }
+
+  /**
+   * Retrieves Rebalance events emitted each time the hook moves its slugs at the start of an epoch
+   *
+   * @param options - Block range and optional chunk size for RPCs that limit
+   * log ranges
+   * @returns Promise resolving to the Rebalance event logs
+   *
+   * @example
+   * ```typescript
+   * const rebalances = await doppler.getRebalanceEvents({ chunkSize: 5_000n });
+   * rebalances.forEach(({ args }) => console.log(args.epoch, args.currentTick));
+   * ```
+   */
+  public async getRebalanceEvents(
+    options?: ChunkedEventsOptions<DopplerABI, 'Rebalance'>
+  ): Promise<EventLog<DopplerABI, 'Rebalance'>[]> {
+    return getEventsInChunks(this.doppler, 'Rebalance', options);
+  }
+
+  /**
+   * Retrieves the hook's Swap events, which carry running totals of tokens sold and proceeds
+   *
+   * @param options - Block range and optional chunk size for RPCs that limit
+   * log ranges
+   * @returns Promise resolving to the Swap event logs
+   *
+   * @example
+   * ```typescript
+   * const swaps = await doppler.getSwapEvents({ fromBlock: 20_000_000n });
+   * const latest = swaps.at(-1)?.args.totalProceeds;
+   * ```
+   */
+  public async getSwapEvents(
+    options?: ChunkedEventsOptions<DopplerABI, 'Swap'>
+  ): Promise<EventLog<DopplerABI, 'Swap'>[]> {
+    return getEventsInChunks(this.doppler, 'Swap', options);
+  }
+
+  /**
+   * Retrieves the EarlyExit event emitted when maximum proceeds are reached
+   *
+   * @param options - Block range and optional chunk size for RPCs that limit
+   * log ranges
+   * @returns Promise resolving to the EarlyExit event logs
+   *
+   * @example
+   * ```typescript
+   * const [earlyExit] = await doppler.getEarlyExitEvents();
+   * if (earlyExit) console.log('Sold out in epoch', earlyExit.args.epoch);
+   * ```
+   */
+  public async getEarlyExitEvents(
+    options?: ChunkedEventsOptions<DopplerABI, 'EarlyExit'>
+  ): Promise<EventLog<DopplerABI, 'EarlyExit'>[]> {
+    return getEventsInChunks(this.doppler, 'EarlyExit', options);
+  }
+
+  /**
+   * Retrieves the InsufficientProceeds event emitted when the sale ends below minimum proceeds
+   *
+   * @param options - Block range and optional chunk size for RPCs that limit
+   * log ranges
+   * @returns Promise resolving to the InsufficientProceeds event logs
+   *
+   * @example
+   * ```typescript
+   * const events = await doppler.getInsufficientProceedsEvents();
+   * console.log('Refunds enabled:', events.length > 0);
+   * ```
+   */
+  public async getInsufficientProceedsEvents(
+    options?: ChunkedEventsOptions<DopplerABI, 'InsufficientProceeds'>
+  ): Promise<EventLog<DopplerABI, 'InsufficientProceeds'>[]> {
+    return getEventsInChunks(this.doppler, 'InsufficientProceeds', options);
+  }
 }
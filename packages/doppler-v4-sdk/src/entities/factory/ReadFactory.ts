@@ -1,7 +1,14 @@
-import { ReadContract, ReadAdapter, Drift, createDrift } from '@delvtech/drift';
-import { Address } from 'viem';
-import { airlockAbi } from '@/abis';
+import {
+  ReadContract,
+  ReadAdapter,
+  Drift,
+  createDrift,
+  EventLog,
+} from '@delvtech/drift';
+import { Address, Hex } from 'viem';
+import { airlockAbi, poolManagerAbi, uniswapV4InitializerAbi } from '@/abis';
 import { AssetData } from '@/types';
+import { ChunkedEventsOptions, getEventsInChunks } from '@/utils/events';
 export type AirlockABI = typeof airlockAbi;
 
 /**
@@ -20,6 +27,47 @@ export enum ModuleState {
   Migrator = 4,
 }
 
+/**
+ * Addresses deployed by a create transaction
+ */
+export interface CreateResult {
+  asset: Address;
+  numeraire: Address;
+  poolInitializer: Address;
+  /** Doppler hook, or the pool for assets created with a V3 initializer */
+  hook: Address;
+  /** Uniswap V4 pool ID, undefined for assets created with a V3 initializer */
+  poolId?: Hex;
+  governance: Address;
+  timelock: Address;
+  liquidityMigrator: Address;
+  migrationPool: Address;
+  blockNumber: bigint;
+  transactionHash: Hex;
+  /** Predicted addresses that differ from the deployed ones */
+  mismatches: CreateAddressMismatch[];
+}
+
+/**
+ * Addresses a create transaction was expected to deploy, e.g. the `token`
+ * and `hook` returned by `buildConfig`
+ */
+export type ExpectedCreateAddresses = Partial<
+  Pick<
+    CreateResult,
+    'asset' | 'hook' | 'poolId' | 'governance' | 'timelock' | 'migrationPool'
+  >
+>;
+
+/**
+ * A deployed address that differs from the prediction
+ */
+export interface CreateAddressMismatch {
+  field: keyof ExpectedCreateAddresses;
+  expected: Hex;
+  actual: Hex | undefined;
+}
+
 /**
  * ReadFactory provides read-only operations for the Doppler V4 airlock contract.
  *
@@ -55,6 +103,8 @@ export enum ModuleState {
 export class ReadFactory {
   /** The airlock contract instance for read operations */
   airlock: ReadContract<AirlockABI>;
+  /** The Drift instance used for contract interactions */
+  drift: Drift<ReadAdapter>;
 
   /**
    * Creates a new ReadFactory instance for read-only operations
@@ -77,6 +127,7 @@ export class ReadFactory {
       abi: airlockAbi,
       address,
     });
+    this.drift = drift;
   }
 
   /**
@@ -162,4 +213,188 @@ export class ReadFactory {
   async owner(): Promise<Address> {
     return this.airlock.read('owner');
   }
+
+  /**
+   * Retrieves Create events emitted when assets are deployed through the airlock
+   *
+   * @param options - Filter, block range and optional chunk size for RPCs
+   * that limit log ranges
+   * @returns Promise resolving to the Create event logs
+   *
+   * @example
+   * ```typescript
+   * const events = await factory.getCreateEvents({
+   *   fromBlock: 20_000_000n,
+   *   chunkSize: 10_000n,
+   * });
+   * const assets = events.map((event) => event.args.asset);
+   * ```
+   */
+  async getCreateEvents(
+    options?: ChunkedEventsOptions<AirlockABI, 'Create'>
+  ): Promise<EventLog<AirlockABI, 'Create'>[]> {
+    return getEventsInChunks(this.airlock, 'Create', options);
+  }
+
+  /**
+   * Retrieves Migrate events emitted when an asset's liquidity is migrated
+   *
+   * @param options - Filter, block range and optional chunk size for RPCs
+   * that limit log ranges
+   * @returns Promise resolving to the Migrate event logs
+   *
+   * @example
+   * ```typescript
+   * const [migration] = await factory.getMigrateEvents({
+   *   filter: { asset: tokenAddress },
+   * });
+   * ```
+   */
+  async getMigrateEvents(
+    options?: ChunkedEventsOptions<AirlockABI, 'Migrate'>
+  ): Promise<EventLog<AirlockABI, 'Migrate'>[]> {
+    return getEventsInChunks(this.airlock, 'Migrate', options);
+  }
+
+  /**
+   * Retrieves SetModuleState events emitted when modules are whitelisted or removed
+   *
+   * @param options - Filter, block range and optional chunk size for RPCs
+   * that limit log ranges
+   * @returns Promise resolving to the SetModuleState event logs
+   *
+   * @example
+   * ```typescript
+   * const events = await factory.getSetModuleStateEvents({
+   *   filter: { module: moduleAddress },
+   * });
+   * ```
+   */
+  async getSetModuleStateEvents(
+    options?: ChunkedEventsOptions<AirlockABI, 'SetModuleState'>
+  ): Promise<EventLog<AirlockABI, 'SetModuleState'>[]> {
+    return getEventsInChunks(this.airlock, 'SetModuleState', options);
+  }
+
+  /**
+   * Waits for a create transaction and returns every address it deployed
+   *
+   * Works for `create` as well as `bundle` transactions. The Airlock Create
+   * event gives the asset and hook, the PoolManager Initialize event the pool
+   * ID, and the asset data the governance and migration contracts. Passing
+   * the predicted addresses compares them with the deployed ones.
+   *
+   * @param hash - Transaction hash returned by `create` or `bundle`
+   * @param options.expected - Predicted addresses to check
+   * @param options.timeout - Milliseconds to wait for the transaction
+   * @returns Promise resolving to the deployed addresses and any mismatches
+   * @throws If the transaction is not mined in time, reverted, or did not
+   * create an asset
+   *
+   * @example
+   * ```typescript
+   * const { createParams, hook, token } = factory.buildConfig(config, addresses);
+   * const hash = await factory.create(createParams);
+   * const result = await factory.waitForCreate(hash, {
+   *   expected: { asset: token, hook },
+   * });
+   * if (result.mismatches.length > 0) {
+   *   console.warn('Deployed addresses differ from buildConfig', result.mismatches);
+   * }
+   * ```
+   */
+  async waitForCreate(
+    hash: Hex,
+    options?: { expected?: ExpectedCreateAddresses; timeout?: number }
+  ): Promise<CreateResult> {
+    const receipt = await this.drift.waitForTransaction({
+      hash,
+      timeout: options?.timeout,
+    });
+    if (!receipt) {
+      throw new Error(`Transaction ${hash} was not mined in time`);
+    }
+    if (receipt.status === 'reverted') {
+      throw new Error(`Transaction ${hash} reverted`);
+    }
+
+    // Drift receipts omit logs, so the events are read from the block
+    const { blockNumber } = receipt;
+    const createEvents = await this.airlock.getEvents('Create', {
+      fromBlock: blockNumber,
+      toBlock: blockNumber,
+    });
+    const createEvent = createEvents.find(
+      (event) => event.transactionHash === hash
+    );
+    if (!createEvent) {
+      throw new Error(`Transaction ${hash} did not create an asset`);
+    }
+
+    const { asset, numeraire, initializer, poolOrHook } = createEvent.args;
+    const [assetData, poolId] = await Promise.all([
+      this.getAssetData(asset),
+      this.getCreatedPoolId(hash, blockNumber, initializer, poolOrHook),
+    ]);
+
+    const result: CreateResult = {
+      asset,
+      numeraire,
+      poolInitializer: initializer,
+      hook: poolOrHook,
+      poolId,
+      governance: assetData.governance,
+      timelock: assetData.timelock,
+      liquidityMigrator: assetData.liquidityMigrator,
+      migrationPool: assetData.migrationPool,
+      blockNumber,
+      transactionHash: hash,
+      mismatches: [],
+    };
+
+    const expected = options?.expected ?? {};
+    for (const field of Object.keys(
+      expected
+    ) as (keyof ExpectedCreateAddresses)[]) {
+      const value = expected[field];
+      const actual = result[field];
+      if (
+        value !== undefined &&
+        value.toLowerCase() !== actual?.toLowerCase()
+      ) {
+        result.mismatches.push({ field, expected: value, actual });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Finds the ID of the Uniswap V4 pool initialized with a hook in a create
+   * transaction, or undefined if the initializer is not a V4 initializer
+   */
+  private async getCreatedPoolId(
+    hash: Hex,
+    blockNumber: bigint,
+    initializer: Address,
+    hook: Address
+  ): Promise<Hex | undefined> {
+    const poolManager = await this.drift
+      .contract({ abi: uniswapV4InitializerAbi, address: initializer })
+      .read('poolManager')
+      .catch(() => undefined);
+    if (!poolManager) return undefined;
+
+    const events = await this.drift
+      .contract({ abi: poolManagerAbi, address: poolManager })
+      .getEvents('Initialize', {
+        fromBlock: blockNumber,
+        toBlock: blockNumber,
+      });
+    return events.find(
+      (event) =>
+        event.transactionHash === hash &&
+        event.args.hooks.toLowerCase() === hook.toLowerCase()
+    )?.args.id;
+  }
 }
@@ -16,11 +16,27 @@ import {
   zeroAddress,
 } from 'viem';
 import { ReadFactory, AirlockABI } from './ReadFactory';
-import { CreateParams } from './types';
+import { CreateParams, SaltMinerOptions, SaltMinerParams, SaltMinerResult } from './types';
+import { DEFAULT_SALT_SEARCH_RANGE, mineHookSalt, searchSaltRange } from './miner';
 import { DERC20Bytecode, DopplerBytecode } from '@/abis';
-import { DAY_SECONDS, DEFAULT_PD_SLUGS, DEAD_ADDRESS, WAD } from '@/constants';
+import { throwDopplerError } from '@/utils/errors';
+import {
+  DAY_SECONDS,
+  DEFAULT_PD_SLUGS,
+  DERC20_DECIMALS,
+  DEAD_ADDRESS,
+  MIN_START_TIME_DELAY,
+  WAD,
+} from '@/constants';
 import { DopplerData, TokenFactoryData } from './types';
-import { DopplerPreDeploymentConfig, DopplerV4Addresses, PriceRange, TickRange, V4MigratorData, BeneficiaryData } from '@/types';
+import { DopplerPreDeploymentConfig, DopplerV4Addresses, TickRange, V4MigratorData, BeneficiaryData } from '@/types';
+import {
+  Fraction,
+  marketCapToPrice,
+  parseFraction,
+  priceRangeToTicks,
+  PricePair,
+} from '@/utils/math';
 
 const DEFAULT_INITIAL_VOTING_DELAY = 7200;
 const DEFAULT_INITIAL_VOTING_PERIOD = 50400;
@@ -36,6 +52,21 @@ const flags = BigInt(
   (1 << 5) // BEFORE_DONATE_FLAG
 );
 
+/**
+ * Describes the whole-epoch durations either side of `durationSeconds`
+ */
+function suggestDurations(durationSeconds: number, epochLength: number): string {
+  const format = (seconds: number) =>
+    `${seconds} seconds (${seconds / epochLength} epochs, ${+(seconds / DAY_SECONDS).toFixed(4)} days)`;
+  const shorter = Math.floor(durationSeconds / epochLength) * epochLength;
+  const longer = Math.ceil(durationSeconds / epochLength) * epochLength;
+
+  if (shorter <= 0) {
+    return `Nearest valid duration: ${format(epochLength)}`;
+  }
+  return `Nearest valid durations: ${format(shorter)} or ${format(longer)}`;
+}
+
 /**
  * ReadWriteFactory provides read and write operations for the Doppler V4 airlock contract (we use the Factory naming convention for clarity).
  * Extends ReadFactory with additional capabilities for creating pools and migrating assets.
@@ -116,24 +147,118 @@ export class ReadWriteFactory extends ReadFactory {
         throw new Error('Invalid tick range');
       }
     }
-    if (params.duration <= 0) {
-      throw new Error('Duration must be positive');
-    }
-    if (params.epochLength <= 0) {
-      throw new Error('Epoch length must be positive');
+    if (params.epochLength <= 0 || !Number.isInteger(params.epochLength)) {
+      throw new Error('Epoch length must be a positive whole number of seconds');
     }
     if (params.tickSpacing <= 0) {
       throw new Error('Tick spacing must be positive');
     }
   }
 
+  /**
+   * Resolves the sale start and end timestamps from the time parameters
+   *
+   * The start is either the absolute `startTime` or `blockTimestamp` plus
+   * `startTimeOffset` days, and never less than MIN_START_TIME_DELAY seconds
+   * after `blockTimestamp` so the sale has not started by the time the create
+   * transaction lands. The end is either the absolute `endTime` or the start
+   * plus `duration` days or `durationSeconds`.
+   *
+   * @param params - The deployment configuration
+   * @returns Sale start and end as unix timestamps in seconds
+   * @throws {Error} When the time parameters conflict, are missing, or the
+   * duration is not a whole number of epochs
+   * @private
+   */
+  private computeSaleTimes(params: DopplerPreDeploymentConfig): {
+    startTime: number;
+    endTime: number;
+  } {
+    const {
+      blockTimestamp,
+      startTimeOffset,
+      duration,
+      durationSeconds,
+      epochLength,
+    } = params;
+
+    if (params.startTime !== undefined && startTimeOffset !== undefined) {
+      throw new Error('Provide either startTime or startTimeOffset, not both');
+    }
+    const durationInputs = [duration, durationSeconds, params.endTime].filter(
+      (value) => value !== undefined
+    );
+    if (durationInputs.length !== 1) {
+      throw new Error(
+        'Provide exactly one of duration (days), durationSeconds, or endTime'
+      );
+    }
+
+    const earliestStart = blockTimestamp + MIN_START_TIME_DELAY;
+    let startTime: number;
+    if (params.startTime !== undefined) {
+      if (!Number.isInteger(params.startTime)) {
+        throw new Error('startTime must be a whole number of seconds');
+      }
+      if (params.startTime < earliestStart) {
+        throw new Error(
+          `startTime ${params.startTime} must be at least ${MIN_START_TIME_DELAY} seconds after blockTimestamp (earliest ${earliestStart})`
+        );
+      }
+      startTime = params.startTime;
+    } else {
+      if (startTimeOffset !== undefined && startTimeOffset < 0) {
+        throw new Error('startTimeOffset cannot be negative');
+      }
+      startTime = Math.max(
+        earliestStart,
+        blockTimestamp + Math.round((startTimeOffset ?? 0) * DAY_SECONDS)
+      );
+    }
+
+    let endTime: number;
+    if (params.endTime !== undefined) {
+      if (!Number.isInteger(params.endTime)) {
+        throw new Error('endTime must be a whole number of seconds');
+      }
+      endTime = params.endTime;
+    } else {
+      const seconds = durationSeconds ?? (duration as number) * DAY_SECONDS;
+      if (!Number.isInteger(seconds)) {
+        throw new Error(
+          `Duration of ${seconds} seconds is not a whole number of seconds. ${suggestDurations(seconds, epochLength)}`
+        );
+      }
+      endTime = startTime + seconds;
+    }
+
+    const totalDuration = endTime - startTime;
+    if (totalDuration <= 0) {
+      throw new Error(
+        `Sale must end after it starts (start ${startTime}, end ${endTime})`
+      );
+    }
+    if (totalDuration < epochLength) {
+      throw new Error(
+        `Sale duration of ${totalDuration} seconds is shorter than one epoch (${epochLength} seconds). ${suggestDurations(totalDuration, epochLength)}`
+      );
+    }
+    if (totalDuration % epochLength !== 0) {
+      throw new Error(
+        `Sale duration of ${totalDuration} seconds is not a multiple of the epoch length (${epochLength} seconds): ${(totalDuration / epochLength).toFixed(2)} epochs. ${suggestDurations(totalDuration, epochLength)}`
+      );
+    }
+
+    return { startTime, endTime };
+  }
+
   /**
    * Computes optimal gamma parameter based on price range and time parameters
    * Gamma determines how much the price can move per epoch during the sale.
    *
    * @param startTick - Starting tick of the price range
    * @param endTick - Ending tick of the price range
-   * @param durationDays - Duration of the sale in days
+   * @param durationSeconds - Duration of the sale in seconds
    * @param epochLength - Length of each epoch in seconds
    * @param tickSpacing - Tick spacing for the pool
    * @returns The optimal gamma value
@@ -143,12 +268,12 @@ export class ReadWriteFactory extends ReadFactory {
   private computeOptimalGamma(
     startTick: number,
     endTick: number,
-    durationDays: number,
+    durationSeconds: number,
     epochLength: number,
     tickSpacing: number
   ): number {
     // Calculate total number of epochs
-    const totalEpochs = (durationDays * DAY_SECONDS) / epochLength;
+    const totalEpochs = durationSeconds / epochLength;
 
     // Calculate required tick movement per epoch to cover the range
     const tickDelta = Math.abs(endTick - startTick);
@@ -165,21 +290,55 @@ export class ReadWriteFactory extends ReadFactory {
   }
 
   /**
-   * Computes tick values from price range
-   * @param priceRange - The price range in human-readable format
-   * @param tickSpacing - The tick spacing for the pool
-   * @returns The tick range
+   * Computes the tick range from a price or market cap range
+   *
+   * Prices are exact and account for the numeraire's decimals and the token
+   * order, and the range is rounded outwards to the tick spacing.
+   *
+   * @param params - The deployment configuration
+   * @returns The start and end ticks
+   * @throws {Error} If the start price is not above the end price
    * @private
    */
-  private computeTicks(priceRange: PriceRange, tickSpacing: number): TickRange {
-    // Convert prices to ticks using the formula: tick = log(price) / log(1.0001) * tickSpacing
-    const startTick = Math.floor(Math.log(priceRange.startPrice) / Math.log(1.0001) / tickSpacing) * tickSpacing;
-    const endTick = Math.ceil(Math.log(priceRange.endPrice) / Math.log(1.0001) / tickSpacing) * tickSpacing;
-
-    return {
-      startTick,
-      endTick
+  private computeTicks(params: DopplerPreDeploymentConfig): TickRange {
+    const pair: PricePair = {
+      assetDecimals: DERC20_DECIMALS,
+      numeraireDecimals: params.numeraireDecimals ?? 18,
+      isToken0: (params.numeraire ?? zeroAddress) !== zeroAddress,
     };
+
+    let startPrice: Fraction;
+    let endPrice: Fraction;
+    if (params.marketCapRange) {
+      const { startMarketCap, endMarketCap, numerairePrice } =
+        params.marketCapRange;
+      startPrice = marketCapToPrice(
+        startMarketCap,
+        params.totalSupply,
+        DERC20_DECIMALS,
+        numerairePrice
+      );
+      endPrice = marketCapToPrice(
+        endMarketCap,
+        params.totalSupply,
+        DERC20_DECIMALS,
+        numerairePrice
+      );
+    } else if (params.priceRange) {
+      startPrice = parseFraction(params.priceRange.startPrice);
+      endPrice = parseFraction(params.priceRange.endPrice);
+    } else {
+      throw new Error('Price range or market cap range must be provided');
+    }
+
+    if (
+      startPrice.numerator * endPrice.denominator <=
+      endPrice.numerator * startPrice.denominator
+    ) {
+      throw new Error('The start price must be above the end price');
+    }
+
+    return priceRangeToTicks(startPrice, endPrice, pair, params.tickSpacing);
   }
 
   /**
@@ -374,6 +533,9 @@ export class ReadWriteFactory extends ReadFactory {
    * 4. Mines hook and token addresses with proper flags
    * 5. Encodes all factory data
    *
+   * Mining runs synchronously on the calling thread. Use buildConfigAsync to
+   * mine in worker threads instead.
+   *
    * @param params - Pre-deployment configuration parameters
    * @param addresses - Addresses of required Doppler V4 contracts
    * @returns Object containing createParams, hook address, and token address
@@ -387,7 +549,7 @@ export class ReadWriteFactory extends ReadFactory {
    *   symbol: "COMM",
    *   totalSupply: parseEther("1000000"),
    *   numTokensToSell: parseEther("500000"),
-   *   priceRange: { startPrice: 0.001, endPrice: 0.01 },
+   *   priceRange: { startPrice: '0.01', endPrice: '0.001' },
    *   duration: 30,
    *   epochLength: 3600,
    *   // ... other required parameters
@@ -402,6 +564,99 @@ export class ReadWriteFactory extends ReadFactory {
     createParams: CreateParams;
     hook: Hex;
     token: Hex;
+  } {
+    const prepared = this.prepareConfig(params, addresses, options);
+    const [salt, hook, token] = this.mineHookAddress(prepared.minerParams);
+
+    return {
+      createParams: { ...prepared.createParams, salt },
+      hook,
+      token,
+    };
+  }
+
+  /**
+   * Builds complete configuration for creating a new Doppler pool, mining the
+   * hook and token salt in parallel worker threads (Node or browser) so the
+   * calling thread stays responsive.
+   *
+   * Unlike buildConfig, an exhausted search range is not an error: the result
+   * has `found: false` and the range searched, so callers can continue from
+   * `endSalt`.
+   *
+   * @param params - Pre-deployment configuration parameters
+   * @param addresses - Addresses of required Doppler V4 contracts
+   * @param options - Governance, bytecode and miner options
+   * @param options.miner - Search range, worker count, progress and abort handling
+   * @returns The same fields as buildConfig with `found: true`, or the
+   * not-found result for the searched range
+   *
+   * @throws {Error} When validation fails or required parameters are missing
+   * @throws The abort reason if `options.miner.signal` is aborted
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * const result = await factory.buildConfigAsync(config, addresses, {
+   *   miner: {
+   *     onProgress: ({ checked, total }) => setProgress(Number((checked * 100n) / total)),
+   *     signal: controller.signal,
+   *   },
+   * });
+   *
+   * if (result.found) {
+   *   await factory.create(result.createParams);
+   * }
+   * ```
+   */
+  public async buildConfigAsync(
+    params: DopplerPreDeploymentConfig,
+    addresses: DopplerV4Addresses,
+    options?: {
+      useGovernance?: boolean;
+      customDerc20Bytecode?: `0x${string}`;
+      miner?: SaltMinerOptions;
+    }
+  ): Promise<
+    | {
+        found: true;
+        createParams: CreateParams;
+        hook: Hex;
+        token: Hex;
+      }
+    | Extract<SaltMinerResult, { found: false }>
+  > {
+    const prepared = this.prepareConfig(params, addresses, options);
+    const result = await mineHookSalt(prepared.minerParams, options?.miner);
+
+    if (!result.found) {
+      return result;
+    }
+
+    return {
+      found: true,
+      createParams: { ...prepared.createParams, salt: result.salt },
+      hook: result.hook,
+      token: result.token,
+    };
+  }
+
+  /**
+   * Validates the configuration and encodes everything except the salt
+   * @param params - Pre-deployment configuration parameters
+   * @param addresses - Addresses of required Doppler V4 contracts
+   * @param options - Governance and custom bytecode options
+   * @returns Create params without a salt, and the inputs needed to mine one
+   * @throws {Error} When validation fails or required parameters are missing
+   * @private
+   */
+  private prepareConfig(
+    params: DopplerPreDeploymentConfig,
+    addresses: DopplerV4Addresses,
+    options?: { useGovernance?: boolean, customDerc20Bytecode?: `0x${string}` }
+  ): {
+    createParams: Omit<CreateParams, 'salt'>;
+    minerParams: SaltMinerParams;
   } {
     this.validateBasicParams(params);
 
@@ -411,45 +666,27 @@ export class ReadWriteFactory extends ReadFactory {
       throw new Error('NoOpGovernanceFactory address not configured for this chain. Please deploy NoOpGovernanceFactory first.');
     }
 
-    if (!params.priceRange && !params.tickRange) {
-      throw new Error('Price range or tick range must be provided');
-    }
-
-    let startTick;
-    let endTick;
-    if (params.priceRange) {
-      const ticks = this.computeTicks(params.priceRange, params.tickSpacing);
-      startTick = ticks.startTick;
-      endTick = ticks.endTick;
+    if (!params.priceRange && !params.marketCapRange && !params.tickRange) {
+      throw new Error(
+        'Price range, market cap range or tick range must be provided'
+      );
     }
 
-    if (params.tickRange) {
-      startTick = params.tickRange.startTick;
-      endTick = params.tickRange.endTick;
-    }
+    const { startTick, endTick } =
+      params.tickRange ?? this.computeTicks(params);
 
-    if (!startTick || !endTick) {
-      throw new Error('Start tick or end tick not found');
-    }
+    const { startTime, endTime } = this.computeSaleTimes(params);
 
     const gamma =
       params.gamma ??
       this.computeOptimalGamma(
         startTick,
         endTick,
-        params.duration,
+        endTime - startTime,
         params.epochLength,
         params.tickSpacing
       );
 
-    const startTime = params.blockTimestamp + 30;
-    const endTime = params.blockTimestamp + params.duration * DAY_SECONDS + 30;
-
-    const totalDuration = endTime - startTime;
-    if (totalDuration % params.epochLength !== 0) {
-      throw new Error('Epoch length must divide total duration evenly');
-    }
-
     if (gamma % params.tickSpacing !== 0) {
       throw new Error('Computed gamma must be divisible by tick spacing');
     }
@@ -493,8 +730,8 @@ export class ReadWriteFactory extends ReadFactory {
 
     const numeraire = params.numeraire ?? zeroAddress;
 
-    const [salt, hook, token, poolInitializerData, tokenFactoryData] =
-      this.mineHookAddress({
+    const { minerParams, poolInitializerData, tokenFactoryData } =
+      this.encodeHookMiningData({
         airlock,
         poolManager,
         deployer: dopplerDeployer,
@@ -505,6 +742,7 @@ export class ReadWriteFactory extends ReadFactory {
         tokenFactoryData: tokenParams,
         poolInitializer: v4Initializer,
         poolInitializerData: dopplerParams,
+        customDerc20Bytecode: options?.customDerc20Bytecode,
       });
 
     // Determine which governance factory to use
@@ -544,27 +782,20 @@ export class ReadWriteFactory extends ReadFactory {
         liquidityMigrator: migrator,
         liquidityMigratorData: params.liquidityMigratorData ?? '0x',
         integrator: params.integrator,
-        salt,
       },
-      hook,
-      token,
+      minerParams,
     };
   }
 
   /**
-   * Mines a salt and hook address with the appropriate flags
-   *
-   * This method iterates through possible salt values to find a combination that:
-   * - Produces a hook address with required Doppler flags
-   * - Maintains proper token ordering relative to numeraire
-   * - Ensures deterministic deployment addresses
+   * Encodes the pool initializer and token factory data, and derives the
+   * CREATE2 init code hashes the salt miner needs
    *
    * @param params - Parameters for hook address mining
-   * @returns Tuple of [salt, hook address, token address, pool data, token data]
-   * @throws {Error} If no valid salt can be found within the search limit
+   * @returns Miner inputs plus the encoded initializer and token factory data
    * @private
    */
-  private mineHookAddress(params: {
+  private encodeHookMiningData(params: {
     airlock: Address;
     poolManager: Address;
     deployer: Address;
@@ -576,7 +807,11 @@ export class ReadWriteFactory extends ReadFactory {
     poolInitializer: Address;
     poolInitializerData: DopplerData;
     customDerc20Bytecode?: `0x${string}`;
-  }): [Hash, Address, Address, Hex, Hex] {
+  }): {
+    minerParams: SaltMinerParams;
+    poolInitializerData: Hex;
+    tokenFactoryData: Hex;
+  } {
     const isToken0 =
       params.numeraire !== '0x0000000000000000000000000000000000000000';
 
@@ -726,33 +961,52 @@ export class ReadWriteFactory extends ReadFactory {
       encodePacked(['bytes', 'bytes'], [params.customDerc20Bytecode as Hex ?? DERC20Bytecode as Hex, initHashData])
     );
 
-    for (let salt = BigInt(0); salt < BigInt(1_000_000); salt++) {
-      const saltBytes = `0x${salt.toString(16).padStart(64, '0')}` as Hash;
-      const hook = this.computeCreate2Address(
-        saltBytes,
+    return {
+      minerParams: {
+        hookDeployer: params.deployer,
         hookInitHash,
-        params.deployer
-      );
-      const token = this.computeCreate2Address(
-        saltBytes,
+        tokenFactory: params.tokenFactory,
         tokenInitHash,
-        params.tokenFactory
-      );
+        numeraire: params.numeraire,
+        isToken0,
+        flags: Number(flags),
+        flagMask: Number(FLAG_MASK),
+      },
+      poolInitializerData,
+      tokenFactoryData,
+    };
+  }
 
-      const hookBigInt = BigInt(hook);
-      const tokenBigInt = BigInt(token);
-      const numeraireBigInt = BigInt(params.numeraire);
+  /**
+   * Mines a salt and hook address with the appropriate flags
+   *
+   * This method iterates through possible salt values to find a combination that:
+   * - Produces a hook address with required Doppler flags
+   * - Maintains proper token ordering relative to numeraire
+   * - Ensures deterministic deployment addresses
+   *
+   * @param params - Miner inputs from encodeHookMiningData
+   * @returns Tuple of [salt, hook address, token address]
+   * @throws {Error} If no valid salt can be found within the search limit
+   * @private
+   */
+  private mineHookAddress(params: SaltMinerParams): [Hash, Address, Address] {
+    const { salt } = searchSaltRange({
+      ...params,
+      start: BigInt(0),
+      end: DEFAULT_SALT_SEARCH_RANGE,
+    });
 
-      if (
-        (hookBigInt & FLAG_MASK) === flags &&
-        ((isToken0 && tokenBigInt < numeraireBigInt) ||
-          (!isToken0 && tokenBigInt > numeraireBigInt))
-      ) {
-        return [saltBytes, hook, token, poolInitializerData, tokenFactoryData];
-      }
+    if (salt === null) {
+      throw new Error('AirlockMiner: could not find salt');
     }
 
-    throw new Error('AirlockMiner: could not find salt');
+    const saltBytes = `0x${salt.toString(16).padStart(64, '0')}` as Hash;
+    return [
+      saltBytes,
+      this.computeCreate2Address(saltBytes, params.hookInitHash, params.hookDeployer),
+      this.computeCreate2Address(saltBytes, params.tokenInitHash, params.tokenFactory),
+    ];
   }
 
   /**
@@ -781,7 +1035,9 @@ export class ReadWriteFactory extends ReadFactory {
     params: CreateParams,
     options?: TransactionOptions
   ): Promise<Hex> {
-    return this.airlock.write('create', { createData: params }, options);
+    return this.airlock
+      .write('create', { createData: params }, options)
+      .catch(throwDopplerError);
   }
 
   /**
@@ -795,6 +1051,8 @@ export class ReadWriteFactory extends ReadFactory {
    *
    * @param params - Complete creation parameters from buildConfig()
    * @returns Promise resolving to simulation results including gas estimates
+   * @throws {DopplerContractError} If the creation reverts with a known custom
+   * error, e.g. {@link WrongModuleStateError} for an unwhitelisted module
    *
    * @example
    * ```typescript
@@ -805,7 +1063,9 @@ export class ReadWriteFactory extends ReadFactory {
   public async simulateCreate(
     params: CreateParams
   ): Promise<FunctionReturn<AirlockABI, 'create'>> {
-    return this.airlock.simulateWrite('create', { createData: params });
+    return this.airlock
+      .simulateWrite('create', { createData: params })
+      .catch(throwDopplerError);
   }
 
   /**
@@ -829,6 +1089,8 @@ export class ReadWriteFactory extends ReadFactory {
     asset: Address,
     options?: TransactionOptions
   ): Promise<Hex> {
-    return this.airlock.write('migrate', { asset }, options);
+    return this.airlock
+      .write('migrate', { asset }, options)
+      .catch(throwDopplerError);
   }
 }
@@ -1,2 +1,4 @@
 export * from './ReadFactory';
 export * from './ReadWriteFactory';
+export * from './miner';
+export * from './presets';
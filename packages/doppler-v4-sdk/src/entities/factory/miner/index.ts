@@ -0,0 +1,2 @@
+export * from './mineHookSalt';
+export * from './searchSaltRange';
@@ -0,0 +1,141 @@
+import { getContractAddress, Hash, numberToHex } from 'viem';
+import {
+  SaltMinerOptions,
+  SaltMinerParams,
+  SaltMinerResult,
+  SaltSearchJob,
+  SaltSearchResult,
+} from '../types';
+import { searchSaltRange } from './searchSaltRange';
+import { createMinerWorkers, defaultWorkerCount } from './workers';
+
+export const DEFAULT_SALT_SEARCH_RANGE = BigInt(1_000_000);
+export const DEFAULT_SALT_CHUNK_SIZE = 10_000;
+
+const yieldToEventLoop = () =>
+  new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Mines a salt for a Doppler hook and asset token deployment, in parallel
+ * across worker threads when the runtime supports them.
+ *
+ * The range is split into chunks handed out in order. Once a match is found no
+ * chunk above it is started, but chunks below it still finish, so the result is
+ * always the lowest matching salt in the range.
+ *
+ * @param params - Init code hashes, deployers, numeraire and hook flags
+ * @param options - Search range, parallelism, progress and abort handling
+ * @returns The mined salt and addresses, or a not-found result for the range
+ * @throws The signal's abort reason if aborted
+ *
+ * @example
+ * ```typescript
+ * const result = await mineHookSalt(params, {
+ *   startSalt: 0n,
+ *   searchRange: 2_000_000n,
+ *   onProgress: ({ checked, total }) => console.log(`${checked}/${total}`),
+ *   signal: controller.signal,
+ * });
+ *
+ * if (!result.found) {
+ *   // Continue where this run stopped
+ *   await mineHookSalt(params, { startSalt: result.endSalt });
+ * }
+ * ```
+ */
+export async function mineHookSalt(
+  params: SaltMinerParams,
+  options: SaltMinerOptions = {}
+): Promise<SaltMinerResult> {
+  const { onProgress, signal } = options;
+  const startSalt = options.startSalt ?? BigInt(0);
+  const total = options.searchRange ?? DEFAULT_SALT_SEARCH_RANGE;
+  const endSalt = startSalt + total;
+  const chunkSize = BigInt(options.chunkSize ?? DEFAULT_SALT_CHUNK_SIZE);
+
+  if (startSalt < BigInt(0) || total <= BigInt(0)) {
+    throw new Error('Salt search range must be positive and start at or above 0');
+  }
+  if (chunkSize <= BigInt(0)) {
+    throw new Error('Chunk size must be positive');
+  }
+  signal?.throwIfAborted();
+
+  let nextStart = startSalt;
+  let checked = BigInt(0);
+  let best = null as bigint | null;
+
+  const nextJob = (): SaltSearchJob | null => {
+    if (nextStart >= endSalt || (best !== null && nextStart >= best)) {
+      return null;
+    }
+    const start = nextStart;
+    const end = start + chunkSize < endSalt ? start + chunkSize : endSalt;
+    nextStart = end;
+    return { ...params, start, end };
+  };
+
+  const drain = async (run: (job: SaltSearchJob) => Promise<SaltSearchResult>) => {
+    for (let job = nextJob(); job; job = nextJob()) {
+      const result = await run(job);
+      checked += BigInt(result.checked);
+      if (result.salt !== null && (best === null || result.salt < best)) {
+        best = result.salt;
+      }
+      onProgress?.({ checked, total });
+    }
+  };
+
+  const workerCount = options.workers ?? (await defaultWorkerCount());
+  const workers = workerCount > 0 ? await createMinerWorkers(workerCount) : null;
+
+  if (workers) {
+    let onAbort: (() => void) | undefined;
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => reject(signal?.reason);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      // The signal may have aborted while the workers were starting
+      signal?.throwIfAborted();
+      await Promise.race([
+        Promise.all(workers.map((worker) => drain((job) => worker.run(job)))),
+        aborted,
+      ]);
+    } finally {
+      if (onAbort) signal?.removeEventListener('abort', onAbort);
+      workers.forEach((worker) => worker.terminate());
+    }
+  } else {
+    // No worker support: search on this thread, yielding between chunks
+    await drain(async (job) => {
+      await yieldToEventLoop();
+      signal?.throwIfAborted();
+      return searchSaltRange(job);
+    });
+  }
+
+  if (best === null) {
+    return { found: false, startSalt, endSalt, checked };
+  }
+
+  const salt = numberToHex(best, { size: 32 }) as Hash;
+  return {
+    found: true,
+    salt,
+    hook: getContractAddress({
+      opcode: 'CREATE2',
+      from: params.hookDeployer,
+      salt,
+      bytecodeHash: params.hookInitHash,
+    }),
+    token: getContractAddress({
+      opcode: 'CREATE2',
+      from: params.tokenFactory,
+      salt,
+      bytecodeHash: params.tokenInitHash,
+    }),
+    checked,
+  };
+}
@@ -0,0 +1,195 @@
+import { SaltSearchJob, SaltSearchResult } from '../types';
+
+/**
+ * Searches `[job.start, job.end)` for the first salt whose CREATE2 hook address
+ * carries the required flags and whose token address sorts correctly against
+ * the numeraire.
+ *
+ * This function is serialized into the worker source with `toString()`, so it
+ * must stay self-contained: no imports, no references to module scope, and its
+ * own keccak256 implementation.
+ *
+ * @param job - Precomputed init code hashes, deployers and the salt range
+ * @returns The first matching salt (or null) and the number of salts checked
+ */
+export function searchSaltRange(job: SaltSearchJob): SaltSearchResult {
+  const hexToBytes = (hex: string, length: number): Uint8Array => {
+    const clean = hex.startsWith('0x') ? hex.slice(2) : hex;
+    const padded = clean.padStart(length * 2, '0');
+    const bytes = new Uint8Array(length);
+    for (let i = 0; i < length; i++) {
+      bytes[i] = parseInt(padded.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+  };
+
+  // Keccak-f[1600] round constants and rotation offsets, stored as 32-bit
+  // lo/hi halves since bitwise ops on 64-bit BigInts are far too slow here
+  const roundConstants = new Uint32Array(48);
+  let lfsr = 1;
+  for (let round = 0; round < 24; round++) {
+    let lo = 0;
+    let hi = 0;
+    for (let j = 0; j < 7; j++) {
+      if (lfsr & 1) {
+        const bit = (1 << j) - 1;
+        if (bit < 32) lo |= 1 << bit;
+        else hi |= 1 << (bit - 32);
+      }
+      lfsr = lfsr & 0x80 ? ((lfsr << 1) ^ 0x71) & 0xff : lfsr << 1;
+    }
+    roundConstants[round * 2] = lo >>> 0;
+    roundConstants[round * 2 + 1] = hi >>> 0;
+  }
+
+  const rotations = new Uint8Array(25);
+  const piLanes = new Uint8Array(25);
+  for (let t = 0, x = 1, y = 0; t < 24; t++) {
+    rotations[x + 5 * y] = (((t + 1) * (t + 2)) / 2) % 64;
+    const nextY = (2 * x + 3 * y) % 5;
+    x = y;
+    y = nextY;
+  }
+  for (let x = 0; x < 5; x++) {
+    for (let y = 0; y < 5; y++) {
+      piLanes[x + 5 * y] = y + 5 * ((2 * x + 3 * y) % 5);
+    }
+  }
+
+  const state = new Uint32Array(50);
+  const scratch = new Uint32Array(50);
+  const parity = new Uint32Array(10);
+  const digest = new Uint8Array(32);
+
+  // keccak256 of a single-block message (< 136 bytes), written into `digest`
+  const keccak256 = (message: Uint8Array): void => {
+    state.fill(0);
+    const block = new Uint8Array(136);
+    block.set(message);
+    block[message.length] ^= 0x01;
+    block[135] ^= 0x80;
+    for (let i = 0; i < 34; i++) {
+      state[i] =
+        block[i * 4] |
+        (block[i * 4 + 1] << 8) |
+        (block[i * 4 + 2] << 16) |
+        (block[i * 4 + 3] << 24);
+    }
+
+    for (let round = 0; round < 24; round++) {
+      // θ
+      for (let x = 0; x < 5; x++) {
+        parity[x * 2] =
+          state[x * 2] ^
+          state[(x + 5) * 2] ^
+          state[(x + 10) * 2] ^
+          state[(x + 15) * 2] ^
+          state[(x + 20) * 2];
+        parity[x * 2 + 1] =
+          state[x * 2 + 1] ^
+          state[(x + 5) * 2 + 1] ^
+          state[(x + 10) * 2 + 1] ^
+          state[(x + 15) * 2 + 1] ^
+          state[(x + 20) * 2 + 1];
+      }
+      for (let x = 0; x < 5; x++) {
+        const prev = (x + 4) % 5;
+        const next = (x + 1) % 5;
+        const nextLo = parity[next * 2];
+        const nextHi = parity[next * 2 + 1];
+        const dLo = parity[prev * 2] ^ ((nextLo << 1) | (nextHi >>> 31));
+        const dHi = parity[prev * 2 + 1] ^ ((nextHi << 1) | (nextLo >>> 31));
+        for (let y = 0; y < 25; y += 5) {
+          state[(x + y) * 2] ^= dLo;
+          state[(x + y) * 2 + 1] ^= dHi;
+        }
+      }
+
+      // ρ and π
+      for (let lane = 0; lane < 25; lane++) {
+        let lo = state[lane * 2];
+        let hi = state[lane * 2 + 1];
+        let n = rotations[lane];
+        if (n >= 32) {
+          const tmp = lo;
+          lo = hi;
+          hi = tmp;
+          n -= 32;
+        }
+        if (n > 0) {
+          const rotatedLo = (lo << n) | (hi >>> (32 - n));
+          const rotatedHi = (hi << n) | (lo >>> (32 - n));
+          lo = rotatedLo;
+          hi = rotatedHi;
+        }
+        scratch[piLanes[lane] * 2] = lo;
+        scratch[piLanes[lane] * 2 + 1] = hi;
+      }
+
+      // χ
+      for (let y = 0; y < 25; y += 5) {
+        for (let x = 0; x < 5; x++) {
+          const a = (y + x) * 2;
+          const b = (y + ((x + 1) % 5)) * 2;
+          const c = (y + ((x + 2) % 5)) * 2;
+          state[a] = scratch[a] ^ (~scratch[b] & scratch[c]);
+          state[a + 1] = scratch[a + 1] ^ (~scratch[b + 1] & scratch[c + 1]);
+        }
+      }
+
+      // ι
+      state[0] ^= roundConstants[round * 2];
+      state[1] ^= roundConstants[round * 2 + 1];
+    }
+
+    for (let i = 0; i < 8; i++) {
+      digest[i * 4] = state[i] & 0xff;
+      digest[i * 4 + 1] = (state[i] >>> 8) & 0xff;
+      digest[i * 4 + 2] = (state[i] >>> 16) & 0xff;
+      digest[i * 4 + 3] = (state[i] >>> 24) & 0xff;
+    }
+  };
+
+  // CREATE2 preimage: 0xff ++ deployer ++ salt ++ initCodeHash
+  const buildPreimage = (deployer: string, initCodeHash: string) => {
+    const preimage = new Uint8Array(85);
+    preimage[0] = 0xff;
+    preimage.set(hexToBytes(deployer, 20), 1);
+    preimage.set(hexToBytes(initCodeHash, 32), 53);
+    return preimage;
+  };
+
+  const hookPreimage = buildPreimage(job.hookDeployer, job.hookInitHash);
+  const tokenPreimage = buildPreimage(job.tokenFactory, job.tokenInitHash);
+  const numeraire = hexToBytes(job.numeraire, 20);
+  const salt = hexToBytes(job.start.toString(16), 32);
+
+  let checked = 0;
+  for (let current = job.start; current < job.end; current++) {
+    hookPreimage.set(salt, 21);
+    keccak256(hookPreimage);
+
+    // Hook flags live in the lowest bits of the address (last digest bytes)
+    const hookBits = (digest[30] << 8) | digest[31];
+    if ((hookBits & job.flagMask) === job.flags) {
+      tokenPreimage.set(salt, 21);
+      keccak256(tokenPreimage);
+
+      let comparison = 0;
+      for (let i = 0; i < 20 && comparison === 0; i++) {
+        comparison = digest[12 + i] - numeraire[i];
+      }
+      if ((job.isToken0 && comparison < 0) || (!job.isToken0 && comparison > 0)) {
+        return { salt: current, checked: checked + 1 };
+      }
+    }
+
+    checked++;
+    for (let i = 31; i >= 0; i--) {
+      salt[i] = (salt[i] + 1) & 0xff;
+      if (salt[i] !== 0) break;
+    }
+  }
+
+  return { salt: null, checked };
+}
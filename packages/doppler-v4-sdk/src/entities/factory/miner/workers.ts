@@ -0,0 +1,174 @@
+import { SaltSearchJob, SaltSearchResult } from '../types';
+import { searchSaltRange } from './searchSaltRange';
+
+/**
+ * A worker thread that searches one salt range at a time
+ */
+export interface MinerWorker {
+  run(job: SaltSearchJob): Promise<SaltSearchResult>;
+  terminate(): void;
+}
+
+type NodeWorker = {
+  postMessage(message: unknown): void;
+  on(event: 'message', listener: (message: SaltSearchResult) => void): void;
+  on(event: 'error', listener: (error: Error) => void): void;
+  terminate(): Promise<number>;
+};
+
+type NodeWorkerConstructor = new (
+  source: string,
+  options: { eval: true }
+) => NodeWorker;
+
+/**
+ * Imports a Node builtin without letting TypeScript or browser bundlers try to
+ * resolve it
+ */
+const importNodeBuiltin = (specifier: string): Promise<unknown> =>
+  import(specifier);
+
+export const isNodeRuntime = (): boolean => {
+  const { process } = globalThis as {
+    process?: { versions?: { node?: string } };
+  };
+  return typeof process?.versions?.node === 'string';
+};
+
+/**
+ * Source for both Node (`worker_threads`, eval mode) and browser (Blob URL)
+ * workers. Node eval workers run as CommonJS, so `require` tells them apart.
+ */
+const workerSource = (): string => `
+const searchSaltRange = ${searchSaltRange.toString()};
+if (typeof require === 'function') {
+  const { parentPort } = require('worker_threads');
+  parentPort.on('message', (job) => parentPort.postMessage(searchSaltRange(job)));
+} else {
+  self.onmessage = (event) => self.postMessage(searchSaltRange(event.data));
+}
+`;
+
+/**
+ * Wraps a message-based worker so that each job resolves its own promise.
+ * Workers only ever have one job in flight.
+ */
+function wrapWorker(
+  post: (job: SaltSearchJob) => void,
+  subscribe: (
+    onResult: (result: SaltSearchResult) => void,
+    onError: (error: unknown) => void
+  ) => void,
+  terminate: () => void
+): MinerWorker {
+  let pending: {
+    resolve: (result: SaltSearchResult) => void;
+    reject: (error: unknown) => void;
+  } | null = null;
+
+  subscribe(
+    (result) => {
+      pending?.resolve(result);
+      pending = null;
+    },
+    (error) => {
+      pending?.reject(error);
+      pending = null;
+    }
+  );
+
+  return {
+    run(job) {
+      return new Promise((resolve, reject) => {
+        pending = { resolve, reject };
+        post(job);
+      });
+    },
+    terminate,
+  };
+}
+
+async function createNodeWorkers(count: number): Promise<MinerWorker[]> {
+  const { Worker } = (await importNodeBuiltin('node:worker_threads')) as {
+    Worker: NodeWorkerConstructor;
+  };
+  const source = workerSource();
+
+  return Array.from({ length: count }, () => {
+    const worker = new Worker(source, { eval: true });
+    return wrapWorker(
+      (job) => worker.postMessage(job),
+      (onResult, onError) => {
+        worker.on('message', onResult);
+        worker.on('error', onError);
+      },
+      () => void worker.terminate()
+    );
+  });
+}
+
+function createBrowserWorkers(count: number): MinerWorker[] {
+  // The URL must outlive worker startup, so it is revoked on terminate
+  const url = URL.createObjectURL(
+    new Blob([workerSource()], { type: 'text/javascript' })
+  );
+
+  return Array.from({ length: count }, () => {
+    const worker = new Worker(url);
+    return wrapWorker(
+      (job) => worker.postMessage(job),
+      (onResult, onError) => {
+        worker.onmessage = (event: MessageEvent<SaltSearchResult>) =>
+          onResult(event.data);
+        worker.onerror = (event) => onError(new Error(event.message));
+      },
+      () => {
+        worker.terminate();
+        URL.revokeObjectURL(url);
+      }
+    );
+  });
+}
+
+/**
+ * Spawns `count` miner workers for the current runtime
+ * @param count - Number of workers to spawn
+ * @returns The workers, or null if the runtime has no worker support
+ */
+export async function createMinerWorkers(
+  count: number
+): Promise<MinerWorker[] | null> {
+  try {
+    if (isNodeRuntime()) {
+      return await createNodeWorkers(count);
+    }
+    if (
+      typeof Worker !== 'undefined' &&
+      typeof Blob !== 'undefined' &&
+      typeof URL?.createObjectURL === 'function'
+    ) {
+      return createBrowserWorkers(count);
+    }
+  } catch {
+    // Fall through to the calling thread, e.g. under a strict CSP
+  }
+  return null;
+}
+
+/**
+ * Number of workers to use when the caller does not specify one, leaving a
+ * core free for the calling thread
+ */
+export async function defaultWorkerCount(): Promise<number> {
+  let cores = 1;
+  if (typeof navigator !== 'undefined' && navigator.hardwareConcurrency) {
+    cores = navigator.hardwareConcurrency;
+  } else if (isNodeRuntime()) {
+    const os = (await importNodeBuiltin('node:os')) as {
+      availableParallelism?: () => number;
+      cpus(): unknown[];
+    };
+    cores = os.availableParallelism?.() ?? os.cpus().length;
+  }
+  return Math.max(1, cores - 1);
+}
@@ -0,0 +1,364 @@
+import { zeroAddress } from 'viem';
+import {
+  DAY_SECONDS,
+  DERC20_DECIMALS,
+  MAX_PD_SLUGS,
+  MAX_TICK_SPACING,
+} from '@/constants';
+import { DopplerPreDeploymentConfig } from '@/types';
+import {
+  formatFraction,
+  Fraction,
+  marketCapToPrice,
+  PriceInput,
+  PricePair,
+  priceRangeToTicks,
+  tickToMarketCap,
+  tickToPrice,
+} from '@/utils/math';
+
+export type LaunchPresetName = 'lowFloat' | 'fairLaunch' | 'creatorCoin';
+
+/**
+ * Sale shape shared by launches of the same kind. Market caps are given per
+ * launch, everything else comes from the preset.
+ */
+export interface LaunchPreset {
+  label: string;
+  /** What the preset is for and how its curve behaves */
+  description: string;
+  /** Percentage of the total supply sold in the auction */
+  salePercent: number;
+  durationSeconds: number;
+  epochLength: number;
+  tickSpacing: number;
+  /** Pool fee in hundredths of a bip */
+  fee: number;
+  numPdSlugs: number;
+  /**
+   * Minimum proceeds, as a percentage of the sale valued at the end market
+   * cap. The auction refunds buyers if it raises less.
+   */
+  minProceedsPercent: number;
+  /**
+   * Maximum proceeds, as a percentage of the sale valued at the start market
+   * cap. The auction ends early once it raises this much.
+   */
+  maxProceedsPercent: number;
+}
+
+export const LAUNCH_PRESETS: Record<LaunchPresetName, LaunchPreset> = {
+  lowFloat: {
+    label: 'Low float',
+    description:
+      'Sells a tenth of the supply over three days, so a thin float finds its price slowly and most of the supply stays with vesting recipients and the migration pool.',
+    salePercent: 10,
+    durationSeconds: 3 * DAY_SECONDS,
+    epochLength: 400,
+    tickSpacing: 8,
+    fee: 10_000,
+    numPdSlugs: 10,
+    minProceedsPercent: 20,
+    maxProceedsPercent: 50,
+  },
+  fairLaunch: {
+    label: 'Fair launch',
+    description:
+      'Sells most of the supply in a one day auction, so the market rather than the team sets the price between the start and end market caps.',
+    salePercent: 60,
+    durationSeconds: DAY_SECONDS,
+    epochLength: 400,
+    tickSpacing: 8,
+    fee: 3000,
+    numPdSlugs: 5,
+    minProceedsPercent: 50,
+    maxProceedsPercent: 25,
+  },
+  creatorCoin: {
+    label: 'Creator coin',
+    description:
+      'Sells half the supply to a creator\'s audience in six hours, with fine price steps and a low proceeds floor so small communities can complete the sale.',
+    salePercent: 50,
+    durationSeconds: DAY_SECONDS / 4,
+    epochLength: 200,
+    tickSpacing: 2,
+    fee: 10_000,
+    numPdSlugs: 3,
+    minProceedsPercent: 10,
+    maxProceedsPercent: 50,
+  },
+};
+
+/**
+ * Token, vesting and target market caps of a launch built from a preset
+ */
+export interface LaunchPresetParams
+  extends Pick<
+    DopplerPreDeploymentConfig,
+    | 'name'
+    | 'symbol'
+    | 'totalSupply'
+    | 'tokenURI'
+    | 'blockTimestamp'
+    | 'startTime'
+    | 'startTimeOffset'
+    | 'numeraire'
+    | 'numeraireDecimals'
+    | 'yearlyMintRate'
+    | 'vestingDuration'
+    | 'recipients'
+    | 'amounts'
+    | 'liquidityMigratorData'
+    | 'integrator'
+  > {
+  /** USD price of one whole numeraire, 1 for a USD stablecoin */
+  numerairePrice: PriceInput;
+  /** USD market cap the auction starts at */
+  startMarketCap: PriceInput;
+  /** USD market cap the auction falls to, below the start */
+  endMarketCap: PriceInput;
+  /** Overrides the preset's sale percentage */
+  salePercent?: number;
+  /** Overrides the preset's duration, in whole epochs */
+  durationSeconds?: number;
+  /** Numeraire name used in the explanation, 'ETH' for native sales */
+  numeraireSymbol?: string;
+}
+
+/**
+ * The price curve a preset produces, after the ticks are rounded outwards to
+ * the tick spacing
+ */
+export interface LaunchCurve {
+  startTick: number;
+  endTick: number;
+  epochs: number;
+  /** Most the price moves per epoch, in ticks */
+  gamma: number;
+  /** Asset prices in whole numeraire units */
+  startPrice: Fraction;
+  endPrice: Fraction;
+  /** Market caps in USD */
+  startMarketCap: Fraction;
+  endMarketCap: Fraction;
+}
+
+export interface LaunchPresetResult {
+  /** Config to pass to `ReadWriteFactory.buildConfig` */
+  config: DopplerPreDeploymentConfig;
+  curve: LaunchCurve;
+  /** Plain English description of the sale and its price curve */
+  explanation: string;
+}
+
+/**
+ * Builds a validated pre-deployment config from a preset and target USD
+ * market caps. Ticks, gamma, epochs, slugs and proceeds limits all come from
+ * the preset, and the explanation describes the resulting curve.
+ *
+ * @param preset - Preset name or a custom preset
+ * @param params - Token details, vesting and market caps
+ * @returns Config for `buildConfig`, the curve and its explanation
+ * @throws {Error} If the preset or the market caps cannot form a valid sale
+ *
+ * @example
+ * ```typescript
+ * const { config, explanation } = buildLaunchPreset('fairLaunch', {
+ *   ...tokenAndVesting,
+ *   numerairePrice: 2500, // ETH/USD
+ *   startMarketCap: 5_000_000,
+ *   endMarketCap: 500_000,
+ * });
+ * console.log(explanation);
+ * const { createParams } = factory.buildConfig(config, addresses);
+ * ```
+ */
+export function buildLaunchPreset(
+  preset: LaunchPresetName | LaunchPreset,
+  params: LaunchPresetParams
+): LaunchPresetResult {
+  const resolved = typeof preset === 'string' ? LAUNCH_PRESETS[preset] : preset;
+  if (!resolved) {
+    throw new Error(`Unknown launch preset ${preset}`);
+  }
+  const {
+    numerairePrice,
+    startMarketCap,
+    endMarketCap,
+    salePercent = resolved.salePercent,
+    durationSeconds = resolved.durationSeconds,
+    numeraireSymbol,
+    ...token
+  } = params;
+  const { epochLength, tickSpacing, numPdSlugs } = resolved;
+  validatePreset(resolved, salePercent, durationSeconds);
+
+  const numTokensToSell =
+    (params.totalSupply * BigInt(Math.round(salePercent * 100))) /
+    BigInt(10_000);
+  const numeraireDecimals = params.numeraireDecimals ?? 18;
+  const pair: PricePair = {
+    assetDecimals: DERC20_DECIMALS,
+    numeraireDecimals,
+    isToken0: (params.numeraire ?? zeroAddress) !== zeroAddress,
+  };
+
+  const [targetStartPrice, targetEndPrice] = [startMarketCap, endMarketCap].map(
+    (marketCap) =>
+      marketCapToPrice(
+        marketCap,
+        params.totalSupply,
+        DERC20_DECIMALS,
+        numerairePrice
+      )
+  );
+  if (
+    targetStartPrice.numerator * targetEndPrice.denominator <=
+    targetEndPrice.numerator * targetStartPrice.denominator
+  ) {
+    throw new Error('The start market cap must be above the end market cap');
+  }
+
+  // Same ticks buildConfig derives from the market cap range
+  const { startTick, endTick } = priceRangeToTicks(
+    targetStartPrice,
+    targetEndPrice,
+    pair,
+    tickSpacing
+  );
+  const epochs = durationSeconds / epochLength;
+  const gamma =
+    Math.ceil(Math.abs(endTick - startTick) / epochs / tickSpacing) *
+    tickSpacing;
+
+  const curve: LaunchCurve = {
+    startTick,
+    endTick,
+    epochs,
+    gamma,
+    startPrice: tickToPrice(startTick, pair),
+    endPrice: tickToPrice(endTick, pair),
+    startMarketCap: tickToMarketCap(
+      startTick,
+      pair,
+      params.totalSupply,
+      numerairePrice
+    ),
+    endMarketCap: tickToMarketCap(
+      endTick,
+      pair,
+      params.totalSupply,
+      numerairePrice
+    ),
+  };
+
+  const numeraireUnit = BigInt(10) ** BigInt(numeraireDecimals);
+  const saleValue = (price: Fraction) =>
+    (numTokensToSell * price.numerator * numeraireUnit) /
+    (price.denominator * BigInt(10) ** BigInt(DERC20_DECIMALS));
+  const minProceeds =
+    (saleValue(curve.endPrice) * BigInt(resolved.minProceedsPercent)) /
+    BigInt(100);
+  const maxProceeds =
+    (saleValue(curve.startPrice) * BigInt(resolved.maxProceedsPercent)) /
+    BigInt(100);
+  if (minProceeds <= BigInt(0)) {
+    throw new Error('Minimum proceeds round to zero, raise the market caps');
+  }
+  if (minProceeds > maxProceeds) {
+    throw new Error(
+      'Minimum proceeds exceed maximum proceeds, widen the market cap range'
+    );
+  }
+
+  const config: DopplerPreDeploymentConfig = {
+    ...token,
+    numTokensToSell,
+    numeraireDecimals,
+    durationSeconds,
+    epochLength,
+    marketCapRange: { startMarketCap, endMarketCap, numerairePrice },
+    tickSpacing,
+    gamma,
+    fee: resolved.fee,
+    minProceeds,
+    maxProceeds,
+    numPdSlugs,
+  };
+
+  const symbol =
+    numeraireSymbol ?? (pair.isToken0 ? 'numeraire' : 'ETH');
+  const proceeds = (amount: bigint) =>
+    `${formatAmount(
+      { numerator: amount, denominator: numeraireUnit },
+      4
+    )} ${symbol}`;
+  const explanation = [
+    `${resolved.label}: ${resolved.description}`,
+    `Sells ${salePercent}% of the supply (${formatAmount(
+      {
+        numerator: numTokensToSell,
+        denominator: BigInt(10) ** BigInt(DERC20_DECIMALS),
+      },
+      0
+    )} tokens) over ${formatDuration(durationSeconds)}, in ${epochs} epochs of ${epochLength} seconds.`,
+    `The price starts at a $${formatAmount(curve.startMarketCap, 0)} market cap (${formatAmount(curve.startPrice, 12)} ${symbol} per token) and falls to at most $${formatAmount(curve.endMarketCap, 0)} (${formatAmount(curve.endPrice, 12)} ${symbol}).`,
+    `Without buyers it falls ${gamma} ticks (${(
+      (Math.pow(1.0001, gamma) - 1) *
+      100
+    ).toFixed(2)}%) per epoch and reaches the end market cap as the sale ends; buying slows or reverses the fall, and ${numPdSlugs} price discovery slugs hold liquidity above the current price.`,
+    `The sale refunds buyers unless it raises ${proceeds(minProceeds)}, and ends early once it raises ${proceeds(maxProceeds)}.`,
+  ].join('\n');
+
+  return { config, curve, explanation };
+}
+
+/**
+ * Checks the parts of a preset the contracts constrain
+ */
+function validatePreset(
+  preset: LaunchPreset,
+  salePercent: number,
+  durationSeconds: number
+): void {
+  if (!(salePercent > 0 && salePercent <= 100)) {
+    throw new Error('Sale percentage must be above 0 and at most 100');
+  }
+  if (!Number.isInteger(preset.epochLength) || preset.epochLength <= 0) {
+    throw new Error('Epoch length must be a positive whole number of seconds');
+  }
+  if (durationSeconds <= 0 || durationSeconds % preset.epochLength !== 0) {
+    throw new Error(
+      `Duration must be a positive multiple of the ${preset.epochLength} second epoch length`
+    );
+  }
+  if (preset.tickSpacing <= 0 || preset.tickSpacing > MAX_TICK_SPACING) {
+    throw new Error(`Tick spacing must be between 1 and ${MAX_TICK_SPACING}`);
+  }
+  if (preset.numPdSlugs < 1 || preset.numPdSlugs > MAX_PD_SLUGS) {
+    throw new Error(
+      `Number of price discovery slugs must be between 1 and ${MAX_PD_SLUGS}`
+    );
+  }
+}
+
+/**
+ * Formats a fraction with thousands separators
+ */
+function formatAmount(value: Fraction, decimals: number): string {
+  const [whole, fraction] = formatFraction(value, decimals).split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return fraction ? `${grouped}.${fraction}` : grouped;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds % DAY_SECONDS === 0) {
+    const days = seconds / DAY_SECONDS;
+    return days === 1 ? '1 day' : `${days} days`;
+  }
+  if (seconds % 3600 === 0) {
+    const hours = seconds / 3600;
+    return hours === 1 ? '1 hour' : `${hours} hours`;
+  }
+  return `${seconds} seconds`;
+}
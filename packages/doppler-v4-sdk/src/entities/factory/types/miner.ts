@@ -1,4 +1,4 @@
-import { Address } from 'viem';
+import { Address, Hash } from 'viem';
 
 export interface DopplerData {
   minimumProceeds: bigint;
@@ -26,3 +26,92 @@ export interface TokenFactoryData {
   amounts: bigint[];
   tokenURI: string;
 }
+
+/**
+ * Inputs for a CREATE2 salt search over the contiguous range `[start, end)`
+ * @property hookDeployer Address deploying the Doppler hook
+ * @property hookInitHash keccak256 of the hook creation code and constructor args
+ * @property tokenFactory Address deploying the asset token
+ * @property tokenInitHash keccak256 of the token creation code and constructor args
+ * @property numeraire Address the asset token must sort against
+ * @property isToken0 Whether the asset token must sort below the numeraire
+ * @property flags Hook permission bits the hook address must carry
+ * @property flagMask Mask selecting the hook permission bits of an address
+ * @property start First salt to check (inclusive)
+ * @property end Last salt to check (exclusive)
+ */
+export interface SaltSearchJob {
+  hookDeployer: Address;
+  hookInitHash: Hash;
+  tokenFactory: Address;
+  tokenInitHash: Hash;
+  numeraire: Address;
+  isToken0: boolean;
+  flags: number;
+  flagMask: number;
+  start: bigint;
+  end: bigint;
+}
+
+/**
+ * Outcome of searching a single salt range
+ * @property salt First matching salt, or null if the range has none
+ * @property checked Number of salts checked
+ */
+export interface SaltSearchResult {
+  salt: bigint | null;
+  checked: number;
+}
+
+/**
+ * Everything the miner needs except the range, which comes from SaltMinerOptions
+ */
+export type SaltMinerParams = Omit<SaltSearchJob, 'start' | 'end'>;
+
+/**
+ * Progress reported while mining
+ * @property checked Salts checked so far
+ * @property total Size of the search range
+ */
+export interface SaltMinerProgress {
+  checked: bigint;
+  total: bigint;
+}
+
+/**
+ * Options controlling how and where salts are searched
+ * @property startSalt First salt to check, defaults to 0
+ * @property searchRange Number of salts to check, defaults to 1,000,000
+ * @property workers Number of worker threads, defaults to the available cores
+ * minus one. Pass 0 to search on the calling thread in yielding chunks.
+ * @property chunkSize Salts handed to a worker per message, defaults to 10,000
+ * @property onProgress Called after every completed chunk
+ * @property signal Aborts the search and terminates all workers
+ */
+export interface SaltMinerOptions {
+  startSalt?: bigint;
+  searchRange?: bigint;
+  workers?: number;
+  chunkSize?: number;
+  onProgress?: (progress: SaltMinerProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Result of a mining run. The salt found is always the lowest matching salt in
+ * the range, so parallel and sequential runs agree.
+ */
+export type SaltMinerResult =
+  | {
+      found: true;
+      salt: Hash;
+      hook: Address;
+      token: Address;
+      checked: bigint;
+    }
+  | {
+      found: false;
+      startSalt: bigint;
+      endSalt: bigint;
+      checked: bigint;
+    };
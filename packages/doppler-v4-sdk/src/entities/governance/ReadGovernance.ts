@@ -0,0 +1,368 @@
+import {
+  ReadContract,
+  ReadAdapter,
+  Drift,
+  createDrift,
+  EventLog,
+} from '@delvtech/drift';
+import { Address, Hex } from 'viem';
+import { governanceAbi, timelockAbi } from '@/abis';
+import { ChunkedEventsOptions, getEventsInChunks } from '@/utils/events';
+import { ReadDerc20 } from '../token/derc20/ReadDerc20';
+import { hashDescription, ProposalAction } from './proposals';
+
+export type GovernanceABI = typeof governanceAbi;
+export type TimelockABI = typeof timelockAbi;
+
+/**
+ * Lifecycle of a proposal, as returned by the Governor's `state`
+ */
+export enum ProposalState {
+  Pending = 0,
+  Active = 1,
+  Canceled = 2,
+  Defeated = 3,
+  Succeeded = 4,
+  Queued = 5,
+  Expired = 6,
+  Executed = 7,
+}
+
+/**
+ * Vote options, as counted by the Governor
+ */
+export enum VoteType {
+  Against = 0,
+  For = 1,
+  Abstain = 2,
+}
+
+export interface ProposalVotes {
+  against: bigint;
+  for: bigint;
+  abstain: bigint;
+}
+
+export interface Proposal {
+  id: bigint;
+  proposer: Address;
+  actions: ProposalAction[];
+  description: string;
+  descriptionHash: Hex;
+  /** Timepoint voting opens, in the token's clock (see `getClockMode`) */
+  voteStart: bigint;
+  /** Timepoint voting closes, in the token's clock */
+  voteEnd: bigint;
+  state: ProposalState;
+  votes: ProposalVotes;
+  /** Timestamp the proposal can be executed, 0 unless queued */
+  eta: bigint;
+  /** Block the proposal was created in */
+  blockNumber?: bigint;
+  transactionHash?: Hex;
+}
+
+/**
+ * A read-only interface to the Governor deployed with a Doppler asset, and
+ * the Timelock that executes its proposals.
+ *
+ * Both addresses are returned by the Airlock as `AssetData.governance` and
+ * `AssetData.timelock`. Voting power comes from the asset itself, which must
+ * be delegated before it counts.
+ *
+ * @example
+ * ```typescript
+ * const { governance: governanceAddress } = await factory.getAssetData(asset);
+ * const governance = new ReadGovernance(governanceAddress, drift);
+ *
+ * const proposals = await governance.getProposals();
+ * const active = proposals.filter((p) => p.state === ProposalState.Active);
+ * ```
+ */
+export class ReadGovernance {
+  /** The Drift adapter instance used for contract interactions */
+  drift: Drift<ReadAdapter>;
+  /** The address of the Governor contract */
+  address: Address;
+  /** Read contract instance for the Governor contract */
+  governance: ReadContract<GovernanceABI>;
+
+  /**
+   * Creates a new ReadGovernance instance.
+   *
+   * @param address - The address of the Governor contract
+   * @param drift - Drift instance for contract interactions. Defaults to a new Drift instance
+   */
+  constructor(address: Address, drift: Drift<ReadAdapter> = createDrift()) {
+    this.address = address;
+    this.governance = drift.contract({
+      abi: governanceAbi,
+      address,
+    });
+    this.drift = drift;
+  }
+
+  /** Get the name of the Governor */
+  public async getName(): Promise<string> {
+    return this.governance.read('name');
+  }
+
+  /** Get the delay between proposing and voting, in clock units */
+  public async getVotingDelay(): Promise<bigint> {
+    return this.governance.read('votingDelay');
+  }
+
+  /** Get the length of the voting window, in clock units */
+  public async getVotingPeriod(): Promise<bigint> {
+    return this.governance.read('votingPeriod');
+  }
+
+  /** Get the voting power needed to create a proposal */
+  public async getProposalThreshold(): Promise<bigint> {
+    return this.governance.read('proposalThreshold');
+  }
+
+  /**
+   * Get the votes needed for a proposal to pass
+   *
+   * @param timepoint - Past timepoint to read the quorum at. Defaults to the
+   * latest settled timepoint
+   */
+  public async getQuorum(timepoint?: bigint): Promise<bigint> {
+    const at = timepoint ?? BigInt(await this.getClock()) - BigInt(1);
+    return this.governance.read('quorum', { timepoint: at });
+  }
+
+  /** Get the current timepoint of the token's clock */
+  public async getClock(): Promise<number> {
+    return this.governance.read('clock');
+  }
+
+  /**
+   * Get the clock the token votes with, e.g. `mode=blocknumber&from=default`
+   * or `mode=timestamp`
+   */
+  public async getClockMode(): Promise<string> {
+    return this.governance.read('CLOCK_MODE');
+  }
+
+  /** Get the voting token, which is the Doppler asset */
+  public async getToken(): Promise<ReadDerc20> {
+    const token = await this.governance.read('token');
+    return new ReadDerc20(token, this.drift);
+  }
+
+  /** Get the address of the Timelock that executes proposals */
+  public async getTimelock(): Promise<Address> {
+    return this.governance.read('timelock');
+  }
+
+  /** Get the minimum delay, in seconds, between queueing and execution */
+  public async getTimelockMinDelay(): Promise<bigint> {
+    const timelock: ReadContract<TimelockABI> = this.drift.contract({
+      abi: timelockAbi,
+      address: await this.getTimelock(),
+    });
+    return timelock.read('getMinDelay');
+  }
+
+  /**
+   * Get the current voting power of an account, or its voting power at a
+   * past timepoint
+   *
+   * @param account - Address to check voting power for
+   * @param timepoint - Past timepoint. Defaults to now
+   */
+  public async getVotes(account: Address, timepoint?: bigint): Promise<bigint> {
+    if (timepoint === undefined) {
+      const token = await this.getToken();
+      return token.getVotes(account);
+    }
+    return this.governance.read('getVotes', { account, timepoint });
+  }
+
+  /**
+   * Get the address an account delegates its votes to
+   *
+   * @param account - Address to check delegation for
+   */
+  public async getDelegate(account: Address): Promise<Address> {
+    const token = await this.getToken();
+    return token.getDelegates(account);
+  }
+
+  /** Get the state of a proposal */
+  public async getProposalState(proposalId: bigint): Promise<ProposalState> {
+    return this.governance.read('state', { proposalId });
+  }
+
+  /** Get the votes cast on a proposal so far */
+  public async getProposalVotes(proposalId: bigint): Promise<ProposalVotes> {
+    const { againstVotes, forVotes, abstainVotes } = await this.governance.read(
+      'proposalVotes',
+      { proposalId }
+    );
+    return { against: againstVotes, for: forVotes, abstain: abstainVotes };
+  }
+
+  /**
+   * Get the timestamp a queued proposal can be executed at, 0 if it is not
+   * queued
+   */
+  public async getProposalEta(proposalId: bigint): Promise<bigint> {
+    return this.governance.read('proposalEta', { proposalId });
+  }
+
+  /** Check whether an account has voted on a proposal */
+  public async hasVoted(
+    proposalId: bigint,
+    account: Address
+  ): Promise<boolean> {
+    return this.governance.read('hasVoted', { proposalId, account });
+  }
+
+  /**
+   * Builds the EIP-712 ballot a voter signs to vote without sending a
+   * transaction. Anyone can then submit the signature with `castVoteBySig`.
+   *
+   * @param proposalId - Proposal ID
+   * @param support - Vote option
+   * @param voter - Address signing the ballot
+   * @returns Typed data to pass to `signTypedData`
+   *
+   * @example
+   * ```typescript
+   * const typedData = await governance.getBallotTypedData(id, VoteType.For, voter);
+   * const signature = await walletClient.signTypedData({ account: voter, ...typedData });
+   * await relayer.castVoteBySig(id, VoteType.For, voter, signature);
+   * ```
+   */
+  public async getBallotTypedData(
+    proposalId: bigint,
+    support: VoteType,
+    voter: Address
+  ) {
+    const [name, version, chainId, nonce] = await Promise.all([
+      this.governance.read('name'),
+      this.governance.read('version'),
+      this.drift.getChainId(),
+      this.governance.read('nonces', { owner: voter }),
+    ]);
+
+    return {
+      domain: { name, version, chainId, verifyingContract: this.address },
+      types: {
+        Ballot: [
+          { name: 'proposalId', type: 'uint256' },
+          { name: 'support', type: 'uint8' },
+          { name: 'voter', type: 'address' },
+          { name: 'nonce', type: 'uint256' },
+        ],
+      },
+      primaryType: 'Ballot',
+      message: { proposalId, support, voter, nonce },
+    } as const;
+  }
+
+  /**
+   * Lists proposals with their current state and votes
+   *
+   * @param options - Block range and optional chunk size for RPCs that limit
+   * log ranges
+   * @returns Promise resolving to the proposals, oldest first
+   *
+   * @example
+   * ```typescript
+   * const proposals = await governance.getProposals({ chunkSize: 10_000n });
+   * for (const proposal of proposals) {
+   *   console.log(ProposalState[proposal.state], proposal.description);
+   * }
+   * ```
+   */
+  public async getProposals(
+    options?: ChunkedEventsOptions<GovernanceABI, 'ProposalCreated'>
+  ): Promise<Proposal[]> {
+    const events = await this.getProposalCreatedEvents(options);
+    return Promise.all(events.map((event) => this.toProposal(event)));
+  }
+
+  /**
+   * Retrieves a single proposal with its current state and votes
+   *
+   * @param proposalId - Proposal ID
+   * @param options - Block range and optional chunk size used to find the
+   * ProposalCreated event
+   * @returns Promise resolving to the proposal, or undefined if it was not
+   * created in the searched range
+   */
+  public async getProposal(
+    proposalId: bigint,
+    options?: ChunkedEventsOptions<GovernanceABI, 'ProposalCreated'>
+  ): Promise<Proposal | undefined> {
+    const events = await this.getProposalCreatedEvents(options);
+    const event = events.find(({ args }) => args.proposalId === proposalId);
+    return event && this.toProposal(event);
+  }
+
+  /**
+   * Retrieves ProposalCreated events, which carry each proposal's actions
+   * and description
+   *
+   * @param options - Block range and optional chunk size for RPCs that limit
+   * log ranges
+   * @returns Promise resolving to the ProposalCreated event logs
+   */
+  public async getProposalCreatedEvents(
+    options?: ChunkedEventsOptions<GovernanceABI, 'ProposalCreated'>
+  ): Promise<EventLog<GovernanceABI, 'ProposalCreated'>[]> {
+    return getEventsInChunks(this.governance, 'ProposalCreated', options);
+  }
+
+  /**
+   * Retrieves VoteCast events
+   *
+   * @param options - Filter, block range and optional chunk size for RPCs
+   * that limit log ranges
+   * @returns Promise resolving to the VoteCast event logs
+   *
+   * @example
+   * ```typescript
+   * const votes = await governance.getVoteCastEvents({ filter: { voter } });
+   * ```
+   */
+  public async getVoteCastEvents(
+    options?: ChunkedEventsOptions<GovernanceABI, 'VoteCast'>
+  ): Promise<EventLog<GovernanceABI, 'VoteCast'>[]> {
+    return getEventsInChunks(this.governance, 'VoteCast', options);
+  }
+
+  private async toProposal(
+    event: EventLog<GovernanceABI, 'ProposalCreated'>
+  ): Promise<Proposal> {
+    const { args } = event;
+    const [state, votes, eta] = await Promise.all([
+      this.getProposalState(args.proposalId),
+      this.getProposalVotes(args.proposalId),
+      this.getProposalEta(args.proposalId),
+    ]);
+
+    return {
+      id: args.proposalId,
+      proposer: args.proposer,
+      actions: args.targets.map((target, i) => ({
+        target,
+        value: args.values[i],
+        calldata: args.calldatas[i],
+      })),
+      description: args.description,
+      descriptionHash: hashDescription(args.description),
+      voteStart: args.voteStart,
+      voteEnd: args.voteEnd,
+      state,
+      votes,
+      eta,
+      blockNumber: event.blockNumber,
+      transactionHash: event.transactionHash,
+    };
+  }
+}
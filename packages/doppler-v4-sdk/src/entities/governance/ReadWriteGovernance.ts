@@ -0,0 +1,225 @@
+import {
+  ReadWriteContract,
+  ReadWriteAdapter,
+  Drift,
+  createDrift,
+  TransactionOptions,
+} from '@delvtech/drift';
+import { Address, Hex } from 'viem';
+import { throwDopplerError } from '@/utils/errors';
+import { GovernanceABI, ReadGovernance, VoteType } from './ReadGovernance';
+import {
+  encodeProposalActions,
+  hashDescription,
+  ProposalAction,
+} from './proposals';
+
+/**
+ * A read-write interface to the Governor deployed with a Doppler asset.
+ *
+ * Proposals move through propose → vote → queue → execute. Queueing schedules
+ * the actions on the Timelock, which runs them once its delay has passed.
+ *
+ * @example
+ * ```typescript
+ * const governance = new ReadWriteGovernance(governanceAddress, drift);
+ * const actions = [buildUnlockPoolAction(asset)];
+ * const description = 'Unlock the pool';
+ *
+ * await governance.propose(actions, description);
+ * const proposalId = hashProposal(actions, description);
+ *
+ * // After the voting delay
+ * await governance.castVote(proposalId, VoteType.For);
+ *
+ * // After voting ends and the proposal succeeded
+ * await governance.queue(actions, description);
+ *
+ * // After the timelock delay
+ * await governance.execute(actions, description);
+ * ```
+ */
+export class ReadWriteGovernance extends ReadGovernance {
+  declare governance: ReadWriteContract<GovernanceABI>;
+
+  /**
+   * Creates a new ReadWriteGovernance instance.
+   *
+   * @param address - The address of the Governor contract
+   * @param drift - Drift instance with a read-write adapter. Defaults to a new Drift instance
+   */
+  constructor(
+    address: Address,
+    drift: Drift<ReadWriteAdapter> = createDrift()
+  ) {
+    super(address, drift);
+  }
+
+  /**
+   * Creates a proposal. The sender needs at least the proposal threshold in
+   * voting power.
+   *
+   * @param actions - Calls the Timelock makes if the proposal passes
+   * @param description - Proposal description, conventionally Markdown with
+   * a `#` title
+   * @param options - Transaction options
+   * @returns Promise resolving to the transaction hash. The proposal ID can
+   * be computed with {@link hashProposal}.
+   */
+  async propose(
+    actions: ProposalAction[],
+    description: string,
+    options?: TransactionOptions
+  ): Promise<Hex> {
+    return this.governance
+      .write(
+        'propose',
+        { ...encodeProposalActions(actions), description },
+        options
+      )
+      .catch(throwDopplerError);
+  }
+
+  /**
+   * Votes on an active proposal with the sender's voting power at the
+   * proposal's snapshot
+   *
+   * @param proposalId - Proposal ID
+   * @param support - Vote option
+   * @param options - Transaction options
+   * @returns Promise resolving to the transaction hash
+   */
+  async castVote(
+    proposalId: bigint,
+    support: VoteType,
+    options?: TransactionOptions
+  ): Promise<Hex> {
+    return this.governance
+      .write('castVote', { proposalId, support }, options)
+      .catch(throwDopplerError);
+  }
+
+  /**
+   * Votes on an active proposal and records a reason with the vote
+   *
+   * @param proposalId - Proposal ID
+   * @param support - Vote option
+   * @param reason - Reason emitted in the VoteCast event
+   * @param options - Transaction options
+   * @returns Promise resolving to the transaction hash
+   */
+  async castVoteWithReason(
+    proposalId: bigint,
+    support: VoteType,
+    reason: string,
+    options?: TransactionOptions
+  ): Promise<Hex> {
+    return this.governance
+      .write('castVoteWithReason', { proposalId, support, reason }, options)
+      .catch(throwDopplerError);
+  }
+
+  /**
+   * Submits a vote signed by another account. The ballot to sign is built
+   * with `getBallotTypedData`.
+   *
+   * @param proposalId - Proposal ID
+   * @param support - Vote option
+   * @param voter - Address that signed the ballot
+   * @param signature - EIP-712 signature of the ballot
+   * @param options - Transaction options
+   * @returns Promise resolving to the transaction hash
+   */
+  async castVoteBySig(
+    proposalId: bigint,
+    support: VoteType,
+    voter: Address,
+    signature: Hex,
+    options?: TransactionOptions
+  ): Promise<Hex> {
+    return this.governance
+      .write(
+        'castVoteBySig',
+        { proposalId, support, voter, signature },
+        options
+      )
+      .catch(throwDopplerError);
+  }
+
+  /**
+   * Schedules a succeeded proposal on the Timelock
+   *
+   * @param actions - The proposal's actions, exactly as proposed
+   * @param description - The proposal's description, exactly as proposed
+   * @param options - Transaction options
+   * @returns Promise resolving to the transaction hash
+   */
+  async queue(
+    actions: ProposalAction[],
+    description: string,
+    options?: TransactionOptions
+  ): Promise<Hex> {
+    return this.governance
+      .write(
+        'queue',
+        {
+          ...encodeProposalActions(actions),
+          descriptionHash: hashDescription(description),
+        },
+        options
+      )
+      .catch(throwDopplerError);
+  }
+
+  /**
+   * Executes a queued proposal once the Timelock delay has passed. ETH sent
+   * by the actions comes from the Timelock's balance.
+   *
+   * @param actions - The proposal's actions, exactly as proposed
+   * @param description - The proposal's description, exactly as proposed
+   * @param options - Transaction options
+   * @returns Promise resolving to the transaction hash
+   */
+  async execute(
+    actions: ProposalAction[],
+    description: string,
+    options?: TransactionOptions
+  ): Promise<Hex> {
+    return this.governance
+      .write(
+        'execute',
+        {
+          ...encodeProposalActions(actions),
+          descriptionHash: hashDescription(description),
+        },
+        options
+      )
+      .catch(throwDopplerError);
+  }
+
+  /**
+   * Cancels a proposal. Only the proposer can cancel, and only before voting
+   * starts.
+   *
+   * @param actions - The proposal's actions, exactly as proposed
+   * @param description - The proposal's description, exactly as proposed
+   * @param options - Transaction options
+   * @returns Promise resolving to the transaction hash
+   */
+  async cancel(
+    actions: ProposalAction[],
+    description: string,
+    options?: TransactionOptions
+  ): Promise<Hex> {
+    return this.governance
+      .write(
+        'cancel',
+        {
+          ...encodeProposalActions(actions),
+          descriptionHash: hashDescription(description),
+        },
+        options
+      )
+      .catch(throwDopplerError);
+  }
+}
@@ -0,0 +1,3 @@
+export * from './ReadGovernance';
+export * from './ReadWriteGovernance';
+export * from './proposals';
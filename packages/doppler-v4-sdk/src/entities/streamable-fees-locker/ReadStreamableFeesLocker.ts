@@ -0,0 +1,395 @@
+import {
+  ReadContract,
+  ReadAdapter,
+  Drift,
+  createDrift,
+  EventLog,
+  GetEventsOptions,
+} from '@delvtech/drift';
+import { Address } from 'viem';
+import { airlockAbi, streamableFeesLockerAbi } from '@/abis';
+import { BeneficiaryData } from '@/types';
+import { ChunkedEventsOptions, getEventsInChunks } from '@/utils/events';
+
+export type StreamableFeesLockerABI = typeof streamableFeesLockerAbi;
+type AirlockABI = typeof airlockAbi;
+
+/**
+ * A Uniswap V4 position held by the locker after migration
+ */
+export interface LockedPosition {
+  /** PositionManager token ID of the position */
+  tokenId: bigint;
+  /** Receives the position once the lock ends */
+  recipient: Address;
+  /** Timestamp the lock started, in seconds */
+  startDate: number;
+  /** Length of the lock, in seconds */
+  lockDuration: number;
+  /** Timestamp the lock ends, in seconds */
+  unlockDate: number;
+  /** Whether the position has been handed to the recipient */
+  isUnlocked: boolean;
+  /**
+   * Beneficiaries and their WAD-scaled shares of the fees, as set when the
+   * position was locked
+   */
+  beneficiaries: BeneficiaryData[];
+}
+
+/**
+ * Fees a beneficiary can release, in the two currencies of a pool
+ */
+export interface BeneficiaryFees extends BeneficiaryData {
+  amount0: bigint;
+  amount1: bigint;
+}
+
+/**
+ * A locked position created by migrating an asset, with the fees each
+ * beneficiary can release
+ */
+export interface AssetLockedPosition extends LockedPosition {
+  asset: Address;
+  /** Migration pool reported by the Airlock's Migrate event */
+  pool: Address;
+  currency0: Address;
+  currency1: Address;
+  fees: BeneficiaryFees[];
+}
+
+/**
+ * Block range and chunk size for the event queries behind
+ * {@link ReadStreamableFeesLocker.getAssetPositions}
+ */
+export type AssetPositionsOptions = Pick<
+  GetEventsOptions,
+  'fromBlock' | 'toBlock'
+> & {
+  chunkSize?: bigint;
+};
+
+/**
+ * A read-only interface to the StreamableFeesLocker, which holds the Uniswap
+ * V4 positions created when assets migrate and streams their trading fees to
+ * beneficiaries until the lock ends.
+ *
+ * Beneficiaries are not exposed by the contract's getters, so they are read
+ * from the Lock event emitted when the position was locked.
+ *
+ * @example
+ * ```typescript
+ * const locker = new ReadStreamableFeesLocker(
+ *   DOPPLER_V4_ADDRESSES[chainId].streamableFeesLocker,
+ *   drift
+ * );
+ *
+ * const positions = await locker.getAssetPositions(
+ *   assetAddress,
+ *   DOPPLER_V4_ADDRESSES[chainId].airlock
+ * );
+ * ```
+ */
+export class ReadStreamableFeesLocker {
+  /** The Drift adapter instance used for contract interactions */
+  drift: Drift<ReadAdapter>;
+  /** The address of the StreamableFeesLocker contract */
+  address: Address;
+  /** Read contract instance for the StreamableFeesLocker contract */
+  locker: ReadContract<StreamableFeesLockerABI>;
+
+  /**
+   * Creates a new ReadStreamableFeesLocker instance.
+   *
+   * @param address - The address of the StreamableFeesLocker contract
+   * @param drift - Drift instance for contract interactions. Defaults to a new Drift instance
+   */
+  constructor(address: Address, drift: Drift<ReadAdapter> = createDrift()) {
+    this.address = address;
+    this.locker = drift.contract({
+      abi: streamableFeesLockerAbi,
+      address,
+    });
+    this.drift = drift;
+  }
+
+  /**
+   * Retrieves the lock state of a position
+   *
+   * @param tokenId - PositionManager token ID
+   * @returns Promise resolving to the recipient, lock dates and unlock status
+   */
+  public async getPosition(
+    tokenId: bigint
+  ): Promise<Omit<LockedPosition, 'tokenId' | 'beneficiaries'>> {
+    const { recipient, startDate, lockDuration, isUnlocked } =
+      await this.locker.read('positions', { tokenId });
+
+    if (startDate === 0) {
+      throw new Error(`Position ${tokenId} is not held by the locker`);
+    }
+
+    return {
+      recipient,
+      startDate,
+      lockDuration,
+      unlockDate: startDate + lockDuration,
+      isUnlocked,
+    };
+  }
+
+  /**
+   * Retrieves a position with the beneficiaries it was locked with
+   *
+   * @param tokenId - PositionManager token ID
+   * @param options - Block range and chunk size used to find the Lock event
+   * @returns Promise resolving to the locked position
+   */
+  public async getLockedPosition(
+    tokenId: bigint,
+    options?: AssetPositionsOptions
+  ): Promise<LockedPosition> {
+    const [position, beneficiaries] = await Promise.all([
+      this.getPosition(tokenId),
+      this.getBeneficiaries(tokenId, options),
+    ]);
+    return { tokenId, ...position, beneficiaries };
+  }
+
+  /**
+   * Retrieves the beneficiaries of a position and their shares of its fees
+   *
+   * Addresses changed later with `updateBeneficiary` are not emitted by the
+   * contract, so the list reflects the addresses the position was locked
+   * with.
+   *
+   * @param tokenId - PositionManager token ID
+   * @param options - Block range and chunk size used to find the Lock event
+   * @returns Promise resolving to the beneficiaries, with WAD-scaled shares
+   */
+  public async getBeneficiaries(
+    tokenId: bigint,
+    options?: AssetPositionsOptions
+  ): Promise<BeneficiaryData[]> {
+    const [lock] = await this.getLockEvents({
+      ...options,
+      filter: { tokenId },
+    });
+
+    if (!lock) {
+      throw new Error(`No Lock event found for position ${tokenId}`);
+    }
+
+    return lock.args.beneficiaries.map(({ beneficiary, shares }) => ({
+      beneficiary,
+      shares,
+    }));
+  }
+
+  /**
+   * Retrieves the timestamp at which a position can be unlocked
+   *
+   * @param tokenId - PositionManager token ID
+   * @returns Promise resolving to the unlock timestamp, in seconds
+   */
+  public async getUnlockDate(tokenId: bigint): Promise<number> {
+    const { unlockDate } = await this.getPosition(tokenId);
+    return unlockDate;
+  }
+
+  /**
+   * Retrieves the fees a beneficiary can release in one currency
+   *
+   * Balances are credited when fees are distributed and are shared by every
+   * position paying the beneficiary in that currency. Fees still sitting in
+   * a position are only counted after `distributeFees` is called.
+   *
+   * @param beneficiary - Beneficiary address
+   * @param currency - Currency address, the zero address for ETH
+   * @returns Promise resolving to the releasable balance
+   */
+  public async getReleasableFees(
+    beneficiary: Address,
+    currency: Address
+  ): Promise<bigint> {
+    return this.locker.read('beneficiariesClaims', { beneficiary, currency });
+  }
+
+  /**
+   * Retrieves the fees each beneficiary of a position can release
+   *
+   * @param beneficiaries - Beneficiaries of the position
+   * @param currency0 - Lower currency of the pool
+   * @param currency1 - Higher currency of the pool
+   * @returns Promise resolving to the releasable fees per beneficiary
+   */
+  public async getBeneficiaryFees(
+    beneficiaries: BeneficiaryData[],
+    currency0: Address,
+    currency1: Address
+  ): Promise<BeneficiaryFees[]> {
+    return Promise.all(
+      beneficiaries.map(async ({ beneficiary, shares }) => {
+        const [amount0, amount1] = await Promise.all([
+          this.getReleasableFees(beneficiary, currency0),
+          this.getReleasableFees(beneficiary, currency1),
+        ]);
+        return { beneficiary, shares, amount0, amount1 };
+      })
+    );
+  }
+
+  /**
+   * Lists the positions locked when an asset migrated, with their
+   * beneficiaries and the fees each can release
+   *
+   * Lock events are matched to the Airlock's Migrate events by transaction.
+   *
+   * @param asset - Address of the migrated asset
+   * @param airlock - Address of the Airlock the asset was created through
+   * @param options - Block range and chunk size for the event queries
+   * @returns Promise resolving to the asset's locked positions, empty if it
+   * has not migrated to the locker
+   *
+   * @example
+   * ```typescript
+   * const [position] = await locker.getAssetPositions(asset, airlock);
+   * for (const fees of position.fees) {
+   *   console.log(fees.beneficiary, fees.amount0, fees.amount1);
+   * }
+   * ```
+   */
+  public async getAssetPositions(
+    asset: Address,
+    airlock: Address,
+    options?: AssetPositionsOptions
+  ): Promise<AssetLockedPosition[]> {
+    const airlockContract: ReadContract<AirlockABI> = this.drift.contract({
+      abi: airlockAbi,
+      address: airlock,
+    });
+
+    const migrations = await getEventsInChunks(airlockContract, 'Migrate', {
+      ...options,
+      filter: { asset },
+    });
+    const minedMigrations = migrations.filter(
+      (event) =>
+        event.transactionHash !== undefined && event.blockNumber !== undefined
+    );
+    if (minedMigrations.length === 0) return [];
+
+    const blocks = minedMigrations.map((event) => event.blockNumber!);
+    const locks = await this.getLockEvents({
+      fromBlock: blocks.reduce((a, b) => (a < b ? a : b)),
+      toBlock: blocks.reduce((a, b) => (a > b ? a : b)),
+      chunkSize: options?.chunkSize,
+    });
+
+    const { numeraire } = await airlockContract.read('getAssetData', {
+      asset,
+    });
+    const [currency0, currency1] =
+      asset.toLowerCase() < numeraire.toLowerCase()
+        ? [asset, numeraire]
+        : [numeraire, asset];
+
+    const positions: AssetLockedPosition[] = [];
+    for (const migration of minedMigrations) {
+      const matchingLocks = locks.filter(
+        (lock) => lock.transactionHash === migration.transactionHash
+      );
+      for (const lock of matchingLocks) {
+        const { tokenId } = lock.args;
+        const beneficiaries = lock.args.beneficiaries.map(
+          ({ beneficiary, shares }) => ({ beneficiary, shares })
+        );
+        const [position, fees] = await Promise.all([
+          this.getPosition(tokenId),
+          this.getBeneficiaryFees(beneficiaries, currency0, currency1),
+        ]);
+        positions.push({
+          tokenId,
+          ...position,
+          beneficiaries,
+          asset,
+          pool: migration.args.pool,
+          currency0,
+          currency1,
+          fees,
+        });
+      }
+    }
+    return positions;
+  }
+
+  /**
+   * Checks whether a migrator may lock positions in the locker
+   *
+   * @param migrator - Migrator address
+   * @returns Promise resolving to true if the migrator is approved
+   */
+  public async isApprovedMigrator(migrator: Address): Promise<boolean> {
+    return this.locker.read('approvedMigrators', { migrator });
+  }
+
+  /**
+   * Retrieves Lock events emitted when migrated positions are locked
+   *
+   * @param options - Filter, block range and optional chunk size for RPCs
+   * that limit log ranges
+   * @returns Promise resolving to the Lock event logs
+   *
+   * @example
+   * ```typescript
+   * const [lock] = await locker.getLockEvents({ filter: { tokenId } });
+   * console.log(lock.args.beneficiaries, lock.args.unlockDate);
+   * ```
+   */
+  public async getLockEvents(
+    options?: ChunkedEventsOptions<StreamableFeesLockerABI, 'Lock'>
+  ): Promise<EventLog<StreamableFeesLockerABI, 'Lock'>[]> {
+    return getEventsInChunks(this.locker, 'Lock', options);
+  }
+
+  /**
+   * Retrieves Unlock events emitted when positions are handed to their
+   * recipient
+   *
+   * @param options - Filter, block range and optional chunk size for RPCs
+   * that limit log ranges
+   * @returns Promise resolving to the Unlock event logs
+   */
+  public async getUnlockEvents(
+    options?: ChunkedEventsOptions<StreamableFeesLockerABI, 'Unlock'>
+  ): Promise<EventLog<StreamableFeesLockerABI, 'Unlock'>[]> {
+    return getEventsInChunks(this.locker, 'Unlock', options);
+  }
+
+  /**
+   * Retrieves DistributeFees events emitted when a position's fees are
+   * collected and credited to its beneficiaries
+   *
+   * @param options - Filter, block range and optional chunk size for RPCs
+   * that limit log ranges
+   * @returns Promise resolving to the DistributeFees event logs
+   */
+  public async getDistributeFeesEvents(
+    options?: ChunkedEventsOptions<StreamableFeesLockerABI, 'DistributeFees'>
+  ): Promise<EventLog<StreamableFeesLockerABI, 'DistributeFees'>[]> {
+    return getEventsInChunks(this.locker, 'DistributeFees', options);
+  }
+
+  /**
+   * Retrieves Release events emitted when beneficiaries withdraw their fees
+   *
+   * @param options - Filter, block range and optional chunk size for RPCs
+   * that limit log ranges
+   * @returns Promise resolving to the Release event logs
+   */
+  public async getReleaseEvents(
+    options?: ChunkedEventsOptions<StreamableFeesLockerABI, 'Release'>
+  ): Promise<EventLog<StreamableFeesLockerABI, 'Release'>[]> {
+    return getEventsInChunks(this.locker, 'Release', options);
+  }
+}
@@ -0,0 +1,101 @@
+import {
+  ReadWriteContract,
+  ReadWriteAdapter,
+  Drift,
+  createDrift,
+  TransactionOptions,
+} from '@delvtech/drift';
+import { Address, Hex, zeroAddress } from 'viem';
+import { throwDopplerError } from '@/utils/errors';
+import {
+  ReadStreamableFeesLocker,
+  StreamableFeesLockerABI,
+} from './ReadStreamableFeesLocker';
+
+/**
+ * A read-write interface to the StreamableFeesLocker, for distributing and
+ * releasing fees and moving a beneficiary's share to a new address.
+ *
+ * @example
+ * ```typescript
+ * const locker = new ReadWriteStreamableFeesLocker(lockerAddress, drift);
+ *
+ * // Collect the position's fees and withdraw the caller's share
+ * await locker.releaseFees(tokenId);
+ * ```
+ */
+export class ReadWriteStreamableFeesLocker extends ReadStreamableFeesLocker {
+  declare locker: ReadWriteContract<StreamableFeesLockerABI>;
+
+  /**
+   * Creates a new ReadWriteStreamableFeesLocker instance.
+   *
+   * @param address - The address of the StreamableFeesLocker contract
+   * @param drift - Drift instance with a read-write adapter. Defaults to a new Drift instance
+   */
+  constructor(
+    address: Address,
+    drift: Drift<ReadWriteAdapter> = createDrift()
+  ) {
+    super(address, drift);
+  }
+
+  /**
+   * Collects a position's fees and credits them to its beneficiaries. Once
+   * the lock has ended this also hands the position to its recipient.
+   *
+   * Anyone can call this.
+   *
+   * @param tokenId - PositionManager token ID
+   * @param options - Transaction options
+   * @returns Promise resolving to the transaction hash
+   */
+  async distributeFees(
+    tokenId: bigint,
+    options?: TransactionOptions
+  ): Promise<Hex> {
+    return this.locker
+      .write('distributeFees', { tokenId }, options)
+      .catch(throwDopplerError);
+  }
+
+  /**
+   * Distributes a position's fees, then sends the caller everything it can
+   * release in the position's currencies
+   *
+   * @param tokenId - PositionManager token ID
+   * @param options - Transaction options
+   * @returns Promise resolving to the transaction hash
+   */
+  async releaseFees(
+    tokenId: bigint,
+    options?: TransactionOptions
+  ): Promise<Hex> {
+    return this.locker
+      .write('releaseFees', { tokenId }, options)
+      .catch(throwDopplerError);
+  }
+
+  /**
+   * Moves the caller's share of a position's fees, and any fees it has not
+   * released, to a new address. Must be sent by the current beneficiary.
+   *
+   * @param tokenId - PositionManager token ID
+   * @param newBeneficiary - Address that receives the share from now on
+   * @param options - Transaction options
+   * @returns Promise resolving to the transaction hash
+   * @throws {Error} If the new beneficiary is the zero address
+   */
+  async updateBeneficiary(
+    tokenId: bigint,
+    newBeneficiary: Address,
+    options?: TransactionOptions
+  ): Promise<Hex> {
+    if (newBeneficiary === zeroAddress) {
+      throw new Error('New beneficiary cannot be the zero address');
+    }
+    return this.locker
+      .write('updateBeneficiary', { tokenId, newBeneficiary }, options)
+      .catch(throwDopplerError);
+  }
+}
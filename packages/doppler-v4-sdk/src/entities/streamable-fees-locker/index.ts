@@ -0,0 +1,2 @@
+export * from './ReadStreamableFeesLocker';
+export * from './ReadWriteStreamableFeesLocker';
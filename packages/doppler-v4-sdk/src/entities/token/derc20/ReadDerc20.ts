@@ -8,6 +8,8 @@ import {
 } from '@delvtech/drift';
 import { Address } from 'viem';
 import { derc20Abi } from '../../../abis';
+import { computeMintableInflation } from './inflation';
+import { VestingSchedule } from './vesting';
 
 export type Derc20ABI = typeof derc20Abi;
 
@@ -117,6 +119,34 @@ export class ReadDerc20 {
     return this.contract.read('lastMintTimestamp');
   }
 
+  /**
+   * Get the current voting power of an account, including votes delegated
+   * to it
+   * @param account - Address to check voting power for
+   */
+  async getVotes(account: Address): Promise<bigint> {
+    return this.contract.read('getVotes', { account });
+  }
+
+  /**
+   * Get the voting power an account had at a past timepoint
+   * @param account - Address to check voting power for
+   * @param timepoint - Past block number or timestamp, depending on the
+   * token's clock mode
+   */
+  async getPastVotes(account: Address, timepoint: bigint): Promise<bigint> {
+    return this.contract.read('getPastVotes', { account, timepoint });
+  }
+
+  /**
+   * Get the address an account delegates its votes to. Tokens carry no voting
+   * power until delegated, self-delegation included.
+   * @param account - Address to check delegation for
+   */
+  async getDelegates(account: Address): Promise<Address> {
+    return this.contract.read('delegates', { account });
+  }
+
   /**
    * Get detailed vesting information for a specific account
    * @param account - Address to retrieve vesting data for
@@ -129,4 +159,176 @@ export class ReadDerc20 {
   ): Promise<FunctionReturn<Derc20ABI, 'getVestingDataOf'>> {
     return this.contract.read('getVestingDataOf', { account });
   }
+
+  /** Get the owner of the token, which can lock and unlock the pool */
+  async getOwner(): Promise<Address> {
+    return this.contract.read('owner');
+  }
+
+  /**
+   * Get the next permit and delegation signature nonce of an account
+   * @param owner - Address that signs
+   */
+  async getNonces(owner: Address): Promise<bigint> {
+    return this.contract.read('nonces', { owner_: owner });
+  }
+
+  /**
+   * Preview the amount `mintInflation` would mint to the owner
+   * @param timestamp - Timestamp to preview the mint at, in seconds. Defaults
+   * to the latest block
+   * @returns The mintable amount, 0 before the pool is unlocked or when
+   * nothing has accrued
+   */
+  async getMintableInflation(timestamp?: bigint): Promise<bigint> {
+    const [
+      totalSupply,
+      yearlyMintRate,
+      currentYearStart,
+      lastMintTimestamp,
+      block,
+    ] = await Promise.all([
+      this.getTotalSupply(),
+      this.getYearlyMintRate(),
+      this.getCurrentYearStart(),
+      this.getLastMintTimestamp(),
+      timestamp === undefined ? this.contract.client.getBlock() : undefined,
+    ]);
+    const at = timestamp ?? block?.timestamp;
+    if (at === undefined) {
+      throw new Error('Could not read the latest block timestamp');
+    }
+
+    return computeMintableInflation(
+      { totalSupply, yearlyMintRate, currentYearStart, lastMintTimestamp },
+      at
+    );
+  }
+
+  /**
+   * Read the vesting schedule of a set of recipients, to pass to
+   * `buildVestingTimeline` or `planVestingClaims`. Recipients are not
+   * enumerable on-chain, so they come from the launch's vesting config.
+   * The token does not record when its pool was unlocked, so the unlock time
+   * comes from the caller, e.g. the block timestamp of the Airlock's
+   * `Migrate` event for the asset.
+   * @param recipients - Addresses to read allocations for
+   * @param options.claimStart - Timestamp the pool was unlocked at
+   * @returns The schedule, with releases open from the pool unlock or null
+   * while the pool is still locked
+   * @throws {Error} If the pool is unlocked and no claimStart is given
+   */
+  async getVestingSchedule(
+    recipients: Address[],
+    options?: { claimStart?: bigint }
+  ): Promise<VestingSchedule> {
+    const [vestingStart, vestingDuration, isPoolUnlocked, data] =
+      await Promise.all([
+        this.getVestingStart(),
+        this.getVestingDuration(),
+        this.getIsPoolUnlocked(),
+        Promise.all(recipients.map((account) => this.getVestingData(account))),
+      ]);
+
+    const claimStart = options?.claimStart;
+    if (isPoolUnlocked && claimStart === undefined) {
+      throw new Error(
+        'Pool is unlocked, pass the unlock timestamp as claimStart'
+      );
+    }
+
+    return {
+      vestingStart,
+      vestingDuration,
+      claimStart: isPoolUnlocked ? (claimStart ?? null) : null,
+      allocations: recipients.map((recipient, i) => ({
+        recipient,
+        totalAmount: data[i].totalAmount,
+        releasedAmount: data[i].releasedAmount,
+      })),
+    };
+  }
+
+  /**
+   * Build the EIP-2612 permit an owner signs to approve a spender without
+   * sending a transaction
+   * @param params.owner - Address granting the allowance, and signing
+   * @param params.spender - Address allowed to spend
+   * @param params.value - Allowance
+   * @param params.deadline - Timestamp after which the signature is invalid
+   * @returns Typed data to pass to `signTypedData`
+   */
+  async getPermitTypedData({
+    owner,
+    spender,
+    value,
+    deadline,
+  }: {
+    owner: Address;
+    spender: Address;
+    value: bigint;
+    deadline: bigint;
+  }) {
+    const [domain, nonce] = await Promise.all([
+      this.getDomain(),
+      this.getNonces(owner),
+    ]);
+
+    return {
+      domain,
+      types: {
+        Permit: [
+          { name: 'owner', type: 'address' },
+          { name: 'spender', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+      },
+      primaryType: 'Permit',
+      message: { owner, spender, value, nonce, deadline },
+    } as const;
+  }
+
+  /**
+   * Build the delegation a holder signs to delegate its votes without sending
+   * a transaction
+   * @param params.delegator - Address delegating, and signing
+   * @param params.delegatee - Address receiving the votes
+   * @param params.expiry - Timestamp after which the signature is invalid
+   * @returns Typed data to pass to `signTypedData`
+   */
+  async getDelegationTypedData({
+    delegator,
+    delegatee,
+    expiry,
+  }: {
+    delegator: Address;
+    delegatee: Address;
+    expiry: bigint;
+  }) {
+    const [domain, nonce] = await Promise.all([
+      this.getDomain(),
+      this.getNonces(delegator),
+    ]);
+
+    return {
+      domain,
+      types: {
+        Delegation: [
+          { name: 'delegatee', type: 'address' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'expiry', type: 'uint256' },
+        ],
+      },
+      primaryType: 'Delegation',
+      message: { delegatee, nonce, expiry },
+    } as const;
+  }
+
+  private async getDomain() {
+    const { name, version, chainId, verifyingContract } =
+      await this.contract.read('eip712Domain');
+    return { name, version, chainId, verifyingContract };
+  }
 }
@@ -1,2 +1,4 @@
 export * from './ReadDerc20';
 export * from './ReadWriteDerc20';
+export * from './inflation';
+export * from './vesting';
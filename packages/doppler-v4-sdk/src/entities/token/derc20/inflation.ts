@@ -0,0 +1,68 @@
+import { WAD } from '@/constants';
+
+/** Length of an inflation year in DERC20, in seconds */
+export const INFLATION_YEAR_SECONDS = BigInt(365 * 24 * 60 * 60);
+
+/**
+ * DERC20 state that determines how much inflation can be minted
+ */
+export interface InflationState {
+  totalSupply: bigint;
+  /** WAD-scaled share of the supply minted per year */
+  yearlyMintRate: bigint;
+  /** Start of the current inflation year, 0 until the pool is unlocked */
+  currentYearStart: bigint;
+  lastMintTimestamp: bigint;
+}
+
+/**
+ * Computes the amount `mintInflation` would mint at a given time, replaying
+ * the contract's year-by-year compounding
+ *
+ * @param state - Supply, rate and mint timestamps read from the token
+ * @param timestamp - Timestamp to preview the mint at, in seconds
+ * @returns The mintable amount, 0 if minting has not started or nothing has
+ * accrued
+ *
+ * @example
+ * ```typescript
+ * const mintable = computeMintableInflation(
+ *   { totalSupply, yearlyMintRate, currentYearStart, lastMintTimestamp },
+ *   BigInt(Math.floor(Date.now() / 1000))
+ * );
+ * ```
+ */
+export function computeMintableInflation(
+  state: InflationState,
+  timestamp: bigint
+): bigint {
+  const { yearlyMintRate } = state;
+  if (state.currentYearStart === BigInt(0) || yearlyMintRate === BigInt(0)) {
+    return BigInt(0);
+  }
+
+  let supply = state.totalSupply;
+  let currentYearStart = state.currentYearStart;
+  let lastMintTimestamp = state.lastMintTimestamp;
+  let mintable = BigInt(0);
+
+  // Complete years are minted at the supply they started with
+  while (timestamp > currentYearStart + INFLATION_YEAR_SECONDS) {
+    const elapsed =
+      currentYearStart + INFLATION_YEAR_SECONDS - lastMintTimestamp;
+    const yearMint =
+      (supply * yearlyMintRate * elapsed) / (WAD * INFLATION_YEAR_SECONDS);
+    supply += yearMint;
+    mintable += yearMint;
+    currentYearStart += INFLATION_YEAR_SECONDS;
+    lastMintTimestamp = currentYearStart;
+  }
+
+  if (timestamp > lastMintTimestamp) {
+    mintable +=
+      (supply * yearlyMintRate * (timestamp - lastMintTimestamp)) /
+      (WAD * INFLATION_YEAR_SECONDS);
+  }
+
+  return mintable;
+}
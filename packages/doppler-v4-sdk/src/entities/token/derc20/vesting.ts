@@ -0,0 +1,305 @@
+import { Address } from 'viem';
+import { DAY_SECONDS } from '@/constants';
+import { VestingConfig } from '@/entities/factory/types';
+
+/** Spacing of the points in a vesting timeline */
+export type VestingInterval = 'daily' | 'monthly';
+
+/**
+ * Tokens vesting to a single recipient. Recipients listed more than once in
+ * a config are merged, as DERC20 does.
+ */
+export interface VestingAllocation {
+  recipient: Address;
+  totalAmount: bigint;
+  /** Amount already released to the recipient */
+  releasedAmount: bigint;
+}
+
+/**
+ * Everything needed to compute a DERC20 vesting timeline, either planned
+ * from a config or read from a deployed token
+ */
+export interface VestingSchedule {
+  /** Timestamp vesting starts, which is when the token is created */
+  vestingStart: bigint;
+  /** Seconds over which allocations vest linearly */
+  vestingDuration: bigint;
+  /**
+   * Timestamp releases open. DERC20 accrues vesting from creation but only
+   * releases once the pool is unlocked at migration, so this acts as a cliff.
+   * Null when the pool is still locked and the migration time is unknown.
+   */
+  claimStart: bigint | null;
+  allocations: VestingAllocation[];
+}
+
+/**
+ * A recipient's position at one point of a vesting timeline
+ */
+export interface VestingPoint {
+  timestamp: bigint;
+  vested: bigint;
+  unvested: bigint;
+  /** Amount released, capped at the vested amount */
+  claimed: bigint;
+  /** Amount a release at this timestamp would transfer */
+  claimable: bigint;
+}
+
+export interface RecipientVestingTimeline extends VestingAllocation {
+  points: VestingPoint[];
+}
+
+export interface VestingTimelineOptions {
+  /** Point spacing, defaults to monthly */
+  interval?: VestingInterval;
+  /** First point, defaults to the vesting start */
+  from?: bigint;
+  /** Last point, defaults to the later of the vesting end and claim start */
+  to?: bigint;
+}
+
+/**
+ * A planned release and its outcome
+ */
+export interface VestingClaim {
+  timestamp: bigint;
+  /** Amount the release transfers, 0 before releases open */
+  amount: bigint;
+  /** Total released after this claim */
+  releasedAmount: bigint;
+}
+
+/**
+ * Computes the amount vested by a timestamp, matching DERC20's
+ * `computeAvailableVestedAmount` before released tokens are subtracted
+ *
+ * @param totalAmount - Tokens allocated to the recipient
+ * @param vestingStart - Timestamp vesting starts
+ * @param vestingDuration - Vesting length in seconds
+ * @param timestamp - Timestamp to compute the vested amount at
+ */
+export function computeVestedAmount(
+  totalAmount: bigint,
+  vestingStart: bigint,
+  vestingDuration: bigint,
+  timestamp: bigint
+): bigint {
+  if (timestamp < vestingStart) return BigInt(0);
+  if (timestamp >= vestingStart + vestingDuration) return totalAmount;
+  return (totalAmount * (timestamp - vestingStart)) / vestingDuration;
+}
+
+/**
+ * Builds a vesting schedule from a vesting config, for planning before the
+ * token exists. Accepts a `VestingConfig` or a `DopplerPreDeploymentConfig`.
+ *
+ * @param config - Recipients, amounts and vesting duration
+ * @param options.vestingStart - Expected creation timestamp. Defaults to the
+ * config's `blockTimestamp`
+ * @param options.claimStart - Expected migration timestamp, when releases
+ * open. The auction's `endTime` from `buildConfig` is the earliest it can be.
+ * @throws If recipients and amounts differ in length or no start is known
+ *
+ * @example
+ * ```typescript
+ * const { hook } = factory.buildConfig(config, addresses);
+ * const schedule = getVestingScheduleFromConfig(config, {
+ *   claimStart: BigInt(hook.endTime),
+ * });
+ * const timelines = buildVestingTimeline(schedule, { interval: 'monthly' });
+ * ```
+ */
+export function getVestingScheduleFromConfig(
+  config: Pick<VestingConfig, 'vestingDuration' | 'recipients' | 'amounts'> & {
+    blockTimestamp?: number;
+  },
+  options?: { vestingStart?: bigint; claimStart?: bigint }
+): VestingSchedule {
+  const { recipients, amounts, vestingDuration } = config;
+  if (recipients.length !== amounts.length) {
+    throw new Error('Vesting recipients and amounts must be the same length');
+  }
+
+  const vestingStart =
+    options?.vestingStart ??
+    (config.blockTimestamp !== undefined
+      ? BigInt(config.blockTimestamp)
+      : undefined);
+  if (vestingStart === undefined) {
+    throw new Error('Provide a vestingStart or a config blockTimestamp');
+  }
+
+  const totals = new Map<string, VestingAllocation>();
+  recipients.forEach((recipient, i) => {
+    const key = recipient.toLowerCase();
+    const allocation = totals.get(key);
+    if (allocation) {
+      allocation.totalAmount += amounts[i];
+    } else {
+      totals.set(key, {
+        recipient,
+        totalAmount: amounts[i],
+        releasedAmount: BigInt(0),
+      });
+    }
+  });
+
+  return {
+    vestingStart,
+    vestingDuration,
+    claimStart: options?.claimStart ?? null,
+    allocations: Array.from(totals.values()),
+  };
+}
+
+/**
+ * Computes a recipient's vested, claimed and claimable amounts at a
+ * timestamp. The released amount is taken as it is now, so points in the
+ * future show what a single release at that time would transfer.
+ */
+export function computeVestingPoint(
+  schedule: VestingSchedule,
+  allocation: VestingAllocation,
+  timestamp: bigint
+): VestingPoint {
+  const vested = computeVestedAmount(
+    allocation.totalAmount,
+    schedule.vestingStart,
+    schedule.vestingDuration,
+    timestamp
+  );
+  const claimed =
+    allocation.releasedAmount < vested ? allocation.releasedAmount : vested;
+  const isClaimOpen =
+    schedule.claimStart !== null && timestamp >= schedule.claimStart;
+
+  return {
+    timestamp,
+    vested,
+    unvested: allocation.totalAmount - vested,
+    claimed,
+    claimable: isClaimOpen ? vested - claimed : BigInt(0),
+  };
+}
+
+/**
+ * Builds an unlock timeline per recipient, with points at every interval
+ * plus the vesting start, the vesting end and the claim start so charts
+ * show the cliff and the end exactly
+ *
+ * @param schedule - Schedule from `getVestingScheduleFromConfig` or
+ * `ReadDerc20.getVestingSchedule`
+ * @param options - Point spacing and range
+ * @returns One timeline per allocation, points ordered by time
+ */
+export function buildVestingTimeline(
+  schedule: VestingSchedule,
+  options?: VestingTimelineOptions
+): RecipientVestingTimeline[] {
+  const timestamps = getTimelineTimestamps(schedule, options);
+  return schedule.allocations.map((allocation) => ({
+    ...allocation,
+    points: timestamps.map((timestamp) =>
+      computeVestingPoint(schedule, allocation, timestamp)
+    ),
+  }));
+}
+
+/**
+ * Simulates a sequence of releases for one recipient
+ *
+ * @param schedule - Vesting schedule
+ * @param recipient - Recipient releasing
+ * @param timestamps - Times the recipient plans to call `release`
+ * @returns The amount each release transfers. Releases before the claim
+ * start transfer nothing, as DERC20 reverts them.
+ * @throws If the recipient has no allocation
+ *
+ * @example
+ * ```typescript
+ * const quarterly = [0, 1, 2, 3].map((q) => claimStart + BigInt(q * 90 * DAY_SECONDS));
+ * const claims = planVestingClaims(schedule, investor, quarterly);
+ * ```
+ */
+export function planVestingClaims(
+  schedule: VestingSchedule,
+  recipient: Address,
+  timestamps: bigint[]
+): VestingClaim[] {
+  const allocation = schedule.allocations.find(
+    (a) => a.recipient.toLowerCase() === recipient.toLowerCase()
+  );
+  if (!allocation) {
+    throw new Error(`No vesting allocation for ${recipient}`);
+  }
+
+  let releasedAmount = allocation.releasedAmount;
+  return [...timestamps]
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+    .map((timestamp) => {
+      const { claimable } = computeVestingPoint(
+        schedule,
+        { ...allocation, releasedAmount },
+        timestamp
+      );
+      releasedAmount += claimable;
+      return { timestamp, amount: claimable, releasedAmount };
+    });
+}
+
+function getTimelineTimestamps(
+  schedule: VestingSchedule,
+  options?: VestingTimelineOptions
+): bigint[] {
+  const vestingEnd = schedule.vestingStart + schedule.vestingDuration;
+  const from = options?.from ?? schedule.vestingStart;
+  const to =
+    options?.to ??
+    (schedule.claimStart !== null && schedule.claimStart > vestingEnd
+      ? schedule.claimStart
+      : vestingEnd);
+  if (to < from) {
+    throw new Error('Timeline end must not be before its start');
+  }
+
+  const timestamps = new Set<bigint>([from, to]);
+  for (const milestone of [
+    schedule.vestingStart,
+    vestingEnd,
+    schedule.claimStart,
+  ]) {
+    if (milestone !== null && milestone >= from && milestone <= to) {
+      timestamps.add(milestone);
+    }
+  }
+
+  const interval = options?.interval ?? 'monthly';
+  for (let i = 1; ; i++) {
+    const timestamp =
+      interval === 'daily'
+        ? from + BigInt(i * DAY_SECONDS)
+        : addUtcMonths(from, i);
+    if (timestamp >= to) break;
+    timestamps.add(timestamp);
+  }
+
+  return Array.from(timestamps).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+/**
+ * Steps a timestamp by calendar months in UTC, clamping to the last day of
+ * shorter months
+ */
+function addUtcMonths(timestamp: bigint, months: number): bigint {
+  const date = new Date(Number(timestamp) * 1000);
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const daysInMonth = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  date.setUTCDate(Math.min(day, daysInMonth));
+  return BigInt(date.getTime() / 1000);
+}
@@ -3,11 +3,13 @@ import {
   ReadAdapter,
   Drift,
   createDrift,
+  EventLog,
   FunctionReturn,
 } from '@delvtech/drift';
 import { Address, Hex, encodePacked, keccak256 } from 'viem';
 import { poolManagerAbi, stateViewAbi } from '@/abis';
 import { PoolKey } from '@/types';
+import { ChunkedEventsOptions, getEventsInChunks } from '@/utils/events';
 
 type PoolManagerABI = typeof poolManagerAbi;
 type StateViewABI = typeof stateViewAbi;
@@ -213,4 +215,30 @@ export class ReadV4Pool {
     const price = (sqrtPriceX96 * sqrtPriceX96) / (1n << 192n);
     return price;
   }
-}
\ No newline at end of file
+
+  /**
+   * Returns PoolManager Swap events for this pool.
+   * @param options - Additional filters, block range and chunk size
+   */
+  async getSwapEvents(
+    options?: ChunkedEventsOptions<PoolManagerABI, 'Swap'>
+  ): Promise<EventLog<PoolManagerABI, 'Swap'>[]> {
+    return getEventsInChunks(this.poolManager, 'Swap', {
+      ...options,
+      filter: { ...options?.filter, id: this.poolId },
+    });
+  }
+
+  /**
+   * Returns PoolManager ModifyLiquidity events for this pool.
+   * @param options - Additional filters, block range and chunk size
+   */
+  async getModifyLiquidityEvents(
+    options?: ChunkedEventsOptions<PoolManagerABI, 'ModifyLiquidity'>
+  ): Promise<EventLog<PoolManagerABI, 'ModifyLiquidity'>[]> {
+    return getEventsInChunks(this.poolManager, 'ModifyLiquidity', {
+      ...options,
+      filter: { ...options?.filter, id: this.poolId },
+    });
+  }
+}
@@ -4,6 +4,9 @@ export * from './entities/factory';
 export * from './entities/token';
 export * from './entities/quoter';
 export * from './entities/v4pool';
+export * from './entities/streamable-fees-locker';
+export * from './entities/governance';
+export * from './entities/client';
 
 export * from './types';
 export * from './abis';
@@ -12,3 +15,13 @@ export * from './constants';
 
 // V4 Pool utilities
 export * from './utils/v4pool';
+
+// Typed contract errors
+export * from './utils/errors';
+
+// Chunked event queries
+export * from './utils/events';
+
+// Uniswap pool math and the Doppler auction simulator
+export * from './utils/math';
+export * from './utils/auction';
@@ -6,6 +6,7 @@ import {
   WalletClient,
   Hex,
 } from 'viem';
+import { PriceInput } from './utils/math';
 
 export interface Clients {
   publicClient: PublicClient;
@@ -27,6 +28,7 @@ export interface DopplerV4Addresses {
   universalRouter: Address;
   stateView: Address;
   v4Quoter: Address;
+  dopplerLens?: Address;
 }
 
 export interface TokenConfig {
@@ -74,9 +76,24 @@ export interface TickRange {
   endTick: number;
 }
 
+/**
+ * Asset prices the auction starts and ends at, in whole numeraire units per
+ * whole asset. The auction sells downwards, so the start is the higher price.
+ */
 export interface PriceRange {
-  startPrice: number;
-  endPrice: number;
+  startPrice: PriceInput;
+  endPrice: PriceInput;
+}
+
+/**
+ * Fully diluted market caps the auction starts and ends at, in whole
+ * numeraire units, or in USD when `numerairePrice` is set
+ */
+export interface MarketCapRange {
+  startMarketCap: PriceInput;
+  endMarketCap: PriceInput;
+  /** USD price of one whole numeraire */
+  numerairePrice?: PriceInput;
 }
 
 export interface DopplerPreDeploymentConfig {
@@ -89,14 +106,19 @@ export interface DopplerPreDeploymentConfig {
 
   // Time parameters
   blockTimestamp: number;
-  startTimeOffset: number; // in days from now
-  duration: number; // in days
+  startTimeOffset?: number; // in days from blockTimestamp
+  startTime?: number; // unix timestamp in seconds, alternative to startTimeOffset
+  duration?: number; // in days
+  durationSeconds?: number; // alternative to duration
+  endTime?: number; // unix timestamp in seconds, alternative to duration
   epochLength: number; // in seconds
 
   // Price parameters
   numeraire?: Address; // defaults to native if unset
+  numeraireDecimals?: number; // defaults to 18
   tickRange?: TickRange;
   priceRange?: PriceRange;
+  marketCapRange?: MarketCapRange;
   tickSpacing: number;
   gamma?: number; // allow gamma to be passed directly instead of computed
   fee: number; // In bips
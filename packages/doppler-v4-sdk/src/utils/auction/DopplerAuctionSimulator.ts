@@ -0,0 +1,900 @@
+import { decodeAbiParameters, Hex } from 'viem';
+import { WAD } from '@/constants';
+import { DopplerData } from '@/entities/factory/types';
+import {
+  computeSwapStep,
+  getAmount0Delta,
+  getAmount1Delta,
+  getLiquidityForAmount0,
+  getLiquidityForAmount1,
+  getSqrtPriceAtTick,
+  getTickAtSqrtPrice,
+  MAX_SQRT_PRICE,
+  MAX_SWAP_FEE,
+  MIN_SQRT_PRICE,
+  mulDiv,
+  Q96,
+  sqrt,
+} from '@/utils/math';
+import {
+  AuctionRebalance,
+  AuctionSimulationConfig,
+  AuctionSimulationOptions,
+  AuctionSimulationResult,
+  AuctionSlugs,
+  AuctionStatus,
+  AuctionTickPoint,
+  AuctionTrade,
+  AuctionTradeRejection,
+  AuctionTradeResult,
+  SlugPosition,
+} from './types';
+
+/**
+ * A slug as the hook computes it: `tickLower` is the end nearest the current
+ * price, so for token1 assets `tickLower > tickUpper`
+ */
+interface Slug {
+  tickLower: number;
+  tickUpper: number;
+  liquidity: bigint;
+}
+
+const emptySlug = (tick: number): Slug => ({
+  tickLower: tick,
+  tickUpper: tick,
+  liquidity: 0n,
+});
+
+const toPosition = ({ tickLower, tickUpper, liquidity }: Slug): SlugPosition =>
+  tickLower <= tickUpper
+    ? { tickLower, tickUpper, liquidity }
+    : { tickLower: tickUpper, tickUpper: tickLower, liquidity };
+
+/**
+ * Off-chain model of a Doppler dutch auction.
+ *
+ * Mirrors the hook's rebalancing: on the first swap of each epoch the tick
+ * accumulator moves according to how many tokens were sold against the
+ * schedule, and the lower, upper and price discovery slugs are recomputed from
+ * the totals sold and raised. Swaps run through those slugs with Uniswap's
+ * exact swap math and the pool's LP fee. Proceeds are tracked net of fees, as
+ * in the hook.
+ *
+ * The model is deterministic and needs no RPC, so launch parameters can be
+ * tuned in unit tests. Trades stop when they run out of liquidity instead of
+ * pushing the price to the tick bounds.
+ *
+ * @example
+ * ```typescript
+ * const simulator = DopplerAuctionSimulator.fromCreateParams(createParams);
+ *
+ * simulator.swap({ timestamp: start + 600n, side: 'buy', amount: parseEther('1') });
+ * simulator.swap({ timestamp: start + 4000n, side: 'sell', amount: parseEther('1000') });
+ *
+ * const { status, tickPath, totalProceeds } = simulator.getResult();
+ * ```
+ */
+export class DopplerAuctionSimulator {
+  readonly config: AuctionSimulationConfig;
+  private readonly rebalanceEveryEpoch: boolean;
+
+  private now: bigint;
+  private lastEpoch = 0;
+  private tickAccumulator = 0n;
+  private totalTokensSold = 0n;
+  private totalTokensSoldLastEpoch = 0n;
+  private totalProceeds = 0n;
+  private earlyExit = false;
+  private insufficientProceeds = false;
+
+  private sqrtPriceX96: bigint;
+  private tick: number;
+  private lowerSlug: Slug;
+  private upperSlug: Slug;
+  private priceDiscoverySlugs: Slug[] = [];
+
+  private readonly tickPath: AuctionTickPoint[] = [];
+  private readonly rebalances: AuctionRebalance[] = [];
+  private readonly trades: AuctionTradeResult[] = [];
+
+  /**
+   * @param config - Hook parameters and the number of tokens to sell
+   * @param options - Set rebalanceEveryEpoch to model a keeper poking the
+   * pool every epoch
+   * @throws {Error} When the parameters would be rejected by the hook
+   */
+  constructor(
+    config: AuctionSimulationConfig,
+    options: Pick<AuctionSimulationOptions, 'rebalanceEveryEpoch'> = {}
+  ) {
+    validateConfig(config);
+    this.config = config;
+    this.rebalanceEveryEpoch = options.rebalanceEveryEpoch ?? false;
+
+    // The pool is initialized at the starting tick before the sale begins
+    this.now = config.startingTime;
+    this.tick = config.startingTick;
+    this.sqrtPriceX96 = getSqrtPriceAtTick(config.startingTick);
+    this.lowerSlug = emptySlug(this.tick);
+    this.upperSlug = emptySlug(this.tick);
+
+    const [tickLower, tickUpper] = this.getTicksBasedOnState(0n);
+    this.placeSlugs(this.tick, tickLower, tickUpper);
+    this.tickPath.push({
+      timestamp: this.now,
+      epoch: this.getCurrentEpoch(),
+      tick: this.tick,
+      cause: 'initialize',
+    });
+  }
+
+  /**
+   * Creates a simulator from the create params returned by buildConfig
+   * @param createParams - Encoded pool initializer data and tokens to sell
+   * @param options - Simulation options
+   */
+  static fromCreateParams(
+    createParams: { poolInitializerData: Hex; numTokensToSell: bigint },
+    options?: Pick<AuctionSimulationOptions, 'rebalanceEveryEpoch'>
+  ): DopplerAuctionSimulator {
+    return new DopplerAuctionSimulator(
+      {
+        ...decodeDopplerData(createParams.poolInitializerData),
+        numTokensToSell: createParams.numTokensToSell,
+      },
+      options
+    );
+  }
+
+  /**
+   * Replays a swap against the pool, rebalancing first if it is the first
+   * swap of a new epoch
+   * @param trade - The swap to replay. Trades must be in timestamp order.
+   * @returns What the swap filled, or why the hook would have reverted it
+   * @throws {Error} If the trade is earlier than the previous one
+   */
+  swap(trade: AuctionTrade): AuctionTradeResult {
+    this.advanceTo(trade.timestamp);
+
+    const rejection = this.beforeSwap(trade);
+    const tickBefore = this.tick;
+    if (rejection) {
+      const result: AuctionTradeResult = {
+        trade,
+        epoch: this.getCurrentEpoch(),
+        filled: false,
+        rejection,
+        amountIn: 0n,
+        amountOut: 0n,
+        feeAmount: 0n,
+        tickBefore,
+        tickAfter: this.tick,
+      };
+      this.trades.push(result);
+      return result;
+    }
+
+    const { isToken0, fee, maximumProceeds } = this.config;
+    const isBuy = trade.side === 'buy';
+    const exactIn = trade.exactIn ?? true;
+    const { amountIn, amountOut, feeAmount } = this.executeSwap(
+      isToken0 ? !isBuy : isBuy,
+      exactIn ? trade.amount : -trade.amount
+    );
+
+    if (isBuy) {
+      this.totalTokensSold += amountOut;
+      this.totalProceeds += mulDiv(
+        amountIn,
+        MAX_SWAP_FEE - BigInt(fee),
+        MAX_SWAP_FEE
+      );
+    } else {
+      this.totalTokensSold -= amountIn;
+      this.totalProceeds -= amountOut;
+    }
+
+    if (!this.insufficientProceeds && this.totalProceeds >= maximumProceeds) {
+      this.earlyExit = true;
+    }
+
+    const result: AuctionTradeResult = {
+      trade,
+      epoch: this.getCurrentEpoch(),
+      filled: amountIn > 0n || amountOut > 0n,
+      amountIn,
+      amountOut,
+      feeAmount,
+      tickBefore,
+      tickAfter: this.tick,
+    };
+    this.trades.push(result);
+    this.tickPath.push({
+      timestamp: this.now,
+      epoch: result.epoch,
+      tick: this.tick,
+      cause: 'swap',
+    });
+    return result;
+  }
+
+  /**
+   * Summarizes the auction
+   * @param until - Time at which to report the status. Defaults to the later
+   * of the last trade and endingTime.
+   */
+  getResult(until?: bigint): AuctionSimulationResult {
+    const { startingTime, endingTime, minimumProceeds } = this.config;
+    const at = until ?? (this.now > endingTime ? this.now : endingTime);
+
+    const ended = at >= endingTime;
+    const insufficientProceeds =
+      this.insufficientProceeds ||
+      (ended && !this.earlyExit && this.totalProceeds < minimumProceeds);
+
+    let status: AuctionStatus;
+    if (this.earlyExit) status = 'earlyExit';
+    else if (insufficientProceeds) status = 'insufficientProceeds';
+    else if (ended) status = 'completed';
+    else if (at < startingTime) status = 'pending';
+    else status = 'active';
+
+    return {
+      status,
+      earlyExit: this.earlyExit,
+      insufficientProceeds,
+      totalTokensSold: this.totalTokensSold,
+      totalProceeds: this.totalProceeds,
+      averageClearingPriceX96:
+        this.totalTokensSold > 0n
+          ? mulDiv(this.totalProceeds, Q96, this.totalTokensSold)
+          : 0n,
+      tick: this.tick,
+      tickPath: [...this.tickPath],
+      rebalances: [...this.rebalances],
+      trades: [...this.trades],
+      slugs: this.getSlugs(),
+    };
+  }
+
+  /**
+   * Current slug positions, with ticks sorted ascending
+   */
+  getSlugs(): AuctionSlugs {
+    return {
+      lowerSlug: toPosition(this.lowerSlug),
+      upperSlug: toPosition(this.upperSlug),
+      priceDiscoverySlugs: this.priceDiscoverySlugs.map(toPosition),
+    };
+  }
+
+  /**
+   * Moves the clock forward, rebalancing at each epoch start on the way if
+   * rebalanceEveryEpoch is set. Later trades must not be earlier than this.
+   * @param timestamp - The new current time
+   * @throws {Error} If the timestamp is earlier than the current time
+   */
+  advanceTo(timestamp: bigint) {
+    if (timestamp < this.now) {
+      throw new Error(
+        `Trades must be in timestamp order (${timestamp} is before ${this.now})`
+      );
+    }
+
+    const { startingTime, endingTime, epochLength } = this.config;
+    if (this.rebalanceEveryEpoch) {
+      while (!this.earlyExit && !this.insufficientProceeds) {
+        const nextEpochStart = startingTime + BigInt(this.lastEpoch) * epochLength;
+        if (nextEpochStart > timestamp || nextEpochStart >= endingTime) break;
+        this.now = nextEpochStart;
+        this.rebalance();
+      }
+    }
+    this.now = timestamp;
+  }
+
+  /**
+   * The hook's beforeSwap checks, including the once-per-epoch rebalance
+   */
+  private beforeSwap(trade: AuctionTrade): AuctionTradeRejection | undefined {
+    const { startingTime, endingTime, minimumProceeds } = this.config;
+
+    if (this.now < startingTime) return 'CannotSwapBeforeStartTime';
+    if (this.earlyExit) return 'MaximumProceedsReached';
+
+    if (this.now >= endingTime && !this.insufficientProceeds) {
+      if (this.totalProceeds >= minimumProceeds) return 'SwapAfterEnd';
+      this.enterInsufficientProceeds();
+    } else if (
+      !this.insufficientProceeds &&
+      this.getCurrentEpoch() > this.lastEpoch
+    ) {
+      this.rebalance();
+    }
+
+    if (this.insufficientProceeds && trade.side === 'buy') {
+      return 'InvalidSwapAfterMaturityInsufficientProceeds';
+    }
+  }
+
+  private rebalance() {
+    const { startingTick, gamma, tickSpacing, isToken0 } = this.config;
+    const currentEpoch = this.getCurrentEpoch();
+    const epochsPassed = currentEpoch - this.lastEpoch;
+    this.lastEpoch = currentEpoch;
+
+    const totalTokensSold = this.totalTokensSold;
+    const expectedAmountSold = this.getExpectedAmountSoldWithEpochOffset(0);
+    const netSold = totalTokensSold - this.totalTokensSoldLastEpoch;
+    this.totalTokensSoldLastEpoch = totalTokensSold;
+
+    let accumulatorDelta: bigint;
+    if (netSold <= 0n) {
+      // Nothing sold last epoch: drop the price as far as allowed
+      accumulatorDelta = this.getMaxTickDeltaPerEpoch() * BigInt(epochsPassed);
+    } else if (totalTokensSold <= expectedAmountSold) {
+      // Behind schedule: drop the price in proportion to the shortfall
+      accumulatorDelta =
+        (this.getMaxTickDeltaPerEpoch() *
+          (WAD - mulDiv(totalTokensSold, WAD, expectedAmountSold))) /
+        WAD;
+    } else {
+      // Ahead of schedule: follow the market up to where it traded
+      const tauTick = startingTick + Number(this.tickAccumulator / WAD);
+      const computedRange = Number((this.getGammaShare() * BigInt(gamma)) / WAD);
+      const upperSlugRange = Math.max(computedRange, tickSpacing);
+      const expectedTick = this.alignTick(
+        isToken0 ? tauTick + upperSlugRange : tauTick - upperSlugRange
+      );
+      accumulatorDelta = BigInt(this.tick - expectedTick) * WAD;
+    }
+    this.tickAccumulator += accumulatorDelta;
+
+    const currentTick = this.alignTick(
+      this.upperSlug.tickLower + Number(accumulatorDelta / WAD)
+    );
+    const [tickLower, tickUpper] = this.getTicksBasedOnState(
+      this.tickAccumulator
+    );
+
+    this.placeSlugs(currentTick, tickLower, tickUpper);
+    this.rebalances.push({
+      epoch: currentEpoch,
+      timestamp: this.now,
+      tick: this.tick,
+      tickAccumulator: this.tickAccumulator,
+      totalTokensSold,
+      totalProceeds: this.totalProceeds,
+      expectedAmountSold,
+      slugs: this.getSlugs(),
+    });
+    this.tickPath.push({
+      timestamp: this.now,
+      epoch: currentEpoch,
+      tick: this.tick,
+      cause: 'rebalance',
+    });
+  }
+
+  /**
+   * After the sale ends below minimumProceeds, all proceeds move into one
+   * lower slug at the average clearing price so buyers can sell back
+   */
+  private enterInsufficientProceeds() {
+    this.insufficientProceeds = true;
+
+    const lowerSlug =
+      this.totalTokensSold > 0n && this.totalProceeds > 0n
+        ? this.computeAverageClearingPriceSlug()
+        : emptySlug(this.tick);
+
+    this.lowerSlug = lowerSlug;
+    this.upperSlug = emptySlug(lowerSlug.tickUpper);
+    this.priceDiscoverySlugs = [];
+    this.setTick(lowerSlug.tickUpper);
+    this.tickPath.push({
+      timestamp: this.now,
+      epoch: this.getCurrentEpoch(),
+      tick: this.tick,
+      cause: 'insufficientProceeds',
+    });
+  }
+
+  private placeSlugs(currentTick: number, tickLower: number, tickUpper: number) {
+    const { isToken0, tickSpacing, numTokensToSell } = this.config;
+
+    // The lower slug needs a non-empty range below the current tick
+    if (currentTick === tickLower) {
+      tickLower = isToken0 ? tickLower - tickSpacing : tickLower + tickSpacing;
+    }
+
+    const requiredProceeds =
+      this.totalTokensSold > 0n
+        ? this.computeRequiredProceeds(
+            getSqrtPriceAtTick(tickLower),
+            getSqrtPriceAtTick(currentTick),
+            this.totalTokensSold
+          )
+        : 0n;
+    this.lowerSlug = this.computeLowerSlug(
+      requiredProceeds,
+      tickLower,
+      currentTick
+    );
+
+    const assetAvailable =
+      numTokensToSell > this.totalTokensSold
+        ? numTokensToSell - this.totalTokensSold
+        : 0n;
+    const [upperSlug, assetRemaining] = this.computeUpperSlug(
+      currentTick,
+      assetAvailable
+    );
+    this.upperSlug = upperSlug;
+    this.priceDiscoverySlugs = this.computePriceDiscoverySlugs(
+      tickUpper,
+      assetRemaining
+    );
+
+    this.setTick(currentTick);
+  }
+
+  private computeLowerSlug(
+    requiredProceeds: bigint,
+    tickLower: number,
+    currentTick: number
+  ): Slug {
+    if (this.totalTokensSold <= 0n || this.totalProceeds <= 0n) {
+      return emptySlug(currentTick);
+    }
+
+    // Not enough proceeds to buy back every token sold along the curve, so
+    // concentrate them at the average clearing price instead
+    if (requiredProceeds > this.totalProceeds) {
+      return this.computeAverageClearingPriceSlug();
+    }
+
+    return {
+      tickLower,
+      tickUpper: currentTick,
+      liquidity: this.computeLiquidity(
+        !this.config.isToken0,
+        tickLower,
+        currentTick,
+        this.totalProceeds
+      ),
+    };
+  }
+
+  private computeAverageClearingPriceSlug(): Slug {
+    const { isToken0, tickSpacing } = this.config;
+    const targetPriceX96 = isToken0
+      ? mulDiv(this.totalProceeds, Q96, this.totalTokensSold)
+      : mulDiv(this.totalTokensSold, Q96, this.totalProceeds);
+
+    let sqrtPriceX96 = sqrt(targetPriceX96) << 48n;
+    if (sqrtPriceX96 < MIN_SQRT_PRICE) sqrtPriceX96 = MIN_SQRT_PRICE;
+    if (sqrtPriceX96 >= MAX_SQRT_PRICE) sqrtPriceX96 = MAX_SQRT_PRICE - 1n;
+
+    const tickUpper = this.alignTick(getTickAtSqrtPrice(sqrtPriceX96));
+    const tickLower = isToken0
+      ? tickUpper - tickSpacing
+      : tickUpper + tickSpacing;
+    return {
+      tickLower,
+      tickUpper,
+      liquidity: this.computeLiquidity(
+        !isToken0,
+        tickLower,
+        tickUpper,
+        this.totalProceeds
+      ),
+    };
+  }
+
+  private computeUpperSlug(
+    currentTick: number,
+    assetAvailable: bigint
+  ): [Slug, bigint] {
+    const { isToken0, gamma, tickSpacing } = this.config;
+    const tokensSoldDelta =
+      this.getExpectedAmountSoldWithEpochOffset(1) - this.totalTokensSold;
+
+    if (tokensSoldDelta <= 0n) {
+      return [emptySlug(currentTick), assetAvailable];
+    }
+
+    const tokensToLp =
+      tokensSoldDelta > assetAvailable ? assetAvailable : tokensSoldDelta;
+    const computedDelta = Number((this.getGammaShare() * BigInt(gamma)) / WAD);
+    const range = Math.max(computedDelta, tickSpacing);
+    const tickUpper = this.alignTick(
+      isToken0 ? currentTick + range : currentTick - range
+    );
+
+    return [
+      {
+        tickLower: currentTick,
+        tickUpper,
+        liquidity: this.computeLiquidity(
+          isToken0,
+          currentTick,
+          tickUpper,
+          tokensToLp
+        ),
+      },
+      assetAvailable - tokensToLp,
+    ];
+  }
+
+  private computePriceDiscoverySlugs(
+    tickUpper: number,
+    assetAvailable: bigint
+  ): Slug[] {
+    const { isToken0, numTokensToSell } = this.config;
+    const numPDSlugs = Number(this.config.numPDSlugs);
+
+    let epochEndTime = this.getEpochEndWithOffset(0);
+    let nextEpochEndTime = this.getEpochEndWithOffset(1);
+
+    // No price discovery on the final epoch
+    if (nextEpochEndTime === epochEndTime) return [];
+
+    // Only place slugs for epochs that exist
+    let pdSlugsToLp = numPDSlugs;
+    for (let i = numPDSlugs; i > 0; i--) {
+      if (this.getEpochEndWithOffset(i - 1) !== this.getEpochEndWithOffset(i)) {
+        break;
+      }
+      pdSlugsToLp--;
+    }
+
+    const slugRangeDelta = Math.trunc(
+      (tickUpper - this.upperSlug.tickUpper) / pdSlugsToLp
+    );
+
+    const slugs: Slug[] = [];
+    for (let i = 0; i < pdSlugsToLp; i++) {
+      let tokensToLp = mulDiv(
+        this.getNormalizedTimeElapsed(nextEpochEndTime) -
+          this.getNormalizedTimeElapsed(epochEndTime),
+        numTokensToSell,
+        WAD
+      );
+      if (tokensToLp > assetAvailable) tokensToLp = assetAvailable;
+      assetAvailable -= tokensToLp;
+
+      const slugLower = i === 0 ? this.upperSlug.tickUpper : slugs[i - 1].tickUpper;
+      const slugUpper = this.alignTick(slugLower + slugRangeDelta);
+      slugs.push({
+        tickLower: slugLower,
+        tickUpper: slugUpper,
+        liquidity: this.computeLiquidity(isToken0, slugLower, slugUpper, tokensToLp),
+      });
+
+      epochEndTime = nextEpochEndTime;
+      nextEpochEndTime = this.getEpochEndWithOffset(i + 2);
+    }
+    return slugs;
+  }
+
+  /**
+   * Numeraire needed to buy back `amount` tokens spread between two prices
+   */
+  private computeRequiredProceeds(
+    sqrtPriceLowerX96: bigint,
+    sqrtPriceUpperX96: bigint,
+    amount: bigint
+  ): bigint {
+    if (this.config.isToken0) {
+      const liquidity = getLiquidityForAmount0(
+        sqrtPriceLowerX96,
+        sqrtPriceUpperX96,
+        amount
+      );
+      return getAmount1Delta(sqrtPriceLowerX96, sqrtPriceUpperX96, liquidity, true);
+    }
+    const liquidity = getLiquidityForAmount1(
+      sqrtPriceLowerX96,
+      sqrtPriceUpperX96,
+      amount
+    );
+    return getAmount0Delta(sqrtPriceLowerX96, sqrtPriceUpperX96, liquidity, true);
+  }
+
+  private computeLiquidity(
+    forToken0: boolean,
+    tickA: number,
+    tickB: number,
+    amount: bigint
+  ): bigint {
+    if (tickA === tickB || amount <= 0n) return 0n;
+    // The hook subtracts 1 to avoid rounding errors
+    const amountLessOne = amount - 1n;
+    const sqrtPriceA = getSqrtPriceAtTick(tickA);
+    const sqrtPriceB = getSqrtPriceAtTick(tickB);
+    return forToken0
+      ? getLiquidityForAmount0(sqrtPriceA, sqrtPriceB, amountLessOne)
+      : getLiquidityForAmount1(sqrtPriceA, sqrtPriceB, amountLessOne);
+  }
+
+  /**
+   * Runs a swap through the slugs, tick by tick, stopping early if the swap
+   * runs out of liquidity
+   */
+  private executeSwap(
+    zeroForOne: boolean,
+    amountSpecified: bigint
+  ): { amountIn: bigint; amountOut: bigint; feeAmount: bigint } {
+    const exactIn = amountSpecified > 0n;
+    const liquidityNet = new Map<number, bigint>();
+    let liquidity = 0n;
+    for (const slug of [
+      this.lowerSlug,
+      this.upperSlug,
+      ...this.priceDiscoverySlugs,
+    ]) {
+      const { tickLower, tickUpper, liquidity: slugLiquidity } = toPosition(slug);
+      if (slugLiquidity === 0n || tickLower === tickUpper) continue;
+      liquidityNet.set(tickLower, (liquidityNet.get(tickLower) ?? 0n) + slugLiquidity);
+      liquidityNet.set(tickUpper, (liquidityNet.get(tickUpper) ?? 0n) - slugLiquidity);
+      if (tickLower <= this.tick && this.tick < tickUpper) {
+        liquidity += slugLiquidity;
+      }
+    }
+    const ticks = [...liquidityNet.keys()].sort((a, b) => a - b);
+
+    let amountRemaining = amountSpecified;
+    let amountIn = 0n;
+    let amountOut = 0n;
+    let feeAmount = 0n;
+
+    while (amountRemaining !== 0n) {
+      const tickNext = zeroForOne
+        ? [...ticks].reverse().find((tick) => tick <= this.tick)
+        : ticks.find((tick) => tick > this.tick);
+      if (tickNext === undefined) break;
+
+      const sqrtPriceTargetX96 = getSqrtPriceAtTick(tickNext);
+      const step = computeSwapStep(
+        this.sqrtPriceX96,
+        sqrtPriceTargetX96,
+        liquidity,
+        amountRemaining,
+        this.config.fee
+      );
+
+      amountIn += step.amountIn + step.feeAmount;
+      amountOut += step.amountOut;
+      feeAmount += step.feeAmount;
+      amountRemaining = exactIn
+        ? amountRemaining - step.amountIn - step.feeAmount
+        : amountRemaining + step.amountOut;
+      this.sqrtPriceX96 = step.sqrtPriceNextX96;
+
+      if (step.sqrtPriceNextX96 === sqrtPriceTargetX96) {
+        const net = liquidityNet.get(tickNext) ?? 0n;
+        if (zeroForOne) {
+          liquidity -= net;
+          this.tick = tickNext - 1;
+        } else {
+          liquidity += net;
+          this.tick = tickNext;
+        }
+      } else {
+        this.tick = getTickAtSqrtPrice(step.sqrtPriceNextX96);
+      }
+    }
+
+    return { amountIn, amountOut, feeAmount };
+  }
+
+  private setTick(tick: number) {
+    this.tick = tick;
+    this.sqrtPriceX96 = getSqrtPriceAtTick(tick);
+  }
+
+  private getTicksBasedOnState(accumulator: bigint): [number, number] {
+    const { startingTick, gamma, isToken0 } = this.config;
+    const lower = this.alignTick(startingTick + Number(accumulator / WAD));
+    return [lower, isToken0 ? lower + gamma : lower - gamma];
+  }
+
+  /**
+   * Rounds down for token0 assets and up for token1 assets, as the hook does
+   */
+  private alignTick(tick: number): number {
+    const { tickSpacing, isToken0 } = this.config;
+    if (isToken0) {
+      return tick < 0
+        ? Math.trunc((tick - tickSpacing + 1) / tickSpacing) * tickSpacing
+        : Math.trunc(tick / tickSpacing) * tickSpacing;
+    }
+    return tick < 0
+      ? Math.trunc(tick / tickSpacing) * tickSpacing
+      : Math.trunc((tick + tickSpacing - 1) / tickSpacing) * tickSpacing;
+  }
+
+  /**
+   * 1-indexed epoch of the current time
+   */
+  private getCurrentEpoch(): number {
+    const { startingTime, epochLength } = this.config;
+    if (this.now < startingTime) return 1;
+    return Number((this.now - startingTime) / epochLength) + 1;
+  }
+
+  private getNormalizedTimeElapsed(timestamp: bigint): bigint {
+    const { startingTime, endingTime } = this.config;
+    const capped = timestamp > endingTime ? endingTime : timestamp;
+    return ((capped - startingTime) * WAD) / (endingTime - startingTime);
+  }
+
+  private getExpectedAmountSoldWithEpochOffset(offset: number): bigint {
+    const { startingTime, epochLength, numTokensToSell } = this.config;
+    const timestamp =
+      BigInt(this.getCurrentEpoch() + offset - 1) * epochLength + startingTime;
+    return mulDiv(
+      this.getNormalizedTimeElapsed(timestamp),
+      numTokensToSell,
+      WAD
+    );
+  }
+
+  private getMaxTickDeltaPerEpoch(): bigint {
+    const { startingTick, endingTick, startingTime, endingTime, epochLength } =
+      this.config;
+    return (
+      (BigInt(endingTick - startingTick) * WAD) /
+      ((endingTime - startingTime) / epochLength)
+    );
+  }
+
+  private getGammaShare(): bigint {
+    const { startingTime, endingTime, epochLength } = this.config;
+    return (epochLength * WAD) / (endingTime - startingTime);
+  }
+
+  private getEpochEndWithOffset(offset: number): bigint {
+    const { startingTime, endingTime, epochLength } = this.config;
+    const epochEndTime =
+      BigInt(this.getCurrentEpoch() + offset) * epochLength + startingTime;
+    return epochEndTime > endingTime ? endingTime : epochEndTime;
+  }
+}
+
+/**
+ * Replays trades against a fresh simulator
+ *
+ * @param config - Hook parameters and the number of tokens to sell
+ * @param trades - Swaps to replay, sorted by timestamp before replaying
+ * @param options - Keeper rebalancing and the time to report the status at
+ * @returns Tick path, slugs, totals and the auction outcome
+ *
+ * @example
+ * ```typescript
+ * const result = simulateDopplerAuction(config, [
+ *   { timestamp: start + 60n, side: 'buy', amount: parseEther('0.5') },
+ *   { timestamp: start + 7200n, side: 'buy', amount: parseEther('2') },
+ * ]);
+ *
+ * expect(result.status).toBe('completed');
+ * ```
+ */
+export function simulateDopplerAuction(
+  config: AuctionSimulationConfig,
+  trades: AuctionTrade[],
+  options: AuctionSimulationOptions = {}
+): AuctionSimulationResult {
+  const simulator = new DopplerAuctionSimulator(config, options);
+  const sorted = [...trades].sort((a, b) =>
+    a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0
+  );
+  for (const trade of sorted) {
+    simulator.swap(trade);
+  }
+
+  const until = options.until ?? config.endingTime;
+  const lastTimestamp = sorted.length
+    ? sorted[sorted.length - 1].timestamp
+    : config.startingTime;
+  if (until > lastTimestamp) {
+    simulator.advanceTo(until);
+  }
+  return simulator.getResult(until);
+}
+
+/**
+ * Decodes the Doppler pool initializer data produced by buildConfig
+ * @param poolInitializerData - ABI-encoded hook parameters
+ * @returns The decoded hook parameters
+ */
+export function decodeDopplerData(poolInitializerData: Hex): DopplerData {
+  const [
+    minimumProceeds,
+    maximumProceeds,
+    startingTime,
+    endingTime,
+    startingTick,
+    endingTick,
+    epochLength,
+    gamma,
+    isToken0,
+    numPDSlugs,
+    fee,
+    tickSpacing,
+  ] = decodeAbiParameters(
+    [
+      { type: 'uint256' },
+      { type: 'uint256' },
+      { type: 'uint256' },
+      { type: 'uint256' },
+      { type: 'int24' },
+      { type: 'int24' },
+      { type: 'uint256' },
+      { type: 'int24' },
+      { type: 'bool' },
+      { type: 'uint256' },
+      { type: 'uint24' },
+      { type: 'int24' },
+    ],
+    poolInitializerData
+  );
+
+  return {
+    minimumProceeds,
+    maximumProceeds,
+    startingTime,
+    endingTime,
+    startingTick,
+    endingTick,
+    epochLength,
+    gamma,
+    isToken0,
+    numPDSlugs,
+    fee,
+    tickSpacing,
+  };
+}
+
+function validateConfig(config: AuctionSimulationConfig) {
+  const {
+    startingTick,
+    endingTick,
+    startingTime,
+    endingTime,
+    epochLength,
+    gamma,
+    tickSpacing,
+    isToken0,
+    numPDSlugs,
+    numTokensToSell,
+  } = config;
+
+  if (isToken0 && startingTick <= endingTick) {
+    throw new Error(
+      'Starting tick must be above the ending tick when the asset is token0'
+    );
+  }
+  if (!isToken0 && startingTick >= endingTick) {
+    throw new Error(
+      'Starting tick must be below the ending tick when the asset is token1'
+    );
+  }
+  if (endingTime <= startingTime) {
+    throw new Error('Ending time must be after starting time');
+  }
+  if (epochLength <= 0n || (endingTime - startingTime) % epochLength !== 0n) {
+    throw new Error('Epoch length must divide total duration evenly');
+  }
+  if (tickSpacing <= 0 || gamma <= 0 || gamma % tickSpacing !== 0) {
+    throw new Error('Gamma must be a positive multiple of tick spacing');
+  }
+  if (numPDSlugs < 1n) {
+    throw new Error('At least one price discovery slug is required');
+  }
+  if (numTokensToSell <= 0n) {
+    throw new Error('Number of tokens to sell must be positive');
+  }
+}
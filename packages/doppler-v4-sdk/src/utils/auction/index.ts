@@ -0,0 +1,2 @@
+export * from './DopplerAuctionSimulator';
+export * from './types';
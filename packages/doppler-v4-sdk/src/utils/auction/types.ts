@@ -0,0 +1,109 @@
+import { DopplerData } from '@/entities/factory/types';
+
+/**
+ * Doppler hook parameters plus the number of tokens the hook starts with
+ */
+export interface AuctionSimulationConfig extends DopplerData {
+  numTokensToSell: bigint;
+}
+
+/**
+ * A hypothetical swap against the Doppler pool. Buys spend numeraire for the
+ * asset, sells spend the asset for numeraire.
+ */
+export interface AuctionTrade {
+  timestamp: bigint;
+  side: 'buy' | 'sell';
+  /** Amount of the input token when exactIn, otherwise of the output token */
+  amount: bigint;
+  /** Defaults to true */
+  exactIn?: boolean;
+}
+
+/**
+ * Why the hook would have reverted a trade
+ */
+export type AuctionTradeRejection =
+  | 'CannotSwapBeforeStartTime'
+  | 'MaximumProceedsReached'
+  | 'SwapAfterEnd'
+  | 'InvalidSwapAfterMaturityInsufficientProceeds';
+
+export interface AuctionTradeResult {
+  trade: AuctionTrade;
+  epoch: number;
+  filled: boolean;
+  rejection?: AuctionTradeRejection;
+  amountIn: bigint;
+  amountOut: bigint;
+  /** LP fee paid, in the input token */
+  feeAmount: bigint;
+  /** Pool tick once any rebalance triggered by this trade has run */
+  tickBefore: number;
+  tickAfter: number;
+}
+
+export interface SlugPosition {
+  tickLower: number;
+  tickUpper: number;
+  liquidity: bigint;
+}
+
+export interface AuctionSlugs {
+  lowerSlug: SlugPosition;
+  upperSlug: SlugPosition;
+  priceDiscoverySlugs: SlugPosition[];
+}
+
+export interface AuctionRebalance {
+  epoch: number;
+  timestamp: bigint;
+  /** Pool tick after the hook moved the price */
+  tick: number;
+  tickAccumulator: bigint;
+  totalTokensSold: bigint;
+  totalProceeds: bigint;
+  /** Tokens the schedule expects sold by the start of this epoch */
+  expectedAmountSold: bigint;
+  slugs: AuctionSlugs;
+}
+
+export interface AuctionTickPoint {
+  timestamp: bigint;
+  epoch: number;
+  tick: number;
+  cause: 'initialize' | 'rebalance' | 'swap' | 'insufficientProceeds';
+}
+
+export type AuctionStatus =
+  | 'pending'
+  | 'active'
+  | 'earlyExit'
+  | 'insufficientProceeds'
+  | 'completed';
+
+export interface AuctionSimulationResult {
+  status: AuctionStatus;
+  earlyExit: boolean;
+  insufficientProceeds: boolean;
+  totalTokensSold: bigint;
+  totalProceeds: bigint;
+  /** Numeraire per asset, as a Q96 price, or 0 if nothing was sold */
+  averageClearingPriceX96: bigint;
+  tick: number;
+  tickPath: AuctionTickPoint[];
+  rebalances: AuctionRebalance[];
+  trades: AuctionTradeResult[];
+  slugs: AuctionSlugs;
+}
+
+export interface AuctionSimulationOptions {
+  /**
+   * Rebalance at the start of every epoch, as if each epoch saw a swap (e.g.
+   * from a keeper). On-chain the hook only rebalances on the first swap of an
+   * epoch.
+   */
+  rebalanceEveryEpoch?: boolean;
+  /** Time at which to report the auction status. Defaults to endingTime. */
+  until?: bigint;
+}
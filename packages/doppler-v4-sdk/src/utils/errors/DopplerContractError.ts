@@ -0,0 +1,103 @@
+import { Address, Hex } from 'viem';
+import { ModuleState } from '@/entities/factory/ReadFactory';
+
+export interface DopplerContractErrorParameters {
+  /** Name of the custom error, e.g. `WrongModuleState` */
+  errorName: string;
+  /** Decoded error arguments, keyed by parameter name */
+  args: Record<string, unknown>;
+  /** Raw revert data */
+  data: Hex;
+  /** What went wrong, in plain language */
+  explanation: string;
+  /** How to fix it, when there is a known fix */
+  suggestion?: string;
+  /** The error thrown by the transport or adapter */
+  cause?: unknown;
+}
+
+/**
+ * A revert from the Airlock, the Doppler hook, DERC20 or a contract they call,
+ * decoded from its custom error.
+ *
+ * Specific errors are thrown as subclasses, so callers can branch with
+ * `instanceof` or on `errorName`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await factory.simulateCreate(createParams);
+ * } catch (error) {
+ *   if (error instanceof DopplerContractError) {
+ *     console.error(error.explanation);
+ *     if (error.suggestion) console.error(error.suggestion);
+ *   }
+ * }
+ * ```
+ */
+export class DopplerContractError extends Error {
+  name = 'DopplerContractError';
+  readonly errorName: string;
+  readonly args: Record<string, unknown>;
+  readonly data: Hex;
+  readonly explanation: string;
+  readonly suggestion?: string;
+  cause?: unknown;
+
+  constructor(params: DopplerContractErrorParameters) {
+    super(
+      `${params.errorName}: ${params.explanation}` +
+        (params.suggestion ? `\nSuggestion: ${params.suggestion}` : '')
+    );
+    this.errorName = params.errorName;
+    this.args = params.args;
+    this.data = params.data;
+    this.explanation = params.explanation;
+    this.suggestion = params.suggestion;
+    this.cause = params.cause;
+  }
+}
+
+/**
+ * Thrown when a module passed to the Airlock is not whitelisted for the role it
+ * is used in
+ */
+export class WrongModuleStateError extends DopplerContractError {
+  name = 'WrongModuleStateError';
+  readonly module: Address;
+  readonly expected: ModuleState;
+  readonly actual: ModuleState;
+
+  constructor(params: DopplerContractErrorParameters) {
+    super(params);
+    this.module = params.args.module as Address;
+    this.expected = Number(params.args.expected) as ModuleState;
+    this.actual = Number(params.args.actual) as ModuleState;
+  }
+}
+
+/**
+ * Thrown when the Doppler hook is initialized with ticks that do not form a
+ * valid range for the sale direction
+ */
+export class InvalidTickRangeError extends DopplerContractError {
+  name = 'InvalidTickRangeError';
+}
+
+/**
+ * Thrown by DERC20 when a vesting or pre-mint limit is exceeded, or tokens
+ * are released before vesting has started
+ */
+export class VestingError extends DopplerContractError {
+  name = 'VestingError';
+  /** The requested amount, for limit errors */
+  readonly amount?: bigint;
+  /** The limit that was exceeded, for limit errors */
+  readonly limit?: bigint;
+
+  constructor(params: DopplerContractErrorParameters) {
+    super(params);
+    this.amount = params.args.amount as bigint | undefined;
+    this.limit = params.args.limit as bigint | undefined;
+  }
+}
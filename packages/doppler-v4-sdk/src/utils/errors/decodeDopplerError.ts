@@ -0,0 +1,399 @@
+import { Abi, decodeErrorResult, formatEther, Hex, isHex, parseAbi } from 'viem';
+import {
+  airlockAbi,
+  derc20Abi,
+  dopplerAbi,
+  dopplerLensAbi,
+  governanceAbi,
+  poolManagerAbi,
+  timelockAbi,
+  universalRouterAbi,
+} from '@/abis';
+import { ModuleState } from '@/entities/factory/ReadFactory';
+import { ProposalState } from '@/entities/governance/ReadGovernance';
+import {
+  DopplerContractError,
+  DopplerContractErrorParameters,
+  InvalidTickRangeError,
+  VestingError,
+  WrongModuleStateError,
+} from './DopplerContractError';
+
+type ErrorArgs = Record<string, unknown>;
+
+// Decoded token amounts are WAD-scaled bigints
+const formatAmount = (value: unknown): string =>
+  typeof value === 'bigint' ? formatEther(value) : String(value);
+
+interface ErrorDescription {
+  explanation: string | ((args: ErrorArgs) => string);
+  suggestion?: string | ((args: ErrorArgs) => string);
+}
+
+// PoolManager wraps reverts from hooks and tokens in this error, but it is
+// not part of the bundled PoolManager ABI
+const wrappedErrorAbi = parseAbi([
+  'error WrappedError(address target, bytes4 selector, bytes reason, bytes details)',
+]);
+
+const errorAbi = [
+  ...airlockAbi,
+  ...dopplerAbi,
+  ...derc20Abi,
+  ...dopplerLensAbi,
+  ...poolManagerAbi,
+  ...universalRouterAbi,
+  ...governanceAbi,
+  ...timelockAbi,
+  ...wrappedErrorAbi,
+].filter((item) => item.type === 'error') as Abi;
+
+/**
+ * Errors that carry the revert data of an inner call, keyed by the name of the
+ * argument holding it
+ */
+const WRAPPER_ERRORS: Record<string, string> = {
+  UnexpectedRevertBytes: 'revertData',
+  WrappedError: 'reason',
+  ExecutionFailed: 'message',
+};
+
+const VESTING_ERRORS = new Set([
+  'VestingNotStartedYet',
+  'MaxTotalVestedExceeded',
+  'MaxPreMintPerAddressExceeded',
+  'MaxTotalPreMintExceeded',
+]);
+
+const moduleStateName = (state: unknown) =>
+  ModuleState[Number(state)] ?? `state ${state}`;
+
+const ERROR_DESCRIPTIONS: Record<string, ErrorDescription> = {
+  // Airlock
+  WrongModuleState: {
+    explanation: ({ module, expected, actual }) =>
+      `Module ${module} is ${moduleStateName(actual)} on the Airlock, but this call needs a ${moduleStateName(expected)}.`,
+    suggestion:
+      'Check the token factory, governance factory, pool initializer and liquidity migrator addresses against DOPPLER_V4_ADDRESSES for this chain.',
+  },
+  ArrayLengthsMismatch: {
+    explanation: 'Two array arguments that must be the same length are not.',
+    suggestion:
+      'Pass one entry per recipient or module in every array argument.',
+  },
+  OwnableUnauthorizedAccount: {
+    explanation: ({ account }) =>
+      `${account} is not the owner of the contract and cannot call this function.`,
+    suggestion: 'Send the transaction from the owner account.',
+  },
+  // Doppler hook
+  InvalidTickRange: {
+    explanation:
+      'The starting and ending ticks do not form a valid range for the sale direction.',
+    suggestion:
+      'For a token0 sale the start tick must be above the end tick, for a token1 sale below it. Prices passed to buildConfig are flipped for you.',
+  },
+  InvalidTickSpacing: {
+    explanation:
+      'The tick spacing is not supported, or the gamma is not a multiple of it.',
+    suggestion:
+      'Use a tick spacing between 1 and 30 and let buildConfig compute gamma.',
+  },
+  InvalidGamma: {
+    explanation:
+      'Gamma is not a positive multiple of the tick spacing, or the tick range cannot be covered in the sale duration with it.',
+    suggestion:
+      'Let buildConfig compute gamma, or pick one where gamma × epochs ≥ |startTick − endTick|.',
+  },
+  InvalidEpochLength: {
+    explanation: 'The sale duration is not a whole number of epochs.',
+    suggestion: 'Choose a duration that is a multiple of epochLength.',
+  },
+  InvalidTimeRange: {
+    explanation: 'The sale ends before it starts.',
+    suggestion: 'Make sure endingTime is after startingTime.',
+  },
+  InvalidStartTime: {
+    explanation: 'The sale start time has already passed.',
+    suggestion:
+      'Build the config from a recent block timestamp, or set a later startTime.',
+  },
+  InvalidNumPDSlugs: {
+    explanation: 'The number of price discovery slugs is out of range.',
+    suggestion: 'Use between 1 and 15 price discovery slugs.',
+  },
+  InvalidProceedLimits: {
+    explanation: 'Minimum proceeds are greater than maximum proceeds.',
+    suggestion: 'Lower minimumProceeds or raise maximumProceeds.',
+  },
+  CannotSwapBeforeStartTime: {
+    explanation: 'The auction has not started yet.',
+    suggestion: 'Wait until the starting time before swapping.',
+  },
+  MaximumProceedsReached: {
+    explanation:
+      'The auction has raised its maximum proceeds and no longer accepts swaps.',
+    suggestion: 'Migrate the asset, then trade on the migrated pool.',
+  },
+  InvalidSwapAfterMaturitySufficientProceeds: {
+    explanation:
+      'The auction has ended with sufficient proceeds and no longer accepts swaps.',
+    suggestion: 'Migrate the asset, then trade on the migrated pool.',
+  },
+  InvalidSwapAfterMaturityInsufficientProceeds: {
+    explanation:
+      'The auction ended below minimum proceeds, so only sales of the asset back to the pool are allowed.',
+    suggestion: 'Swap the asset for the numeraire to get a refund.',
+  },
+  SwapBelowRange: {
+    explanation: 'The swap would move the price below the lower slug.',
+    suggestion: 'Swap a smaller amount.',
+  },
+  CannotAddLiquidity: {
+    explanation: 'Only the Doppler hook can provide liquidity to its pool.',
+  },
+  CannotDonate: {
+    explanation: 'Donations to Doppler pools are disabled.',
+  },
+  CannotMigrate: {
+    explanation:
+      'The auction has not ended, or it ended without reaching minimum proceeds.',
+    suggestion:
+      'Wait until the auction ends or reaches maximum proceeds before migrating.',
+  },
+  SenderNotInitializer: {
+    explanation: 'Only the pool initializer can call this function.',
+  },
+  // DERC20
+  VestingNotStartedYet: {
+    explanation: 'Vested tokens cannot be released before the pool migrates.',
+    suggestion: 'Call release again once the asset has migrated.',
+  },
+  MaxTotalVestedExceeded: {
+    explanation: ({ amount, limit }) =>
+      `${formatAmount(amount)} tokens are vested in total but at most ${formatAmount(limit)} are allowed.`,
+    suggestion: 'Reduce the vested amounts in the token config.',
+  },
+  MaxPreMintPerAddressExceeded: {
+    explanation: ({ amount, limit }) =>
+      `A recipient is vested ${formatAmount(amount)} tokens but at most ${formatAmount(limit)} per address are allowed.`,
+    suggestion: 'Split the allocation across recipients or reduce it.',
+  },
+  MaxTotalPreMintExceeded: {
+    explanation: ({ amount, limit }) =>
+      `${formatAmount(amount)} tokens are pre-minted but at most ${formatAmount(limit)} are allowed.`,
+    suggestion: 'Reduce the vested amounts in the token config.',
+  },
+  MaxYearlyMintRateExceeded: {
+    explanation: ({ amount, limit }) =>
+      `The yearly mint rate ${formatAmount(amount)} is above the maximum of ${formatAmount(limit)}.`,
+    suggestion: 'Lower yearlyMintRate in the token config.',
+  },
+  MintingNotStartedYet: {
+    explanation:
+      'Inflation cannot be minted before the pool is unlocked at migration.',
+  },
+  NoMintableAmount: {
+    explanation: 'No inflation has accrued since the last mint.',
+  },
+  PoolLocked: {
+    explanation: 'The token cannot be transferred to the pool before migration.',
+  },
+  ERC20InsufficientBalance: {
+    explanation: ({ sender, balance, needed }) =>
+      `${sender} holds ${formatAmount(balance)} tokens but ${formatAmount(needed)} are needed.`,
+  },
+  ERC20InsufficientAllowance: {
+    explanation: ({ spender, allowance, needed }) =>
+      `${spender} is allowed to spend ${formatAmount(allowance)} tokens but ${formatAmount(needed)} are needed.`,
+    suggestion: 'Approve the spender for at least the needed amount.',
+  },
+  // Lens and PoolManager
+  NotEnoughLiquidity: {
+    explanation: 'The pool does not have enough liquidity to quote this swap.',
+  },
+  PoolNotInitialized: {
+    explanation: 'The pool has not been initialized.',
+    suggestion: 'Check the pool key, including the hook address.',
+  },
+  SwapAmountCannotBeZero: {
+    explanation: 'The swap amount is zero.',
+  },
+  WrappedError: {
+    explanation: ({ target }) => `A call to ${target} reverted.`,
+  },
+  // Governor and Timelock
+  GovernorInsufficientProposerVotes: {
+    explanation: ({ proposer, votes, threshold }) =>
+      `${proposer} has ${formatAmount(votes)} votes but ${formatAmount(threshold)} are needed to propose.`,
+    suggestion:
+      'Tokens only count once delegated. Delegate to the proposer, self-delegation included, before the proposal is made.',
+  },
+  GovernorUnexpectedProposalState: {
+    explanation: ({ proposalId, current }) =>
+      `Proposal ${proposalId} is ${ProposalState[Number(current)] ?? `in state ${current}`}, which does not allow this action.`,
+    suggestion:
+      'Vote while Active, queue once Succeeded and execute once Queued and past its eta.',
+  },
+  GovernorNonexistentProposal: {
+    explanation: ({ proposalId }) => `Proposal ${proposalId} does not exist.`,
+    suggestion:
+      'Pass the actions and description exactly as they were proposed.',
+  },
+  GovernorAlreadyCastVote: {
+    explanation: ({ voter }) => `${voter} has already voted on this proposal.`,
+  },
+  GovernorInvalidSignature: {
+    explanation: ({ voter }) => `The ballot was not signed by ${voter}.`,
+    suggestion:
+      "Sign the typed data from getBallotTypedData with the voter's account.",
+  },
+  TimelockUnexpectedOperationState: {
+    explanation: 'The Timelock operation is not ready to run.',
+    suggestion: "Wait until the proposal's eta has passed before executing.",
+  },
+};
+
+const describe = (
+  text: string | ((args: ErrorArgs) => string) | undefined,
+  args: ErrorArgs
+) => (typeof text === 'function' ? text(args) : text);
+
+function createError(
+  params: DopplerContractErrorParameters
+): DopplerContractError {
+  if (params.errorName === 'WrongModuleState') {
+    return new WrongModuleStateError(params);
+  }
+  if (params.errorName === 'InvalidTickRange') {
+    return new InvalidTickRangeError(params);
+  }
+  if (VESTING_ERRORS.has(params.errorName)) {
+    return new VestingError(params);
+  }
+  return new DopplerContractError(params);
+}
+
+function decodeRevertData(
+  data: Hex,
+  cause: unknown
+): DopplerContractError | undefined {
+  let decoded;
+  try {
+    decoded = decodeErrorResult({ abi: errorAbi, data });
+  } catch {
+    return undefined;
+  }
+  const { abiItem, errorName } = decoded;
+  if (abiItem.type !== 'error') return undefined;
+
+  const args: ErrorArgs = Object.fromEntries(
+    abiItem.inputs.map((input, i) => [input.name || i, decoded.args?.[i]])
+  );
+
+  // Report the innermost Doppler error rather than its wrapper
+  const innerData = args[WRAPPER_ERRORS[errorName]];
+  if (isHex(innerData) && innerData.length >= 10) {
+    const inner = decodeRevertData(innerData, cause);
+    if (inner) return inner;
+  }
+
+  const description = ERROR_DESCRIPTIONS[errorName];
+  return createError({
+    errorName,
+    args,
+    data,
+    explanation:
+      describe(description?.explanation, args) ??
+      `The contract reverted with ${errorName}.`,
+    suggestion: describe(description?.suggestion, args),
+    cause,
+  });
+}
+
+/**
+ * Finds hex revert data on an error thrown by Drift or its adapter. Viem and
+ * JSON-RPC errors keep it on `raw` or `data` somewhere in the cause chain.
+ * Drift errors only keep the adapter's message, so messages are searched for
+ * encoded revert data as a last resort.
+ */
+function findRevertData(error: unknown): Hex[] {
+  const found: Hex[] = [];
+  const messages: string[] = [];
+  const seen = new Set<unknown>();
+
+  let current: unknown = error;
+  while (
+    typeof current === 'object' &&
+    current !== null &&
+    !seen.has(current)
+  ) {
+    seen.add(current);
+    const data = 'data' in current ? current.data : undefined;
+    const nested =
+      typeof data === 'object' && data !== null && 'data' in data
+        ? data.data
+        : undefined;
+    const raw = 'raw' in current ? current.raw : undefined;
+    for (const candidate of [raw, data, nested]) {
+      if (isHex(candidate) && candidate.length >= 10) found.push(candidate);
+    }
+    if ('message' in current && typeof current.message === 'string') {
+      messages.push(current.message);
+    }
+    current =
+      'cause' in current && current.cause != null
+        ? current.cause
+        : 'error' in current
+          ? current.error
+          : undefined;
+  }
+
+  for (const message of messages) {
+    found.push(...((message.match(/0x[0-9a-fA-F]{8,}/g) ?? []) as Hex[]));
+  }
+  return found;
+}
+
+/**
+ * Decodes a revert from the Airlock, the Doppler hook, DERC20, the Doppler
+ * lens, the PoolManager or an asset's Governor and Timelock into a typed
+ * error. Reverts wrapped by the PoolManager, the lens or the Universal Router
+ * are unwrapped first.
+ *
+ * @param error - Error thrown by a contract call, or raw revert data
+ * @returns The decoded error, or undefined if no known custom error is found
+ *
+ * @example
+ * ```typescript
+ * const decoded = decodeDopplerError('0x7a0d5b83...');
+ * if (decoded instanceof WrongModuleStateError) {
+ *   console.log(ModuleState[decoded.actual]);
+ * }
+ * ```
+ */
+export function decodeDopplerError(
+  error: unknown
+): DopplerContractError | undefined {
+  if (error instanceof DopplerContractError) return error;
+  if (isHex(error)) return decodeRevertData(error, undefined);
+
+  for (const data of findRevertData(error)) {
+    const decoded = decodeRevertData(data, error);
+    if (decoded) return decoded;
+  }
+  return undefined;
+}
+
+/**
+ * Rethrows an error as a typed {@link DopplerContractError} when it can be
+ * decoded, or unchanged otherwise
+ *
+ * @example
+ * ```typescript
+ * await airlock.simulateWrite('create', { createData }).catch(throwDopplerError);
+ * ```
+ */
+export function throwDopplerError(error: unknown): never {
+  throw decodeDopplerError(error) ?? error;
+}
@@ -0,0 +1,2 @@
+export * from './DopplerContractError';
+export * from './decodeDopplerError';
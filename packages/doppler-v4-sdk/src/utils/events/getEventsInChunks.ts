@@ -0,0 +1,125 @@
+import {
+  Abi,
+  EventLog,
+  EventName,
+  GetEventsOptions,
+  ReadContract,
+} from '@delvtech/drift';
+
+/**
+ * Event query options with optional block-range chunking
+ */
+export interface ChunkedEventsOptions<
+  TAbi extends Abi = Abi,
+  TEventName extends EventName<TAbi> = EventName<TAbi>,
+> extends GetEventsOptions<TAbi, TEventName> {
+  /**
+   * Maximum number of blocks per `eth_getLogs` request. Set this when the RPC
+   * limits log ranges. Without it the whole range is fetched in one request.
+   */
+  chunkSize?: bigint;
+}
+
+/**
+ * Events found in one chunk of the requested block range
+ */
+export interface EventPage<
+  TAbi extends Abi = Abi,
+  TEventName extends EventName<TAbi> = EventName<TAbi>,
+> {
+  fromBlock: bigint;
+  toBlock: bigint;
+  events: EventLog<TAbi, TEventName>[];
+}
+
+async function resolveBlock(
+  client: ReadContract['client'],
+  block: GetEventsOptions['fromBlock']
+): Promise<bigint> {
+  if (typeof block === 'bigint') return block;
+  if (block === 'earliest') return BigInt(0);
+  if (block === undefined || block === 'latest') {
+    return client.getBlockNumber();
+  }
+  const resolved = await client.getBlock(block);
+  if (resolved?.number === undefined) {
+    throw new Error(`Block ${block} not found`);
+  }
+  return resolved.number;
+}
+
+/**
+ * Fetches events one block range at a time, yielding each range as a page
+ *
+ * @param contract - Contract that emits the event
+ * @param event - Event name
+ * @param options - Filter, block range (defaults to the contract's epoch
+ * block through latest) and chunk size
+ *
+ * @example
+ * ```typescript
+ * for await (const page of paginateEvents(airlock, 'Create', { chunkSize: 10_000n })) {
+ *   console.log(page.fromBlock, page.toBlock, page.events.length);
+ * }
+ * ```
+ */
+export async function* paginateEvents<
+  TAbi extends Abi,
+  TEventName extends EventName<TAbi>,
+>(
+  contract: ReadContract<TAbi>,
+  event: TEventName,
+  options: ChunkedEventsOptions<TAbi, TEventName> = {}
+): AsyncGenerator<EventPage<TAbi, TEventName>> {
+  const { chunkSize, fromBlock, toBlock, filter } = options;
+  const start = await resolveBlock(
+    contract.client,
+    fromBlock ?? contract.epochBlock ?? 'earliest'
+  );
+  const end = await resolveBlock(contract.client, toBlock);
+
+  if (chunkSize !== undefined && chunkSize <= BigInt(0)) {
+    throw new Error('Chunk size must be positive');
+  }
+  const step = chunkSize ?? end - start + BigInt(1);
+
+  for (let from = start; from <= end; from += step) {
+    const to = from + step - BigInt(1) < end ? from + step - BigInt(1) : end;
+    const events = await contract.getEvents(event, {
+      filter,
+      fromBlock: from,
+      toBlock: to,
+    });
+    yield { fromBlock: from, toBlock: to, events };
+  }
+}
+
+/**
+ * Fetches all events in a block range, splitting it into chunks of at most
+ * `chunkSize` blocks
+ *
+ * @param contract - Contract that emits the event
+ * @param event - Event name
+ * @param options - Filter, block range and chunk size
+ * @returns Events in block order
+ */
+export async function getEventsInChunks<
+  TAbi extends Abi,
+  TEventName extends EventName<TAbi>,
+>(
+  contract: ReadContract<TAbi>,
+  event: TEventName,
+  options?: ChunkedEventsOptions<TAbi, TEventName>
+): Promise<EventLog<TAbi, TEventName>[]> {
+  // Without chunking, pass block tags straight through in a single request
+  if (options?.chunkSize === undefined) {
+    const { filter, fromBlock, toBlock } = options ?? {};
+    return contract.getEvents(event, { filter, fromBlock, toBlock });
+  }
+
+  const events: EventLog<TAbi, TEventName>[] = [];
+  for await (const page of paginateEvents(contract, event, options)) {
+    events.push(...page.events);
+  }
+  return events;
+}
@@ -0,0 +1,50 @@
+export const Q96 = 1n << 96n;
+export const Q192 = 1n << 192n;
+
+/**
+ * Computes floor(a * b / denominator), as in Uniswap's FullMath
+ */
+export function mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+  if (denominator === 0n) {
+    throw new Error('mulDiv: division by zero');
+  }
+  return (a * b) / denominator;
+}
+
+/**
+ * Computes ceil(a * b / denominator), as in Uniswap's FullMath
+ */
+export function mulDivRoundingUp(
+  a: bigint,
+  b: bigint,
+  denominator: bigint
+): bigint {
+  const result = mulDiv(a, b, denominator);
+  return (a * b) % denominator > 0n ? result + 1n : result;
+}
+
+/**
+ * Computes ceil(a / b) for non-negative values
+ */
+export function divRoundingUp(a: bigint, b: bigint): bigint {
+  return a / b + (a % b > 0n ? 1n : 0n);
+}
+
+/**
+ * Integer square root, rounded down
+ */
+export function sqrt(value: bigint): bigint {
+  if (value < 0n) {
+    throw new Error('sqrt: negative value');
+  }
+  if (value < 2n) {
+    return value;
+  }
+  let x = value;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / 2n;
+  }
+  return x;
+}
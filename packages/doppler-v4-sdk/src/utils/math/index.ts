@@ -0,0 +1,6 @@
+export * from './fullMath';
+export * from './tickMath';
+export * from './sqrtPriceMath';
+export * from './swapMath';
+export * from './liquidityAmounts';
+export * from './price';
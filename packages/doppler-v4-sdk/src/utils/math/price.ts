@@ -0,0 +1,394 @@
+import { Q192, sqrt } from './fullMath';
+import {
+  getSqrtPriceAtTick,
+  getTickAtSqrtPrice,
+  MAX_TICK,
+  MIN_TICK,
+} from './tickMath';
+
+/**
+ * Which way to round a tick: down to the lower tick or up to the higher one
+ */
+export type TickRounding = 'down' | 'up';
+
+/**
+ * An exact non-negative rational number
+ */
+export interface Fraction {
+  numerator: bigint;
+  denominator: bigint;
+}
+
+/**
+ * A price or market cap given as a decimal string, a number or an exact
+ * fraction. Strings are parsed exactly; numbers go through their shortest
+ * decimal representation.
+ */
+export type PriceInput = string | number | Fraction;
+
+/**
+ * The asset and numeraire of a pool, which determine how a human price maps
+ * to the pool's token1/token0 price
+ */
+export interface PricePair {
+  assetDecimals: number;
+  numeraireDecimals: number;
+  /** Whether the asset is currency0 of the pool */
+  isToken0: boolean;
+}
+
+function gcd(a: bigint, b: bigint): bigint {
+  while (b !== 0n) [a, b] = [b, a % b];
+  return a;
+}
+
+function reduce(numerator: bigint, denominator: bigint): Fraction {
+  const divisor = gcd(numerator, denominator);
+  return {
+    numerator: numerator / divisor,
+    denominator: denominator / divisor,
+  };
+}
+
+/**
+ * Parses a price or market cap into an exact fraction
+ *
+ * @param value - Decimal string such as `'0.00012'` or `'1.5e-9'`, number or
+ * fraction
+ * @returns The value as a reduced fraction
+ * @throws {Error} If the value is not a positive finite number
+ */
+export function parseFraction(value: PriceInput): Fraction {
+  if (typeof value === 'object') {
+    if (value.numerator <= 0n || value.denominator <= 0n) {
+      throw new Error('Fraction must be positive');
+    }
+    return reduce(value.numerator, value.denominator);
+  }
+
+  const text = typeof value === 'number' ? value.toString() : value.trim();
+  const match = /^(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error(`Invalid price ${value}`);
+  }
+
+  const [, whole, decimals = '', exponentText] = match;
+  const exponent = Number(exponentText ?? 0) - decimals.length;
+  let numerator = BigInt(`${whole}${decimals}` || '0');
+  let denominator = 1n;
+  if (exponent >= 0) {
+    numerator *= 10n ** BigInt(exponent);
+  } else {
+    denominator = 10n ** BigInt(-exponent);
+  }
+
+  if (numerator === 0n) {
+    throw new Error(`Price ${value} must be positive`);
+  }
+  return reduce(numerator, denominator);
+}
+
+/**
+ * Formats a fraction as a decimal string, rounded down
+ *
+ * @param fraction - Value to format
+ * @param decimals - Digits after the decimal point, 18 by default
+ */
+export function formatFraction(fraction: Fraction, decimals = 18): string {
+  const scaled =
+    (fraction.numerator * 10n ** BigInt(decimals)) / fraction.denominator;
+  const digits = scaled.toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fractional = digits
+    .slice(digits.length - decimals)
+    .replace(/0+$/, '');
+  return fractional ? `${whole}.${fractional}` : whole;
+}
+
+/**
+ * Converts the price of one whole asset in whole numeraire units to the
+ * pool's raw token1/token0 price
+ */
+function toPoolPrice(price: PriceInput, pair: PricePair): Fraction {
+  const { numerator, denominator } = parseFraction(price);
+  const assetUnit = 10n ** BigInt(pair.assetDecimals);
+  const numeraireUnit = 10n ** BigInt(pair.numeraireDecimals);
+
+  // Raw numeraire per raw asset, inverted when the asset is token1
+  return pair.isToken0
+    ? reduce(numerator * numeraireUnit, denominator * assetUnit)
+    : reduce(denominator * assetUnit, numerator * numeraireUnit);
+}
+
+/**
+ * Converts an asset price to a sqrt price
+ *
+ * @param price - Price of one whole asset in whole numeraire units
+ * @param pair - Token decimals and order
+ * @param rounding - Round the sqrt price down or up, down by default
+ * @returns The sqrt price as a Q64.96
+ *
+ * @example
+ * ```typescript
+ * // 1 asset = 0.0001 ETH, with the asset as token1
+ * const sqrtPriceX96 = priceToSqrtPriceX96('0.0001', {
+ *   assetDecimals: 18,
+ *   numeraireDecimals: 18,
+ *   isToken0: false,
+ * });
+ * ```
+ */
+export function priceToSqrtPriceX96(
+  price: PriceInput,
+  pair: PricePair,
+  rounding: TickRounding = 'down'
+): bigint {
+  const { numerator, denominator } = toPoolPrice(price, pair);
+  const scaled = (numerator * Q192) / denominator;
+  const root = sqrt(scaled);
+  const isExact =
+    root * root === scaled && (numerator * Q192) % denominator === 0n;
+  return rounding === 'up' && !isExact ? root + 1n : root;
+}
+
+/**
+ * Converts a sqrt price to the price of one whole asset in whole numeraire
+ * units
+ *
+ * @param sqrtPriceX96 - Sqrt price as a Q64.96
+ * @param pair - Token decimals and order
+ * @returns The exact price as a fraction
+ */
+export function sqrtPriceX96ToPrice(
+  sqrtPriceX96: bigint,
+  pair: PricePair
+): Fraction {
+  const assetUnit = 10n ** BigInt(pair.assetDecimals);
+  const numeraireUnit = 10n ** BigInt(pair.numeraireDecimals);
+  const squared = sqrtPriceX96 * sqrtPriceX96;
+
+  return pair.isToken0
+    ? reduce(squared * assetUnit, Q192 * numeraireUnit)
+    : reduce(Q192 * assetUnit, squared * numeraireUnit);
+}
+
+/**
+ * Converts an asset price to a tick
+ *
+ * @param price - Price of one whole asset in whole numeraire units
+ * @param pair - Token decimals and order
+ * @param rounding - `'down'` for the greatest tick at or below the price,
+ * `'up'` for the least tick at or above it. Ticks rise with the asset price
+ * when the asset is token0 and fall with it when it is token1.
+ * @returns The tick
+ * @throws {Error} If the price is outside the range Uniswap supports
+ */
+export function priceToTick(
+  price: PriceInput,
+  pair: PricePair,
+  rounding: TickRounding = 'down'
+): number {
+  const sqrtPriceX96 = priceToSqrtPriceX96(price, pair, 'down');
+  const tick = getTickAtSqrtPrice(sqrtPriceX96);
+  if (rounding === 'down') return tick;
+
+  const isOnTick =
+    getSqrtPriceAtTick(tick) === sqrtPriceX96 &&
+    priceToSqrtPriceX96(price, pair, 'up') === sqrtPriceX96;
+  return isOnTick ? tick : tick + 1;
+}
+
+/**
+ * Converts a tick to the price of one whole asset in whole numeraire units
+ *
+ * @param tick - Pool tick
+ * @param pair - Token decimals and order
+ * @returns The exact price as a fraction
+ */
+export function tickToPrice(tick: number, pair: PricePair): Fraction {
+  return sqrtPriceX96ToPrice(getSqrtPriceAtTick(tick), pair);
+}
+
+/**
+ * Snaps a tick to a multiple of the tick spacing, staying within the usable
+ * tick range
+ *
+ * @param tick - Tick to snap
+ * @param tickSpacing - Pool tick spacing
+ * @param rounding - Snap down or up, down by default
+ */
+export function snapTick(
+  tick: number,
+  tickSpacing: number,
+  rounding: TickRounding = 'down'
+): number {
+  if (!Number.isInteger(tickSpacing) || tickSpacing <= 0) {
+    throw new Error('Tick spacing must be a positive integer');
+  }
+  const snapped =
+    (rounding === 'down'
+      ? Math.floor(tick / tickSpacing)
+      : Math.ceil(tick / tickSpacing)) * tickSpacing;
+  const minUsable = Math.ceil(MIN_TICK / tickSpacing) * tickSpacing;
+  const maxUsable = Math.floor(MAX_TICK / tickSpacing) * tickSpacing;
+  return Math.min(Math.max(snapped, minUsable), maxUsable);
+}
+
+/**
+ * Converts a fully diluted market cap to the price of one whole asset
+ *
+ * @param marketCap - Market cap in whole numeraire units, or in USD when
+ * `numerairePrice` is given
+ * @param totalSupply - Asset total supply in raw units
+ * @param assetDecimals - Asset decimals
+ * @param numerairePrice - USD price of one whole numeraire
+ * @returns The asset price in whole numeraire units
+ */
+export function marketCapToPrice(
+  marketCap: PriceInput,
+  totalSupply: bigint,
+  assetDecimals: number,
+  numerairePrice?: PriceInput
+): Fraction {
+  if (totalSupply <= 0n) {
+    throw new Error('Total supply must be positive');
+  }
+  const cap = parseFraction(marketCap);
+  const usd = numerairePrice
+    ? parseFraction(numerairePrice)
+    : { numerator: 1n, denominator: 1n };
+  const assetUnit = 10n ** BigInt(assetDecimals);
+
+  return reduce(
+    cap.numerator * usd.denominator * assetUnit,
+    cap.denominator * usd.numerator * totalSupply
+  );
+}
+
+/**
+ * Converts the price of one whole asset to its fully diluted market cap
+ *
+ * @param price - Asset price in whole numeraire units
+ * @param totalSupply - Asset total supply in raw units
+ * @param assetDecimals - Asset decimals
+ * @param numerairePrice - USD price of one whole numeraire, to get the
+ * market cap in USD
+ * @returns The market cap in whole numeraire units, or USD
+ */
+export function priceToMarketCap(
+  price: PriceInput,
+  totalSupply: bigint,
+  assetDecimals: number,
+  numerairePrice?: PriceInput
+): Fraction {
+  const { numerator, denominator } = parseFraction(price);
+  const usd = numerairePrice
+    ? parseFraction(numerairePrice)
+    : { numerator: 1n, denominator: 1n };
+  const assetUnit = 10n ** BigInt(assetDecimals);
+
+  return reduce(
+    numerator * usd.numerator * totalSupply,
+    denominator * usd.denominator * assetUnit
+  );
+}
+
+/**
+ * Converts a fully diluted market cap to a tick snapped to the tick spacing
+ *
+ * @param marketCap - Market cap in whole numeraire units, or in USD when
+ * `options.numerairePrice` is given
+ * @param pair - Token decimals and order
+ * @param options.totalSupply - Asset total supply in raw units
+ * @param options.tickSpacing - Pool tick spacing, 1 by default
+ * @param options.rounding - Tick rounding, down by default
+ * @param options.numerairePrice - USD price of one whole numeraire
+ *
+ * @example
+ * ```typescript
+ * // $50k market cap with ETH at $2,500 and the asset as token1
+ * const tick = marketCapToTick('50000', pair, {
+ *   totalSupply: parseEther('1000000000'),
+ *   tickSpacing: 8,
+ *   numerairePrice: '2500',
+ * });
+ * ```
+ */
+export function marketCapToTick(
+  marketCap: PriceInput,
+  pair: PricePair,
+  options: {
+    totalSupply: bigint;
+    tickSpacing?: number;
+    rounding?: TickRounding;
+    numerairePrice?: PriceInput;
+  }
+): number {
+  const { totalSupply, tickSpacing = 1, rounding = 'down' } = options;
+  const price = marketCapToPrice(
+    marketCap,
+    totalSupply,
+    pair.assetDecimals,
+    options.numerairePrice
+  );
+  return snapTick(priceToTick(price, pair, rounding), tickSpacing, rounding);
+}
+
+/**
+ * Converts a tick to the asset's fully diluted market cap
+ *
+ * @param tick - Pool tick
+ * @param pair - Token decimals and order
+ * @param totalSupply - Asset total supply in raw units
+ * @param numerairePrice - USD price of one whole numeraire, to get the
+ * market cap in USD
+ * @returns The market cap in whole numeraire units, or USD
+ */
+export function tickToMarketCap(
+  tick: number,
+  pair: PricePair,
+  totalSupply: bigint,
+  numerairePrice?: PriceInput
+): Fraction {
+  return priceToMarketCap(
+    tickToPrice(tick, pair),
+    totalSupply,
+    pair.assetDecimals,
+    numerairePrice
+  );
+}
+
+/**
+ * Converts a range of asset prices to a tick range snapped to the tick
+ * spacing. The range is rounded outwards so it covers both prices.
+ *
+ * @param startPrice - Asset price the range starts at
+ * @param endPrice - Asset price the range ends at
+ * @param pair - Token decimals and order
+ * @param tickSpacing - Pool tick spacing
+ * @returns The ticks matching each price, so `startTick` is greater than
+ * `endTick` whenever the tick order is the reverse of the price order
+ */
+export function priceRangeToTicks(
+  startPrice: PriceInput,
+  endPrice: PriceInput,
+  pair: PricePair,
+  tickSpacing: number
+): { startTick: number; endTick: number } {
+  const start = priceToTick(startPrice, pair, 'down');
+  const end = priceToTick(endPrice, pair, 'down');
+  const startIsLower = start <= end;
+
+  return {
+    startTick: snapTick(
+      startIsLower ? start : priceToTick(startPrice, pair, 'up'),
+      tickSpacing,
+      startIsLower ? 'down' : 'up'
+    ),
+    endTick: snapTick(
+      startIsLower ? priceToTick(endPrice, pair, 'up') : end,
+      tickSpacing,
+      startIsLower ? 'up' : 'down'
+    ),
+  };
+}
@@ -0,0 +1,106 @@
+import { divRoundingUp, mulDiv, mulDivRoundingUp, Q96 } from './fullMath';
+
+/**
+ * Amount of token0 between two sqrt prices for a given liquidity, as in
+ * Uniswap's SqrtPriceMath
+ */
+export function getAmount0Delta(
+  sqrtPriceAX96: bigint,
+  sqrtPriceBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean
+): bigint {
+  const [lower, upper] =
+    sqrtPriceAX96 < sqrtPriceBX96
+      ? [sqrtPriceAX96, sqrtPriceBX96]
+      : [sqrtPriceBX96, sqrtPriceAX96];
+  const numerator1 = liquidity << 96n;
+  const numerator2 = upper - lower;
+
+  return roundUp
+    ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, upper), lower)
+    : mulDiv(numerator1, numerator2, upper) / lower;
+}
+
+/**
+ * Amount of token1 between two sqrt prices for a given liquidity, as in
+ * Uniswap's SqrtPriceMath
+ */
+export function getAmount1Delta(
+  sqrtPriceAX96: bigint,
+  sqrtPriceBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean
+): bigint {
+  const [lower, upper] =
+    sqrtPriceAX96 < sqrtPriceBX96
+      ? [sqrtPriceAX96, sqrtPriceBX96]
+      : [sqrtPriceBX96, sqrtPriceAX96];
+
+  return roundUp
+    ? mulDivRoundingUp(liquidity, upper - lower, Q96)
+    : mulDiv(liquidity, upper - lower, Q96);
+}
+
+function getNextSqrtPriceFromAmount0RoundingUp(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+  add: boolean
+): bigint {
+  if (amount === 0n) return sqrtPriceX96;
+  const numerator1 = liquidity << 96n;
+  const product = amount * sqrtPriceX96;
+
+  if (add) {
+    return mulDivRoundingUp(numerator1, sqrtPriceX96, numerator1 + product);
+  }
+  if (numerator1 <= product) {
+    throw new Error('Insufficient liquidity for output amount');
+  }
+  return mulDivRoundingUp(numerator1, sqrtPriceX96, numerator1 - product);
+}
+
+function getNextSqrtPriceFromAmount1RoundingDown(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+  add: boolean
+): bigint {
+  if (add) {
+    return sqrtPriceX96 + (amount << 96n) / liquidity;
+  }
+  const quotient = divRoundingUp(amount << 96n, liquidity);
+  if (sqrtPriceX96 <= quotient) {
+    throw new Error('Insufficient liquidity for output amount');
+  }
+  return sqrtPriceX96 - quotient;
+}
+
+/**
+ * Next sqrt price after swapping `amountIn` of the input token
+ */
+export function getNextSqrtPriceFromInput(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amountIn: bigint,
+  zeroForOne: boolean
+): bigint {
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount0RoundingUp(sqrtPriceX96, liquidity, amountIn, true)
+    : getNextSqrtPriceFromAmount1RoundingDown(sqrtPriceX96, liquidity, amountIn, true);
+}
+
+/**
+ * Next sqrt price after swapping out `amountOut` of the output token
+ */
+export function getNextSqrtPriceFromOutput(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amountOut: bigint,
+  zeroForOne: boolean
+): bigint {
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount1RoundingDown(sqrtPriceX96, liquidity, amountOut, false)
+    : getNextSqrtPriceFromAmount0RoundingUp(sqrtPriceX96, liquidity, amountOut, false);
+}
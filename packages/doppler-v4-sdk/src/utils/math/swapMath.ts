@@ -0,0 +1,104 @@
+import { mulDiv, mulDivRoundingUp } from './fullMath';
+import {
+  getAmount0Delta,
+  getAmount1Delta,
+  getNextSqrtPriceFromInput,
+  getNextSqrtPriceFromOutput,
+} from './sqrtPriceMath';
+
+export const MAX_SWAP_FEE = 1_000_000n;
+
+export interface SwapStep {
+  sqrtPriceNextX96: bigint;
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+}
+
+/**
+ * Computes one step of a swap within a single liquidity range, as in
+ * Uniswap's SwapMath
+ *
+ * @param sqrtPriceCurrentX96 - Current sqrt price
+ * @param sqrtPriceTargetX96 - Price the step may not pass
+ * @param liquidity - Active liquidity
+ * @param amountRemaining - Positive for exact input, negative for exact output
+ * @param feePips - Fee in hundredths of a bip
+ */
+export function computeSwapStep(
+  sqrtPriceCurrentX96: bigint,
+  sqrtPriceTargetX96: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feePips: number
+): SwapStep {
+  const fee = BigInt(feePips);
+  const zeroForOne = sqrtPriceCurrentX96 >= sqrtPriceTargetX96;
+  const exactIn = amountRemaining >= 0n;
+
+  let sqrtPriceNextX96: bigint;
+  let amountIn = 0n;
+  let amountOut = 0n;
+
+  if (exactIn) {
+    const amountRemainingLessFee = mulDiv(
+      amountRemaining,
+      MAX_SWAP_FEE - fee,
+      MAX_SWAP_FEE
+    );
+    amountIn = zeroForOne
+      ? getAmount0Delta(sqrtPriceTargetX96, sqrtPriceCurrentX96, liquidity, true)
+      : getAmount1Delta(sqrtPriceCurrentX96, sqrtPriceTargetX96, liquidity, true);
+    sqrtPriceNextX96 =
+      amountRemainingLessFee >= amountIn
+        ? sqrtPriceTargetX96
+        : getNextSqrtPriceFromInput(
+            sqrtPriceCurrentX96,
+            liquidity,
+            amountRemainingLessFee,
+            zeroForOne
+          );
+  } else {
+    amountOut = zeroForOne
+      ? getAmount1Delta(sqrtPriceTargetX96, sqrtPriceCurrentX96, liquidity, false)
+      : getAmount0Delta(sqrtPriceCurrentX96, sqrtPriceTargetX96, liquidity, false);
+    sqrtPriceNextX96 =
+      -amountRemaining >= amountOut
+        ? sqrtPriceTargetX96
+        : getNextSqrtPriceFromOutput(
+            sqrtPriceCurrentX96,
+            liquidity,
+            -amountRemaining,
+            zeroForOne
+          );
+  }
+
+  const max = sqrtPriceTargetX96 === sqrtPriceNextX96;
+
+  if (zeroForOne) {
+    if (!max || !exactIn) {
+      amountIn = getAmount0Delta(sqrtPriceNextX96, sqrtPriceCurrentX96, liquidity, true);
+    }
+    if (!max || exactIn) {
+      amountOut = getAmount1Delta(sqrtPriceNextX96, sqrtPriceCurrentX96, liquidity, false);
+    }
+  } else {
+    if (!max || !exactIn) {
+      amountIn = getAmount1Delta(sqrtPriceCurrentX96, sqrtPriceNextX96, liquidity, true);
+    }
+    if (!max || exactIn) {
+      amountOut = getAmount0Delta(sqrtPriceCurrentX96, sqrtPriceNextX96, liquidity, false);
+    }
+  }
+
+  if (!exactIn && amountOut > -amountRemaining) {
+    amountOut = -amountRemaining;
+  }
+
+  const feeAmount =
+    exactIn && sqrtPriceNextX96 !== sqrtPriceTargetX96
+      ? amountRemaining - amountIn
+      : mulDivRoundingUp(amountIn, fee, MAX_SWAP_FEE - fee);
+
+  return { sqrtPriceNextX96, amountIn, amountOut, feeAmount };
+}
@@ -0,0 +1,82 @@
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_PRICE = 4295128739n;
+export const MAX_SQRT_PRICE =
+  1461446703485210103287273052203988822378723970342n;
+
+// Q128 multipliers for 1.0001^(-2^i / 2), from Uniswap's TickMath
+const TICK_MULTIPLIERS: [number, bigint][] = [
+  [0x2, 0xfff97272373d413259a46990580e213an],
+  [0x4, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+  [0x8, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+  [0x10, 0xffcb9843d60f6159c9db58835c926644n],
+  [0x20, 0xff973b41fa98c081472e6896dfb254c0n],
+  [0x40, 0xff2ea16466c96a3843ec78b326b52861n],
+  [0x80, 0xfe5dee046a99a2a811c461f1969c3053n],
+  [0x100, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+  [0x200, 0xf987a7253ac413176f2b074cf7815e54n],
+  [0x400, 0xf3392b0822b70005940c7a398e4b70f3n],
+  [0x800, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+  [0x1000, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+  [0x2000, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+  [0x4000, 0x70d869a156d2a1b890bb3df62baf32f7n],
+  [0x8000, 0x31be135f97d08fd981231505542fcfa6n],
+  [0x10000, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+  [0x20000, 0x5d6af8dedb81196699c329225ee604n],
+  [0x40000, 0x2216e584f5fa1ea926041bedfe98n],
+  [0x80000, 0x48a170391f7dc42444e8fa2n],
+];
+
+/**
+ * Computes sqrt(1.0001^tick) * 2^96, matching Uniswap's TickMath exactly
+ * @param tick - The tick to convert
+ * @returns The sqrt price as a Q64.96
+ * @throws {Error} If the tick is outside [MIN_TICK, MAX_TICK]
+ */
+export function getSqrtPriceAtTick(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw new Error(`Tick ${tick} is out of range`);
+  }
+  const absTick = Math.abs(tick);
+
+  let ratio =
+    absTick & 0x1
+      ? 0xfffcb933bd6fad37aa2d162d1a594001n
+      : 0x100000000000000000000000000000000n;
+  for (const [bit, multiplier] of TICK_MULTIPLIERS) {
+    if (absTick & bit) {
+      ratio = (ratio * multiplier) >> 128n;
+    }
+  }
+  if (tick > 0) {
+    ratio = ((1n << 256n) - 1n) / ratio;
+  }
+
+  // Round up so that getTickAtSqrtPrice(getSqrtPriceAtTick(tick)) === tick
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+/**
+ * Computes the greatest tick whose sqrt price is at or below `sqrtPriceX96`
+ * @param sqrtPriceX96 - The sqrt price as a Q64.96
+ * @returns The tick
+ * @throws {Error} If the price is outside [MIN_SQRT_PRICE, MAX_SQRT_PRICE)
+ */
+export function getTickAtSqrtPrice(sqrtPriceX96: bigint): number {
+  if (sqrtPriceX96 < MIN_SQRT_PRICE || sqrtPriceX96 >= MAX_SQRT_PRICE) {
+    throw new Error(`Sqrt price ${sqrtPriceX96} is out of range`);
+  }
+
+  // Binary search over the exact forward conversion
+  let low = MIN_TICK;
+  let high = MAX_TICK;
+  while (low < high) {
+    const mid = Math.floor((low + high + 1) / 2);
+    if (getSqrtPriceAtTick(mid) <= sqrtPriceX96) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
@@ -24,6 +24,7 @@ export default defineConfig({
   external: [
     '@uniswap/sdk-core',
     '@delvtech/drift',
+    '@delvtech/drift-viem',
     '@uniswap/v4-sdk',
     'viem'
   ]